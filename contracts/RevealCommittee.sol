@@ -0,0 +1,378 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./SalaryLens.sol";
+
+/**
+ * @title RevealCommittee
+ * @notice Committee-approved reveals: an average is only made decryptable once M of N members agree
+ * @dev A member proposes revealing the average of a pool's round, or a statistic it can be derived
+ *      from (see `Reveal`), with `propose()`, which counts as their approval. Other members approve
+ *      it with `approve()`; the approval that reaches `threshold` calls the matching SalaryLens
+ *      request, which makes the values publicly decryptable. A proposal that has not reached the
+ *      threshold within `proposalLifetime` expires and a new one must be made. The usual reveal
+ *      checks (closed round, `minSubmissions`, pause) are made by SalaryLens when the last approval
+ *      arrives, which reverts if they fail.
+ *
+ *      SalaryLens stores the decrypted statistics per requester, so anyone can `verify()` an
+ *      executed proposal through the committee; the values are then read from SalaryLens with
+ *      the committee's address as the user (e.g. `getLastStats(poolId, roundId, committee)`).
+ *
+ *      The members and threshold are fixed at deployment; to change them, deploy a new committee
+ *      and set it on SalaryLens with `setRevealCommittee()`.
+ */
+contract RevealCommittee {
+    /**
+     * @notice What a proposal reveals
+     */
+    enum Reveal {
+        /// @notice The average (`requestAverageDecryption()`)
+        Average,
+        /// @notice The mean and variance (`requestStatsDecryption()`)
+        Stats,
+        /// @notice The average bonus (`requestCompensationDecryption()`)
+        BonusAverage,
+        /// @notice The average equity (`requestCompensationDecryption()`)
+        EquityAverage,
+        /// @notice The average total compensation (`requestCompensationDecryption()`)
+        CompensationAverage
+    }
+
+    /**
+     * @notice A proposed reveal and its approvals
+     * @param poolId The pool whose average to reveal
+     * @param roundId The round whose average to reveal
+     * @param proposer The member who made the proposal
+     * @param expiresAt Unix timestamp after which the proposal can no longer be approved
+     * @param approvals Number of members who approved, the proposer included
+     * @param executed Whether the threshold was reached and the reveal requested
+     * @param reveal What to reveal
+     */
+    struct Proposal {
+        uint256 poolId;
+        uint256 roundId;
+        address proposer;
+        uint64 expiresAt;
+        uint32 approvals;
+        bool executed;
+        Reveal reveal;
+    }
+
+    /// @notice Most members a committee can have
+    uint256 public constant MAX_MEMBERS = 16;
+
+    /// @notice The SalaryLens deployment whose averages the committee reveals
+    SalaryLens public immutable salaryLens;
+
+    /// @notice Number of approvals (M) a proposal needs before the reveal is requested
+    uint256 public immutable threshold;
+
+    /// @notice How long a proposal can be approved for, in seconds
+    uint256 public immutable proposalLifetime;
+
+    /// @notice The committee members (N), in the order they were given
+    address[] private members;
+
+    /// @notice Whether an address is a committee member
+    mapping(address => bool) public isMember;
+
+    /// @notice Every proposal made, indexed by proposal ID
+    Proposal[] private proposals;
+
+    /// @notice Whether a member approved a proposal (proposal ID => member => approved)
+    mapping(uint256 => mapping(address => bool)) public hasApproved;
+
+    /// @notice Ciphertext handles each executed proposal made publicly decryptable
+    mapping(uint256 => bytes32[]) private revealedHandles;
+
+    /**
+     * @notice Emitted when a member proposes a reveal
+     * @param proposalId The ID assigned to the proposal
+     * @param poolId The pool whose average would be revealed
+     * @param roundId The round whose average would be revealed
+     * @param reveal What would be revealed
+     * @param proposer The member who made the proposal
+     * @param expiresAt Unix timestamp after which the proposal can no longer be approved
+     */
+    event RevealProposed(
+        uint256 indexed proposalId,
+        uint256 indexed poolId,
+        uint256 roundId,
+        Reveal reveal,
+        address indexed proposer,
+        uint64 expiresAt
+    );
+
+    /**
+     * @notice Emitted when a member approves a proposal (including the proposer's own approval)
+     * @param proposalId The approved proposal
+     * @param member The approving member
+     * @param approvals Number of approvals so far
+     */
+    event RevealApproved(uint256 indexed proposalId, address indexed member, uint256 approvals);
+
+    /**
+     * @notice Emitted when a proposal reaches the threshold and the reveal is requested
+     * @param proposalId The executed proposal
+     * @param handles The ciphertext handles of the revealed values, now publicly decryptable
+     */
+    event RevealExecuted(uint256 indexed proposalId, bytes32[] handles);
+
+    /// @notice Thrown when the members are empty, too many, duplicated or include address(0)
+    error InvalidMembers();
+
+    /// @notice Thrown when the threshold is zero or above the number of members
+    error InvalidThreshold();
+
+    /// @notice Thrown when the proposal lifetime is zero
+    error InvalidLifetime();
+
+    /// @notice Thrown when a non-member proposes or approves
+    error NotMember();
+
+    /// @notice Thrown when the proposal ID has not been assigned
+    error ProposalDoesNotExist();
+
+    /// @notice Thrown when approving a proposal after it expired
+    error ProposalExpired();
+
+    /// @notice Thrown when approving a proposal that was already executed
+    error ProposalAlreadyExecuted();
+
+    /// @notice Thrown when a member approves the same proposal twice
+    error AlreadyApproved();
+
+    /// @notice Thrown when verifying a proposal that has not been executed
+    error ProposalNotExecuted();
+
+    /// @notice Reverts unless the caller is a committee member
+    modifier onlyMember() {
+        if (!isMember[msg.sender]) {
+            revert NotMember();
+        }
+        _;
+    }
+
+    /**
+     * @notice Initializes the committee for a SalaryLens deployment
+     * @param _salaryLens The SalaryLens contract whose averages to reveal
+     * @param _members The committee members (at most `MAX_MEMBERS`, no duplicates)
+     * @param _threshold Number of approvals a reveal needs (1 to the number of members)
+     * @param _proposalLifetime How long a proposal can be approved for, in seconds
+     */
+    constructor(SalaryLens _salaryLens, address[] memory _members, uint256 _threshold, uint256 _proposalLifetime) {
+        if (_members.length == 0 || _members.length > MAX_MEMBERS) {
+            revert InvalidMembers();
+        }
+        if (_threshold == 0 || _threshold > _members.length) {
+            revert InvalidThreshold();
+        }
+        if (_proposalLifetime == 0) {
+            revert InvalidLifetime();
+        }
+
+        for (uint256 i = 0; i < _members.length; i++) {
+            if (_members[i] == address(0) || isMember[_members[i]]) {
+                revert InvalidMembers();
+            }
+            isMember[_members[i]] = true;
+        }
+
+        salaryLens = _salaryLens;
+        members = _members;
+        threshold = _threshold;
+        proposalLifetime = _proposalLifetime;
+    }
+
+    /**
+     * @notice Propose revealing the average of a pool's round, or a statistic derived from it
+     * @dev Counts as the proposer's approval, so with a threshold of 1 the reveal is requested
+     *      straight away. Nothing stops several proposals for the same round; once one is
+     *      executed the others are redundant but harmless, since SalaryLens reuses the average
+     *      of an unchanged round.
+     *
+     * @param poolId The pool whose average to reveal
+     * @param roundId The round whose average to reveal
+     * @param reveal What to reveal
+     * @return proposalId The ID assigned to the proposal
+     *
+     * @custom:emits RevealProposed and RevealApproved (and RevealExecuted if the threshold is 1)
+     */
+    function propose(
+        uint256 poolId,
+        uint256 roundId,
+        Reveal reveal
+    ) external onlyMember returns (uint256 proposalId) {
+        proposalId = proposals.length;
+        uint64 expiresAt = uint64(block.timestamp + proposalLifetime);
+        proposals.push(
+            Proposal({
+                poolId: poolId,
+                roundId: roundId,
+                proposer: msg.sender,
+                expiresAt: expiresAt,
+                approvals: 0,
+                executed: false,
+                reveal: reveal
+            })
+        );
+
+        emit RevealProposed(proposalId, poolId, roundId, reveal, msg.sender, expiresAt);
+
+        _approve(proposalId);
+    }
+
+    /**
+     * @notice Approve a pending proposal
+     * @dev The approval that reaches the threshold requests the reveal from SalaryLens and
+     *      reverts (keeping the proposal pending) if the round cannot be revealed yet, e.g.
+     *      because it is still open or below `minSubmissions`.
+     *
+     * @param proposalId The proposal to approve
+     *
+     * @custom:emits RevealApproved (and RevealExecuted once the threshold is reached)
+     */
+    function approve(uint256 proposalId) external onlyMember {
+        if (proposalId >= proposals.length) {
+            revert ProposalDoesNotExist();
+        }
+
+        _approve(proposalId);
+    }
+
+    /**
+     * @notice Verify the decryption of an executed proposal's values in SalaryLens
+     * @dev Anyone can call it with the relayer's public decryption of `getRevealedHandles()`.
+     *      The average is shared by everyone; the other statistics are stored for the committee.
+     *
+     * @param proposalId The executed proposal
+     * @param abiEncodedCleartexts ABI-encoded decrypted values, in handle order
+     * @param decryptionProof KMS signatures proving the decryption is valid
+     */
+    function verify(
+        uint256 proposalId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        if (proposalId >= proposals.length) {
+            revert ProposalDoesNotExist();
+        }
+        Proposal storage proposal = proposals[proposalId];
+        if (!proposal.executed) {
+            revert ProposalNotExecuted();
+        }
+
+        if (proposal.reveal == Reveal.Average) {
+            salaryLens.verifyDecryption(proposal.poolId, proposal.roundId, abiEncodedCleartexts, decryptionProof);
+        } else if (proposal.reveal == Reveal.Stats) {
+            salaryLens.verifyStatsDecryption(proposal.poolId, proposal.roundId, abiEncodedCleartexts, decryptionProof);
+        } else {
+            salaryLens.verifyCompensationDecryption(
+                proposal.poolId,
+                proposal.roundId,
+                _component(proposal.reveal),
+                abiEncodedCleartexts,
+                decryptionProof
+            );
+        }
+    }
+
+    /**
+     * @notice Get a proposal
+     * @param proposalId The proposal to read
+     * @return The proposal
+     */
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        if (proposalId >= proposals.length) {
+            revert ProposalDoesNotExist();
+        }
+
+        return proposals[proposalId];
+    }
+
+    /**
+     * @notice Get the ciphertext handles an executed proposal made publicly decryptable
+     * @param proposalId The proposal to read
+     * @return The handles, in the order `verify()` expects their values (empty until executed)
+     */
+    function getRevealedHandles(uint256 proposalId) external view returns (bytes32[] memory) {
+        return revealedHandles[proposalId];
+    }
+
+    /**
+     * @notice Get the number of proposals made
+     * @return The number of proposals (the next proposal ID)
+     */
+    function proposalCount() external view returns (uint256) {
+        return proposals.length;
+    }
+
+    /**
+     * @notice Get the committee members
+     * @return The member addresses
+     */
+    function getMembers() external view returns (address[] memory) {
+        return members;
+    }
+
+    /**
+     * @notice Record the caller's approval and request the reveal once the threshold is reached
+     * @param proposalId An existing proposal
+     */
+    function _approve(uint256 proposalId) internal {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.executed) {
+            revert ProposalAlreadyExecuted();
+        }
+        if (block.timestamp > proposal.expiresAt) {
+            revert ProposalExpired();
+        }
+        if (hasApproved[proposalId][msg.sender]) {
+            revert AlreadyApproved();
+        }
+
+        hasApproved[proposalId][msg.sender] = true;
+        uint32 approvals = ++proposal.approvals;
+
+        emit RevealApproved(proposalId, msg.sender, approvals);
+
+        if (approvals >= threshold) {
+            proposal.executed = true;
+            bytes32[] storage handles = revealedHandles[proposalId];
+            if (proposal.reveal == Reveal.Average) {
+                handles.push(salaryLens.requestAverageDecryption(proposal.poolId, proposal.roundId));
+            } else if (proposal.reveal == Reveal.Stats) {
+                (bytes32 meanHandle, bytes32 varianceHandle) = salaryLens.requestStatsDecryption(
+                    proposal.poolId,
+                    proposal.roundId
+                );
+                handles.push(meanHandle);
+                handles.push(varianceHandle);
+            } else {
+                handles.push(
+                    salaryLens.requestCompensationDecryption(
+                        proposal.poolId,
+                        proposal.roundId,
+                        _component(proposal.reveal)
+                    )
+                );
+            }
+
+            emit RevealExecuted(proposalId, handles);
+        }
+    }
+
+    /**
+     * @notice Get the SalaryLens statistic of a compensation reveal
+     * @param reveal `Reveal.BonusAverage`, `Reveal.EquityAverage` or `Reveal.CompensationAverage`
+     */
+    function _component(Reveal reveal) internal pure returns (SalaryLens.Statistic) {
+        if (reveal == Reveal.BonusAverage) {
+            return SalaryLens.Statistic.BonusAverage;
+        }
+        if (reveal == Reveal.EquityAverage) {
+            return SalaryLens.Statistic.EquityAverage;
+        }
+        return SalaryLens.Statistic.CompensationAverage;
+    }
+}
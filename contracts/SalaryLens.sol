@@ -4,6 +4,9 @@ pragma solidity ^0.8.24;
 import "@fhevm/solidity/lib/FHE.sol";
 import "@fhevm/solidity/config/ZamaConfig.sol";
 import "encrypted-types/EncryptedTypes.sol";
+import "./interfaces/IMembershipVerifier.sol";
+import "./libraries/EncryptedStats.sol";
+import "./libraries/SalaryRounds.sol";
 
 /**
  * @title SalaryLens (V2 - fhevm-solidity 0.9.x)
@@ -13,52 +16,377 @@ import "encrypted-types/EncryptedTypes.sol";
  *      revealing individual inputs. Uses the new fhevm-solidity 0.9.x architecture.
  *
  * ## How It Works
- * 1. Users submit their salaries in encrypted form using `addSalary()`
- * 2. The contract maintains an encrypted running total and a plaintext count
- * 3. Anyone can request the average via `requestAverageDecryption()` which:
- *    - Computes encrypted average (total / count)
+ * 1. An admin creates one or more named pools via `createPool()` (e.g. per role, location or level)
+ *    and an operator opens a submission round (e.g. a quarterly survey) with `openRound()`
+ * 2. While the round is open, users submit their salaries in encrypted form using `addSalary()`.
+ *    If an admin set an eligibility root with `setEligibilityRoot()`, submitters must prove with a
+ *    Merkle proof that their address is on the pool's allowlist
+ * 3. Pools can instead run in anonymous mode (`setMembershipGroup()`): submitters prove membership of
+ *    a group with a zero-knowledge proof and a per-round nullifier via `addSalaryAnonymous()`, so
+ *    one-per-person is enforced without recording who took part, and anyone may relay the transaction
+ * 4. Admins can set encrypted salary bounds per pool with `setSalaryBounds()`. Every submission is
+ *    clamped into them obliviously (FHE.max() + FHE.min()) before it is aggregated, and an encrypted
+ *    "accepted" flag records whether it was in range (handle from `getAcceptedHandle()`)
+ * 5. Each round of each pool maintains its own encrypted running total (a 64-bit `euint64`, so it
+ *    cannot overflow however many 32-bit salaries are summed) and plaintext count
+ * 6. Once a round has ended (or was closed with `closeRound()`), its aggregates are frozen (except
+ *    for withdrawals, see 11). If it
+ *    has at least `minSubmissions` salaries, anyone can request its average
+ *    via `requestAverageDecryption()` which:
+ *    - Computes encrypted average (total / count), unless one was already computed for the
+ *      round's current data version (bumped on every submission, update and withdrawal)
  *    - Marks it as publicly decryptable via FHE.makePubliclyDecryptable()
- * 4. Off-chain relayer decrypts and submits proof
- * 5. Contract verifies proof via FHE.checkSignatures()
+ * 7. Off-chain relayer decrypts and submits proof
+ * 8. Contract verifies proof via FHE.checkSignatures() and stores the result once for everyone,
+ *    with its sample size, data version and block number (`getLatestVerifiedAverage()`). Every verified average
+ *    is also appended to the pool's history with its round, count, block and timestamp
+ *    (`getAverageHistory()`), so trends can be followed across rounds
+ * 9. The lowest and highest salary of a round are tracked with FHE.min()/FHE.max() and can be
+ *    revealed through the same flow with `requestRangeDecryption()` / `verifyRangeDecryption()`.
+ *    An encrypted sum of squares is kept next to the total, so the mean and variance can be
+ *    revealed together with `requestStatsDecryption()` / `verifyStatsDecryption()`.
+ *    The median and quartiles are estimated from encrypted counts of salaries below each of the
+ *    pool's percentile edges (`setPercentileEdges()`); only the estimate is ever decrypted, via
+ *    `requestPercentileDecryption()` / `verifyPercentileDecryption()`
+ * 10. Each round keeps encrypted per-band counters for the pool's salary band edges. Every submission
+ *     increments the matching band obliviously (FHE.ge() + FHE.select()), and all band counts
+ *     can be revealed together with `requestHistogramDecryption()` / `verifyHistogramDecryption()`.
+ *     These oblivious counter updates live in the linked `EncryptedStats` library, and the round
+ *     bookkeeping (submissions, range rebuilds, reveal requests) in the linked `SalaryRounds` library
+ * 11. Submitters can replace their salary with `updateSalary()` or remove it with `withdrawSalary()`
+ *     (or the anonymous variants). Both keep the total and band counters exact. The min/max cannot
+ *     be narrowed homomorphically, so they are marked outdated and must be recomputed with
+ *     `rebuildRange()` before the next reveal. Withdrawals also work in closed rounds, to honour
+ *     data-deletion requests; they discard the round's cached and verified average, comparisons
+ *     and pay gap, which are then computed again from the remaining salaries.
+ * 12. Every address-mode submitter is granted ACL access to their own stored ciphertext and accepted
+ *     flag, so they can user-decrypt the value that was recorded (handle from `getSubmissionHandle()`).
+ *     Once a round is closed, they can also learn whether they are below, within 10% of, or above
+ *     its average with `compareToAverage()`, as an encrypted position only they can decrypt
+ * 13. Pools can name two cohorts with `setCohorts()` (e.g. to measure pay equity). Their rounds take
+ *     an encrypted cohort flag with each salary via `addSalaryWithCohort()` and keep an encrypted
+ *     total and size of one cohort, updated with FHE.select() on the flag. Once a round is closed,
+ *     `computePayGap()` divides out both cohort averages in chunks, and only the gap between them is
+ *     revealed with `requestPayGapDecryption()` / `verifyPayGapDecryption()`
+ * 14. `addCompensation()` submits a base salary, bonus and equity under one input proof. Bonus and
+ *     equity have their own encrypted totals, from which `requestCompensationDecryption()` reveals
+ *     their averages or the average total compensation
+ * 15. Employees without ETH can sign an EIP-712 salary intent and have any relayer submit it through
+ *     the `SalaryRelay` contract set with `setRelay()`, which checks the signature, nonce and deadline
+ *     and calls `addSalaryFor()`. The submission counts for the signer exactly like `addSalary()`
+ * 16. Admins can bulk-load a payroll export with `importSalaries()`: many salaries under one input
+ *     proof, each keyed by a row ID so re-sent rows are skipped. Imported salaries have no receipt
+ * 17. Organisations get their own isolated instance from `SalaryLensFactory`, which deploys minimal
+ *     proxy clones of one SalaryLens and sets them up with `initialize()` instead of the constructor
+ * 18. The owner can delegate pool settings and imports to admins and round control to operators with
+ *     `grantRole()`. Operators and admins can `pause()` new salaries and reveal requests if a survey or
+ *     frontend goes wrong; only an admin can `unpause()`. Ownership is handed over in two steps with
+ *     `transferOwnership()` and `acceptOwnership()`, so it cannot be sent to a mistyped address
+ * 19. The owner can grant the auditor role to up to `MAX_AUDITORS` accounts. Every update of a
+ *     round's aggregates grants them ACL access to the new handles (from `getAuditHandles()` and
+ *     `getAuditBreakdownHandles()`), so they can user-decrypt and check the aggregates before
+ *     anything is published. An auditor appointed later gets access to a round's current handles with
+ *     `requestAuditAccess()`
+ * 20. Averages can instead be revealed by committee: once the owner sets a `RevealCommittee` with
+ *     `setRevealCommittee()`, only it can call `requestAverageDecryption()`,
+ *     `requestStatsDecryption()` (whose mean is the average) and `requestCompensationDecryption()`
+ *     (whose total compensation less bonus and equity is the average), which it does when M of its
+ *     N members have approved a member's proposal on-chain before the proposal expired
  *
  * ## Security Considerations
- * - Individual salaries are NEVER revealed on-chain
- * - Only the aggregate average can be decrypted
+ * - Individual salaries are NEVER revealed on-chain; each submitter can only user-decrypt their own
+ * - Only the aggregates (average, lowest and highest salary, band counts, compensation averages)
+ *   can be decrypted
+ * - The per-bucket counts behind percentile estimates are never decrypted; a reveal only discloses
+ *   the percentile edge the estimate falls on
+ * - The band a salary falls into is never revealed: every band counter is updated on every
+ *   submission, with an encrypted 0 or 1
+ * - Averages of rounds with fewer than `minSubmissions` salaries cannot be decrypted (k-anonymity),
+ *   so a single submitter's salary is never revealed as "the average"
+ * - Aggregates are only revealed once a round is closed, so they cannot be decrypted before and
+ *   after a single submission to learn that salary by difference. The one exception is a
+ *   withdrawal from a closed round: a deletion request takes precedence, so aggregates revealed
+ *   before and after it differ by the withdrawn salary
+ * - An average comparison is only available on closed rounds, so it cannot be repeated after
+ *   updating one's salary to binary-search the average
+ * - A pay gap is revealed as whether both cohorts reach `minSubmissions`, which cohort earns more
+ *   and by how much; it is zeroed unless both do. Cohort sizes, totals and averages are never
+ *   decrypted, but anyone who knows the cohort sizes and the round average can derive both cohort
+ *   averages from the gap, so cohorts should be large
+ * - Submitters are not granted access to the running total, which would otherwise let them
+ *   subtract their own salary and learn the previous submitter's
+ * - Out-of-range salaries are clamped rather than rejected: the transaction, the count and the events
+ *   are identical whether or not a value was in range, so nothing about it leaks. The bounds
+ *   themselves are encrypted, so submitters cannot aim for the edge of the accepted range
+ * - A withdrawn salary is subtracted from every aggregate, and the outdated min/max (which may
+ *   still equal it) cannot be revealed until it has been rebuilt from the remaining salaries
+ * - Without an eligibility root any address can submit once per round, so one person with many
+ *   wallets could skew the aggregates; pools for real surveys should set an allowlist root
+ * - In anonymous mode, `hasSubmitted` and the events only record per-round nullifiers, which cannot
+ *   be linked to a member or across rounds. The sender (possibly a relayer) is never granted access
+ *   to the ciphertext, and each membership proof is bound to the action and ciphertext it authorises
+ * - Relayed submissions are encrypted for the relay contract rather than the signer, so their
+ *   ciphertext could be copied into another signer's intent; they therefore get no private receipt
+ * - A pause blocks submissions, updates, imports and reveal requests, but never withdrawals, so
+ *   submitters can always remove their salary. Reveals requested before the pause can still be verified
+ * - Auditors are trusted like a payroll department: they can decrypt the running total of an open
+ *   round before and after a submission and learn that salary by difference. Revoking an auditor
+ *   stops future grants, but ACL access to handles it was already granted cannot be withdrawn
+ * - A reveal committee gates every reveal the average can be derived from (average, mean and
+ *   variance, compensation averages); the range, percentiles, histogram and pay gap can still be
+ *   requested by anyone once a round is closed
  * - Uses FHE.allowThis() and FHE.allow() after every encrypted state update
  * - No view functions return encrypted values (anti-pattern avoidance)
  */
 contract SalaryLens is ZamaEthereumConfig {
+    // ============ Types ============
+
+    /**
+     * @notice Metadata and submission rounds of a single salary pool
+     * @dev Each pool is an independent benchmark (e.g. "Backend Engineers, EUR")
+     */
+    struct Pool {
+        /// @notice Human-readable pool name (role, location or level)
+        string label;
+        /// @notice Currency the salaries in this pool are expressed in (e.g. "USD")
+        string currency;
+        /// @notice Pay period the salaries refer to (e.g. "annual", "monthly")
+        string period;
+        /// @notice Ascending salary band edges; N edges define N + 1 bands
+        uint32[] bandEdges;
+        /// @notice Ascending edges percentile estimates snap to (their resolution), copied into each new round
+        uint32[] percentileEdges;
+        /// @notice Name of the cohort salaries belong to unless flagged otherwise (both empty = no cohorts)
+        string cohortLabelA;
+        /// @notice Name of the cohort salaries flagged with an encrypted `true` belong to
+        string cohortLabelB;
+        /// @notice Merkle root of the addresses allowed to submit (bytes32(0) = anyone may submit)
+        bytes32 eligibilityRoot;
+        /// @notice Verifier of anonymous membership proofs (address(0) = submissions are tracked by address)
+        IMembershipVerifier membershipVerifier;
+        /// @notice Merkle root of the membership group allowed to submit anonymously
+        bytes32 membershipRoot;
+        /// @notice Encrypted lowest accepted salary (uninitialized = salaries are not validated)
+        euint32 lowerBound;
+        /// @notice Encrypted highest accepted salary
+        euint32 upperBound;
+        /// @notice Number of rounds opened so far; the latest one is the current round
+        uint256 roundCount;
+        /// @notice Aggregation state of each round, indexed by round ID
+        mapping(uint256 => Round) rounds;
+        /// @notice Every average verified in the pool's rounds, in verification order
+        AverageRecord[] averageHistory;
+    }
+
+    /**
+     * @notice Aggregation state of one submission round of a pool (e.g. "Q3 2025")
+     * @dev A round accepts submissions between `startTime` and `endTime` unless closed early.
+     *      Once closed its aggregates are frozen and can be revealed.
+     */
+    struct Round {
+        /// @notice Timestamp from which submissions are accepted
+        uint64 startTime;
+        /// @notice Timestamp from which submissions are no longer accepted
+        uint64 endTime;
+        /// @notice Whether an operator closed the round (possibly before `endTime`)
+        bool closed;
+        /// @notice Encrypted running total of all salaries submitted in this round
+        /// @dev 64-bit so that it cannot wrap: even 2^32 maximal 32-bit salaries fit
+        euint64 encryptedTotal;
+        /// @notice Encrypted sum of the squared salaries of this round, for the variance
+        /// @dev 128-bit: a single squared 32-bit salary already needs 64 bits
+        euint128 encryptedSumOfSquares;
+        /// @notice Encrypted lowest salary submitted in this round
+        euint32 encryptedMin;
+        /// @notice Encrypted highest salary submitted in this round
+        euint32 encryptedMax;
+        /// @notice Number of salaries submitted in this round
+        uint32 count;
+        /// @notice Encrypted number of salaries per band (index 0 is below the first edge)
+        EncryptedStats.Counters encryptedBandCounts;
+        /// @notice The pool's percentile edges when the round was opened
+        uint32[] percentileEdges;
+        /// @notice Encrypted number of salaries below each percentile edge (never decrypted)
+        EncryptedStats.Counters encryptedCountsBelow;
+        /// @notice Whether the pool had cohorts when the round was opened (submissions then carry a cohort flag)
+        bool tracksCohorts;
+        /// @notice Encrypted cohort B aggregates and the pay-gap computation (see `computePayGap()`)
+        EncryptedStats.Cohorts cohorts;
+        /// @notice Encrypted bonus and equity totals, and each submitter's components (see `addCompensation()`)
+        EncryptedStats.Components components;
+        /// @notice Data version: incremented on every submission, update and withdrawal
+        uint32 version;
+        /// @notice Encrypted average shared by all requesters, published for decryption (see `requestAverageDecryption()`)
+        euint64 encryptedAverage;
+        /// @notice Data version `encryptedAverage` was computed from
+        uint32 encryptedAverageVersion;
+        /// @notice Number of salaries `encryptedAverage` was computed from
+        uint32 encryptedAverageCount;
+        /// @notice Most recently verified average, shared by everyone (0 until someone verifies a decryption)
+        VerifiedAverage latestVerifiedAverage;
+        /// @notice Tracks which submitter keys (address or nullifier, see `_addressKey()`) have submitted in this round
+        mapping(bytes32 => bool) hasSubmitted;
+        /// @notice Each submitter's current encrypted salary (needed to update or withdraw it, and user-decryptable by them)
+        mapping(bytes32 => euint32) encryptedSalaries;
+        /// @notice Whether each submitter's salary was within the pool's bounds (only set if the pool has bounds)
+        mapping(bytes32 => ebool) acceptedFlags;
+        /// @notice Each submitter's encrypted cohort flag (true = cohort B; only set in cohort rounds)
+        mapping(bytes32 => ebool) cohortFlags;
+        /// @notice Each address-mode submitter's encrypted position relative to the average, per data version (see `compareToAverage()`)
+        mapping(uint32 => mapping(bytes32 => euint8)) averageComparisons;
+        /// @notice Keys of the submitters with a salary currently in the round, used to rebuild the min/max
+        bytes32[] submitters;
+        /// @notice Position of each submitter in `submitters`, plus one (0 = not present)
+        mapping(bytes32 => uint256) submitterIndex;
+        /// @notice Whether an update or withdrawal invalidated the encrypted min/max
+        bool rangeOutdated;
+        /// @notice Number of submitters already folded into the range being rebuilt
+        uint256 rangeRebuildCursor;
+        /// @notice Partially rebuilt encrypted minimum
+        euint32 rebuildMin;
+        /// @notice Partially rebuilt encrypted maximum
+        euint32 rebuildMax;
+        /// @notice Handles of each requester's pending decryption, per statistic
+        mapping(address => mapping(Statistic => bytes32[])) pendingHandles;
+        /// @notice Last verified cleartexts for each requester, per statistic (in handle order)
+        mapping(address => mapping(Statistic => uint256[])) lastDecrypted;
+    }
+
+    /**
+     * @notice A verified average and the state it belongs to
+     */
+    struct VerifiedAverage {
+        /// @notice The decrypted average
+        uint64 value;
+        /// @notice Number of salaries the average was computed from
+        uint32 count;
+        /// @notice Data version of the round the average was computed from
+        uint32 version;
+        /// @notice Block in which the decryption was verified (0 = never)
+        uint64 blockNumber;
+    }
+
+    /**
+     * @notice An entry of a pool's history of verified averages
+     * @dev Packed into a single storage slot
+     */
+    struct AverageRecord {
+        /// @notice Round the average belongs to
+        uint32 roundId;
+        /// @notice The decrypted average
+        uint64 value;
+        /// @notice Number of salaries the average was computed from
+        uint32 count;
+        /// @notice Block in which the decryption was verified
+        uint64 blockNumber;
+        /// @notice Timestamp of that block
+        uint64 timestamp;
+    }
+
+    /**
+     * @notice Aggregates (besides the average) that can be revealed through the
+     *         request → relayer → `FHE.checkSignatures()` flow
+     * @dev Each statistic decrypts one or more handles verified together with a single proof
+     */
+    enum Statistic {
+        /// @notice Lowest and highest salary
+        Range,
+        /// @notice Number of salaries per band
+        Histogram,
+        /// @notice Mean and variance
+        Stats,
+        /// @notice Estimated 25th percentile (lower quartile)
+        Percentile25,
+        /// @notice Estimated 50th percentile (median)
+        Median,
+        /// @notice Estimated 75th percentile (upper quartile)
+        Percentile75,
+        /// @notice Whether both cohorts are large enough, which cohort earns more and the gap between their averages
+        PayGap,
+        /// @notice Average bonus
+        BonusAverage,
+        /// @notice Average equity
+        EquityAverage,
+        /// @notice Average total compensation (base salary + bonus + equity)
+        CompensationAverage
+    }
+
+    /**
+     * @notice Roles the owner can grant with `grantRole()`
+     * @dev The owner holds the admin and operator roles, and admins also hold the operator role.
+     *      The auditor role is never implied: it must be granted explicitly, even to the owner.
+     */
+    enum Role {
+        /// @notice Configures and creates pools, imports salaries, and pauses or unpauses the contract
+        Admin,
+        /// @notice Opens and closes rounds, and can pause the contract
+        Operator,
+        /// @notice Can user-decrypt every round's encrypted total, sum of squares, minimum and maximum
+        Auditor
+    }
+
+    // ============ Constants ============
+
+    /// @notice Maximum number of band edges per pool (bounds the FHE work per submission)
+    uint256 public constant MAX_BAND_EDGES = 8;
+
+    /// @notice Maximum number of percentile edges per pool (bounds the FHE work per submission)
+    uint256 public constant MAX_PERCENTILE_EDGES = 16;
+
+    /// @notice Maximum number of auditors (bounds the ACL grants per submission)
+    uint256 public constant MAX_AUDITORS = 4;
+
     // ============ State Variables ============
 
     /**
-     * @notice Encrypted running total of all submitted salaries
-     * @dev This value is never directly readable - only used in encrypted computations
+     * @notice Address that grants roles and sets the relay; it also holds every role
+     * @dev Set to the deployer in the constructor, or by `initialize()` in factory clones.
+     *      Changes hands with `transferOwnership()` / `acceptOwnership()`
+     */
+    address public owner;
+
+    /**
+     * @notice Address ownership is being transferred to, until it calls `acceptOwnership()`
+     * @dev address(0) when no transfer is in progress
      */
-    euint32 private encryptedTotal;
+    address public pendingOwner;
 
     /**
-     * @notice Number of salaries submitted
-     * @dev Kept as plaintext for gas efficiency and to enable division
+     * @notice Whether new salaries and reveal requests are blocked
+     * @dev Set with `pause()` and cleared with `unpause()`
      */
-    uint32 public count;
+    bool public paused;
 
     /**
-     * @notice Tracks which addresses have already submitted a salary
-     * @dev Prevents double-submission to ensure accurate averaging
+     * @notice Roles explicitly granted to each account
+     * @dev Use `hasRole()`, which also accounts for the owner and for admins acting as operators
      */
-    mapping(address => bool) public hasSubmitted;
+    mapping(address => mapping(Role => bool)) private roles;
 
     /**
-     * @notice Stores the last decrypted average for each requester
-     * @dev Populated after proof verification
+     * @notice Holders of the auditor role, granted access to every round's encrypted aggregates
+     * @dev Re-granted by `SalaryRounds` on every update
      */
-    mapping(address => uint32) public lastDecryptedAverage;
+    address[] private auditors;
 
     /**
-     * @notice Stores the encrypted average handle for pending decryption requests
-     * @dev Used for proof verification
+     * @notice Minimum number of submissions a pool needs before its average can be revealed
+     * @dev The k in k-anonymity; fixed per deployment and always at least 1. Kept in storage
+     *      rather than immutable, since clones share the implementation's code
      */
-    mapping(address => bytes32) public pendingDecryptionHandles;
+    uint32 public minSubmissions;
+
+    /**
+     * @notice Number of pools created so far
+     * @dev Pool IDs are assigned sequentially starting at 0
+     */
+    uint256 public poolCount;
+
+    /**
+     * @notice Pool state indexed by pool ID
+     * @dev Encrypted totals are never directly readable - only used in encrypted computations
+     */
+    mapping(uint256 => Pool) private pools;
 
     /**
      * @notice Tracks if a decryption has been verified (replay protection)
@@ -66,247 +394,2724 @@ contract SalaryLens is ZamaEthereumConfig {
      */
     mapping(bytes32 => bool) public usedHandles;
 
+    /**
+     * @notice Contract allowed to submit salaries on behalf of signers with `addSalaryFor()`
+     * @dev address(0) (the default) disables relayed submissions
+     */
+    address public relay;
+
+    /**
+     * @notice Contract that alone may request average reveals, once its members approved them
+     * @dev address(0) (the default) lets anyone call `requestAverageDecryption()`
+     */
+    address public revealCommittee;
+
     // ============ Events ============
 
+    /**
+     * @notice Emitted when a new salary pool is created
+     * @param poolId The ID assigned to the new pool
+     * @param label Human-readable pool name
+     * @param currency Currency of the salaries in the pool
+     * @param period Pay period of the salaries in the pool
+     * @param bandEdges Ascending salary band edges of the pool's histogram
+     */
+    event PoolCreated(uint256 indexed poolId, string label, string currency, string period, uint32[] bandEdges);
+
+    /**
+     * @notice Emitted when an admin sets or rotates a pool's eligibility allowlist
+     * @param poolId The pool whose allowlist changed
+     * @param root The new Merkle root of eligible addresses (bytes32(0) = anyone may submit)
+     */
+    event EligibilityRootUpdated(uint256 indexed poolId, bytes32 root);
+
+    /**
+     * @notice Emitted when an admin switches a pool to or from anonymous submissions
+     * @param poolId The pool whose submission mode changed
+     * @param verifier The membership proof verifier (address(0) = submissions are tracked by address)
+     * @param root Merkle root of the membership group
+     */
+    event MembershipGroupUpdated(uint256 indexed poolId, address verifier, bytes32 root);
+
+    /**
+     * @notice Emitted when an admin sets a pool's encrypted salary bounds
+     * @param poolId The pool whose bounds changed
+     */
+    event SalaryBoundsUpdated(uint256 indexed poolId);
+
+    /**
+     * @notice Emitted when an admin sets the edges a pool's percentile estimates snap to
+     * @param poolId The pool whose percentile edges changed
+     * @param percentileEdges The new ascending percentile edges
+     */
+    event PercentileEdgesUpdated(uint256 indexed poolId, uint32[] percentileEdges);
+
+    /**
+     * @notice Emitted when an admin names (or removes) the two cohorts of a pool
+     * @param poolId The pool whose cohorts changed
+     * @param labelA Name of the unflagged cohort
+     * @param labelB Name of the flagged cohort
+     */
+    event CohortsUpdated(uint256 indexed poolId, string labelA, string labelB);
+
+    /**
+     * @notice Emitted when an operator opens a new submission round for a pool
+     * @param poolId The pool the round belongs to
+     * @param roundId The ID assigned to the new round
+     * @param startTime Timestamp from which submissions are accepted
+     * @param endTime Timestamp from which submissions are no longer accepted
+     */
+    event RoundOpened(uint256 indexed poolId, uint256 indexed roundId, uint64 startTime, uint64 endTime);
+
+    /**
+     * @notice Emitted when an operator closes a round, freezing its aggregates
+     * @param poolId The pool the round belongs to
+     * @param roundId The round that was closed
+     * @param finalCount The number of salaries in the frozen round
+     */
+    event RoundClosed(uint256 indexed poolId, uint256 indexed roundId, uint32 finalCount);
+
     /**
      * @notice Emitted when a user successfully submits their encrypted salary
+     * @param poolId The pool the salary was submitted to
+     * @param roundId The round the salary was submitted in
      * @param submitter The address that submitted the salary
-     * @param newCount The updated total count of submissions
+     * @param newCount The updated count of submissions in the round
+     */
+    event SalarySubmitted(uint256 indexed poolId, uint256 indexed roundId, address indexed submitter, uint32 newCount);
+
+    /**
+     * @notice Emitted when an admin imports a batch of salaries
+     * @param poolId The pool the salaries were imported into
+     * @param roundId The round the salaries were imported into
+     * @param imported Number of rows imported (rows imported before are skipped)
+     * @param newCount The updated count of submissions in the round
+     */
+    event SalariesImported(uint256 indexed poolId, uint256 indexed roundId, uint32 imported, uint32 newCount);
+
+    /**
+     * @notice Emitted when a submitter replaces their encrypted salary
+     * @param poolId The pool the salary belongs to
+     * @param roundId The round the salary belongs to
+     * @param submitter The address that updated their salary
+     */
+    event SalaryUpdated(uint256 indexed poolId, uint256 indexed roundId, address indexed submitter);
+
+    /**
+     * @notice Emitted when a submitter removes their encrypted salary from a round
+     * @param poolId The pool the salary was removed from
+     * @param roundId The round the salary was removed from
+     * @param submitter The address that withdrew their salary
+     * @param newCount The updated count of submissions in the round
+     */
+    event SalaryWithdrawn(uint256 indexed poolId, uint256 indexed roundId, address indexed submitter, uint32 newCount);
+
+    /**
+     * @notice Emitted when a group member anonymously submits their encrypted salary
+     * @param poolId The pool the salary was submitted to
+     * @param roundId The round the salary was submitted in
+     * @param nullifier The member's nullifier for this round
+     * @param newCount The updated count of submissions in the round
      */
-    event SalarySubmitted(address indexed submitter, uint32 newCount);
+    event AnonymousSalarySubmitted(uint256 indexed poolId, uint256 indexed roundId, bytes32 indexed nullifier, uint32 newCount);
+
+    /**
+     * @notice Emitted when a group member anonymously replaces their encrypted salary
+     * @param poolId The pool the salary belongs to
+     * @param roundId The round the salary belongs to
+     * @param nullifier The member's nullifier for this round
+     */
+    event AnonymousSalaryUpdated(uint256 indexed poolId, uint256 indexed roundId, bytes32 indexed nullifier);
+
+    /**
+     * @notice Emitted when a group member anonymously removes their encrypted salary
+     * @param poolId The pool the salary was removed from
+     * @param roundId The round the salary was removed from
+     * @param nullifier The member's nullifier for this round
+     * @param newCount The updated count of submissions in the round
+     */
+    event AnonymousSalaryWithdrawn(uint256 indexed poolId, uint256 indexed roundId, bytes32 indexed nullifier, uint32 newCount);
+
+    /**
+     * @notice Emitted when the owner sets the relay contract
+     * @param relay The new relay, or address(0) if relayed submissions are disabled
+     */
+    event RelayUpdated(address relay);
+
+    /**
+     * @notice Emitted when the owner sets the reveal committee
+     * @param committee The new committee, or address(0) if anyone may request average reveals
+     */
+    event RevealCommitteeUpdated(address committee);
+
+    /**
+     * @notice Emitted when the encrypted min/max of a round has been fully recomputed
+     * @param poolId The pool whose range was rebuilt
+     * @param roundId The round whose range was rebuilt
+     */
+    event RangeRebuilt(uint256 indexed poolId, uint256 indexed roundId);
 
     /**
      * @notice Emitted when a user requests the average salary decryption
+     * @param poolId The pool whose average was requested
+     * @param roundId The round whose average was requested
      * @param requester The address requesting the average
      * @param handle The ciphertext handle for off-chain decryption
      */
-    event AverageRequested(address indexed requester, bytes32 handle);
+    event AverageRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bytes32 handle);
 
     /**
      * @notice Emitted when the decryption is verified and average is stored
+     * @param poolId The pool whose average was decrypted
+     * @param roundId The round whose average was decrypted
      * @param requester The address that originally requested the average
      * @param average The decrypted average salary value
+     * @param count Number of salaries the average was computed from (its sample size)
      */
-    event AverageDecrypted(address indexed requester, uint32 average);
+    event AverageDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, uint64 average, uint32 count);
 
-    // ============ Errors ============
+    /**
+     * @notice Emitted when a user requests decryption of the lowest and highest salary
+     * @param poolId The pool whose range was requested
+     * @param roundId The round whose range was requested
+     * @param requester The address requesting the range
+     * @param minHandle The ciphertext handle of the lowest salary
+     * @param maxHandle The ciphertext handle of the highest salary
+     */
+    event RangeRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bytes32 minHandle, bytes32 maxHandle);
 
-    /// @notice Thrown when a user attempts to submit more than one salary
-    error AlreadySubmitted();
+    /**
+     * @notice Emitted when the range decryption is verified and stored
+     * @param poolId The pool whose range was decrypted
+     * @param roundId The round whose range was decrypted
+     * @param requester The address that originally requested the range
+     * @param min The decrypted lowest salary
+     * @param max The decrypted highest salary
+     */
+    event RangeDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, uint32 min, uint32 max);
 
-    /// @notice Thrown when requesting average with no submissions
-    error NoSalariesSubmitted();
+    /**
+     * @notice Emitted when a user requests decryption of the mean and variance
+     * @param poolId The pool whose statistics were requested
+     * @param roundId The round whose statistics were requested
+     * @param requester The address requesting the statistics
+     * @param meanHandle The ciphertext handle of the mean
+     * @param varianceHandle The ciphertext handle of the variance
+     */
+    event StatsRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bytes32 meanHandle, bytes32 varianceHandle);
 
-    /// @notice Thrown when no pending decryption request exists
-    error NoPendingDecryption();
+    /**
+     * @notice Emitted when the mean and variance decryption is verified and stored
+     * @param poolId The pool whose statistics were decrypted
+     * @param roundId The round whose statistics were decrypted
+     * @param requester The address that originally requested the statistics
+     * @param mean The decrypted mean salary
+     * @param variance The decrypted (population) variance of the salaries
+     */
+    event StatsDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, uint64 mean, uint128 variance);
 
-    /// @notice Thrown when decryption proof verification fails
-    error InvalidDecryptionProof();
+    /**
+     * @notice Emitted when a user requests decryption of a percentile estimate
+     * @param poolId The pool whose percentile was requested
+     * @param roundId The round whose percentile was requested
+     * @param requester The address requesting the percentile
+     * @param percentile Which percentile was requested (`Percentile25`, `Median` or `Percentile75`)
+     * @param handle The ciphertext handle of the estimate
+     */
+    event PercentileRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, Statistic percentile, bytes32 handle);
 
-    /// @notice Thrown when handle has already been used (replay protection)
-    error HandleAlreadyUsed();
+    /**
+     * @notice Emitted when a percentile estimate decryption is verified and stored
+     * @param poolId The pool whose percentile was decrypted
+     * @param roundId The round whose percentile was decrypted
+     * @param requester The address that originally requested the percentile
+     * @param percentile Which percentile was decrypted
+     * @param value The estimate: the highest percentile edge at or below the percentile (0 = below the first edge)
+     */
+    event PercentileDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, Statistic percentile, uint32 value);
 
-    // ============ Constructor ============
+    /**
+     * @notice Emitted when a user requests decryption of the band counts
+     * @param poolId The pool whose histogram was requested
+     * @param roundId The round whose histogram was requested
+     * @param requester The address requesting the histogram
+     * @param handles The ciphertext handles of the band counts, lowest band first
+     */
+    event HistogramRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bytes32[] handles);
 
     /**
-     * @notice Initializes the contract with zero total and count
-     * @dev Inherits ZamaEthereumConfig which sets up the coprocessor addresses
+     * @notice Emitted when the histogram decryption is verified and stored
+     * @param poolId The pool whose histogram was decrypted
+     * @param roundId The round whose histogram was decrypted
+     * @param requester The address that originally requested the histogram
+     * @param bandCounts The decrypted number of salaries per band, lowest band first
      */
-    constructor() ZamaEthereumConfig() {
-        count = 0;
-    }
+    event HistogramDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, uint32[] bandCounts);
 
-    // ============ Core Functions ============
+    /**
+     * @notice Emitted when a submitter compares their salary with the average of a round
+     * @param poolId The pool the salary belongs to
+     * @param roundId The round the salary belongs to
+     * @param submitter The address that compared their salary
+     * @param handle The ciphertext handle of the encrypted position (only `submitter` can decrypt it)
+     */
+    event AverageCompared(uint256 indexed poolId, uint256 indexed roundId, address indexed submitter, bytes32 handle);
 
     /**
-     * @notice Submit an encrypted salary to be added to the aggregate
-     * @dev This function:
-     *      1. Validates the user hasn't already submitted
-     *      2. Converts the encrypted input using the proof
-     *      3. Adds to the running encrypted total
-     *      4. Increments the submission count
-     *      5. Calls FHE.allowThis() and FHE.allow() to maintain access
-     *
-     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
-     * @param inputProof Zero-knowledge proof validating the encrypted input
-     *
-     * @custom:security The salary value remains encrypted throughout
-     * @custom:emits SalarySubmitted on successful submission
+     * @notice Emitted when a user requests decryption of a compensation component average
+     * @param poolId The pool whose average was requested
+     * @param roundId The round whose average was requested
+     * @param requester The address requesting the average
+     * @param component Which average was requested (`BonusAverage`, `EquityAverage` or `CompensationAverage`)
+     * @param handle The ciphertext handle of the average
      */
-    function addSalary(
-        externalEuint32 encryptedSalary,
-        bytes calldata inputProof
-    ) external {
-        // Prevent double submission
-        if (hasSubmitted[msg.sender]) {
-            revert AlreadySubmitted();
-        }
+    event CompensationRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, Statistic component, bytes32 handle);
 
-        // Convert the encrypted input to euint32 with proof validation
-        euint32 salary = FHE.fromExternal(encryptedSalary, inputProof);
-        
-        // Verify the input was properly converted
-        require(FHE.isInitialized(salary), "salary not initialized from input");
-        
-        // CRITICAL: Grant contract permission to access the input salary BEFORE using it
-        // Per Zama docs: "the calling contract must already have ACL permission to access the handle"
-        FHE.allowThis(salary);
+    /**
+     * @notice Emitted when a compensation component average is verified and stored
+     * @param poolId The pool whose average was decrypted
+     * @param roundId The round whose average was decrypted
+     * @param requester The address that originally requested the average
+     * @param component Which average was decrypted
+     * @param average The decrypted average
+     */
+    event CompensationDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, Statistic component, uint64 average);
 
-        // Add to running total
-        // Note: On first submission, encryptedTotal is uninitialized (zero)
-        if (count == 0) {
-            encryptedTotal = salary;
-        } else {
-            // Contract now has permission to access both encryptedTotal and salary
-            encryptedTotal = FHE.add(encryptedTotal, salary);
-        }
+    /**
+     * @notice Emitted when the encrypted gap between the cohort averages of a round is final
+     * @param poolId The pool the round belongs to
+     * @param roundId The round whose pay gap was computed
+     */
+    event PayGapComputed(uint256 indexed poolId, uint256 indexed roundId);
 
-        // Increment count
-        count++;
+    /**
+     * @notice Emitted when a user requests decryption of a round's pay gap
+     * @param poolId The pool whose pay gap was requested
+     * @param roundId The round whose pay gap was requested
+     * @param requester The address requesting the pay gap
+     * @param handles The ciphertext handles of the eligible flag, the higher-cohort flag and the gap
+     */
+    event PayGapRequested(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bytes32[] handles);
 
-        // Mark user as having submitted
-        hasSubmitted[msg.sender] = true;
+    /**
+     * @notice Emitted when a pay-gap decryption is verified and stored
+     * @param poolId The pool whose pay gap was decrypted
+     * @param roundId The round whose pay gap was decrypted
+     * @param requester The address that originally requested the pay gap
+     * @param eligible Whether both cohorts reached `minSubmissions` (if not, the other values are 0)
+     * @param cohortBHigher Whether cohort B has the higher average
+     * @param gap Absolute difference between the cohort averages
+     */
+    event PayGapDecrypted(uint256 indexed poolId, uint256 indexed roundId, address indexed requester, bool eligible, bool cohortBHigher, uint32 gap);
 
-        // CRITICAL: Grant permissions on the NEW encryptedTotal for future operations
-        // Both contract AND user permissions are required
-        FHE.allowThis(encryptedTotal);  // Contract permission for future FHE.div()
-        FHE.allow(encryptedTotal, msg.sender);  // User permission
+    /**
+     * @notice Emitted when the owner offers ownership to another address
+     * @param previousOwner The current owner
+     * @param newOwner The address that must call `acceptOwnership()` (address(0) cancels a transfer)
+     */
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
 
-        emit SalarySubmitted(msg.sender, count);
-    }
+    /**
+     * @notice Emitted when the pending owner accepts ownership
+     * @param previousOwner The former owner
+     * @param newOwner The new owner
+     */
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
 
     /**
-     * @notice Request decryption of the average salary
-     * @dev This function:
-     *      1. Checks that at least one salary has been submitted
-     *      2. Computes the encrypted average (total / count)
-     *      3. Marks it as publicly decryptable
-     *      4. Stores handle for later verification
-     *
-     * @return handle The ciphertext handle for off-chain decryption
-     *
-     * @custom:security Only the final average is decrypted, not individual salaries
-     * @custom:emits AverageRequested when the request is processed
+     * @notice Emitted when the owner grants a role
+     * @param role The role granted
+     * @param account The account that now holds the role
      */
-    function requestAverageDecryption() external returns (bytes32 handle) {
-        // Ensure there's data to average
-        if (count == 0) {
-            revert NoSalariesSubmitted();
-        }
+    event RoleGranted(Role indexed role, address indexed account);
 
-        // Verify encryptedTotal is properly initialized before using
-        require(FHE.isInitialized(encryptedTotal), "encryptedTotal not initialized");
+    /**
+     * @notice Emitted when the owner revokes a role
+     * @param role The role revoked
+     * @param account The account that no longer holds the role
+     */
+    event RoleRevoked(Role indexed role, address indexed account);
 
-        // Calculate encrypted average: total / count
-        // Using FHE.div for encrypted division by plaintext
-        euint32 encryptedAverage = FHE.div(encryptedTotal, count);
+    /**
+     * @notice Emitted when new salaries and reveal requests are paused
+     * @param account The operator, admin or owner that paused the contract
+     */
+    event Paused(address indexed account);
 
-        // Verify the result is valid
-        require(FHE.isInitialized(encryptedAverage), "encryptedAverage not initialized");
+    /**
+     * @notice Emitted when a pause is lifted
+     * @param account The admin or owner that unpaused the contract
+     */
+    event Unpaused(address indexed account);
 
-        // Grant permissions for the average result
-        FHE.allowThis(encryptedAverage);  // Contract permission
-        FHE.allow(encryptedAverage, msg.sender);  // User permission
+    // ============ Errors ============
 
-        // Mark as publicly decryptable for off-chain relayer
-        FHE.makePubliclyDecryptable(encryptedAverage);
+    /// @notice Thrown when a restricted function is called by someone other than the owner
+    error NotOwner();
 
-        // Get the handle for tracking
-        handle = euint32.unwrap(encryptedAverage);
+    /// @notice Thrown when a function is called by an account without the role it requires
+    error MissingRole();
 
-        // Store the handle for this requester's pending decryption
-        pendingDecryptionHandles[msg.sender] = handle;
+    /// @notice Thrown when accepting ownership from an address that was not offered it
+    error NotPendingOwner();
 
-        emit AverageRequested(msg.sender, handle);
+    /// @notice Thrown when granting a role to address(0)
+    error InvalidAccount();
 
-        return handle;
-    }
+    /// @notice Thrown when submitting, requesting a reveal or pausing while the contract is paused
+    error ContractPaused();
 
-    /**
-     * @notice Verify the decryption proof and store the result
-     * @dev Called after off-chain relayer decrypts the value
-     *      The relayer-sdk provides the cleartext and proof
-     *
-     * @param abiEncodedCleartexts ABI-encoded cleartext values from relayer
-     * @param decryptionProof Proof from Zama KMS via relayer-sdk
-     *
-     * @custom:security Verifies proof via FHE.checkSignatures()
-     * @custom:emits AverageDecrypted with the verified result
-     */
-    function verifyDecryption(
-        bytes calldata abiEncodedCleartexts,
-        bytes calldata decryptionProof
-    ) external {
-        // Get the pending handle for this requester
-        bytes32 handle = pendingDecryptionHandles[msg.sender];
-        
-        if (handle == bytes32(0)) {
-            revert NoPendingDecryption();
-        }
+    /// @notice Thrown when unpausing a contract that is not paused
+    error ContractNotPaused();
 
-        // Replay protection
-        if (usedHandles[handle]) {
-            revert HandleAlreadyUsed();
-        }
+    /// @notice Thrown when granting the auditor role to more than `MAX_AUDITORS` accounts
+    error TooManyAuditors();
 
-        // Prepare handles list for verification
-        bytes32[] memory handlesList = new bytes32[](1);
-        handlesList[0] = handle;
+    /// @notice Thrown when `addSalaryFor()` is called by someone other than the relay
+    error NotRelay();
 
-        // Verify the decryption proof - this reverts if invalid
-        FHE.checkSignatures(handlesList, abiEncodedCleartexts, decryptionProof);
+    /// @notice Thrown when someone other than the reveal committee requests a reveal of, or derived from, the average
+    error NotRevealCommittee();
 
-        // Decode the cleartext value
-        uint32 decryptedAverage = abi.decode(abiEncodedCleartexts, (uint32));
+    /// @notice Thrown when an import has a different number of row IDs and salaries
+    error InvalidImport();
 
-        // Store the verified result
-        lastDecryptedAverage[msg.sender] = decryptedAverage;
+    /// @notice Thrown when referencing a pool ID that has not been created
+    error PoolDoesNotExist();
 
-        // Mark handle as used (replay protection)
-        usedHandles[handle] = true;
+    /// @notice Thrown when referencing a round ID that has not been opened
+    error RoundDoesNotExist();
 
-        // Clear pending request
-        delete pendingDecryptionHandles[msg.sender];
+    /// @notice Thrown when submitting, updating or withdrawing outside an open round
+    error RoundNotOpen();
 
-        emit AverageDecrypted(msg.sender, decryptedAverage);
+    /// @notice Thrown when revealing a round, or opening a new one, before the current round is closed
+    error RoundNotClosed();
+
+    /// @notice Thrown when a round's end is not after its start, or already in the past
+    error InvalidRoundWindow();
+
+    /// @notice Thrown when a user attempts to submit more than one salary
+    error AlreadySubmitted();
+
+    /// @notice Thrown when the submitter's Merkle proof does not match the pool's eligibility root
+    error NotEligible();
+
+    /// @notice Thrown when using address-based submission functions on an anonymous pool, or vice versa
+    error WrongSubmissionMode();
+
+    /// @notice Thrown when a membership proof is rejected by the pool's verifier
+    error InvalidMembershipProof();
+
+    /// @notice Thrown when updating or withdrawing without a salary in the round
+    error NotSubmitted();
+
+    /// @notice Thrown when revealing the range after an update or withdrawal, before `rebuildRange()`
+    error RangeOutdated();
+
+    /// @notice Thrown when calling `rebuildRange()` on a round whose range is up to date
+    error RangeNotOutdated();
+
+    /// @notice Thrown when requesting average with no submissions
+    error NoSalariesSubmitted();
+
+    /// @notice Thrown when requesting average before the round reaches `minSubmissions`
+    error BelowMinimumSubmissions();
+
+    /// @notice Thrown when deploying with a minimum submission count of zero
+    error InvalidMinSubmissions();
+
+    /// @notice Thrown when initializing a deployment that already has an owner, or with no owner
+    error AlreadyInitialized();
+
+    /// @notice Thrown when band edges are not strictly ascending or exceed `MAX_BAND_EDGES`
+    error InvalidBandEdges();
+
+    /// @notice Thrown when percentile edges are not strictly ascending or exceed `MAX_PERCENTILE_EDGES`
+    error InvalidPercentileEdges();
+
+    /// @notice Thrown when requesting a statistic that is not a percentile, or a percentile of a round without edges
+    error InvalidPercentile();
+
+    /// @notice Thrown when submitting with a cohort flag to a round without cohorts, or without one to a round with cohorts
+    error WrongCohortMode();
+
+    /// @notice Thrown when revealing a pay gap before `computePayGap()` has finished
+    error PayGapNotComputed();
+
+    /// @notice Thrown when requesting a statistic that is not a compensation component average
+    error InvalidComponent();
+
+    /// @notice Thrown when no pending decryption request exists
+    error NoPendingDecryption();
+
+    /// @notice Thrown when decryption proof verification fails
+    error InvalidDecryptionProof();
+
+    /// @notice Thrown when handle has already been used (replay protection)
+    error HandleAlreadyUsed();
+
+    // ============ Modifiers ============
+
+    /// @notice Restricts a function to the contract owner
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
     }
 
-    // ============ View Functions ============
+    /// @notice Restricts a function to holders of a role (see `hasRole()`)
+    modifier onlyRole(Role role) {
+        _checkRole(role);
+        _;
+    }
+
+    /// @notice Reverts while the contract is paused
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    /// @notice Reverts if the given pool has not been created
+    modifier poolExists(uint256 poolId) {
+        _requirePool(poolId);
+        _;
+    }
+
+    /// @notice Reverts if the given pool or round has not been created
+    modifier roundExists(uint256 poolId, uint256 roundId) {
+        _requireRound(poolId, roundId);
+        _;
+    }
+
+    // ============ Constructor ============
 
     /**
-     * @notice Get the current count of submitted salaries
-     * @dev This is a simple getter for the count state variable
-     * @return The number of salaries that have been submitted
+     * @notice Initializes the contract with no pools and the deployer as owner
+     * @dev Inherits ZamaEthereumConfig which sets up the coprocessor addresses
+     * @param _minSubmissions Minimum pool size before an average can be revealed (k)
      */
-    function getCount() external view returns (uint32) {
-        return count;
+    constructor(uint32 _minSubmissions) ZamaEthereumConfig() {
+        _initialize(msg.sender, _minSubmissions);
     }
 
     /**
-     * @notice Check if an address has already submitted a salary
-     * @param user The address to check
-     * @return True if the user has submitted, false otherwise
+     * @notice Initializes a minimal proxy clone of this contract
+     * @dev Clones (see `SalaryLensFactory`) run no constructor, so their owner, `minSubmissions` and
+     *      coprocessor addresses start empty. Callable once, while the deployment has no owner;
+     *      the factory clones and initializes in the same transaction, so nobody can step in first.
+     *      Deployments made with the constructor already have an owner and always revert.
+     *
+     * @param _owner The owner of the new instance
+     * @param _minSubmissions Minimum pool size before an average can be revealed (k)
+     */
+    function initialize(address _owner, uint32 _minSubmissions) external {
+        if (owner != address(0) || _owner == address(0)) {
+            revert AlreadyInitialized();
+        }
+
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        _initialize(_owner, _minSubmissions);
+    }
+
+    // ============ Access Control ============
+
+    /**
+     * @notice Offer ownership to another address
+     * @dev The transfer only completes once `newOwner` calls `acceptOwnership()`; until then the
+     *      current owner keeps full control and can replace or cancel (with address(0)) the offer.
+     *
+     * @param newOwner The address to transfer ownership to
+     *
+     * @custom:emits OwnershipTransferStarted
      */
-    function hasUserSubmitted(address user) external view returns (bool) {
-        return hasSubmitted[user];
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
     }
 
     /**
-     * @notice Get the last decrypted average for a specific address
-     * @dev Returns 0 if the address has never verified a decryption
-     * @param user The address to query
-     * @return The last decrypted average salary for this user
+     * @notice Accept ownership offered with `transferOwnership()`
+     * @dev Roles granted by the previous owner are kept; the new owner can revoke them.
+     *
+     * @custom:emits OwnershipTransferred
+     */
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) {
+            revert NotPendingOwner();
+        }
+
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        delete pendingOwner;
+    }
+
+    /**
+     * @notice Grant a role to an account
+     * @dev Like `grantViewAccess()` in the access-control example, but renewed: every later update
+     *      of a round's aggregates (total, sum of squares, range, band and below-edge counts,
+     *      cohort B and component totals) grants an auditor ACL access to the new handles.
+     *      Handles that already exist can be granted with `requestAuditAccess()`.
+     *
+     * @param role The role to grant
+     * @param account The account to grant it to
+     *
+     * @custom:emits RoleGranted
+     */
+    function grantRole(Role role, address account) external onlyOwner {
+        if (account == address(0)) {
+            revert InvalidAccount();
+        }
+
+        if (role == Role.Auditor && !roles[account][role]) {
+            // Every update re-grants each auditor, so their number bounds its cost
+            if (auditors.length >= MAX_AUDITORS) {
+                revert TooManyAuditors();
+            }
+            auditors.push(account);
+        }
+
+        roles[account][role] = true;
+        emit RoleGranted(role, account);
+    }
+
+    /**
+     * @notice Revoke a role from an account
+     * @dev Only revokes an explicit grant: the owner keeps the admin and operator roles, and an
+     *      account revoked as operator still acts as one while it is an admin. A revoked auditor
+     *      keeps access to the handles it was already granted, but those go stale with the next
+     *      update of each round.
+     *
+     * @param role The role to revoke
+     * @param account The account to revoke it from
+     *
+     * @custom:emits RoleRevoked
+     */
+    function revokeRole(Role role, address account) external onlyOwner {
+        if (role == Role.Auditor && roles[account][role]) {
+            SalaryRounds.removeAuditor(auditors, account);
+        }
+
+        delete roles[account][role];
+        emit RoleRevoked(role, account);
+    }
+
+    /**
+     * @notice Block new salaries and reveal requests, e.g. while a survey or frontend is investigated
+     * @dev Blocks submissions, updates and imports in every pool, and every decryption request
+     *      (including `compareToAverage()` and `computePayGap()`). Withdrawals stay open, and
+     *      reveals requested before the pause can still be verified. Any operator can pause, but
+     *      only an admin can lift the pause.
+     *
+     * @custom:emits Paused
+     */
+    function pause() external onlyRole(Role.Operator) whenNotPaused {
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /**
+     * @notice Lift a pause
+     *
+     * @custom:emits Unpaused
+     */
+    function unpause() external onlyRole(Role.Admin) {
+        if (!paused) {
+            revert ContractNotPaused();
+        }
+
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /**
+     * @notice Grant the calling auditor access to a round's current aggregates
+     * @dev For rounds that have not changed since the auditor was appointed, e.g. a round that
+     *      closed before. Works while paused, so an incident can still be audited.
+     *
+     * @param poolId The pool to audit
+     * @param roundId The round to audit (reverts with NoSalariesSubmitted before its first submission)
+     */
+    function requestAuditAccess(
+        uint256 poolId,
+        uint256 roundId
+    ) external onlyRole(Role.Auditor) roundExists(poolId, roundId) {
+        SalaryRounds.grantAuditAccess(pools[poolId].rounds[roundId]);
+    }
+
+    // ============ Pool Management ============
+
+    /**
+     * @notice Create a new salary pool
+     * @dev Pools are fully independent: submitting to one pool does not affect any other.
+     *      The band edges split salaries into `bandEdges.length + 1` histogram bands:
+     *      below the first edge, between consecutive edges, and at or above the last edge.
+     *      Salaries are collected in rounds opened with `openRound()`.
+     *
+     * @param label Human-readable pool name (e.g. "Backend Engineers")
+     * @param currency Currency of the salaries in the pool (e.g. "USD")
+     * @param period Pay period of the salaries in the pool (e.g. "annual")
+     * @param bandEdges Strictly ascending salary band edges (at most `MAX_BAND_EDGES`)
+     * @return poolId The ID assigned to the new pool
+     *
+     * @custom:emits PoolCreated with the new pool ID and metadata
+     */
+    function createPool(
+        string calldata label,
+        string calldata currency,
+        string calldata period,
+        uint32[] calldata bandEdges
+    ) external onlyRole(Role.Admin) returns (uint256 poolId) {
+        if (!_isAscending(bandEdges, MAX_BAND_EDGES)) {
+            revert InvalidBandEdges();
+        }
+
+        poolId = poolCount++;
+
+        SalaryRounds.describePool(pools[poolId], label, currency, period, bandEdges);
+
+        emit PoolCreated(poolId, label, currency, period, bandEdges);
+    }
+
+    /**
+     * @notice Set or rotate the allowlist of addresses eligible to submit to a pool
+     * @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(account))))` and pairs are
+     *      hashed in sorted order (see `scripts/build-allowlist.ts`). The root can only change
+     *      between rounds, so every submitter of a round was checked against the same list.
+     *
+     * @param poolId The pool to restrict
+     * @param root Merkle root of eligible addresses, or bytes32(0) to let anyone submit
+     *
+     * @custom:emits EligibilityRootUpdated with the new root
+     */
+    function setEligibilityRoot(uint256 poolId, bytes32 root) external onlyRole(Role.Admin) poolExists(poolId) {
+        Pool storage pool = _idlePool(poolId);
+
+        pool.eligibilityRoot = root;
+
+        emit EligibilityRootUpdated(poolId, root);
+    }
+
+    /**
+     * @notice Switch a pool to anonymous submissions, or back to address-based submissions
+     * @dev In anonymous mode the membership group replaces the eligibility allowlist and
+     *      submissions go through `addSalaryAnonymous()` and its update/withdraw variants.
+     *      Like the allowlist, the group can only change between rounds.
+     *
+     * @param poolId The pool to configure
+     * @param verifier Verifier of the group's membership proofs, or address(0) for address-based submissions
+     * @param root Merkle root of the group's identity commitments
+     *
+     * @custom:emits MembershipGroupUpdated with the new verifier and root
+     */
+    function setMembershipGroup(
+        uint256 poolId,
+        IMembershipVerifier verifier,
+        bytes32 root
+    ) external onlyRole(Role.Admin) poolExists(poolId) {
+        Pool storage pool = _idlePool(poolId);
+
+        pool.membershipVerifier = verifier;
+        pool.membershipRoot = root;
+
+        emit MembershipGroupUpdated(poolId, address(verifier), root);
+    }
+
+    /**
+     * @notice Set the encrypted range of salaries a pool accepts
+     * @dev From the next round on, every submitted salary is clamped into [lower, upper] before
+     *      it is aggregated, so a single absurd value (e.g. 0 or `type(uint32).max`) cannot skew
+     *      the average. The bounds stay encrypted; only the contract and the admin who set them can use them.
+     *      To stop validating, set them to 0 and `type(uint32).max`. Like the allowlist, the
+     *      bounds can only change between rounds.
+     *
+     * @param poolId The pool to configure
+     * @param encryptedLowerBound The encrypted lowest accepted salary
+     * @param encryptedUpperBound The encrypted highest accepted salary (must not be below the lower bound)
+     * @param inputProof Zero-knowledge proof validating both encrypted inputs
+     *
+     * @custom:emits SalaryBoundsUpdated
+     */
+    function setSalaryBounds(
+        uint256 poolId,
+        externalEuint32 encryptedLowerBound,
+        externalEuint32 encryptedUpperBound,
+        bytes calldata inputProof
+    ) external onlyRole(Role.Admin) poolExists(poolId) {
+        Pool storage pool = _idlePool(poolId);
+
+        pool.lowerBound = FHE.fromExternal(encryptedLowerBound, inputProof);
+        pool.upperBound = FHE.fromExternal(encryptedUpperBound, inputProof);
+        FHE.allowThis(pool.lowerBound);
+        FHE.allowThis(pool.upperBound);
+        FHE.allow(pool.lowerBound, msg.sender);
+        FHE.allow(pool.upperBound, msg.sender);
+
+        emit SalaryBoundsUpdated(poolId);
+    }
+
+    /**
+     * @notice Set the edges the pool's median and quartile estimates snap to
+     * @dev Each round counts, obliviously, how many salaries fall below each edge; a percentile
+     *      estimate is the highest edge with at most that share of salaries below it. More and
+     *      closer edges give finer estimates at a higher FHE cost per submission. Takes effect
+     *      from the next round, so it can only change between rounds. An empty list disables
+     *      percentile estimates.
+     *
+     * @param poolId The pool to configure
+     * @param percentileEdges Strictly ascending edges (at most `MAX_PERCENTILE_EDGES`)
+     *
+     * @custom:emits PercentileEdgesUpdated with the new edges
+     */
+    function setPercentileEdges(
+        uint256 poolId,
+        uint32[] calldata percentileEdges
+    ) external onlyRole(Role.Admin) poolExists(poolId) {
+        Pool storage pool = _idlePool(poolId);
+        if (!_isAscending(percentileEdges, MAX_PERCENTILE_EDGES)) {
+            revert InvalidPercentileEdges();
+        }
+
+        pool.percentileEdges = percentileEdges;
+
+        emit PercentileEdgesUpdated(poolId, percentileEdges);
+    }
+
+    /**
+     * @notice Name the two cohorts whose pay gap the pool's rounds measure (e.g. by gender or location)
+     * @dev While a round tracks cohorts, submissions must go through `addSalaryWithCohort()` with an
+     *      encrypted flag (true = cohort B). Takes effect from the next round, so it can only change
+     *      between rounds. Two empty labels disable cohorts.
+     *
+     * @param poolId The pool to configure
+     * @param labelA Name of the cohort of unflagged salaries
+     * @param labelB Name of the cohort of flagged salaries
+     *
+     * @custom:emits CohortsUpdated with the new labels
+     */
+    function setCohorts(
+        uint256 poolId,
+        string calldata labelA,
+        string calldata labelB
+    ) external onlyRole(Role.Admin) poolExists(poolId) {
+        SalaryRounds.nameCohorts(_idlePool(poolId), labelA, labelB);
+
+        emit CohortsUpdated(poolId, labelA, labelB);
+    }
+
+    /**
+     * @notice Open a new submission round for a pool
+     * @dev The round starts with a fresh encrypted total, count, band counters and
+     *      `hasSubmitted` set. The previous round must be closed (or past its end time);
+     *      its frozen aggregates stay revealable under its round ID.
+     *
+     * @param poolId The pool to open a round for
+     * @param startTime Timestamp from which submissions are accepted
+     * @param endTime Timestamp from which submissions are no longer accepted
+     * @return roundId The ID assigned to the new round
+     *
+     * @custom:emits RoundOpened with the new round ID and window
+     */
+    function openRound(
+        uint256 poolId,
+        uint64 startTime,
+        uint64 endTime
+    ) external onlyRole(Role.Operator) poolExists(poolId) returns (uint256 roundId) {
+        if (endTime <= startTime || endTime <= block.timestamp) {
+            revert InvalidRoundWindow();
+        }
+
+        Pool storage pool = _idlePool(poolId);
+
+        roundId = pool.roundCount++;
+
+        Round storage round = pool.rounds[roundId];
+        round.startTime = startTime;
+        round.endTime = endTime;
+
+        // Band counters start as zeros, encrypted lazily by the first submission
+        EncryptedStats.init(round.encryptedBandCounts, pool.bandEdges.length + 1);
+
+        // Percentile counters use the edges in effect now, so later changes do not affect this round
+        round.percentileEdges = pool.percentileEdges;
+        EncryptedStats.init(round.encryptedCountsBelow, pool.percentileEdges.length);
+
+        round.tracksCohorts = bytes(pool.cohortLabelA).length > 0 || bytes(pool.cohortLabelB).length > 0;
+
+        emit RoundOpened(poolId, roundId, startTime, endTime);
+    }
+
+    /**
+     * @notice Close a pool's current round, freezing its aggregates for decryption
+     * @dev Can be called before `endTime` to end a survey early. A round past its end time
+     *      already counts as closed; closing it just records that explicitly.
+     *
+     * @param poolId The pool whose current round to close
+     *
+     * @custom:emits RoundClosed with the final submission count
+     */
+    function closeRound(uint256 poolId) external onlyRole(Role.Operator) poolExists(poolId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = _latestRound(pool);
+
+        if (pool.roundCount == 0 || round.closed) {
+            revert RoundNotOpen();
+        }
+
+        round.closed = true;
+
+        emit RoundClosed(poolId, pool.roundCount - 1, round.count);
+    }
+
+    // ============ Core Functions ============
+
+    /**
+     * @notice Submit an encrypted salary to the current round of a pool
+     * @dev This function:
+     *      1. Validates the round is open, the user hasn't already submitted to it and
+     *         is on the pool's allowlist (if any)
+     *      2. Converts the encrypted input using the proof and clamps it into the pool's bounds
+     *      3. Adds to the running encrypted total and updates the encrypted min/max
+     *         and band counters
+     *      4. Increments the submission count
+     *      5. Calls FHE.allowThis() to maintain contract access to the round state
+     *
+     * @param poolId The pool to submit the salary to
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param eligibilityProof Merkle proof of the caller's address (empty if the pool has no allowlist)
+     *
+     * @custom:security The salary value remains encrypted throughout
+     * @custom:emits SalarySubmitted on successful submission
+     */
+    function addSalary(
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused poolExists(poolId) {
+        _addAddressSalary(poolId, msg.sender, encryptedSalary, externalEbool.wrap(0), inputProof, eligibilityProof, false);
+    }
+
+    /**
+     * @notice Submit an encrypted salary together with an encrypted cohort flag
+     * @dev Same as `addSalary()`, for rounds that track cohorts (`setCohorts()`). The flag is
+     *      encrypted in the same input as the salary and only ever used through FHE.select(), so
+     *      neither the transaction nor the stored aggregates reveal the submitter's cohort. The
+     *      submitter keeps the cohort when updating their salary.
+     *
+     * @param poolId The pool to submit the salary to
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param encryptedInCohortB Encrypted flag, true if the submitter belongs to cohort B
+     * @param inputProof Zero-knowledge proof validating both encrypted inputs
+     * @param eligibilityProof Merkle proof of the caller's address (empty if the pool has no allowlist)
+     *
+     * @custom:emits SalarySubmitted on successful submission
+     */
+    function addSalaryWithCohort(
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        externalEbool encryptedInCohortB,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused poolExists(poolId) {
+        _addAddressSalary(poolId, msg.sender, encryptedSalary, encryptedInCohortB, inputProof, eligibilityProof, true);
+    }
+
+    /**
+     * @notice Submit a base salary, bonus and equity in one transaction, with a single input proof
+     * @dev The base salary is handled exactly like `addSalary()` (bounds, bands, percentiles,
+     *      range). Bonus and equity are capped at the pool's upper bound, if any, and added to
+     *      their own encrypted totals, so their averages and the average total compensation can
+     *      be revealed with `requestCompensationDecryption()`.
+     *      Salaries submitted with `addSalary()` count as no bonus and no equity. `updateSalary()`
+     *      only replaces the base salary; `withdrawSalary()` removes all three components.
+     *
+     * @param poolId The pool to submit the compensation to
+     * @param encryptedSalary The encrypted base salary
+     * @param encryptedBonus The encrypted bonus
+     * @param encryptedEquity The encrypted equity
+     * @param inputProof Zero-knowledge proof validating all three encrypted inputs
+     * @param eligibilityProof Merkle proof of the caller's address (empty if the pool has no allowlist)
+     *
+     * @custom:emits SalarySubmitted on successful submission
+     */
+    function addCompensation(
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        externalEuint32 encryptedBonus,
+        externalEuint32 encryptedEquity,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused poolExists(poolId) {
+        (Round storage round, bytes32 key) = _addAddressSalary(
+            poolId,
+            msg.sender,
+            encryptedSalary,
+            externalEbool.wrap(0),
+            inputProof,
+            eligibilityProof,
+            false
+        );
+
+        SalaryRounds.addComponents(
+            round,
+            key,
+            encryptedBonus,
+            encryptedEquity,
+            inputProof,
+            pools[poolId].upperBound,
+            auditors
+        );
+    }
+
+    /**
+     * @notice Import many encrypted salaries into the current round of a pool, e.g. from a payroll export
+     * @dev For an admin onboarding a survey from existing records (see `scripts/import-salaries.ts`).
+     *      All salaries share one input proof, created for this contract and the admin. Each is
+     *      clamped and aggregated exactly like an `addSalary()` submission and recorded under
+     *      `keccak256(abi.encode("import", rowId))`, so imported rows can never collide with
+     *      submitters. Rows that were already imported into the round are skipped, which makes
+     *      re-sending a batch after an interruption harmless. Imported salaries have no private
+     *      receipt and cannot be updated or withdrawn by anyone.
+     *
+     * @param poolId The pool to import the salaries into
+     * @param rowIds Stable identifiers of the imported rows (e.g. a hash of the employee ID)
+     * @param encryptedSalaries The encrypted salaries, in the same order as `rowIds`
+     * @param inputProof Zero-knowledge proof validating all encrypted salaries
+     *
+     * @custom:emits SalariesImported with the number of rows imported
+     */
+    function importSalaries(
+        uint256 poolId,
+        bytes32[] calldata rowIds,
+        externalEuint32[] calldata encryptedSalaries,
+        bytes calldata inputProof
+    ) external onlyRole(Role.Admin) whenNotPaused poolExists(poolId) {
+        if (rowIds.length != encryptedSalaries.length) {
+            revert InvalidImport();
+        }
+
+        Pool storage pool = pools[poolId];
+        Round storage round = _openRound(pool);
+
+        // Imported rows carry no cohort flag
+        if (round.tracksCohorts) {
+            revert WrongCohortMode();
+        }
+
+        uint32 imported;
+        for (uint256 i = 0; i < rowIds.length; i++) {
+            bytes32 key = keccak256(abi.encode("import", rowIds[i]));
+            if (round.hasSubmitted[key]) {
+                continue;
+            }
+
+            euint32 salary = _boundedInput(pool, round, key, encryptedSalaries[i], inputProof);
+            SalaryRounds.addSubmission(pool, round, key, salary, auditors);
+            imported++;
+        }
+
+        emit SalariesImported(poolId, pool.roundCount - 1, imported, round.count);
+    }
+
+    /**
+     * @notice Replace the caller's encrypted salary in the current round (e.g. after a raise)
+     * @dev Subtracts the old salary from and adds the new one to the encrypted total and band
+     *      counters. The count is unchanged. The min/max are marked outdated since the old
+     *      salary may have been the minimum or maximum.
+     *
+     * @param poolId The pool the caller previously submitted to
+     * @param encryptedSalary The new encrypted salary value
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     *
+     * @custom:emits SalaryUpdated on success
+     */
+    function updateSalary(
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof
+    ) external whenNotPaused poolExists(poolId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = _addressModeRound(pool);
+        bytes32 key = _addressKey(msg.sender);
+
+        if (!round.hasSubmitted[key]) {
+            revert NotSubmitted();
+        }
+
+        euint32 newSalary = _boundedInput(pool, round, key, encryptedSalary, inputProof);
+        _grantReceipt(round, key, newSalary);
+
+        SalaryRounds.replaceSubmission(pool, round, key, newSalary, auditors);
+
+        emit SalaryUpdated(poolId, pool.roundCount - 1, msg.sender);
+    }
+
+    /**
+     * @notice Remove the caller's encrypted salary from a round (e.g. on a data-deletion request)
+     * @dev Subtracts the salary from the encrypted total and band counters, decrements the
+     *      count, forgets the stored ciphertext and clears `hasSubmitted` so the caller may
+     *      submit again while the round is open. The min/max are marked outdated so a withdrawn
+     *      salary can never be revealed as the round's minimum or maximum.
+     *      Closed rounds are otherwise frozen, but a submitter can still be deleted from them:
+     *      the round's shared average (pending and verified), comparisons and pay gap are
+     *      discarded and must be requested again, and the round needs `minSubmissions` salaries
+     *      left to be revealed. Averages already recorded in the pool's history are kept.
+     *      Aggregates revealed before and after the withdrawal differ by the withdrawn salary.
+     *
+     * @param poolId The pool the caller previously submitted to
+     * @param roundId The round to remove the salary from, open or closed
+     *
+     * @custom:emits SalaryWithdrawn on success
+     */
+    function withdrawSalary(uint256 poolId, uint256 roundId) external roundExists(poolId, roundId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = pool.rounds[roundId];
+        bytes32 key = _addressKey(msg.sender);
+
+        if (!round.hasSubmitted[key]) {
+            revert NotSubmitted();
+        }
+
+        SalaryRounds.removeSubmission(pool, round, key, auditors);
+
+        emit SalaryWithdrawn(poolId, roundId, msg.sender, round.count);
+    }
+
+    /**
+     * @notice Recompute an outdated encrypted min/max from the stored salaries, in chunks
+     * @dev Folds up to `maxSubmitters` stored salaries per call into a partial min/max and
+     *      swaps it in once every submitter has been processed. Anyone can call this, also
+     *      after the round has closed. Another update or withdrawal restarts the rebuild
+     *      from the first submitter.
+     *
+     * @param poolId The pool whose range to rebuild
+     * @param roundId The round whose range to rebuild
+     * @param maxSubmitters Maximum number of salaries to process in this call
+     * @return done True once the range is up to date again
+     *
+     * @custom:emits RangeRebuilt when the last chunk has been processed
+     */
+    function rebuildRange(
+        uint256 poolId,
+        uint256 roundId,
+        uint256 maxSubmitters
+    ) external roundExists(poolId, roundId) returns (bool done) {
+        Round storage round = pools[poolId].rounds[roundId];
+
+        done = SalaryRounds.rebuildRange(round, maxSubmitters, auditors);
+        if (done) {
+            emit RangeRebuilt(poolId, roundId);
+        }
+    }
+
+    /**
+     * @notice Request decryption of a closed round's average salary
+     * @dev This function:
+     *      1. Checks that the round is closed and has at least `minSubmissions` salaries
+     *      2. Reuses the encrypted average if one was already computed for the current data
+     *         version, so concurrent requesters share one ciphertext, decryption and proof
+     *      3. Otherwise computes the encrypted average (total / count) and marks it as
+     *         publicly decryptable
+     *
+     *      If `getLatestVerifiedAverage()` already belongs to the current data version there is
+     *      nothing left to decrypt; read it instead. While a reveal committee is set, only it can
+     *      call this function.
+     *
+     * @param poolId The pool whose average to decrypt
+     * @param roundId The round whose average to decrypt
+     * @return handle The ciphertext handle for off-chain decryption
+     *
+     * @custom:security Only the final average is decrypted, not individual salaries
+     * @custom:emits AverageRequested when the request is processed
+     */
+    function requestAverageDecryption(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 handle) {
+        _requireRevealer();
+
+        Round storage round = pools[poolId].rounds[roundId];
+
+        // Ensure the round is frozen and there's enough data to reveal an aggregate
+        _requireRevealable(round);
+
+        // Only computes a new average if the data changed since the last one
+        handle = SalaryRounds.requestAverage(round);
+
+        emit AverageRequested(poolId, roundId, msg.sender, handle);
+    }
+
+    /**
+     * @notice Verify the decryption proof of a round's shared average and store the result
+     * @dev Called after off-chain relayer decrypts the value
+     *      The relayer-sdk provides the cleartext and proof. Anyone can verify the pending
+     *      average, not only its requester; the result is recorded as the round's
+     *      `latestVerifiedAverage` for everyone, with the data version and block it belongs to,
+     *      and appended to the pool's average history.
+     *
+     * @param poolId The pool whose pending average is being verified
+     * @param roundId The round whose pending average is being verified
+     * @param abiEncodedCleartexts ABI-encoded cleartext values from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     *
+     * @custom:security Verifies proof via FHE.checkSignatures()
+     * @custom:emits AverageDecrypted with the verified result
+     */
+    function verifyDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        (uint64 decryptedAverage, uint32 sampleSize) = SalaryRounds.verifyAverage(
+            pools[poolId],
+            roundId,
+            usedHandles,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit AverageDecrypted(poolId, roundId, msg.sender, decryptedAverage, sampleSize);
+    }
+
+    /**
+     * @notice Request decryption of a closed round's lowest and highest salary
+     * @dev Follows the same flow as the average: both handles are marked publicly decryptable,
+     *      decrypted off-chain by the relayer and verified with `verifyRangeDecryption()`.
+     *      The same `minSubmissions` threshold applies, since the minimum and maximum are
+     *      individual salaries.
+     *
+     * @param poolId The pool whose range to decrypt
+     * @param roundId The round whose range to decrypt
+     * @return minHandle The ciphertext handle of the lowest salary
+     * @return maxHandle The ciphertext handle of the highest salary
+     *
+     * @custom:emits RangeRequested when the request is processed
+     */
+    function requestRangeDecryption(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 minHandle, bytes32 maxHandle) {
+        Round storage round = pools[poolId].rounds[roundId];
+
+        _requireRevealable(round);
+
+        (minHandle, maxHandle) = SalaryRounds.requestRange(round);
+
+        emit RangeRequested(poolId, roundId, msg.sender, minHandle, maxHandle);
+
+        return (minHandle, maxHandle);
+    }
+
+    /**
+     * @notice Verify the range decryption proof and store the result
+     * @dev Both values are verified with a single FHE.checkSignatures() call. The min/max
+     *      handles are round state shared by all requesters, so replay protection relies on
+     *      clearing the requester's pending request rather than on `usedHandles`.
+     *      Read the result with `getLastRange()`.
+     *
+     * @param poolId The pool whose pending range is being verified
+     * @param roundId The round whose pending range is being verified
+     * @param abiEncodedCleartexts ABI-encoded (min, max) cleartexts from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     *
+     * @custom:emits RangeDecrypted with the verified result
+     */
+    function verifyRangeDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            Statistic.Range,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit RangeDecrypted(poolId, roundId, msg.sender, uint32(values[0]), uint32(values[1]));
+    }
+
+    /**
+     * @notice Request decryption of a closed round's mean and variance
+     * @dev Both are computed on-chain from the encrypted sums and the plaintext count:
+     *      mean = total / count and variance = sumOfSquares / count - mean². The integer
+     *      divisions round down, so the variance is off by less than 2 * mean + 1; its square
+     *      root (the standard deviation) is computed off-chain. Same rules as the average,
+     *      including the reveal committee, since the mean is the average.
+     *
+     * @param poolId The pool to reveal the statistics of
+     * @param roundId The closed round to reveal the statistics of
+     * @return meanHandle Ciphertext handle of the mean (euint64)
+     * @return varianceHandle Ciphertext handle of the variance (euint128)
+     *
+     * @custom:emits StatsRequested with both handles
+     */
+    function requestStatsDecryption(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 meanHandle, bytes32 varianceHandle) {
+        _requireRevealer();
+
+        Round storage round = pools[poolId].rounds[roundId];
+
+        _requireRevealable(round);
+
+        (meanHandle, varianceHandle) = SalaryRounds.requestStats(round);
+
+        emit StatsRequested(poolId, roundId, msg.sender, meanHandle, varianceHandle);
+
+        return (meanHandle, varianceHandle);
+    }
+
+    /**
+     * @notice Verify the caller's pending mean and variance decryption with a single proof
+     * @param poolId The pool whose statistics were requested
+     * @param roundId The round whose statistics were requested
+     * @param abiEncodedCleartexts ABI-encoded mean and variance, in handle order
+     * @param decryptionProof KMS signatures proving the decryption is valid
+     *
+     * @custom:emits StatsDecrypted with the verified values
+     */
+    function verifyStatsDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            Statistic.Stats,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit StatsDecrypted(poolId, roundId, msg.sender, uint64(values[0]), uint128(values[1]));
+    }
+
+    /**
+     * @notice Request decryption of a closed round's estimated lower quartile, median or upper quartile
+     * @dev The estimate is computed obliviously from the encrypted below-edge counts: starting from
+     *      0, it is moved to each edge whose count is at most `count * percentile / 100`. Only this
+     *      one value is made decryptable, never the counts. Each percentile has its own pending
+     *      request and is verified on its own. Same rules as the average.
+     *
+     * @param poolId The pool to reveal the percentile of
+     * @param roundId The closed round to reveal the percentile of
+     * @param percentile `Statistic.Percentile25`, `Statistic.Median` or `Statistic.Percentile75`
+     * @return handle Ciphertext handle of the estimate
+     *
+     * @custom:emits PercentileRequested with the estimate handle
+     */
+    function requestPercentileDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        Statistic percentile
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 handle) {
+        Round storage round = pools[poolId].rounds[roundId];
+
+        uint256 rank = _percentileRank(percentile);
+        if (round.percentileEdges.length == 0) {
+            revert InvalidPercentile();
+        }
+        _requireRevealable(round);
+
+        handle = SalaryRounds.requestPercentile(round, percentile, rank);
+
+        emit PercentileRequested(poolId, roundId, msg.sender, percentile, handle);
+    }
+
+    /**
+     * @notice Verify the caller's pending decryption of one percentile estimate
+     * @param poolId The pool whose percentile was requested
+     * @param roundId The round whose percentile was requested
+     * @param percentile The percentile that was requested
+     * @param abiEncodedCleartexts ABI-encoded estimate
+     * @param decryptionProof KMS signatures proving the decryption is valid
+     *
+     * @custom:emits PercentileDecrypted with the verified estimate
+     */
+    function verifyPercentileDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        Statistic percentile,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        _percentileRank(percentile);
+
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            percentile,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit PercentileDecrypted(poolId, roundId, msg.sender, percentile, uint32(values[0]));
+    }
+
+    /**
+     * @notice Request decryption of a closed round's average bonus, equity or total compensation
+     * @dev Averages are taken over all salaries of the round; salaries submitted without
+     *      components count as no bonus and no equity. The average base salary is revealed
+     *      with `requestAverageDecryption()`. Same rules as the average, including the reveal
+     *      committee: the average follows from the three component averages.
+     *
+     * @param poolId The pool to reveal the average of
+     * @param roundId The closed round to reveal the average of
+     * @param component `Statistic.BonusAverage`, `Statistic.EquityAverage` or `Statistic.CompensationAverage`
+     * @return handle Ciphertext handle of the average (euint64)
+     *
+     * @custom:emits CompensationRequested with the average handle
+     */
+    function requestCompensationDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        Statistic component
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 handle) {
+        _requireRevealer();
+
+        Round storage round = pools[poolId].rounds[roundId];
+
+        uint256 index = _componentIndex(component);
+        _requireRevealable(round);
+
+        handle = SalaryRounds.requestCompensation(round, component, index);
+
+        emit CompensationRequested(poolId, roundId, msg.sender, component, handle);
+    }
+
+    /**
+     * @notice Verify the caller's pending decryption of one compensation component average
+     * @param poolId The pool whose average was requested
+     * @param roundId The round whose average was requested
+     * @param component The component average that was requested
+     * @param abiEncodedCleartexts ABI-encoded average
+     * @param decryptionProof KMS signatures proving the decryption is valid
+     *
+     * @custom:emits CompensationDecrypted with the verified average
+     */
+    function verifyCompensationDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        Statistic component,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        _componentIndex(component);
+
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            component,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit CompensationDecrypted(poolId, roundId, msg.sender, component, uint64(values[0]));
+    }
+
+    /**
+     * @notice Request decryption of all band counts of a closed round
+     * @dev All band counters are marked publicly decryptable at once so they can be decrypted
+     *      by the relayer in a single request and verified with one proof.
+     *      The same `minSubmissions` threshold applies as for the average.
+     *
+     * @param poolId The pool whose histogram to decrypt
+     * @param roundId The round whose histogram to decrypt
+     * @return handles The ciphertext handles of the band counts, lowest band first
+     *
+     * @custom:emits HistogramRequested when the request is processed
+     */
+    function requestHistogramDecryption(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32[] memory handles) {
+        Round storage round = pools[poolId].rounds[roundId];
+
+        _requireRevealable(round);
+
+        handles = SalaryRounds.requestHistogram(round);
+
+        emit HistogramRequested(poolId, roundId, msg.sender, handles);
+
+        return handles;
+    }
+
+    /**
+     * @notice Verify the histogram decryption proof and store the band counts
+     * @dev All handles are verified with a single FHE.checkSignatures() call.
+     *      Read the result with `getLastHistogram()`.
+     *
+     * @param poolId The pool whose pending histogram is being verified
+     * @param roundId The round whose pending histogram is being verified
+     * @param abiEncodedCleartexts ABI-encoded band counts from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     *
+     * @custom:emits HistogramDecrypted with the verified band counts
+     */
+    function verifyHistogramDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            Statistic.Histogram,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit HistogramDecrypted(poolId, roundId, msg.sender, _toUint32Array(values));
+    }
+
+    /**
+     * @notice Privately compare the caller's salary in a closed round with that round's average
+     * @dev The result is an encrypted position only the caller can user-decrypt: 0 = more than
+     *      10% below the average, 1 = within 10% of it, 2 = more than 10% above it. The average
+     *      itself is never made decryptable by this flow.
+     *      Only closed rounds that reached `minSubmissions` qualify: while a round is open, a
+     *      submitter could update their salary and compare again to binary-search the average.
+     *      Only a withdrawal can change a closed round, so the position is computed once per
+     *      submitter and data version; later calls return the same handle.
+     *
+     * @param poolId The pool the caller submitted to
+     * @param roundId The closed round to compare in
+     * @return handle Ciphertext handle of the encrypted position (`euint8`)
+     *
+     * @custom:emits AverageCompared with the position handle
+     */
+    function compareToAverage(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32 handle) {
+        Round storage round = pools[poolId].rounds[roundId];
+        bytes32 key = _addressKey(msg.sender);
+
+        if (!round.hasSubmitted[key]) {
+            revert NotSubmitted();
+        }
+        _requireRevealable(round);
+
+        euint8 position = round.averageComparisons[round.version][key];
+        if (!FHE.isInitialized(position)) {
+            position = EncryptedStats.compareToMean(round.encryptedSalaries[key], round.encryptedTotal, round.count);
+            round.averageComparisons[round.version][key] = position;
+        }
+        FHE.allow(position, msg.sender);
+
+        handle = FHE.toBytes32(position);
+        emit AverageCompared(poolId, roundId, msg.sender, handle);
+    }
+
+    /**
+     * @notice Compute the encrypted gap between the cohort averages of a closed round, in chunks
+     * @dev The cohort sizes are encrypted, so each cohort average is obtained by binary long
+     *      division, at most `maxBits` of its 32 bits per call (each bit costs a few FHE
+     *      operations per cohort). Anyone can call this until it returns true. Only the gap is
+     *      ever made decryptable, never a cohort's total, size or average, and it is replaced by
+     *      an encrypted 0 unless both cohorts have at least `minSubmissions` salaries.
+     *
+     * @param poolId The pool to compute the pay gap of
+     * @param roundId The closed round to compute the pay gap of
+     * @param maxBits Maximum number of quotient bits to compute in this call
+     * @return done True once the gap can be requested with `requestPayGapDecryption()`
+     *
+     * @custom:emits PayGapComputed when the last bit has been computed
+     */
+    function computePayGap(
+        uint256 poolId,
+        uint256 roundId,
+        uint256 maxBits
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bool done) {
+        Round storage round = pools[poolId].rounds[roundId];
+
+        if (!round.tracksCohorts) {
+            revert WrongCohortMode();
+        }
+        _requireRevealable(round);
+
+        if (round.cohorts.computed) {
+            return true;
+        }
+
+        done = EncryptedStats.stepPayGap(round.cohorts, round.encryptedTotal, round.count, minSubmissions, maxBits);
+        if (done) {
+            emit PayGapComputed(poolId, roundId);
+        }
+    }
+
+    /**
+     * @notice Request decryption of a round's pay gap
+     * @dev Reveals three values verified together: whether both cohorts reached
+     *      `minSubmissions`, whether cohort B has the higher average, and the absolute gap
+     *      between the averages (both 0 if not eligible).
+     *
+     * @param poolId The pool to reveal the pay gap of
+     * @param roundId The round to reveal the pay gap of
+     * @return handles Ciphertext handles of the eligible flag, the higher-cohort flag and the gap
+     *
+     * @custom:emits PayGapRequested with the three handles
+     */
+    function requestPayGapDecryption(
+        uint256 poolId,
+        uint256 roundId
+    ) external whenNotPaused roundExists(poolId, roundId) returns (bytes32[] memory handles) {
+        handles = SalaryRounds.requestPayGap(pools[poolId].rounds[roundId]);
+
+        emit PayGapRequested(poolId, roundId, msg.sender, handles);
+    }
+
+    /**
+     * @notice Verify the caller's pending pay-gap decryption with a single proof
+     * @param poolId The pool whose pay gap was requested
+     * @param roundId The round whose pay gap was requested
+     * @param abiEncodedCleartexts ABI-encoded eligible flag, higher-cohort flag and gap, in handle order
+     * @param decryptionProof KMS signatures proving the decryption is valid
+     *
+     * @custom:emits PayGapDecrypted with the verified values
+     */
+    function verifyPayGapDecryption(
+        uint256 poolId,
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external roundExists(poolId, roundId) {
+        uint256[] memory values = SalaryRounds.verifyPending(
+            pools[poolId].rounds[roundId],
+            Statistic.PayGap,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+
+        emit PayGapDecrypted(poolId, roundId, msg.sender, values[0] != 0, values[1] != 0, uint32(values[2]));
+    }
+
+    // ============ Anonymous Submissions ============
+
+    /**
+     * @notice Anonymously submit an encrypted salary to the current round of an anonymous pool
+     * @dev One submission per group member and round is enforced by the nullifier instead of
+     *      the sender, so the transaction can be sent by any address (e.g. a relayer). The
+     *      membership proof must endorse the signal `keccak256(abi.encode("add", encryptedSalary))`,
+     *      which stops a relayer from attaching it to a different ciphertext. The encrypted input
+     *      must be created for the sending address. The sender is NOT granted access to the
+     *      salary, so anonymous submissions have no private receipt.
+     *
+     * @param poolId The anonymous pool to submit the salary to
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param nullifier The member's nullifier for the current round (scope from `getNullifierScope()`)
+     * @param membershipProof Proof of group membership for the pool's verifier
+     *
+     * @custom:emits AnonymousSalarySubmitted on successful submission
+     */
+    function addSalaryAnonymous(
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        bytes32 nullifier,
+        bytes calldata membershipProof
+    ) external whenNotPaused poolExists(poolId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = _openRound(pool);
+
+        // Anonymous submissions carry no cohort flag
+        if (round.tracksCohorts) {
+            revert WrongCohortMode();
+        }
+
+        if (round.hasSubmitted[nullifier]) {
+            revert AlreadySubmitted();
+        }
+
+        _verifyMembership(
+            poolId,
+            pool.roundCount - 1,
+            nullifier,
+            keccak256(abi.encode("add", externalEuint32.unwrap(encryptedSalary))),
+            membershipProof
+        );
+
+        euint32 salary = _boundedInput(pool, round, nullifier, encryptedSalary, inputProof);
+        SalaryRounds.addSubmission(pool, round, nullifier, salary, auditors);
+
+        emit AnonymousSalarySubmitted(poolId, pool.roundCount - 1, nullifier, round.count);
+    }
+
+    /**
+     * @notice Anonymously replace a salary submitted with `addSalaryAnonymous()`
+     * @dev The membership proof must endorse `keccak256(abi.encode("update", oldHandle, encryptedSalary))`,
+     *      where `oldHandle` is the currently stored ciphertext (`getAnonymousSubmissionHandle()`),
+     *      so it cannot be replayed later.
+     *
+     * @param poolId The anonymous pool the member previously submitted to
+     * @param nullifier The member's nullifier for the current round
+     * @param encryptedSalary The new encrypted salary value
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param membershipProof Proof of group membership for the pool's verifier
+     *
+     * @custom:emits AnonymousSalaryUpdated on success
+     */
+    function updateSalaryAnonymous(
+        uint256 poolId,
+        bytes32 nullifier,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        bytes calldata membershipProof
+    ) external whenNotPaused poolExists(poolId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = _openRound(pool);
+
+        if (!round.hasSubmitted[nullifier]) {
+            revert NotSubmitted();
+        }
+
+        _verifyMembership(
+            poolId,
+            pool.roundCount - 1,
+            nullifier,
+            keccak256(
+                abi.encode(
+                    "update",
+                    FHE.toBytes32(round.encryptedSalaries[nullifier]),
+                    externalEuint32.unwrap(encryptedSalary)
+                )
+            ),
+            membershipProof
+        );
+
+        euint32 newSalary = _boundedInput(pool, round, nullifier, encryptedSalary, inputProof);
+        SalaryRounds.replaceSubmission(pool, round, nullifier, newSalary, auditors);
+
+        emit AnonymousSalaryUpdated(poolId, pool.roundCount - 1, nullifier);
+    }
+
+    /**
+     * @notice Anonymously remove a salary submitted with `addSalaryAnonymous()`, from an open or closed round
+     * @dev The membership proof must be for the round's nullifier scope and endorse
+     *      `keccak256(abi.encode("withdraw", oldHandle))`, where `oldHandle` is the currently
+     *      stored ciphertext (`getAnonymousSubmissionHandle()`). Same effects as `withdrawSalary()`.
+     *
+     * @param poolId The anonymous pool the member previously submitted to
+     * @param roundId The round to remove the salary from
+     * @param nullifier The member's nullifier for that round
+     * @param membershipProof Proof of group membership for the pool's verifier
+     *
+     * @custom:emits AnonymousSalaryWithdrawn on success
+     */
+    function withdrawSalaryAnonymous(
+        uint256 poolId,
+        uint256 roundId,
+        bytes32 nullifier,
+        bytes calldata membershipProof
+    ) external roundExists(poolId, roundId) {
+        Pool storage pool = pools[poolId];
+        Round storage round = pool.rounds[roundId];
+
+        if (!round.hasSubmitted[nullifier]) {
+            revert NotSubmitted();
+        }
+
+        _verifyMembership(
+            poolId,
+            roundId,
+            nullifier,
+            keccak256(abi.encode("withdraw", FHE.toBytes32(round.encryptedSalaries[nullifier]))),
+            membershipProof
+        );
+
+        SalaryRounds.removeSubmission(pool, round, nullifier, auditors);
+
+        emit AnonymousSalaryWithdrawn(poolId, roundId, nullifier, round.count);
+    }
+
+    // ============ Relayed Submissions ============
+
+    /**
+     * @notice Set the contract allowed to submit salaries on behalf of signers
+     * @dev The relay (`SalaryRelay`) is responsible for authenticating the signer of each
+     *      submission. It can be replaced or disabled at any time; submissions it already made
+     *      are unaffected.
+     *
+     * @param newRelay The relay contract, or address(0) to disable relayed submissions
+     *
+     * @custom:emits RelayUpdated with the new relay
+     */
+    function setRelay(address newRelay) external onlyOwner {
+        relay = newRelay;
+
+        emit RelayUpdated(newRelay);
+    }
+
+    /**
+     * @notice Submit an encrypted salary on behalf of a signer, so they need no ETH for gas
+     * @dev Only callable by the relay, after it has checked the signer's EIP-712 intent. The
+     *      salary is recorded for `submitter` exactly as if they had called `addSalary()`: the
+     *      same round, allowlist and one-submission-per-address checks apply, and `hasUserSubmitted()`
+     *      and `SalarySubmitted` report the submitter. The encrypted input must be created for
+     *      this contract and the relay address, since the relay is the sender. The submitter is
+     *      NOT granted access to the stored ciphertext, so relayed submissions have no private receipt.
+     *
+     * @param submitter The address that signed the intent
+     * @param poolId The pool to submit the salary to
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param eligibilityProof Merkle proof of the submitter's address (empty if the pool has no allowlist)
+     *
+     * @custom:emits SalarySubmitted on successful submission
+     */
+    function addSalaryFor(
+        address submitter,
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external whenNotPaused poolExists(poolId) {
+        if (msg.sender != relay) {
+            revert NotRelay();
+        }
+
+        _addAddressSalary(poolId, submitter, encryptedSalary, externalEbool.wrap(0), inputProof, eligibilityProof, false);
+    }
+
+    // ============ Reveal Committee ============
+
+    /**
+     * @notice Set the contract whose approval average reveals need
+     * @dev The committee (`RevealCommittee`) collects M-of-N approvals before it calls
+     *      `requestAverageDecryption()`, `requestStatsDecryption()` or
+     *      `requestCompensationDecryption()`; nobody else can call them while it is set. Reveals
+     *      already requested stay decryptable and can still be verified after the committee is
+     *      replaced or removed.
+     *
+     * @param committee The committee contract, or address(0) to let anyone request average reveals
+     *
+     * @custom:emits RevealCommitteeUpdated with the new committee
+     */
+    function setRevealCommittee(address committee) external onlyOwner {
+        revealCommittee = committee;
+
+        emit RevealCommitteeUpdated(committee);
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Reverts if the given pool has not been created
+    function _requirePool(uint256 poolId) internal view {
+        if (poolId >= poolCount) {
+            revert PoolDoesNotExist();
+        }
+    }
+
+    /// @notice Reverts if the given pool or round has not been created
+    function _requireRound(uint256 poolId, uint256 roundId) internal view {
+        _requirePool(poolId);
+        if (roundId >= pools[poolId].roundCount) {
+            revert RoundDoesNotExist();
+        }
+    }
+
+    /**
+     * @notice Validate and fold an address-mode submission into the current round
+     * @param poolId The pool to submit the salary to
+     * @param submitter The address the salary is recorded for (the caller, unless relayed)
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param encryptedInCohortB Encrypted cohort flag (ignored unless `withCohort`)
+     * @param inputProof Zero-knowledge proof validating the encrypted inputs
+     * @param eligibilityProof Merkle proof of the submitter's address (empty if the pool has no allowlist)
+     * @param withCohort Whether the submission carries a cohort flag (must match the round)
+     * @return round The open round
+     * @return key The submitter's address key
+     */
+    function _addAddressSalary(
+        uint256 poolId,
+        address submitter,
+        externalEuint32 encryptedSalary,
+        externalEbool encryptedInCohortB,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof,
+        bool withCohort
+    ) internal returns (Round storage round, bytes32 key) {
+        Pool storage pool = pools[poolId];
+        round = _addressModeRound(pool);
+        key = _addressKey(submitter);
+
+        if (round.tracksCohorts != withCohort) {
+            revert WrongCohortMode();
+        }
+
+        // Prevent double submission
+        if (round.hasSubmitted[key]) {
+            revert AlreadySubmitted();
+        }
+
+        if (!_isEligible(pool.eligibilityRoot, submitter, eligibilityProof)) {
+            revert NotEligible();
+        }
+
+        euint32 salary = _boundedInput(pool, round, key, encryptedSalary, inputProof);
+        // Relayed ciphertexts are not bound to the submitter, so they get no receipt
+        if (submitter == msg.sender) {
+            _grantReceipt(round, key, salary);
+        }
+
+        if (withCohort) {
+            // Recorded before the salary is aggregated, which selects on it
+            ebool inCohortB = FHE.fromExternal(encryptedInCohortB, inputProof);
+            FHE.allowThis(inCohortB);
+            FHE.allow(inCohortB, msg.sender);
+            round.cohortFlags[key] = inCohortB;
+        }
+
+        SalaryRounds.addSubmission(pool, round, key, salary, auditors);
+
+        emit SalarySubmitted(poolId, pool.roundCount - 1, submitter, round.count);
+    }
+
+    /**
+     * @notice Convert an encrypted input and grant the contract access to it
+     * @dev The input proof must have been created for this contract and the sender
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @return salary The validated encrypted salary
+     */
+    function _fromInput(externalEuint32 encryptedSalary, bytes calldata inputProof) internal returns (euint32 salary) {
+        // Convert the encrypted input to euint32 with proof validation
+        salary = FHE.fromExternal(encryptedSalary, inputProof);
+
+        // Verify the input was properly converted
+        require(FHE.isInitialized(salary), "salary not initialized from input");
+
+        // CRITICAL: Grant contract permission to access the input salary BEFORE using it
+        // Per Zama docs: "the calling contract must already have ACL permission to access the handle"
+        FHE.allowThis(salary);
+    }
+
+    /**
+     * @notice Convert an encrypted input, obliviously clamp it into the pool's bounds and record whether it was in range
+     * @dev Out-of-range values are replaced by the nearest bound rather than rejected, so the
+     *      transaction looks the same either way. Pools without bounds accept salaries unchanged
+     *      and record no flag.
+     * @param pool The pool whose bounds apply
+     * @param round The open round (stores the accepted flag)
+     * @param key The submitter's address key or nullifier
+     * @param encryptedSalary The encrypted salary value (externalEuint32 type)
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @return The salary clamped into [lowerBound, upperBound]
+     */
+    function _boundedInput(
+        Pool storage pool,
+        Round storage round,
+        bytes32 key,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof
+    ) internal returns (euint32) {
+        euint32 salary = _fromInput(encryptedSalary, inputProof);
+        if (!FHE.isInitialized(pool.lowerBound)) {
+            return salary;
+        }
+
+        (euint32 clamped, ebool accepted) = EncryptedStats.clamp(salary, pool.lowerBound, pool.upperBound);
+        round.acceptedFlags[key] = accepted;
+        return clamped;
+    }
+
+    /**
+     * @notice Let an address-mode submitter user-decrypt their recorded salary and accepted flag
+     * @param round The open round
+     * @param key The submitter's address key
+     * @param salary The recorded (clamped) salary
+     */
+    function _grantReceipt(Round storage round, bytes32 key, euint32 salary) internal {
+        // Private receipt: only the submitter may user-decrypt what was recorded
+        FHE.allow(salary, msg.sender);
+
+        ebool accepted = round.acceptedFlags[key];
+        if (FHE.isInitialized(accepted)) {
+            FHE.allow(accepted, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Check a membership proof against the pool's group for a round
+     * @dev Reverts with WrongSubmissionMode if the pool is not anonymous, and with
+     *      InvalidMembershipProof if the verifier rejects the proof
+     * @param poolId The anonymous pool
+     * @param roundId The round whose nullifier scope the proof must be for
+     * @param nullifier The member's nullifier for that round
+     * @param signal The action and ciphertext the member must have endorsed
+     * @param membershipProof Proof of group membership for the pool's verifier
+     */
+    function _verifyMembership(
+        uint256 poolId,
+        uint256 roundId,
+        bytes32 nullifier,
+        bytes32 signal,
+        bytes calldata membershipProof
+    ) internal view {
+        Pool storage pool = pools[poolId];
+        if (address(pool.membershipVerifier) == address(0)) {
+            revert WrongSubmissionMode();
+        }
+
+        bytes32 scope = _nullifierScope(poolId, roundId);
+        if (!pool.membershipVerifier.verifyMembership(pool.membershipRoot, nullifier, scope, signal, membershipProof)) {
+            revert InvalidMembershipProof();
+        }
+    }
+
+    /**
+     * @notice Nullifier scope of a round: nullifiers are unique per member within it and unlinkable across rounds
+     */
+    function _nullifierScope(uint256 poolId, uint256 roundId) internal view returns (bytes32) {
+        return keccak256(abi.encode(address(this), poolId, roundId));
+    }
+
+    /**
+     * @notice Submitter key of an address-mode submission
+     */
+    function _addressKey(address account) internal pure returns (bytes32) {
+        return bytes32(uint256(uint160(account)));
+    }
+
+    /**
+     * @notice Check an address against a Merkle root of eligible addresses
+     * @dev Uses double-hashed leaves and sorted-pair hashing, compatible with OpenZeppelin's
+     *      `MerkleProof` and `StandardMerkleTree` for a single `address` column
+     * @param root The eligibility root (bytes32(0) = anyone is eligible)
+     * @param account The address to check
+     * @param proof Sibling hashes from the leaf up to the root
+     * @return True if the pool has no allowlist or the proof is valid
+     */
+    function _isEligible(bytes32 root, address account, bytes32[] calldata proof) internal pure returns (bool) {
+        if (root == bytes32(0)) {
+            return true;
+        }
+
+        bytes32 computed = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            computed = computed < sibling
+                ? keccak256(abi.encodePacked(computed, sibling))
+                : keccak256(abi.encodePacked(sibling, computed));
+        }
+        return computed == root;
+    }
+
+    /**
+     * @notice Set the owner and the k-anonymity threshold of a new deployment
+     */
+    function _initialize(address _owner, uint32 _minSubmissions) internal {
+        if (_minSubmissions == 0) {
+            revert InvalidMinSubmissions();
+        }
+
+        owner = _owner;
+        minSubmissions = _minSubmissions;
+    }
+
+    /**
+     * @notice Revert unless the caller is the owner
+     */
+    function _checkOwner() internal view {
+        if (msg.sender != owner) {
+            revert NotOwner();
+        }
+    }
+
+    /**
+     * @notice Revert unless the caller holds a role
+     */
+    function _checkRole(Role role) internal view {
+        if (!hasRole(role, msg.sender)) {
+            revert MissingRole();
+        }
+    }
+
+    /**
+     * @notice Revert while the contract is paused
+     */
+    function _requireNotPaused() internal view {
+        if (paused) {
+            revert ContractPaused();
+        }
+    }
+
+    /**
+     * @notice Get a pool whose settings may change, reverting while its latest round is not closed
+     */
+    function _idlePool(uint256 poolId) internal view returns (Pool storage pool) {
+        pool = pools[poolId];
+        if (pool.roundCount > 0 && !_isClosed(_latestRound(pool))) {
+            revert RoundNotClosed();
+        }
+    }
+
+    /**
+     * @notice Get a pool's most recently opened round
+     * @dev Returns an empty round (count 0, nobody submitted) if no round was opened yet
+     */
+    function _latestRound(Pool storage pool) internal view returns (Round storage) {
+        return pool.rounds[pool.roundCount == 0 ? 0 : pool.roundCount - 1];
+    }
+
+    /**
+     * @notice Get a pool's current round, reverting unless it accepts submissions right now
+     */
+    function _openRound(Pool storage pool) internal view returns (Round storage round) {
+        round = _latestRound(pool);
+        if (
+            pool.roundCount == 0 ||
+            round.closed ||
+            block.timestamp < round.startTime ||
+            block.timestamp >= round.endTime
+        ) {
+            revert RoundNotOpen();
+        }
+    }
+
+    /**
+     * @notice Get a pool's open round for an address-based submission, reverting for anonymous pools
+     */
+    function _addressModeRound(Pool storage pool) internal view returns (Round storage) {
+        if (address(pool.membershipVerifier) != address(0)) {
+            revert WrongSubmissionMode();
+        }
+        return _openRound(pool);
+    }
+
+    /**
+     * @notice Whether a round no longer accepts submissions (closed early or past its end time)
+     */
+    function _isClosed(Round storage round) internal view returns (bool) {
+        return round.closed || block.timestamp >= round.endTime;
+    }
+
+    /**
+     * @notice A user's last verified values of a statistic, or `length` zeros if there are none
+     * @dev Reverts if the pool or round does not exist
+     */
+    function _lastDecrypted(
+        uint256 poolId,
+        uint256 roundId,
+        address user,
+        Statistic statistic,
+        uint256 length
+    ) internal view returns (uint256[] memory values) {
+        _requireRound(poolId, roundId);
+        values = pools[poolId].rounds[roundId].lastDecrypted[user][statistic];
+        if (values.length == 0) {
+            values = new uint256[](length);
+        }
+    }
+
+    /**
+     * @notice Narrow decrypted 32-bit values to a `uint32[]`
+     */
+    function _toUint32Array(uint256[] memory values) internal pure returns (uint32[] memory result) {
+        result = new uint32[](values.length);
+        for (uint256 i = 0; i < values.length; i++) {
+            result[i] = uint32(values[i]);
+        }
+    }
+
+    /**
+     * @notice Percentile rank (out of 100) of a percentile statistic
+     * @dev Reverts with InvalidPercentile for statistics that are not percentiles
+     */
+    function _percentileRank(Statistic percentile) internal pure returns (uint256) {
+        if (percentile == Statistic.Percentile25) return 25;
+        if (percentile == Statistic.Median) return 50;
+        if (percentile == Statistic.Percentile75) return 75;
+        revert InvalidPercentile();
+    }
+
+    /**
+     * @notice Index of a compensation component average in `EncryptedStats.componentAverage()`
+     * @dev Reverts with InvalidComponent for statistics that are not component averages
+     */
+    function _componentIndex(Statistic component) internal pure returns (uint256) {
+        if (component < Statistic.BonusAverage) revert InvalidComponent();
+        return uint256(component) - uint256(Statistic.BonusAverage);
+    }
+
+    /**
+     * @notice Check that edges are strictly ascending and at most `maxLength` long
+     */
+    function _isAscending(uint32[] calldata edges, uint256 maxLength) internal pure returns (bool) {
+        if (edges.length > maxLength) {
+            return false;
+        }
+        for (uint256 i = 1; i < edges.length; i++) {
+            if (edges[i] <= edges[i - 1]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @notice Revert unless the caller may request reveals the average can be derived from
+     * @dev Anyone may while no reveal committee is set
+     */
+    function _requireRevealer() internal view {
+        if (revealCommittee != address(0) && msg.sender != revealCommittee) {
+            revert NotRevealCommittee();
+        }
+    }
+
+    /**
+     * @notice Revert unless a round is frozen and has enough submissions for an aggregate to be revealed
+     * @param round The round about to be revealed
+     */
+    function _requireRevealable(Round storage round) internal view {
+        // Aggregates of an open round could be differenced between submissions
+        if (!_isClosed(round)) {
+            revert RoundNotClosed();
+        }
+
+        if (round.count == 0) {
+            revert NoSalariesSubmitted();
+        }
+
+        // Enforce k-anonymity: an aggregate over too few salaries would expose individuals
+        if (round.count < minSubmissions) {
+            revert BelowMinimumSubmissions();
+        }
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Whether an account can act with a role
+     * @dev True for accounts granted the role and, except for the auditor role, for the owner and admins
+     * @param role The role to check
+     * @param account The account to check
+     */
+    function hasRole(Role role, address account) public view returns (bool) {
+        if (role == Role.Auditor) {
+            return roles[account][role];
+        }
+        return account == owner || roles[account][Role.Admin] || roles[account][role];
+    }
+
+    /**
+     * @notice Get the handles of a round's encrypted total, sum of squares, minimum and maximum
+     * @dev Only the contract and auditors can decrypt them (zero until the first submission).
+     *      The minimum and maximum may be outdated, see `getRangeStatus()`
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     */
+    function getAuditHandles(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bytes32 total, bytes32 sumOfSquares, bytes32 min, bytes32 max)
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        return (
+            FHE.toBytes32(round.encryptedTotal),
+            FHE.toBytes32(round.encryptedSumOfSquares),
+            FHE.toBytes32(round.encryptedMin),
+            FHE.toBytes32(round.encryptedMax)
+        );
+    }
+
+    /**
+     * @notice Get the handles of a round's encrypted band and below-edge counts, cohort B aggregates and component totals
+     * @dev Only the contract and auditors can decrypt them; handles no submission encrypted yet are zero
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return One handle per band, one per percentile edge, then cohort B's total and count and
+     *         the bonus and equity totals
+     */
+    function getAuditBreakdownHandles(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bytes32[] memory)
+    {
+        return SalaryRounds.auditBreakdownHandles(pools[poolId].rounds[roundId]);
+    }
+
+    /**
+     * @notice Get the metadata and submission count of a pool
+     * @param poolId The pool to query
+     * @return label Human-readable pool name
+     * @return currency Currency of the salaries in the pool
+     * @return period Pay period of the salaries in the pool
+     * @return roundCount Number of rounds opened so far (the latest is the current round)
+     * @return bandEdges Ascending salary band edges of the pool's histogram
+     */
+    function getPool(uint256 poolId)
+        external
+        view
+        poolExists(poolId)
+        returns (
+            string memory label,
+            string memory currency,
+            string memory period,
+            uint256 roundCount,
+            uint32[] memory bandEdges
+        )
+    {
+        Pool storage pool = pools[poolId];
+        return (pool.label, pool.currency, pool.period, pool.roundCount, pool.bandEdges);
+    }
+
+    /**
+     * @notice Get the Merkle root of addresses allowed to submit to a pool
+     * @param poolId The pool to query
+     * @return The eligibility root, or bytes32(0) if anyone may submit
+     */
+    function getEligibilityRoot(uint256 poolId) external view poolExists(poolId) returns (bytes32) {
+        return pools[poolId].eligibilityRoot;
+    }
+
+    /**
+     * @notice Get the anonymous submission settings of a pool
+     * @param poolId The pool to query
+     * @return verifier The membership proof verifier, or address(0) if submissions are tracked by address
+     * @return root Merkle root of the membership group
+     */
+    function getMembershipGroup(uint256 poolId)
+        external
+        view
+        poolExists(poolId)
+        returns (address verifier, bytes32 root)
+    {
+        Pool storage pool = pools[poolId];
+        return (address(pool.membershipVerifier), pool.membershipRoot);
+    }
+
+    /**
+     * @notice Get the scope members must derive their nullifier from for a round
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return The nullifier scope of the round
+     */
+    function getNullifierScope(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bytes32)
+    {
+        return _nullifierScope(poolId, roundId);
+    }
+
+    /**
+     * @notice Check whether an address with the given Merkle proof may submit to a pool
+     * @dev Lets the frontend validate a distributed proof before sending a transaction
+     * @param poolId The pool to query
+     * @param account The address to check
+     * @param eligibilityProof Merkle proof of `account` (empty if the pool has no allowlist)
+     * @return True if `addSalary()` would accept the proof for `account`
+     */
+    function isEligible(
+        uint256 poolId,
+        address account,
+        bytes32[] calldata eligibilityProof
+    ) external view poolExists(poolId) returns (bool) {
+        return _isEligible(pools[poolId].eligibilityRoot, account, eligibilityProof);
+    }
+
+    /**
+     * @notice Get the window, status and results of a round
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return startTime Timestamp from which submissions are accepted
+     * @return endTime Timestamp from which submissions are no longer accepted
+     * @return closed True once the round is frozen (closed early or past its end time)
+     * @return roundSubmissions Number of salaries submitted in the round
+     * @return verifiedAverage Verified average of the round, or 0 if not revealed yet
+     */
+    function getRound(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (
+            uint64 startTime,
+            uint64 endTime,
+            bool closed,
+            uint32 roundSubmissions,
+            uint64 verifiedAverage
+        )
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        return (round.startTime, round.endTime, _isClosed(round), round.count, round.latestVerifiedAverage.value);
+    }
+
+    /**
+     * @notice Get the number of salaries submitted in a pool's current round
+     * @param poolId The pool to query
+     * @return The number of salaries in the current round, or 0 if no round was opened yet
+     */
+    function getCount(uint256 poolId) external view poolExists(poolId) returns (uint32) {
+        return _latestRound(pools[poolId]).count;
+    }
+
+    /**
+     * @notice Get how many more submissions a pool's current round needs before its average can be revealed
+     * @param poolId The pool to query
+     * @return The number of missing submissions, or 0 if the threshold is reached
+     */
+    function getSubmissionsNeeded(uint256 poolId) external view poolExists(poolId) returns (uint32) {
+        uint32 roundSubmissions = _latestRound(pools[poolId]).count;
+        return roundSubmissions >= minSubmissions ? 0 : minSubmissions - roundSubmissions;
+    }
+
+    /**
+     * @notice Check if an address has already submitted a salary in a pool's current round
+     * @param poolId The pool to query
+     * @param user The address to check
+     * @return True if the user has submitted in the current round, false otherwise
+     */
+    function hasUserSubmitted(uint256 poolId, address user) external view poolExists(poolId) returns (bool) {
+        return _latestRound(pools[poolId]).hasSubmitted[_addressKey(user)];
+    }
+
+    /**
+     * @notice Check if a nullifier has already been used in an anonymous pool's current round
+     * @dev The anonymous counterpart of `hasUserSubmitted()`
+     * @param poolId The pool to query
+     * @param nullifier The member's nullifier for the current round
+     * @return True if a salary is currently recorded under the nullifier
+     */
+    function isNullifierUsed(uint256 poolId, bytes32 nullifier) external view poolExists(poolId) returns (bool) {
+        return _latestRound(pools[poolId]).hasSubmitted[nullifier];
+    }
+
+    /**
+     * @notice Get the handle of a submitter's stored encrypted salary (their private receipt)
+     * @dev The handle itself reveals nothing: only `user` is on the ACL and can user-decrypt it.
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The submitter to query
+     * @return The ciphertext handle, or bytes32(0) if the user has no salary in the round
+     */
+    function getSubmissionHandle(
+        uint256 poolId,
+        uint256 roundId,
+        address user
+    ) external view roundExists(poolId, roundId) returns (bytes32) {
+        return FHE.toBytes32(pools[poolId].rounds[roundId].encryptedSalaries[_addressKey(user)]);
+    }
+
+    /**
+     * @notice Get the handle of a submitter's encrypted position relative to a round's average
+     * @dev Only `user` is on the ACL. See `compareToAverage()` for the meaning of the position.
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The submitter to query
+     * @return The ciphertext handle, or bytes32(0) if the user has not compared in the round since its last withdrawal
+     */
+    function getComparisonHandle(
+        uint256 poolId,
+        uint256 roundId,
+        address user
+    ) external view roundExists(poolId, roundId) returns (bytes32) {
+        Round storage round = pools[poolId].rounds[roundId];
+        return FHE.toBytes32(round.averageComparisons[round.version][_addressKey(user)]);
+    }
+
+    /**
+     * @notice Get the handle of the salary recorded under a nullifier in an anonymous pool
+     * @dev Needed to build the signal of `updateSalaryAnonymous()` and `withdrawSalaryAnonymous()`.
+     *      Nobody outside the contract is on its ACL.
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param nullifier The member's nullifier for the round
+     * @return The ciphertext handle, or bytes32(0) if nothing is recorded under the nullifier
+     */
+    function getAnonymousSubmissionHandle(
+        uint256 poolId,
+        uint256 roundId,
+        bytes32 nullifier
+    ) external view roundExists(poolId, roundId) returns (bytes32) {
+        return FHE.toBytes32(pools[poolId].rounds[roundId].encryptedSalaries[nullifier]);
+    }
+
+    /**
+     * @notice Get the handle of the encrypted flag telling whether a submitter's salary was within the pool's bounds
+     * @dev Only `user` is on the ACL and can user-decrypt it: true if the salary counted as submitted,
+     *      false if it was clamped to a bound.
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The submitter to query
+     * @return The ciphertext handle, or bytes32(0) if the user has no salary or the pool has no bounds
+     */
+    function getAcceptedHandle(
+        uint256 poolId,
+        uint256 roundId,
+        address user
+    ) external view roundExists(poolId, roundId) returns (bytes32) {
+        return FHE.toBytes32(pools[poolId].rounds[roundId].acceptedFlags[_addressKey(user)]);
+    }
+
+    /**
+     * @notice Get whether a pool validates salaries against encrypted bounds
+     * @param poolId The pool to query
+     * @return True once `setSalaryBounds()` was called for the pool
+     */
+    function hasSalaryBounds(uint256 poolId) external view poolExists(poolId) returns (bool) {
+        return FHE.isInitialized(pools[poolId].lowerBound);
+    }
+
+    /**
+     * @notice Get the shared average handle of a round awaiting verification
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return handle The handle of the average of the current data version, or bytes32(0) if none
+     *         was requested yet, it is outdated or it has already been verified
+     * @return count Number of salaries the pending average was computed from (0 if there is none)
+     */
+    function getPendingHandle(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bytes32 handle, uint32 count)
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        handle = euint64.unwrap(round.encryptedAverage);
+        if (round.encryptedAverageVersion != round.version || usedHandles[handle]) {
+            return (bytes32(0), 0);
+        }
+        return (handle, round.encryptedAverageCount);
+    }
+
+    /**
+     * @notice Get the most recently verified average of a round, shared by everyone
+     * @dev The average is current while `version == currentVersion`; no transaction is needed to read it
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return average The verified average (0 if none was verified yet)
+     * @return count Number of salaries the average was computed from
+     * @return version Data version the average was computed from
+     * @return blockNumber Block in which it was verified (0 if none was verified yet)
+     * @return currentVersion The round's current data version
+     */
+    function getLatestVerifiedAverage(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (uint64 average, uint32 count, uint32 version, uint64 blockNumber, uint32 currentVersion)
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        VerifiedAverage storage verified = round.latestVerifiedAverage;
+        return (verified.value, verified.count, verified.version, verified.blockNumber, round.version);
+    }
+
+    /**
+     * @notice Get the number of averages verified in a pool so far
+     * @param poolId The pool to query
+     * @return The length of the pool's average history
+     */
+    function getAverageHistoryLength(uint256 poolId) external view poolExists(poolId) returns (uint256) {
+        return pools[poolId].averageHistory.length;
+    }
+
+    /**
+     * @notice Get a page of a pool's history of verified averages
+     * @dev Returns fewer than `limit` records at the end of the history, and none past it
+     * @param poolId The pool to query
+     * @param offset Index of the first record to return (0 = oldest)
+     * @param limit Maximum number of records to return
+     * @return records The verified averages, oldest first
+     */
+    function getAverageHistory(uint256 poolId, uint256 offset, uint256 limit)
+        external
+        view
+        poolExists(poolId)
+        returns (AverageRecord[] memory records)
+    {
+        AverageRecord[] storage history = pools[poolId].averageHistory;
+        if (offset >= history.length) {
+            return records;
+        }
+        if (limit > history.length - offset) {
+            limit = history.length - offset;
+        }
+
+        records = new AverageRecord[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            records[i] = history[offset + i];
+        }
+    }
+
+    /**
+     * @notice Get the last decrypted salary range of a round for a specific address
+     * @dev Returns (0, 0) if the address has never verified a range decryption for this round
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The address to query
+     * @return min The last decrypted lowest salary
+     * @return max The last decrypted highest salary
+     */
+    function getLastRange(uint256 poolId, uint256 roundId, address user)
+        external
+        view
+        returns (uint32 min, uint32 max)
+    {
+        uint256[] memory values = _lastDecrypted(poolId, roundId, user, Statistic.Range, 2);
+        return (uint32(values[0]), uint32(values[1]));
+    }
+
+    /**
+     * @notice Get the last decrypted mean and variance of a round for a specific address
+     * @dev Returns (0, 0) if the address has never verified a statistics decryption for this round
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The address to query
+     * @return mean The last decrypted mean salary
+     * @return variance The last decrypted variance (the standard deviation is its square root)
+     */
+    function getLastStats(uint256 poolId, uint256 roundId, address user)
+        external
+        view
+        returns (uint64 mean, uint128 variance)
+    {
+        uint256[] memory values = _lastDecrypted(poolId, roundId, user, Statistic.Stats, 2);
+        return (uint64(values[0]), uint128(values[1]));
+    }
+
+    /**
+     * @notice Get the last decrypted estimate of a percentile of a round for a specific address
+     * @dev Returns 0 if the address has never verified that percentile, or if the estimate
+     *      lies below the first percentile edge
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The address to query
+     * @param percentile `Statistic.Percentile25`, `Statistic.Median` or `Statistic.Percentile75`
+     * @return The last decrypted estimate
+     */
+    function getLastPercentile(uint256 poolId, uint256 roundId, address user, Statistic percentile)
+        external
+        view
+        returns (uint32)
+    {
+        return uint32(_lastDecrypted(poolId, roundId, user, percentile, 1)[0]);
+    }
+
+    /**
+     * @notice Get the last decrypted compensation component average of a round for a specific address
+     * @dev Returns 0 if the address has never verified a decryption of this average
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The address to query
+     * @param component `Statistic.BonusAverage`, `Statistic.EquityAverage` or `Statistic.CompensationAverage`
+     * @return The decrypted average
+     */
+    function getLastCompensation(uint256 poolId, uint256 roundId, address user, Statistic component)
+        external
+        view
+        returns (uint64)
+    {
+        return uint64(_lastDecrypted(poolId, roundId, user, component, 1)[0]);
+    }
+
+    /**
+     * @notice Get the percentile edges of a round (the pool's edges when the round was opened)
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return The ascending edges percentile estimates of the round snap to
+     */
+    function getPercentileEdges(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (uint32[] memory)
+    {
+        return pools[poolId].rounds[roundId].percentileEdges;
+    }
+
+    /**
+     * @notice Get the last decrypted band counts of a round for a specific address
+     * @dev Returns an empty array if the address has never verified a histogram decryption
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @param user The address to query
+     * @return The decrypted number of salaries per band, lowest band first
+     */
+    function getLastHistogram(uint256 poolId, uint256 roundId, address user)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (uint32[] memory)
+    {
+        return _toUint32Array(pools[poolId].rounds[roundId].lastDecrypted[user][Statistic.Histogram]);
+    }
+
+    /**
+     * @notice Get whether a round's min/max must be rebuilt before it can be revealed
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return outdated True after an update or withdrawal, until `rebuildRange()` completes
+     * @return processed Number of salaries already folded into the rebuild
+     * @return total Number of salaries the rebuild has to process
+     */
+    function getRangeStatus(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bool outdated, uint256 processed, uint256 total)
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        return (round.rangeOutdated, round.rangeRebuildCursor, round.submitters.length);
+    }
+
+    /**
+     * @notice Get the names of a pool's two cohorts
+     * @param poolId The pool to query
+     * @return labelA Name of the cohort of unflagged salaries
+     * @return labelB Name of the cohort of flagged salaries (both empty = the pool has no cohorts)
+     */
+    function getCohorts(uint256 poolId)
+        external
+        view
+        poolExists(poolId)
+        returns (string memory labelA, string memory labelB)
+    {
+        Pool storage pool = pools[poolId];
+        return (pool.cohortLabelA, pool.cohortLabelB);
+    }
+
+    /**
+     * @notice Get the progress of a round's pay-gap computation
+     * @param poolId The pool to query
+     * @param roundId The round to query
+     * @return tracksCohorts Whether the round's submissions carry a cohort flag
+     * @return computed True once the gap can be requested
+     * @return bitsLeft Quotient bits `computePayGap()` still has to compute (32 before it starts)
      */
-    function getLastAverage(address user) external view returns (uint32) {
-        return lastDecryptedAverage[user];
+    function getPayGapStatus(uint256 poolId, uint256 roundId)
+        external
+        view
+        roundExists(poolId, roundId)
+        returns (bool tracksCohorts, bool computed, uint8 bitsLeft)
+    {
+        Round storage round = pools[poolId].rounds[roundId];
+        return (round.tracksCohorts, round.cohorts.computed, round.cohorts.started ? round.cohorts.bitsLeft : 32);
     }
 
     /**
-     * @notice Get pending decryption handle for a user
+     * @notice Get the last decrypted pay gap of a round for a specific address
+     * @dev Returns zeros if the address has never verified a pay-gap decryption
+     * @param poolId The pool to query
+     * @param roundId The round to query
      * @param user The address to query
-     * @return The pending handle, or bytes32(0) if none
+     * @return eligible Whether both cohorts reached `minSubmissions`
+     * @return cohortBHigher Whether cohort B has the higher average
+     * @return gap Absolute difference between the cohort averages
      */
-    function getPendingHandle(address user) external view returns (bytes32) {
-        return pendingDecryptionHandles[user];
+    function getLastPayGap(uint256 poolId, uint256 roundId, address user)
+        external
+        view
+        returns (bool eligible, bool cohortBHigher, uint32 gap)
+    {
+        uint256[] memory values = _lastDecrypted(poolId, roundId, user, Statistic.PayGap, 3);
+        return (values[0] != 0, values[1] != 0, uint32(values[2]));
     }
 }
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./SalaryLens.sol";
+
+/**
+ * @title SalaryLensFactory
+ * @notice Deploys an isolated SalaryLens instance per organisation and keeps a registry of them
+ * @dev Each instance is an EIP-1167 minimal proxy of one SalaryLens implementation, initialized with
+ *      its owner and `minSubmissions` in the same transaction. Instances share the implementation's
+ *      code (and linked libraries) but nothing else: pools, rounds, ACL permissions and ownership
+ *      are per instance. The frontend lists the registry to let users pick their organisation's
+ *      instance without a new build.
+ */
+contract SalaryLensFactory {
+    /**
+     * @notice A registered SalaryLens instance
+     * @param instance The instance's address
+     * @param owner The owner it was created with (ownership may change later on the instance)
+     * @param name Display name of the organisation or survey (e.g. "Acme Corp")
+     * @param minSubmissions The instance's k-anonymity threshold
+     * @param createdAt Timestamp of the block the instance was created in
+     */
+    struct Instance {
+        SalaryLens instance;
+        address owner;
+        string name;
+        uint32 minSubmissions;
+        uint64 createdAt;
+    }
+
+    /// @notice The SalaryLens whose code every instance runs
+    SalaryLens public immutable implementation;
+
+    /// @dev Registered instances, in creation order
+    Instance[] private instances;
+
+    /**
+     * @notice Emitted when an instance is created
+     * @param instanceId The instance's index in the registry
+     * @param instance The instance's address
+     * @param owner The instance's owner
+     * @param name Display name of the instance
+     * @param minSubmissions The instance's k-anonymity threshold
+     */
+    event InstanceCreated(
+        uint256 indexed instanceId,
+        address indexed instance,
+        address indexed owner,
+        string name,
+        uint32 minSubmissions
+    );
+
+    /// @notice Thrown when creating an instance without a name
+    error InvalidName();
+
+    /// @notice Thrown when the clone could not be deployed
+    error CloneFailed();
+
+    /// @notice Thrown when referencing an instance ID that has not been created
+    error InstanceDoesNotExist();
+
+    /**
+     * @notice Initializes the factory for an implementation
+     * @dev Any SalaryLens deployment can serve as the implementation; only its code is used
+     * @param _implementation The SalaryLens to clone
+     */
+    constructor(SalaryLens _implementation) {
+        implementation = _implementation;
+    }
+
+    /**
+     * @notice Deploy and register a new SalaryLens instance
+     * @dev Can be called by anyone; the instance belongs to `owner`, not to the caller.
+     *
+     * @param name Display name of the organisation or survey
+     * @param owner The owner of the new instance (creates pools and opens rounds)
+     * @param minSubmissions Minimum pool size before an average can be revealed (k)
+     * @return instanceId The instance's index in the registry
+     * @return instance The new instance
+     *
+     * @custom:emits InstanceCreated with the instance's address and settings
+     */
+    function createInstance(
+        string calldata name,
+        address owner,
+        uint32 minSubmissions
+    ) external returns (uint256 instanceId, SalaryLens instance) {
+        if (bytes(name).length == 0) {
+            revert InvalidName();
+        }
+
+        instance = SalaryLens(_clone(address(implementation)));
+        instance.initialize(owner, minSubmissions);
+
+        instanceId = instances.length;
+        instances.push(Instance(instance, owner, name, minSubmissions, uint64(block.timestamp)));
+
+        emit InstanceCreated(instanceId, address(instance), owner, name, minSubmissions);
+    }
+
+    /**
+     * @notice Get the number of registered instances
+     */
+    function getInstanceCount() external view returns (uint256) {
+        return instances.length;
+    }
+
+    /**
+     * @notice Get a registered instance
+     * @param instanceId The instance's index in the registry
+     */
+    function getInstance(uint256 instanceId) external view returns (Instance memory) {
+        if (instanceId >= instances.length) {
+            revert InstanceDoesNotExist();
+        }
+        return instances[instanceId];
+    }
+
+    /**
+     * @notice Get a page of the registry
+     * @dev Returns fewer than `limit` instances at the end of the registry, and none past it
+     * @param offset Index of the first instance to return (0 = oldest)
+     * @param limit Maximum number of instances to return
+     * @return page The instances, oldest first
+     */
+    function getInstances(uint256 offset, uint256 limit) external view returns (Instance[] memory page) {
+        if (offset >= instances.length) {
+            return page;
+        }
+        if (limit > instances.length - offset) {
+            limit = instances.length - offset;
+        }
+
+        page = new Instance[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = instances[offset + i];
+        }
+    }
+
+    /**
+     * @notice Deploy an EIP-1167 minimal proxy that delegates every call to `target`
+     * @param target The contract to delegate to
+     * @return clone The proxy's address
+     */
+    function _clone(address target) internal returns (address clone) {
+        assembly {
+            // Runtime: 363d3d373d3d3d363d73<target>5af43d82803e903d91602b57fd5bf3, behind its creation code
+            mstore(0x00, or(shr(0xe8, shl(0x60, target)), 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000))
+            mstore(0x20, or(shl(0x78, target), 0x5af43d82803e903d91602b57fd5bf3))
+            clone := create(0, 0x09, 0x37)
+        }
+        if (clone == address(0)) {
+            revert CloneFailed();
+        }
+    }
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./SalaryLens.sol";
+
+/**
+ * @title SalaryRelay
+ * @notice Gasless salary submissions: employees sign an EIP-712 intent and any relayer pays the gas
+ * @dev The signer encrypts their salary for SalaryLens and this contract's address (the sender
+ *      SalaryLens sees), signs a `SalaryIntent` over the ciphertext handle and input proof, and
+ *      hands both to a relayer (e.g. `scripts/relayer.ts`). `submitSalary()` checks the signature,
+ *      consumes the signer's nonce and forwards the salary to `SalaryLens.addSalaryFor()`, which
+ *      records it for the signer with the usual one-submission-per-address check. The relayer
+ *      cannot change the pool, ciphertext or proof without invalidating the signature.
+ *
+ *      Must be set as the relay of its SalaryLens with `setRelay()`.
+ */
+contract SalaryRelay {
+    /// @notice EIP-712 type of a signed salary submission
+    bytes32 public constant SALARY_INTENT_TYPEHASH =
+        keccak256(
+            "SalaryIntent(address submitter,uint256 poolId,bytes32 encryptedSalary,bytes inputProof,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @dev Upper bound of `s` in non-malleable signatures (half the secp256k1 curve order)
+    uint256 private constant MAX_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    /// @notice The SalaryLens deployment salaries are submitted to
+    SalaryLens public immutable salaryLens;
+
+    /// @notice EIP-712 domain separator ("SalaryRelay", version "1", this chain and contract)
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    /**
+     * @notice Next nonce each signer must sign
+     * @dev Incremented by every relayed submission, so an intent can only be used once
+     */
+    mapping(address => uint256) public nonces;
+
+    /**
+     * @notice Emitted when a signed intent has been submitted
+     * @param submitter The address that signed the intent
+     * @param poolId The pool the salary was submitted to
+     * @param nonce The nonce the intent consumed
+     * @param relayer The address that sent the transaction and paid its gas
+     */
+    event SalaryRelayed(address indexed submitter, uint256 indexed poolId, uint256 nonce, address relayer);
+
+    /// @notice Thrown when an intent is submitted after its deadline
+    error IntentExpired();
+
+    /// @notice Thrown when the signature is malformed or was not made by the submitter
+    error InvalidSignature();
+
+    /**
+     * @notice Initializes the relay for a SalaryLens deployment
+     * @param _salaryLens The SalaryLens contract to submit to
+     */
+    constructor(SalaryLens _salaryLens) {
+        salaryLens = _salaryLens;
+        DOMAIN_SEPARATOR = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("SalaryRelay"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @notice Submit a signed salary intent on behalf of its signer
+     * @dev Can be sent by anyone. The intent is signed for the submitter's current nonce, which
+     *      this call consumes. The eligibility proof is not signed, since it only proves something
+     *      about the submitter and a wrong one makes the submission revert.
+     *
+     * @param submitter The address that signed the intent
+     * @param poolId The pool to submit the salary to
+     * @param encryptedSalary The encrypted salary, created for SalaryLens and this contract
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param eligibilityProof Merkle proof of the submitter's address (empty if the pool has no allowlist)
+     * @param deadline Unix timestamp after which the intent can no longer be submitted
+     * @param signature The submitter's 65-byte EIP-712 signature of the intent
+     *
+     * @custom:emits SalaryRelayed on successful submission (and SalarySubmitted by SalaryLens)
+     */
+    function submitSalary(
+        address submitter,
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) {
+            revert IntentExpired();
+        }
+
+        uint256 nonce = nonces[submitter]++;
+        bytes32 digest = hashIntent(submitter, poolId, encryptedSalary, inputProof, nonce, deadline);
+        address signer = _recover(digest, signature);
+        if (signer == address(0) || signer != submitter) {
+            revert InvalidSignature();
+        }
+
+        salaryLens.addSalaryFor(submitter, poolId, encryptedSalary, inputProof, eligibilityProof);
+
+        emit SalaryRelayed(submitter, poolId, nonce, msg.sender);
+    }
+
+    /**
+     * @notice Compute the EIP-712 digest a submitter signs for an intent
+     * @param submitter The address submitting the salary
+     * @param poolId The pool to submit the salary to
+     * @param encryptedSalary The encrypted salary handle
+     * @param inputProof Zero-knowledge proof validating the encrypted input
+     * @param nonce The submitter's nonce (`nonces(submitter)` when the intent is submitted)
+     * @param deadline Unix timestamp after which the intent can no longer be submitted
+     * @return The digest to sign
+     */
+    function hashIntent(
+        address submitter,
+        uint256 poolId,
+        externalEuint32 encryptedSalary,
+        bytes calldata inputProof,
+        uint256 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SALARY_INTENT_TYPEHASH,
+                submitter,
+                poolId,
+                externalEuint32.unwrap(encryptedSalary),
+                keccak256(inputProof),
+                nonce,
+                deadline
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+    }
+
+    /**
+     * @notice Recover the signer of a digest from a 65-byte (r, s, v) signature
+     * @dev Rejects high-s signatures, so a signature cannot be reshaped into a second valid one
+     * @param digest The signed digest
+     * @param signature The signature
+     * @return The signer, or address(0) if the signature is invalid
+     */
+    function _recover(bytes32 digest, bytes calldata signature) internal pure returns (address) {
+        if (signature.length != 65) {
+            revert InvalidSignature();
+        }
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_S) {
+            revert InvalidSignature();
+        }
+
+        return ecrecover(digest, v, r, s);
+    }
+}
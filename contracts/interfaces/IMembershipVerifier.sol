@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title IMembershipVerifier
+ * @author Zama Bounty Program - Season 11 Submission
+ * @notice Verifies anonymous group-membership proofs for SalaryLens pools
+ * @dev Follows the Semaphore model: a member proves in zero knowledge that their identity
+ *      commitment is in the group's Merkle tree, without revealing which one it is. The
+ *      nullifier is derived from the member's secret and the scope, so it is the same every
+ *      time a member acts in one scope (enforcing one submission per person) but cannot be
+ *      linked across scopes. The signal is a message the member endorses with the proof, so a
+ *      relayer cannot attach the proof to a different payload.
+ *
+ *      Adapters wrap a concrete proof system (e.g. a Semaphore verifier and group) behind
+ *      this interface, including any hashing of the inputs into the proof system's field.
+ */
+interface IMembershipVerifier {
+    /**
+     * @notice Check a membership proof
+     * @param root Merkle root of the group's identity commitments
+     * @param nullifier Nullifier of the member for `scope`
+     * @param scope Context the nullifier is bound to (SalaryLens uses one scope per pool round)
+     * @param signal Message endorsed by the member (SalaryLens binds it to the submitted ciphertext)
+     * @param proof Encoded proof of the underlying proof system
+     * @return True if the proof is valid for all of the inputs
+     */
+    function verifyMembership(
+        bytes32 root,
+        bytes32 nullifier,
+        bytes32 scope,
+        bytes32 signal,
+        bytes calldata proof
+    ) external view returns (bool);
+}
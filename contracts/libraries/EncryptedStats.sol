@@ -0,0 +1,472 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "encrypted-types/EncryptedTypes.sol";
+
+/**
+ * @title EncryptedStats
+ * @author Zama Bounty Program - Season 11 Submission
+ * @notice Oblivious statistics over encrypted salaries, shared by SalaryLens
+ * @dev A linked (externally deployed) library: its functions are `public`, so their FHE code is
+ *      not inlined into SalaryLens, which keeps the contract below the 24 KB size limit. They run
+ *      via DELEGATECALL, so `FHE.allowThis()` grants access to the calling SalaryLens and all
+ *      storage arguments refer to its storage.
+ *
+ *      Every function touches every counter or edge, so which band or bucket a salary falls
+ *      into is never revealed by the transaction.
+ */
+library EncryptedStats {
+    /**
+     * @notice A list of encrypted counters
+     * @dev Wrapped in a struct because storage arrays of encrypted types cannot be passed to
+     *      public library functions directly
+     */
+    struct Counters {
+        euint32[] values;
+    }
+
+    /**
+     * @notice Encrypted aggregates of a round split into two cohorts, and its pay-gap computation
+     * @dev Cohort A is every salary not flagged as cohort B, so only cohort B is tracked. The
+     *      cohort sizes are encrypted, and FHE can only divide by a plaintext, so the cohort
+     *      averages are computed by binary long division, a few quotient bits per transaction.
+     */
+    struct Cohorts {
+        /// @notice Encrypted sum of the cohort B salaries
+        euint64 totalB;
+        /// @notice Encrypted number of cohort B salaries
+        euint32 countB;
+        /// @notice Whether the long division has been set up
+        bool started;
+        /// @notice Quotient bits still to compute (from 32 down to 0)
+        uint8 bitsLeft;
+        /// @notice Whether the gap below is final
+        bool computed;
+        /// @notice Remaining dividend of each cohort (A, B)
+        euint64[2] remainders;
+        /// @notice Encrypted size of each cohort (A, B), the divisors
+        euint64[2] divisors;
+        /// @notice Average of each cohort (A, B), one more bit per division step
+        euint32[2] averages;
+        /// @notice Whether both cohorts reach the minimum size
+        ebool eligible;
+        /// @notice Whether cohort B has the higher average (false if not eligible)
+        ebool cohortBHigher;
+        /// @notice Absolute difference between the cohort averages (0 if not eligible)
+        euint32 gap;
+    }
+
+    /**
+     * @notice Encrypted totals of the compensation components besides the base salary
+     * @dev The base salary is the round's regular salary total. Submitters who only send a
+     *      salary have no bonus and no equity, which counts as 0 in these totals.
+     */
+    struct Components {
+        /// @notice Encrypted sum of each extra component (bonus, equity)
+        euint64[2] totals;
+        /// @notice Each submitter's encrypted extra components (needed to withdraw them, and user-decryptable by them)
+        mapping(bytes32 => euint32[2]) amounts;
+    }
+
+    /**
+     * @notice Append zero counters
+     * @dev The counters are left uninitialized, which FHE operations treat as an encrypted zero,
+     *      so they are only encrypted by the first submission that updates them
+     * @param counters The counters to extend
+     * @param length Number of counters to append
+     */
+    function init(Counters storage counters, uint256 length) public {
+        for (uint256 i = 0; i < length; i++) {
+            counters.values.push();
+        }
+    }
+
+    /**
+     * @notice Obliviously add a salary to (or remove it from) a round's sums and its band, percentile and cohort counters
+     * @dev The total is 64-bit so it cannot overflow however many 32-bit salaries are summed
+     * @param bandCounts Encrypted number of salaries per band
+     * @param bandEdges Ascending band edges
+     * @param countsBelow Encrypted number of salaries below each percentile edge
+     * @param percentileEdges Ascending percentile edges
+     * @param cohorts The round's cohort aggregates
+     * @param inCohortB The encrypted cohort flag of the salary (uninitialized = no cohort)
+     * @param total The encrypted sum of the salaries
+     * @param sumOfSquares The encrypted sum of their squares
+     * @param salary The encrypted salary
+     * @param increment True to add the salary, false to remove it
+     * @return newTotal The new sum, accessible to the calling contract
+     * @return newSumOfSquares The new sum of squares, accessible to the calling contract
+     */
+    function record(
+        Counters storage bandCounts,
+        uint32[] storage bandEdges,
+        Counters storage countsBelow,
+        uint32[] storage percentileEdges,
+        Cohorts storage cohorts,
+        ebool inCohortB,
+        euint64 total,
+        euint128 sumOfSquares,
+        euint32 salary,
+        bool increment
+    ) public returns (euint64 newTotal, euint128 newSumOfSquares) {
+        euint64 amount = FHE.asEuint64(salary);
+        newTotal = increment ? FHE.add(total, amount) : FHE.sub(total, amount);
+        FHE.allowThis(newTotal);
+        newSumOfSquares = updateSumOfSquares(sumOfSquares, salary, increment);
+
+        updateBandCounts(bandCounts, bandEdges, salary, increment);
+        updateCountsBelow(countsBelow, percentileEdges, salary, increment);
+        if (FHE.isInitialized(inCohortB)) {
+            updateCohort(cohorts, inCohortB, salary, increment);
+        }
+    }
+
+    /**
+     * @notice Obliviously add a salary to (or remove it from) one-hot band counters
+     * @dev N edges define N + 1 bands: below the first edge, between consecutive edges, and at
+     *      or above the last edge. Exactly one counter changes by an encrypted 1; all others
+     *      change by an encrypted 0.
+     * @param bandCounts Encrypted number of salaries per band (N + 1 entries)
+     * @param bandEdges Ascending band edges (N entries)
+     * @param salary The encrypted salary
+     * @param increment True to add the salary, false to remove it
+     */
+    function updateBandCounts(
+        Counters storage bandCounts,
+        uint32[] storage bandEdges,
+        euint32 salary,
+        bool increment
+    ) internal {
+        uint256 edgeCount = bandEdges.length;
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+
+        ebool aboveLowerEdge = FHE.asEbool(true);
+        for (uint256 i = 0; i <= edgeCount; i++) {
+            ebool belowUpperEdge = i < edgeCount
+                ? FHE.lt(salary, bandEdges[i])
+                : FHE.asEbool(true);
+            ebool inBand = FHE.and(aboveLowerEdge, belowUpperEdge);
+
+            euint32 delta = FHE.select(inBand, one, zero);
+            euint32 bandTotal = increment
+                ? FHE.add(bandCounts.values[i], delta)
+                : FHE.sub(bandCounts.values[i], delta);
+            FHE.allowThis(bandTotal);
+            bandCounts.values[i] = bandTotal;
+
+            aboveLowerEdge = FHE.not(belowUpperEdge);
+        }
+    }
+
+    /**
+     * @notice Obliviously add a salary to (or remove it from) cumulative below-edge counters
+     * @param countsBelow Encrypted number of salaries below each edge
+     * @param edges Ascending edges
+     * @param salary The encrypted salary
+     * @param increment True to add the salary, false to remove it
+     */
+    function updateCountsBelow(
+        Counters storage countsBelow,
+        uint32[] storage edges,
+        euint32 salary,
+        bool increment
+    ) internal {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+
+        for (uint256 i = 0; i < edges.length; i++) {
+            euint32 delta = FHE.select(FHE.lt(salary, edges[i]), one, zero);
+            euint32 countBelow = increment
+                ? FHE.add(countsBelow.values[i], delta)
+                : FHE.sub(countsBelow.values[i], delta);
+            FHE.allowThis(countBelow);
+            countsBelow.values[i] = countBelow;
+        }
+    }
+
+    /**
+     * @notice Estimate a percentile from cumulative below-edge counters
+     * @dev Starting from 0, the estimate moves to every edge with at most `target` salaries
+     *      below it. Counts grow with the edge, so it ends on the highest such edge.
+     * @param countsBelow Encrypted number of salaries below each edge
+     * @param edges Ascending edges
+     * @param target Number of salaries allowed below the estimate (count * percentile / 100)
+     * @return estimate The highest edge at or below the percentile, or 0 if below the first edge
+     */
+    function estimatePercentile(
+        Counters storage countsBelow,
+        uint32[] storage edges,
+        uint32 target
+    ) public returns (euint32 estimate) {
+        estimate = FHE.asEuint32(0);
+        for (uint256 i = 0; i < edges.length; i++) {
+            estimate = FHE.select(FHE.le(countsBelow.values[i], target), FHE.asEuint32(edges[i]), estimate);
+        }
+        FHE.allowThis(estimate);
+    }
+
+    /**
+     * @notice Compute the mean and population variance from encrypted sums
+     * @dev mean = total / count and variance = sumOfSquares / count - mean². The integer
+     *      divisions round down, so the variance is off by less than 2 * mean + 1.
+     *      floor(sumOfSquares / count) >= floor(mean)², so the subtraction cannot underflow.
+     * @param total Encrypted sum of the salaries
+     * @param sumOfSquares Encrypted sum of the squared salaries
+     * @param count Number of salaries (must not be 0)
+     * @return mean The encrypted mean
+     * @return variance The encrypted variance
+     */
+    function meanAndVariance(
+        euint64 total,
+        euint128 sumOfSquares,
+        uint32 count
+    ) public returns (euint64 mean, euint128 variance) {
+        mean = FHE.div(total, uint64(count));
+        euint128 wideMean = FHE.asEuint128(mean);
+        variance = FHE.sub(FHE.div(sumOfSquares, uint128(count)), FHE.mul(wideMean, wideMean));
+
+        FHE.allowThis(mean);
+        FHE.allowThis(variance);
+    }
+
+    /**
+     * @notice Obliviously add a salary to (or remove it from) the cohort B aggregates
+     * @dev Cohort A salaries change the aggregates by an encrypted 0, so the transaction does not
+     *      reveal the cohort.
+     * @param cohorts The round's cohort aggregates
+     * @param inCohortB The encrypted cohort flag of the salary
+     * @param salary The encrypted salary
+     * @param increment True to add the salary, false to remove it
+     */
+    function updateCohort(Cohorts storage cohorts, ebool inCohortB, euint32 salary, bool increment) internal {
+        euint64 amount = FHE.select(inCohortB, FHE.asEuint64(salary), FHE.asEuint64(0));
+        euint32 member = FHE.select(inCohortB, FHE.asEuint32(1), FHE.asEuint32(0));
+
+        cohorts.totalB = increment ? FHE.add(cohorts.totalB, amount) : FHE.sub(cohorts.totalB, amount);
+        cohorts.countB = increment ? FHE.add(cohorts.countB, member) : FHE.sub(cohorts.countB, member);
+
+        FHE.allowThis(cohorts.totalB);
+        FHE.allowThis(cohorts.countB);
+    }
+
+    /**
+     * @notice Advance the computation of the gap between the cohort averages
+     * @dev The first call sets up one restoring long division per cohort. Each step decides one
+     *      quotient bit, from the highest: if `divisor << bit` fits into the remainder, it is
+     *      subtracted and the bit is set. The divisor is below 2^32 and the bit below 32, so the
+     *      shift cannot overflow 64 bits, and a 32-bit average needs 32 steps. After the last
+     *      step, the gap is zeroed unless both cohorts have at least `minCount` salaries.
+     * @param cohorts The round's cohort aggregates
+     * @param total Encrypted sum of all salaries of the round
+     * @param count Number of salaries in the round
+     * @param minCount Minimum size of each cohort
+     * @param maxBits Maximum number of quotient bits to compute in this call
+     * @return done True once the gap is final
+     */
+    function stepPayGap(
+        Cohorts storage cohorts,
+        euint64 total,
+        uint32 count,
+        uint32 minCount,
+        uint256 maxBits
+    ) public returns (bool done) {
+        if (!cohorts.started) {
+            euint64 countB = FHE.asEuint64(cohorts.countB);
+            cohorts.remainders[0] = FHE.sub(total, cohorts.totalB);
+            cohorts.remainders[1] = cohorts.totalB;
+            cohorts.divisors[0] = FHE.sub(FHE.asEuint64(uint64(count)), countB);
+            cohorts.divisors[1] = countB;
+            for (uint256 i = 0; i < 2; i++) {
+                cohorts.averages[i] = FHE.asEuint32(0);
+                FHE.allowThis(cohorts.remainders[i]);
+                FHE.allowThis(cohorts.divisors[i]);
+                FHE.allowThis(cohorts.averages[i]);
+            }
+            cohorts.bitsLeft = 32;
+            cohorts.started = true;
+        }
+
+        for (uint256 steps = 0; steps < maxBits && cohorts.bitsLeft > 0; steps++) {
+            uint8 bit = --cohorts.bitsLeft;
+            for (uint256 i = 0; i < 2; i++) {
+                euint64 shifted = FHE.shl(cohorts.divisors[i], bit);
+                ebool fits = FHE.le(shifted, cohorts.remainders[i]);
+                cohorts.remainders[i] = FHE.select(fits, FHE.sub(cohorts.remainders[i], shifted), cohorts.remainders[i]);
+                cohorts.averages[i] = FHE.select(fits, FHE.add(cohorts.averages[i], uint32(1) << bit), cohorts.averages[i]);
+                FHE.allowThis(cohorts.remainders[i]);
+                FHE.allowThis(cohorts.averages[i]);
+            }
+        }
+
+        if (cohorts.bitsLeft > 0) {
+            return false;
+        }
+
+        euint32 countA = FHE.sub(FHE.asEuint32(count), cohorts.countB);
+        ebool eligible = FHE.and(FHE.ge(countA, minCount), FHE.ge(cohorts.countB, minCount));
+
+        euint32 averageA = cohorts.averages[0];
+        euint32 averageB = cohorts.averages[1];
+        ebool cohortBHigher = FHE.gt(averageB, averageA);
+        euint32 gap = FHE.select(cohortBHigher, FHE.sub(averageB, averageA), FHE.sub(averageA, averageB));
+
+        cohorts.eligible = eligible;
+        cohorts.cohortBHigher = FHE.and(cohortBHigher, eligible);
+        cohorts.gap = FHE.select(eligible, gap, FHE.asEuint32(0));
+        cohorts.computed = true;
+
+        FHE.allowThis(cohorts.eligible);
+        FHE.allowThis(cohorts.cohortBHigher);
+        FHE.allowThis(cohorts.gap);
+        return true;
+    }
+
+    /**
+     * @notice Place a salary relative to the mean of the salaries it was aggregated with
+     * @dev "Within" means 9 * mean <= 10 * salary <= 11 * mean. Both sides fit in 64 bits: a
+     *      32-bit salary times 10 and a mean (at most a 32-bit salary) times 11.
+     * @param salary The encrypted salary
+     * @param total Encrypted sum of the salaries
+     * @param count Number of salaries (must not be 0)
+     * @return position Encrypted 0 (more than 10% below the mean), 1 (within 10%) or 2 (more than 10% above)
+     */
+    function compareToMean(euint32 salary, euint64 total, uint32 count) public returns (euint8 position) {
+        euint64 mean = FHE.div(total, uint64(count));
+        euint64 scaledSalary = FHE.mul(FHE.asEuint64(salary), uint64(10));
+
+        ebool below = FHE.lt(scaledSalary, FHE.mul(mean, uint64(9)));
+        ebool above = FHE.gt(scaledSalary, FHE.mul(mean, uint64(11)));
+        position = FHE.select(below, FHE.asEuint8(0), FHE.select(above, FHE.asEuint8(2), FHE.asEuint8(1)));
+
+        FHE.allowThis(position);
+    }
+
+    /**
+     * @notice Add a submitter's bonus and equity to the component totals
+     * @dev Each value is obliviously capped at the pool's upper bound, if any, so a single
+     *      outlier cannot skew the component averages. There is no lower bound: no bonus or
+     *      equity is a normal value. The submitter (`msg.sender`, preserved by DELEGATECALL)
+     *      may user-decrypt both recorded values.
+     * @param components The round's component totals
+     * @param key The submitter's address key
+     * @param encryptedBonus The encrypted bonus
+     * @param encryptedEquity The encrypted equity
+     * @param inputProof Zero-knowledge proof validating both inputs
+     * @param upperBound The pool's encrypted highest accepted salary (uninitialized if the pool has no bounds)
+     */
+    function addComponents(
+        Components storage components,
+        bytes32 key,
+        externalEuint32 encryptedBonus,
+        externalEuint32 encryptedEquity,
+        bytes calldata inputProof,
+        euint32 upperBound
+    ) public {
+        components.amounts[key] = [
+            FHE.fromExternal(encryptedBonus, inputProof),
+            FHE.fromExternal(encryptedEquity, inputProof)
+        ];
+        for (uint256 i = 0; i < 2; i++) {
+            if (FHE.isInitialized(upperBound)) {
+                components.amounts[key][i] = FHE.min(components.amounts[key][i], upperBound);
+            }
+            euint32 amount = components.amounts[key][i];
+            components.totals[i] = FHE.add(components.totals[i], FHE.asEuint64(amount));
+            FHE.allowThis(components.totals[i]);
+            FHE.allowThis(amount);
+            FHE.allow(amount, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Subtract a submitter's bonus and equity, if any, from the component totals and forget them
+     * @param components The round's component totals
+     * @param key The submitter's address key or nullifier
+     */
+    function removeComponents(Components storage components, bytes32 key) public {
+        if (!FHE.isInitialized(components.amounts[key][0])) {
+            return;
+        }
+        for (uint256 i = 0; i < 2; i++) {
+            components.totals[i] = FHE.sub(components.totals[i], FHE.asEuint64(components.amounts[key][i]));
+            FHE.allowThis(components.totals[i]);
+        }
+        delete components.amounts[key];
+    }
+
+    /**
+     * @notice Average of one compensation component over all salaries of a round
+     * @param components The round's component totals
+     * @param baseTotal Encrypted sum of the base salaries
+     * @param count Number of salaries (must be nonzero)
+     * @param component 0 = bonus, 1 = equity, 2 = total compensation (base + bonus + equity)
+     * @return average The encrypted average, accessible to the calling contract
+     */
+    function componentAverage(
+        Components storage components,
+        euint64 baseTotal,
+        uint32 count,
+        uint256 component
+    ) public returns (euint64 average) {
+        euint64 total = component < 2
+            ? components.totals[component]
+            : FHE.add(FHE.add(baseTotal, components.totals[0]), components.totals[1]);
+        average = FHE.div(total, uint64(count));
+        FHE.allowThis(average);
+    }
+
+    /**
+     * @notice Widen an encrypted range to include a salary
+     * @param min The encrypted lowest salary so far
+     * @param max The encrypted highest salary so far
+     * @param salary The encrypted salary
+     * @return newMin The new lowest salary, accessible to the calling contract
+     * @return newMax The new highest salary, accessible to the calling contract
+     */
+    function widenRange(euint32 min, euint32 max, euint32 salary) public returns (euint32 newMin, euint32 newMax) {
+        newMin = FHE.min(min, salary);
+        newMax = FHE.max(max, salary);
+        FHE.allowThis(newMin);
+        FHE.allowThis(newMax);
+    }
+
+    /**
+     * @notice Obliviously clamp a salary into encrypted bounds
+     * @param salary The encrypted salary
+     * @param lowerBound The encrypted lowest accepted salary
+     * @param upperBound The encrypted highest accepted salary
+     * @return clamped The salary clamped into [lowerBound, upperBound], accessible to the calling contract
+     * @return accepted Whether the salary was already in range, accessible to the calling contract
+     */
+    function clamp(
+        euint32 salary,
+        euint32 lowerBound,
+        euint32 upperBound
+    ) public returns (euint32 clamped, ebool accepted) {
+        accepted = FHE.and(FHE.ge(salary, lowerBound), FHE.le(salary, upperBound));
+        clamped = FHE.min(FHE.max(salary, lowerBound), upperBound);
+        FHE.allowThis(accepted);
+        FHE.allowThis(clamped);
+    }
+
+    /**
+     * @notice Add a salary's square to (or remove it from) a sum of squares
+     * @dev 128-bit: a single squared 32-bit salary already needs 64 bits
+     * @param sumOfSquares The encrypted sum of squares
+     * @param salary The encrypted salary
+     * @param increment True to add the square, false to subtract it
+     * @return updated The new sum, accessible to the calling contract
+     */
+    function updateSumOfSquares(
+        euint128 sumOfSquares,
+        euint32 salary,
+        bool increment
+    ) internal returns (euint128 updated) {
+        euint128 wide = FHE.asEuint128(salary);
+        euint128 squared = FHE.mul(wide, wide);
+        updated = increment ? FHE.add(sumOfSquares, squared) : FHE.sub(sumOfSquares, squared);
+        FHE.allowThis(updated);
+    }
+}
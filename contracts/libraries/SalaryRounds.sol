@@ -0,0 +1,686 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "encrypted-types/EncryptedTypes.sol";
+import "../SalaryLens.sol";
+import "./EncryptedStats.sol";
+
+/**
+ * @title SalaryRounds
+ * @author Zama Bounty Program - Season 11 Submission
+ * @notice Pool setup, submission bookkeeping, reveal requests and decryption checks of SalaryLens rounds
+ * @dev A linked library like `EncryptedStats`: its `public` functions take the round (and pool)
+ *      as storage pointers and run via DELEGATECALL, so they update SalaryLens storage and
+ *      `FHE.allowThis()` / `FHE.allow(value, msg.sender)` grant access to SalaryLens and its
+ *      caller. Access control, round status checks and events stay in SalaryLens. Copying pool
+ *      labels and edges into storage happens here too, which keeps SalaryLens below the contract
+ *      size limit. Every function that changes a round's aggregates re-grants the SalaryLens
+ *      auditors access to the new handles.
+ */
+library SalaryRounds {
+    /**
+     * @notice Store the metadata and band edges of a new pool
+     * @param pool The new pool
+     * @param label Human-readable pool name
+     * @param currency Currency of the salaries in the pool
+     * @param period Pay period of the salaries in the pool
+     * @param bandEdges Validated, strictly ascending salary band edges
+     */
+    function describePool(
+        SalaryLens.Pool storage pool,
+        string calldata label,
+        string calldata currency,
+        string calldata period,
+        uint32[] calldata bandEdges
+    ) public {
+        pool.label = label;
+        pool.currency = currency;
+        pool.period = period;
+        pool.bandEdges = bandEdges;
+    }
+
+    /**
+     * @notice Store the names of a pool's two cohorts
+     * @param pool The idle pool
+     * @param labelA Name of the cohort of unflagged salaries
+     * @param labelB Name of the cohort of flagged salaries
+     */
+    function nameCohorts(SalaryLens.Pool storage pool, string calldata labelA, string calldata labelB) public {
+        pool.cohortLabelA = labelA;
+        pool.cohortLabelB = labelB;
+    }
+
+    /**
+     * @notice Fold a new salary into a round's aggregates and record it under the submitter's key
+     * @param pool The pool the round belongs to (for its band edges)
+     * @param round The open round
+     * @param key The submitter's address key or nullifier
+     * @param salary The validated encrypted salary
+     * @param auditors The SalaryLens auditors, granted access to the new aggregates
+     */
+    function addSubmission(
+        SalaryLens.Pool storage pool,
+        SalaryLens.Round storage round,
+        bytes32 key,
+        euint32 salary,
+        address[] storage auditors
+    ) public {
+        // Add to running total
+        // Note: On first submission (or once every salary was withdrawn), the round's encrypted
+        // state is zero, so the salary itself is the total, the minimum and the maximum
+        if (round.count == 0) {
+            // An uninitialized handle counts as an encrypted zero
+            round.encryptedTotal = euint64.wrap(0);
+            round.encryptedSumOfSquares = euint128.wrap(0);
+            round.encryptedMin = salary;
+            round.encryptedMax = salary;
+            round.rangeOutdated = false;
+            round.rangeRebuildCursor = 0;
+        } else {
+            // Contract now has permission to access the round state and salary
+            (round.encryptedMin, round.encryptedMax) = EncryptedStats.widenRange(round.encryptedMin, round.encryptedMax, salary);
+        }
+
+        // Add to the sums and obliviously increment the band this salary falls into
+        _record(pool, round, key, salary, true);
+
+        // Increment count, and the data version (outdating any previously computed average)
+        round.count++;
+        round.version++;
+
+        // Mark the submitter as having submitted and keep their salary for updates/withdrawal
+        round.hasSubmitted[key] = true;
+        round.encryptedSalaries[key] = salary;
+        round.submitters.push(key);
+        round.submitterIndex[key] = round.submitters.length;
+
+        // The library granted the contract permission on the NEW encryptedTotal, minimum and
+        // maximum. The submitter is deliberately NOT allowed: with access to the total they could
+        // decrypt it before and after their own submission and learn other salaries
+        _allowAuditors(round, auditors);
+    }
+
+    /**
+     * @notice Swap a submitter's stored salary for a new one in a round's aggregates
+     * @param pool The pool the round belongs to (for its band edges)
+     * @param round The open round
+     * @param key The submitter's address key or nullifier
+     * @param newSalary The validated new encrypted salary
+     * @param auditors The SalaryLens auditors, granted access to the new aggregates
+     */
+    function replaceSubmission(
+        SalaryLens.Pool storage pool,
+        SalaryLens.Round storage round,
+        bytes32 key,
+        euint32 newSalary,
+        address[] storage auditors
+    ) public {
+        euint32 oldSalary = round.encryptedSalaries[key];
+
+        _record(pool, round, key, oldSalary, false);
+        _record(pool, round, key, newSalary, true);
+        round.version++;
+
+        round.encryptedSalaries[key] = newSalary;
+        _invalidateRange(round);
+        _allowAuditors(round, auditors);
+    }
+
+    /**
+     * @notice Remove a submitter's stored salary from a round's aggregates and forget it
+     * @dev Also discards the aggregates derived from the old data, which matters once the round
+     *      is closed: the shared average (so a stale pending one can no longer be verified), the
+     *      verified average and the pay gap. Comparisons are keyed by data version.
+     * @param pool The pool the round belongs to (for its band edges)
+     * @param round The open or closed round
+     * @param key The submitter's address key or nullifier
+     * @param auditors The SalaryLens auditors, granted access to the new aggregates
+     */
+    function removeSubmission(
+        SalaryLens.Pool storage pool,
+        SalaryLens.Round storage round,
+        bytes32 key,
+        address[] storage auditors
+    ) public {
+        euint32 oldSalary = round.encryptedSalaries[key];
+
+        _record(pool, round, key, oldSalary, false);
+
+        round.count--;
+        round.version++;
+        round.hasSubmitted[key] = false;
+        round.encryptedSalaries[key] = euint32.wrap(0);
+        round.acceptedFlags[key] = ebool.wrap(0);
+        round.cohortFlags[key] = ebool.wrap(0);
+        EncryptedStats.removeComponents(round.components, key);
+        _removeSubmitter(round, key);
+        _invalidateRange(round);
+        round.encryptedAverage = euint64.wrap(0);
+        delete round.latestVerifiedAverage;
+        round.cohorts.started = false;
+        round.cohorts.computed = false;
+        _allowAuditors(round, auditors);
+    }
+
+    /**
+     * @notice Fold up to `maxSubmitters` more stored salaries into an outdated round's rebuilt min/max
+     * @dev Swaps the rebuilt range in once every submitter has been processed
+     * @param round The round whose range to rebuild (reverts with RangeNotOutdated if it is up to date)
+     * @param maxSubmitters Maximum number of salaries to process in this call
+     * @param auditors The SalaryLens auditors, granted access to the rebuilt range
+     * @return done True once the range is up to date again
+     */
+    function rebuildRange(
+        SalaryLens.Round storage round,
+        uint256 maxSubmitters,
+        address[] storage auditors
+    ) public returns (bool done) {
+        if (!round.rangeOutdated) {
+            revert SalaryLens.RangeNotOutdated();
+        }
+
+        uint256 cursor = round.rangeRebuildCursor;
+        uint256 end = cursor + maxSubmitters;
+        if (end > round.submitters.length) {
+            end = round.submitters.length;
+        }
+
+        for (; cursor < end; cursor++) {
+            euint32 salary = round.encryptedSalaries[round.submitters[cursor]];
+            if (cursor == 0) {
+                round.rebuildMin = salary;
+                round.rebuildMax = salary;
+            } else {
+                (round.rebuildMin, round.rebuildMax) = EncryptedStats.widenRange(round.rebuildMin, round.rebuildMax, salary);
+            }
+        }
+
+        round.rangeRebuildCursor = cursor;
+
+        if (cursor < round.submitters.length) {
+            return false;
+        }
+
+        round.encryptedMin = round.rebuildMin;
+        round.encryptedMax = round.rebuildMax;
+        round.rangeOutdated = false;
+        round.rangeRebuildCursor = 0;
+        _allowAuditors(round, auditors);
+        return true;
+    }
+
+    /**
+     * @notice Add a submitter's bonus and equity to a round's component totals
+     * @param round The open round, which already holds the submitter's base salary
+     * @param key The submitter's address key
+     * @param encryptedBonus The encrypted bonus
+     * @param encryptedEquity The encrypted equity
+     * @param inputProof Zero-knowledge proof validating both inputs
+     * @param upperBound The pool's encrypted highest accepted salary (uninitialized if the pool has no bounds)
+     * @param auditors The SalaryLens auditors, granted access to the new totals
+     */
+    function addComponents(
+        SalaryLens.Round storage round,
+        bytes32 key,
+        externalEuint32 encryptedBonus,
+        externalEuint32 encryptedEquity,
+        bytes calldata inputProof,
+        euint32 upperBound,
+        address[] storage auditors
+    ) public {
+        EncryptedStats.addComponents(round.components, key, encryptedBonus, encryptedEquity, inputProof, upperBound);
+        _allowAuditors(round, auditors);
+    }
+
+    /**
+     * @notice Remove an account from the SalaryLens auditors (the last one takes its place)
+     * @param auditors The SalaryLens auditors
+     * @param auditor The auditor to remove (must be one of them)
+     */
+    function removeAuditor(address[] storage auditors, address auditor) public {
+        uint256 last = auditors.length - 1;
+        for (uint256 i = 0; i < last; i++) {
+            if (auditors[i] == auditor) {
+                auditors[i] = auditors[last];
+                break;
+            }
+        }
+        auditors.pop();
+    }
+
+    /**
+     * @notice Grant the calling auditor access to a round's current aggregates
+     * @param round The round to audit (reverts with NoSalariesSubmitted before its first submission)
+     */
+    function grantAuditAccess(SalaryLens.Round storage round) public {
+        if (round.count == 0) {
+            revert SalaryLens.NoSalariesSubmitted();
+        }
+
+        _allowAuditor(round, msg.sender);
+    }
+
+    /**
+     * @notice Get the handles of a round's encrypted counters, cohort B aggregates and component totals
+     * @dev Handles that no submission has encrypted yet are zero
+     * @param round The round to query
+     * @return handles The band counts, the below-edge counts, then cohort B's total and count and
+     *         the bonus and equity totals
+     */
+    function auditBreakdownHandles(SalaryLens.Round storage round) public view returns (bytes32[] memory handles) {
+        euint32[] storage bandCounts = round.encryptedBandCounts.values;
+        euint32[] storage countsBelow = round.encryptedCountsBelow.values;
+        uint256 counterCount = bandCounts.length + countsBelow.length;
+
+        handles = new bytes32[](counterCount + 4);
+        for (uint256 i = 0; i < bandCounts.length; i++) {
+            handles[i] = FHE.toBytes32(bandCounts[i]);
+        }
+        for (uint256 i = 0; i < countsBelow.length; i++) {
+            handles[bandCounts.length + i] = FHE.toBytes32(countsBelow[i]);
+        }
+        handles[counterCount] = FHE.toBytes32(round.cohorts.totalB);
+        handles[counterCount + 1] = FHE.toBytes32(round.cohorts.countB);
+        handles[counterCount + 2] = FHE.toBytes32(round.components.totals[0]);
+        handles[counterCount + 3] = FHE.toBytes32(round.components.totals[1]);
+    }
+
+    /**
+     * @notice Publish a round's shared encrypted average, computing it only if the data changed
+     * @dev Records the count the average is computed from, so its verified value carries its sample size
+     * @param round The revealable round
+     * @return The handle of the average of the round's current data version
+     */
+    function requestAverage(SalaryLens.Round storage round) public returns (bytes32) {
+        if (!FHE.isInitialized(round.encryptedAverage) || round.encryptedAverageVersion != round.version) {
+            // Using FHE.div for encrypted division by plaintext (64-bit, like the total)
+            round.encryptedAverage = FHE.div(round.encryptedTotal, uint64(round.count));
+            round.encryptedAverageVersion = round.version;
+            round.encryptedAverageCount = round.count;
+
+            // Grant permissions and mark as publicly decryptable for the off-chain relayer
+            _publish(round.encryptedAverage);
+        }
+
+        return euint64.unwrap(round.encryptedAverage);
+    }
+
+    /**
+     * @notice Publish a round's lowest and highest salary as the caller's pending range
+     * @param round The revealable round (reverts with RangeOutdated until its range is rebuilt)
+     * @return minHandle The ciphertext handle of the lowest salary
+     * @return maxHandle The ciphertext handle of the highest salary
+     */
+    function requestRange(SalaryLens.Round storage round) public returns (bytes32 minHandle, bytes32 maxHandle) {
+        if (round.rangeOutdated) {
+            revert SalaryLens.RangeOutdated();
+        }
+
+        // The first salary of a round initializes both, so they are set once count > 0
+        minHandle = _publish(round.encryptedMin);
+        maxHandle = _publish(round.encryptedMax);
+        _setPending(round, SalaryLens.Statistic.Range, minHandle, maxHandle);
+    }
+
+    /**
+     * @notice Compute and publish a round's mean and variance as the caller's pending statistics
+     * @param round The revealable round
+     * @return meanHandle Ciphertext handle of the mean (euint64)
+     * @return varianceHandle Ciphertext handle of the variance (euint128)
+     */
+    function requestStats(
+        SalaryLens.Round storage round
+    ) public returns (bytes32 meanHandle, bytes32 varianceHandle) {
+        (euint64 mean, euint128 variance) = EncryptedStats.meanAndVariance(
+            round.encryptedTotal,
+            round.encryptedSumOfSquares,
+            round.count
+        );
+
+        meanHandle = _publish(mean);
+        varianceHandle = _publish(variance);
+        _setPending(round, SalaryLens.Statistic.Stats, meanHandle, varianceHandle);
+    }
+
+    /**
+     * @notice Estimate and publish a round's percentile as the caller's pending estimate
+     * @param round The revealable round (with percentile edges)
+     * @param percentile The percentile statistic
+     * @param rank The percentile rank (out of 100)
+     * @return handle Ciphertext handle of the estimate
+     */
+    function requestPercentile(
+        SalaryLens.Round storage round,
+        SalaryLens.Statistic percentile,
+        uint256 rank
+    ) public returns (bytes32 handle) {
+        // Salaries allowed below the estimate
+        uint32 target = uint32((uint256(round.count) * rank) / 100);
+        handle = _publish(EncryptedStats.estimatePercentile(round.encryptedCountsBelow, round.percentileEdges, target));
+        _setPending(round, percentile, handle);
+    }
+
+    /**
+     * @notice Compute and publish a round's component average as the caller's pending average
+     * @param round The revealable round
+     * @param component The compensation average statistic
+     * @param index The component's index in `EncryptedStats.componentAverage()`
+     * @return handle Ciphertext handle of the average
+     */
+    function requestCompensation(
+        SalaryLens.Round storage round,
+        SalaryLens.Statistic component,
+        uint256 index
+    ) public returns (bytes32 handle) {
+        handle = _publish(EncryptedStats.componentAverage(round.components, round.encryptedTotal, round.count, index));
+        _setPending(round, component, handle);
+    }
+
+    /**
+     * @notice Publish a round's band counts as the caller's pending histogram
+     * @param round The revealable round
+     * @return handles Ciphertext handles of the band counts, lowest band first
+     */
+    function requestHistogram(SalaryLens.Round storage round) public returns (bytes32[] memory handles) {
+        uint256 bandCount = round.encryptedBandCounts.values.length;
+        handles = new bytes32[](bandCount);
+
+        for (uint256 i = 0; i < bandCount; i++) {
+            handles[i] = _publish(round.encryptedBandCounts.values[i]);
+        }
+
+        round.pendingHandles[msg.sender][SalaryLens.Statistic.Histogram] = handles;
+    }
+
+    /**
+     * @notice Publish a round's computed pay gap as the caller's pending pay gap
+     * @param round The round (reverts with PayGapNotComputed until `computePayGap()` finished)
+     * @return handles Ciphertext handles of the eligible flag, the cohort B flag and the gap
+     */
+    function requestPayGap(SalaryLens.Round storage round) public returns (bytes32[] memory handles) {
+        EncryptedStats.Cohorts storage cohorts = round.cohorts;
+
+        if (!cohorts.computed) {
+            revert SalaryLens.PayGapNotComputed();
+        }
+
+        handles = new bytes32[](3);
+        handles[0] = _publish(cohorts.eligible);
+        handles[1] = _publish(cohorts.cohortBHigher);
+        handles[2] = _publish(cohorts.gap);
+        round.pendingHandles[msg.sender][SalaryLens.Statistic.PayGap] = handles;
+    }
+
+    /**
+     * @notice Verify the decryption proof of a round's shared average and record the result
+     * @dev Stores the average as the round's `latestVerifiedAverage` and appends it to the pool's
+     *      average history. Each handle is verified once, so a proof cannot be replayed.
+     * @param pool The pool the round belongs to
+     * @param roundId The round whose pending average is verified
+     * @param usedHandles The handles verified so far
+     * @param abiEncodedCleartexts ABI-encoded cleartext values from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     * @return average The verified average
+     * @return sampleSize The number of salaries it was computed from
+     */
+    function verifyAverage(
+        SalaryLens.Pool storage pool,
+        uint256 roundId,
+        mapping(bytes32 => bool) storage usedHandles,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) public returns (uint64 average, uint32 sampleSize) {
+        SalaryLens.Round storage round = pool.rounds[roundId];
+
+        // Get the shared pending handle
+        bytes32 handle = euint64.unwrap(round.encryptedAverage);
+
+        if (handle == bytes32(0)) {
+            revert SalaryLens.NoPendingDecryption();
+        }
+
+        // Replay protection: each average is verified once, then read by everyone
+        if (usedHandles[handle]) {
+            revert SalaryLens.HandleAlreadyUsed();
+        }
+
+        // Prepare handles list for verification
+        bytes32[] memory handlesList = new bytes32[](1);
+        handlesList[0] = handle;
+
+        // Verify the decryption proof - this reverts if invalid
+        // The cleartext is the average as a euint64, like the total it is computed from
+        average = uint64(_checkDecryption(handlesList, abiEncodedCleartexts, decryptionProof)[0]);
+
+        // Store the verified result once, for everyone
+        sampleSize = round.encryptedAverageCount;
+        round.latestVerifiedAverage = SalaryLens.VerifiedAverage(
+            average,
+            sampleSize,
+            round.encryptedAverageVersion,
+            uint64(block.number)
+        );
+
+        // Keep every verified average for the pool's time series
+        pool.averageHistory.push(SalaryLens.AverageRecord(
+            uint32(roundId),
+            average,
+            sampleSize,
+            uint64(block.number),
+            uint64(block.timestamp)
+        ));
+
+        // Mark handle as used (replay protection)
+        usedHandles[handle] = true;
+    }
+
+    /**
+     * @notice Verify the caller's pending decryption of a statistic and store the cleartexts
+     * @dev Clearing the pending request afterwards prevents replaying the same proof.
+     * @param round The round the statistic belongs to
+     * @param statistic The statistic being verified
+     * @param abiEncodedCleartexts ABI-encoded cleartext values from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     * @return values The verified cleartexts, in handle order
+     */
+    function verifyPending(
+        SalaryLens.Round storage round,
+        SalaryLens.Statistic statistic,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) public returns (uint256[] memory values) {
+        values = _checkDecryption(round.pendingHandles[msg.sender][statistic], abiEncodedCleartexts, decryptionProof);
+
+        round.lastDecrypted[msg.sender][statistic] = values;
+        delete round.pendingHandles[msg.sender][statistic];
+    }
+
+    /**
+     * @notice Add a salary to (or remove it from) a round's total and sum of squares, and obliviously
+     *         update its band, percentile and cohort counters
+     * @param pool The pool the round belongs to (for its band edges)
+     * @param round The round
+     * @param key The submitter's address key or nullifier (for their cohort flag, if any)
+     * @param salary The encrypted salary
+     * @param increment True to add the salary, false to remove it
+     */
+    function _record(
+        SalaryLens.Pool storage pool,
+        SalaryLens.Round storage round,
+        bytes32 key,
+        euint32 salary,
+        bool increment
+    ) private {
+        (round.encryptedTotal, round.encryptedSumOfSquares) = EncryptedStats.record(
+            round.encryptedBandCounts,
+            pool.bandEdges,
+            round.encryptedCountsBelow,
+            round.percentileEdges,
+            round.cohorts,
+            round.cohortFlags[key],
+            round.encryptedTotal,
+            round.encryptedSumOfSquares,
+            salary,
+            increment
+        );
+    }
+
+    /**
+     * @notice Re-grant every auditor access to a round's aggregates after they changed
+     */
+    function _allowAuditors(SalaryLens.Round storage round, address[] storage auditors) private {
+        // Nothing to audit once every salary was withdrawn (the range may never have been built)
+        if (round.count == 0) {
+            return;
+        }
+
+        for (uint256 i = 0; i < auditors.length; i++) {
+            _allowAuditor(round, auditors[i]);
+        }
+    }
+
+    /**
+     * @notice Grant an auditor access to a round's current encrypted aggregates
+     * @dev Total, sum of squares, minimum and maximum, the band and below-edge counters, and the
+     *      cohort B and component totals once a submission encrypted them. ACL grants are per
+     *      handle: the auditor keeps access to these handles, but not to the new ones the next
+     *      update creates unless it is re-granted
+     */
+    function _allowAuditor(SalaryLens.Round storage round, address auditor) private {
+        FHE.allow(round.encryptedTotal, auditor);
+        FHE.allow(round.encryptedSumOfSquares, auditor);
+        FHE.allow(round.encryptedMin, auditor);
+        FHE.allow(round.encryptedMax, auditor);
+        _allowAll(round.encryptedBandCounts.values, auditor);
+        _allowAll(round.encryptedCountsBelow.values, auditor);
+
+        if (FHE.isInitialized(round.cohorts.totalB)) {
+            FHE.allow(round.cohorts.totalB, auditor);
+            FHE.allow(round.cohorts.countB, auditor);
+        }
+        for (uint256 i = 0; i < 2; i++) {
+            if (FHE.isInitialized(round.components.totals[i])) {
+                FHE.allow(round.components.totals[i], auditor);
+            }
+        }
+    }
+
+    /**
+     * @notice Grant an account access to every encrypted counter that a submission encrypted
+     */
+    function _allowAll(euint32[] storage values, address account) private {
+        for (uint256 i = 0; i < values.length; i++) {
+            if (FHE.isInitialized(values[i])) {
+                FHE.allow(values[i], account);
+            }
+        }
+    }
+
+    /**
+     * @notice Mark a round's min/max as outdated and restart any rebuild in progress
+     */
+    function _invalidateRange(SalaryLens.Round storage round) private {
+        round.rangeOutdated = true;
+        round.rangeRebuildCursor = 0;
+    }
+
+    /**
+     * @notice Remove a submitter from the round's submitter list (swap and pop)
+     */
+    function _removeSubmitter(SalaryLens.Round storage round, bytes32 submitter) private {
+        uint256 index = round.submitterIndex[submitter] - 1;
+        bytes32 last = round.submitters[round.submitters.length - 1];
+
+        round.submitters[index] = last;
+        round.submitterIndex[last] = index + 1;
+        round.submitters.pop();
+        delete round.submitterIndex[submitter];
+    }
+
+    /**
+     * @notice Verify a decryption proof of one or more handles
+     * @dev All handles are verified with a single FHE.checkSignatures() call. The cleartexts are
+     *      one 32-byte word per handle, in the same order as the handles.
+     * @param handlesList The handles that were decrypted (reverts with NoPendingDecryption if empty)
+     * @param abiEncodedCleartexts ABI-encoded cleartext values from relayer
+     * @param decryptionProof Proof from Zama KMS via relayer-sdk
+     * @return values The verified cleartexts, in handle order
+     */
+    function _checkDecryption(
+        bytes32[] memory handlesList,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) private returns (uint256[] memory values) {
+        if (handlesList.length == 0) {
+            revert SalaryLens.NoPendingDecryption();
+        }
+
+        // Verify the decryption proof - this reverts if invalid
+        FHE.checkSignatures(handlesList, abiEncodedCleartexts, decryptionProof);
+
+        values = new uint256[](handlesList.length);
+        for (uint256 i = 0; i < handlesList.length; i++) {
+            values[i] = uint256(bytes32(abiEncodedCleartexts[i * 32:(i + 1) * 32]));
+        }
+    }
+
+    /**
+     * @notice Record handles as the caller's pending decryption of a statistic
+     */
+    function _setPending(SalaryLens.Round storage round, SalaryLens.Statistic statistic, bytes32 handle) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        round.pendingHandles[msg.sender][statistic] = handles;
+    }
+
+    /// @notice Two-handle variant of `_setPending()`
+    function _setPending(
+        SalaryLens.Round storage round,
+        SalaryLens.Statistic statistic,
+        bytes32 first,
+        bytes32 second
+    ) private {
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = first;
+        handles[1] = second;
+        round.pendingHandles[msg.sender][statistic] = handles;
+    }
+
+    /**
+     * @notice Make an encrypted aggregate publicly decryptable
+     * @dev Grants the contract and the requester access, then marks the value for the relayer
+     * @param value The encrypted aggregate to reveal
+     * @return The ciphertext handle for off-chain decryption
+     */
+    function _publish(euint32 value) private returns (bytes32) {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        FHE.makePubliclyDecryptable(value);
+        return euint32.unwrap(value);
+    }
+
+    /// @notice Boolean variant of `_publish()`
+    function _publish(ebool value) private returns (bytes32) {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        FHE.makePubliclyDecryptable(value);
+        return ebool.unwrap(value);
+    }
+
+    /// @notice 64-bit variant of `_publish()`
+    function _publish(euint64 value) private returns (bytes32) {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        FHE.makePubliclyDecryptable(value);
+        return euint64.unwrap(value);
+    }
+
+    /// @notice 128-bit variant of `_publish()`
+    function _publish(euint128 value) private returns (bytes32) {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        FHE.makePubliclyDecryptable(value);
+        return euint128.unwrap(value);
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../interfaces/IMembershipVerifier.sol";
+
+/**
+ * @title MockMembershipVerifier
+ * @author Zama Bounty Program - Season 11 Submission
+ * @notice Test double for anonymous SalaryLens submissions
+ * @dev NOT zero-knowledge and NOT for production. A "proof" is simply the hash of all verified
+ *      inputs, so tests can produce valid proofs and check that every input is bound.
+ */
+contract MockMembershipVerifier is IMembershipVerifier {
+    /// @inheritdoc IMembershipVerifier
+    function verifyMembership(
+        bytes32 root,
+        bytes32 nullifier,
+        bytes32 scope,
+        bytes32 signal,
+        bytes calldata proof
+    ) external pure returns (bool) {
+        return keccak256(proof) == keccak256(abi.encode(keccak256(abi.encode(root, nullifier, scope, signal))));
+    }
+}
@@ -3,10 +3,32 @@
  * @description React frontend for privacy-preserving salary aggregation
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { BrowserProvider, Contract } from 'ethers';
-import { CONFIG, SALARY_LENS_ABI } from './config';
-import { initializeFhevm, encryptSalary, publicDecrypt, checkACLPermission, userDecrypt } from './fhevm';
+import { useState, useEffect, useCallback, ChangeEvent } from 'react';
+import {
+  AbiCoder,
+  BrowserProvider,
+  Contract,
+  ContractTransactionReceipt,
+  Result,
+  ZeroAddress,
+  ZeroHash,
+  getAddress,
+  isAddress,
+  isHexString,
+  keccak256,
+} from 'ethers';
+import { CONFIG, REVEAL_COMMITTEE_ABI, SALARY_LENS_ABI, SALARY_LENS_FACTORY_ABI } from './config';
+import { isGaslessAvailable, submitSalaryIntent } from './gasless';
+import { initializeFhevm, encryptSalary, encryptSalaryWithCohort, encryptCompensation, publicDecrypt, checkACLPermission, userDecrypt, userDecryptAll } from './fhevm';
+import HistogramChart from './components/HistogramChart';
+import BoxPlot, { SalaryPercentiles } from './components/BoxPlot';
+import RoundList, { RoundInfo } from './components/RoundList';
+import AverageHistoryChart, { AverageRecord } from './components/AverageHistoryChart';
+import AnonymousSubmission from './components/AnonymousSubmission';
+import InstancePicker, { InstanceInfo } from './components/InstancePicker';
+import AdminPanel, { AdminStatus, ROLES, canAdminister } from './components/AdminPanel';
+import AuditorView, { AuditSnapshot } from './components/AuditorView';
+import RevealCommitteePanel, { CommitteeStatus, RevealProposal } from './components/RevealCommitteePanel';
 
 // Extend window type for ethereum
 declare global {
@@ -28,21 +50,38 @@ const DEMO_MODE = false;
 // Demo data storage key for localStorage
 const DEMO_STORAGE_KEY = 'salaryLens_demoData';
 
+// localStorage key of the SalaryLens instance the user picked
+const INSTANCE_STORAGE_KEY = 'salaryLens_instance';
+
+/**
+ * Demo submissions; salaries, addresses, cohort flags and compensation components share the same index
+ */
+interface DemoSubmissions {
+  salaries: number[];
+  submittedAddresses: string[];
+  /** True for salaries in the pool's second cohort */
+  cohortFlags: boolean[];
+  /** Bonus and equity of each submission (0 for salaries submitted without them) */
+  bonuses: number[];
+  equities: number[];
+}
+
 // Load demo data from localStorage or initialize empty
-const loadDemoData = (): { salaries: number[]; submittedAddresses: string[] } => {
+const loadDemoData = (): DemoSubmissions => {
   try {
     const stored = localStorage.getItem(DEMO_STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      // Data saved before cohorts or compensation components were added has no flags or components
+      return { cohortFlags: [], bonuses: [], equities: [], ...JSON.parse(stored) };
     }
   } catch (e) {
     console.warn('Failed to load demo data from localStorage:', e);
   }
-  return { salaries: [], submittedAddresses: [] };
+  return { salaries: [], submittedAddresses: [], cohortFlags: [], bonuses: [], equities: [] };
 };
 
 // Save demo data to localStorage
-const saveDemoData = (data: { salaries: number[]; submittedAddresses: string[] }) => {
+const saveDemoData = (data: DemoSubmissions) => {
   try {
     localStorage.setItem(DEMO_STORAGE_KEY, JSON.stringify(data));
   } catch (e) {
@@ -57,13 +96,49 @@ const demoData = {
   hasSubmitted(address: string): boolean {
     return this.submittedAddresses.includes(address);
   },
-  // Add a salary and save
-  addSalary(salary: number, address: string) {
+  // Persist all submissions
+  save() {
+    saveDemoData({
+      salaries: this.salaries,
+      submittedAddresses: this.submittedAddresses,
+      cohortFlags: this.cohortFlags,
+      bonuses: this.bonuses,
+      equities: this.equities,
+    });
+  },
+  // Add a salary (with its bonus and equity, if any) and save
+  addSalary(salary: number, address: string, inCohortB = false, bonus = 0, equity = 0) {
     this.salaries.push(salary);
+    this.cohortFlags.push(inCohortB);
+    this.bonuses.push(bonus);
+    this.equities.push(equity);
     if (!this.submittedAddresses.includes(address)) {
       this.submittedAddresses.push(address);
     }
-    saveDemoData({ salaries: this.salaries, submittedAddresses: this.submittedAddresses });
+    this.save();
+  },
+  // Replace an address's salary and save (salaries and addresses share the same index)
+  updateSalary(salary: number, address: string) {
+    const index = this.submittedAddresses.indexOf(address);
+    if (index === -1) return;
+    this.salaries[index] = salary;
+    this.save();
+  },
+  // Remove an address's salary and save
+  withdrawSalary(address: string) {
+    const index = this.submittedAddresses.indexOf(address);
+    if (index === -1) return;
+    this.salaries.splice(index, 1);
+    this.submittedAddresses.splice(index, 1);
+    this.cohortFlags.splice(index, 1);
+    this.bonuses.splice(index, 1);
+    this.equities.splice(index, 1);
+    this.save();
+  },
+  // Salary recorded for an address, or null if it has not submitted
+  getSalary(address: string): number | null {
+    const index = this.submittedAddresses.indexOf(address);
+    return index === -1 ? null : this.salaries[index];
   },
   // Get count
   getCount(): number {
@@ -74,23 +149,705 @@ const demoData = {
     if (this.salaries.length === 0) return 0;
     return Math.round(this.salaries.reduce((a, b) => a + b, 0) / this.salaries.length);
   },
+  // Lowest and highest salary
+  getRange(): SalaryRange | null {
+    if (this.salaries.length === 0) return null;
+    return { min: Math.min(...this.salaries), max: Math.max(...this.salaries) };
+  },
+  // Mean and population variance, rounded down like the contract computes them
+  getStats(): SalaryStats | null {
+    if (this.salaries.length === 0) return null;
+    const mean = Math.floor(this.salaries.reduce((a, b) => a + b, 0) / this.salaries.length);
+    const meanOfSquares = Math.floor(this.salaries.reduce((a, b) => a + b * b, 0) / this.salaries.length);
+    return { mean, variance: meanOfSquares - mean * mean };
+  },
+  // Highest edge with at most count * rank / 100 salaries below it, like the contract estimates it
+  getPercentile(percentileEdges: number[], rank: number): number {
+    const target = Math.floor((this.salaries.length * rank) / 100);
+    let estimate = 0;
+    for (const edge of percentileEdges) {
+      if (this.salaries.filter((salary) => salary < edge).length <= target) estimate = edge;
+    }
+    return estimate;
+  },
+  // Position of an address's salary relative to the average, like the contract compares them
+  getComparison(address: string): AverageComparison | null {
+    const salary = this.getSalary(address);
+    if (salary === null) return null;
+    const mean = Math.floor(this.salaries.reduce((a, b) => a + b, 0) / this.salaries.length);
+    if (10 * salary < 9 * mean) return 0;
+    return 10 * salary > 11 * mean ? 2 : 1;
+  },
+  // Gap between the cohort averages, withheld unless both cohorts have minCount salaries
+  getPayGap(minCount: number): PayGap {
+    const [a, b] = [false, true].map((inCohortB) => {
+      const cohort = this.salaries.filter((_, i) => (this.cohortFlags[i] ?? false) === inCohortB);
+      const average = cohort.length === 0 ? 0 : Math.floor(cohort.reduce((x, y) => x + y, 0) / cohort.length);
+      return { size: cohort.length, average };
+    });
+    if (a.size < minCount || b.size < minCount) {
+      return { eligible: false, cohortBHigher: false, gap: 0 };
+    }
+    return { eligible: true, cohortBHigher: b.average > a.average, gap: Math.abs(b.average - a.average) };
+  },
+  // Average bonus, equity or total compensation, rounded down like the contract computes them
+  getCompensationAverage(key: keyof CompensationAverages): number {
+    if (this.salaries.length === 0) return 0;
+    const amounts = this.salaries.map((salary, i) => {
+      const bonus = this.bonuses[i] ?? 0;
+      const equity = this.equities[i] ?? 0;
+      return key === 'bonus' ? bonus : key === 'equity' ? equity : salary + bonus + equity;
+    });
+    return Math.floor(amounts.reduce((a, b) => a + b, 0) / amounts.length);
+  },
+  // Number of salaries per band (N edges define N + 1 bands)
+  getHistogram(bandEdges: number[]): number[] {
+    const counts = new Array(bandEdges.length + 1).fill(0);
+    for (const salary of this.salaries) {
+      counts[bandEdges.filter((edge) => salary >= edge).length]++;
+    }
+    return counts;
+  },
   // Clear all data (for testing)
   clear() {
     this.salaries = [];
     this.submittedAddresses = [];
+    this.cohortFlags = [];
+    this.bonuses = [];
+    this.equities = [];
     localStorage.removeItem(DEMO_STORAGE_KEY);
   }
 };
 
+/**
+ * Decrypted lowest and highest salary of a pool
+ */
+interface SalaryRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Decrypted mean and variance of a pool
+ */
+interface SalaryStats {
+  mean: number;
+  variance: number;
+}
+
+/**
+ * Decrypted position of the user's salary relative to a round's average (see compareToAverage):
+ * 0 = more than 10% below, 1 = within 10%, 2 = more than 10% above
+ */
+type AverageComparison = 0 | 1 | 2;
+
+const COMPARISON_LABELS: Record<AverageComparison, string> = {
+  0: '⬇️ More than 10% below the average',
+  1: '↔️ Within 10% of the average',
+  2: '⬆️ More than 10% above the average',
+};
+
+/**
+ * Decrypted pay gap of a round (see computePayGap): the gap between the averages of the pool's two
+ * cohorts, withheld (0) unless both cohorts reach the minimum number of submissions
+ */
+interface PayGap {
+  eligible: boolean;
+  cohortBHigher: boolean;
+  gap: number;
+}
+
+/**
+ * A percentile the contract can estimate, with its `SalaryLens.Statistic` value
+ */
+interface PercentileOption {
+  key: keyof SalaryPercentiles;
+  statistic: number;
+  rank: number;
+  label: string;
+}
+
+const PERCENTILES: PercentileOption[] = [
+  { key: 'p25', statistic: 3, rank: 25, label: 'Lower Quartile' },
+  { key: 'median', statistic: 4, rank: 50, label: 'Median' },
+  { key: 'p75', statistic: 5, rank: 75, label: 'Upper Quartile' },
+];
+
+const NO_PERCENTILES: SalaryPercentiles = { p25: null, median: null, p75: null };
+
+/**
+ * Decrypted compensation averages of a round (see requestCompensationDecryption); null until revealed
+ */
+interface CompensationAverages {
+  bonus: number | null;
+  equity: number | null;
+  /** Average of base salary + bonus + equity */
+  total: number | null;
+}
+
+/**
+ * A compensation average the contract can reveal, with its `SalaryLens.Statistic` value
+ */
+interface CompensationOption {
+  key: keyof CompensationAverages;
+  statistic: number;
+  /** `RevealCommittee.Reveal` value, for instances with a reveal committee */
+  reveal: number;
+  label: string;
+}
+
+const COMPENSATION_AVERAGES: CompensationOption[] = [
+  { key: 'bonus', statistic: 7, reveal: 2, label: 'Average Bonus' },
+  { key: 'equity', statistic: 8, reveal: 3, label: 'Average Equity' },
+  { key: 'total', statistic: 9, reveal: 4, label: 'Average Total Compensation' },
+];
+
+/** `RevealCommittee.Reveal` value of the mean and variance */
+const STATS_REVEAL = 1;
+
+const NO_COMPENSATION: CompensationAverages = { bonus: null, equity: null, total: null };
+
+/**
+ * The connected user's decrypted submission (private receipt)
+ */
+interface SubmissionReceipt {
+  /** Salary as recorded, i.e. after clamping into the pool's bounds */
+  salary: number;
+  /** Whether the submitted salary was within the pool's bounds (null if the pool has none) */
+  accepted: boolean | null;
+}
+
+/**
+ * Metadata of a salary pool as read from the contract
+ */
+interface PoolInfo {
+  id: number;
+  label: string;
+  currency: string;
+  period: string;
+  roundCount: number;
+  bandEdges: number[];
+  /** Merkle root of eligible submitters, or ZeroHash if anyone may submit */
+  eligibilityRoot: string;
+  /** True if submissions are tracked by nullifier instead of address (see addSalaryAnonymous) */
+  anonymous: boolean;
+  /** True if salaries are clamped into confidential bounds (see setSalaryBounds) */
+  hasSalaryBounds: boolean;
+  /** Names of the two cohorts whose pay gap the pool measures, or null if it has none (see setCohorts) */
+  cohortLabels: [string, string] | null;
+}
+
+/**
+ * Encrypted salary waiting for the member's membership proof in an anonymous pool
+ */
+interface AnonymousDraft {
+  encryptedSalary: string;
+  inputProof: string;
+  /** Signal the membership proof must endorse */
+  signal: string;
+}
+
+/**
+ * Eligibility proof file distributed by the pool admin (see scripts/build-allowlist.ts)
+ * Either a single employee's `{ root, address, proof }` or the full `{ root, proofs }` allowlist
+ */
+interface EligibilityFile {
+  root: string;
+  address?: string;
+  proof?: string[];
+  proofs?: Record<string, string[]>;
+}
+
+// Minimum submissions before the average can be revealed in demo mode
+const DEMO_MIN_SUBMISSIONS = 3;
+
+// Stored salaries folded into the encrypted min/max per rebuildRange transaction
+const RANGE_REBUILD_CHUNK = 20;
+
+// Quotient bits of the cohort averages computed per computePayGap transaction (32 in total)
+const PAY_GAP_BITS_PER_TX = 8;
+
+// Single pool shown in demo mode (demo data is not split into pools)
+const DEMO_POOL: PoolInfo = {
+  id: 0,
+  label: 'Demo Pool',
+  currency: 'USD',
+  period: 'annual',
+  roundCount: 1,
+  bandEdges: [40000, 60000, 80000, 100000, 150000],
+  eligibilityRoot: ZeroHash,
+  anonymous: false,
+  hasSalaryBounds: false,
+  cohortLabels: ['Cohort A', 'Cohort B'],
+};
+
+// Single always-open round shown in demo mode
+const DEMO_ROUND: RoundInfo = {
+  id: 0,
+  startTime: 0,
+  endTime: 0,
+  closed: false,
+  count: 0,
+  verifiedAverage: 0,
+  averageCount: 0,
+  averageVersion: 0,
+  averageBlock: 0,
+  dataVersion: 0,
+  percentileEdges: [30000, 50000, 70000, 90000, 120000],
+  tracksCohorts: true,
+};
+
+/**
+ * Read all pools from the contract
+ * @param contract - SalaryLens contract instance
+ * @returns Pools ordered by ID
+ */
+const loadPools = async (contract: Contract): Promise<PoolInfo[]> => {
+  const poolCount = Number(await contract.poolCount());
+  const pools: PoolInfo[] = [];
+  for (let id = 0; id < poolCount; id++) {
+    const [label, currency, period, roundCount, bandEdges] = await contract.getPool(id);
+    const eligibilityRoot: string = await contract.getEligibilityRoot(id);
+    const [membershipVerifier] = await contract.getMembershipGroup(id);
+    const hasSalaryBounds: boolean = await contract.hasSalaryBounds(id);
+    const [cohortLabelA, cohortLabelB]: [string, string] = await contract.getCohorts(id);
+    pools.push({
+      id,
+      label,
+      currency,
+      period,
+      roundCount: Number(roundCount),
+      bandEdges: (bandEdges as bigint[]).map(Number),
+      eligibilityRoot,
+      anonymous: membershipVerifier !== ZeroAddress,
+      hasSalaryBounds,
+      cohortLabels: cohortLabelA || cohortLabelB ? [cohortLabelA, cohortLabelB] : null,
+    });
+  }
+  return pools;
+};
+
+/**
+ * Read all rounds of a pool from the contract
+ * @param contract - SalaryLens contract instance
+ * @param poolId - Pool whose rounds to read
+ * @returns Rounds ordered by ID (the last one is the current round)
+ */
+const loadRounds = async (contract: Contract, poolId: number): Promise<RoundInfo[]> => {
+  const [, , , roundCount] = await contract.getPool(poolId);
+  const rounds: RoundInfo[] = [];
+  for (let id = 0; id < Number(roundCount); id++) {
+    const [startTime, endTime, closed, count] = await contract.getRound(poolId, id);
+    const [verifiedAverage, averageCount, averageVersion, averageBlock, dataVersion] =
+      await contract.getLatestVerifiedAverage(poolId, id);
+    const percentileEdges: bigint[] = await contract.getPercentileEdges(poolId, id);
+    const [tracksCohorts]: [boolean] = await contract.getPayGapStatus(poolId, id);
+    rounds.push({
+      id,
+      startTime: Number(startTime),
+      endTime: Number(endTime),
+      closed,
+      count: Number(count),
+      verifiedAverage: Number(verifiedAverage),
+      averageCount: Number(averageCount),
+      averageVersion: Number(averageVersion),
+      averageBlock: Number(averageBlock),
+      dataVersion: Number(dataVersion),
+      percentileEdges: percentileEdges.map(Number),
+      tracksCohorts,
+    });
+  }
+  return rounds;
+};
+
+/** Number of history records read per call to `getAverageHistory` */
+const HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Read a pool's full history of verified averages from the contract, page by page
+ * @param contract - SalaryLens contract instance
+ * @param poolId - Pool whose history to read
+ * @returns Verified averages, oldest first
+ */
+const loadAverageHistory = async (contract: Contract, poolId: number): Promise<AverageRecord[]> => {
+  const length = Number(await contract.getAverageHistoryLength(poolId));
+  const records: AverageRecord[] = [];
+  for (let offset = 0; offset < length; offset += HISTORY_PAGE_SIZE) {
+    const page = await contract.getAverageHistory(poolId, offset, HISTORY_PAGE_SIZE);
+    for (const { roundId, value, count, blockNumber, timestamp } of page) {
+      records.push({
+        roundId: Number(roundId),
+        value: Number(value),
+        count: Number(count),
+        blockNumber: Number(blockNumber),
+        timestamp: Number(timestamp),
+      });
+    }
+  }
+  return records;
+};
+
+/** Number of factory instances read per call */
+const INSTANCE_PAGE_SIZE = 50;
+
+/**
+ * List the instances the user can pick: the configured deployment, then every instance
+ * registered in the factory (if one is configured)
+ * @param provider - Provider to read the factory with
+ */
+const loadInstances = async (provider: BrowserProvider): Promise<InstanceInfo[]> => {
+  const instances: InstanceInfo[] = [
+    { address: CONFIG.CONTRACT_ADDRESS, name: 'Default deployment', owner: '', minSubmissions: 0 },
+  ];
+  if (!CONFIG.FACTORY_ADDRESS) return instances;
+
+  const factory = new Contract(CONFIG.FACTORY_ADDRESS, SALARY_LENS_FACTORY_ABI, provider);
+  const length = Number(await factory.getInstanceCount());
+  for (let offset = 0; offset < length; offset += INSTANCE_PAGE_SIZE) {
+    const page = await factory.getInstances(offset, INSTANCE_PAGE_SIZE);
+    for (const { instance, owner, name, minSubmissions } of page) {
+      instances.push({ address: instance, name, owner, minSubmissions: Number(minSubmissions) });
+    }
+  }
+  return instances;
+};
+
+/**
+ * Address of the instance the user picked last time, or the configured deployment
+ */
+const loadSelectedInstance = (): string => {
+  const stored = localStorage.getItem(INSTANCE_STORAGE_KEY);
+  return stored && isAddress(stored) ? stored : CONFIG.CONTRACT_ADDRESS;
+};
+
+/**
+ * Read the owner, pause state and the connected account's roles of an instance
+ * @param contract - SalaryLens contract instance
+ * @param account - Connected address
+ */
+const loadAdminStatus = async (contract: Contract, account: string): Promise<AdminStatus> => {
+  const [admin, operator, auditor] = ROLES;
+  return {
+    owner: await contract.owner(),
+    pendingOwner: await contract.pendingOwner(),
+    paused: await contract.paused(),
+    isAdmin: await contract.hasRole(admin.role, account),
+    isOperator: await contract.hasRole(operator.role, account),
+    isAuditor: await contract.hasRole(auditor.role, account),
+  };
+};
+
+/** Number of latest committee proposals scanned for pending ones */
+const PROPOSAL_SCAN_SIZE = 20;
+
+/**
+ * Read the reveal committee of an instance and its pending proposals
+ * @param contract - SalaryLens contract instance
+ * @param account - Connected address
+ * @returns The committee status, or null if anyone may request average reveals
+ */
+const loadCommitteeStatus = async (contract: Contract, account: string): Promise<CommitteeStatus | null> => {
+  const address: string = await contract.revealCommittee();
+  if (address === ZeroAddress) return null;
+
+  const committee = new Contract(address, REVEAL_COMMITTEE_ABI, contract.runner);
+  const proposalCount = Number(await committee.proposalCount());
+  const now = Math.floor(Date.now() / 1000);
+  const proposals: RevealProposal[] = [];
+  for (let id = proposalCount - 1; id >= Math.max(proposalCount - PROPOSAL_SCAN_SIZE, 0); id--) {
+    const { poolId, roundId, proposer, expiresAt, approvals, executed, reveal } = await committee.getProposal(id);
+    if (executed || Number(expiresAt) < now) continue;
+    proposals.push({
+      id,
+      poolId: Number(poolId),
+      roundId: Number(roundId),
+      reveal: Number(reveal),
+      proposer,
+      expiresAt: Number(expiresAt),
+      approvals: Number(approvals),
+      approvedByMe: await committee.hasApproved(id, account),
+    });
+  }
+
+  return {
+    address,
+    threshold: Number(await committee.threshold()),
+    memberCount: (await committee.getMembers()).length,
+    isMember: await committee.isMember(account),
+    proposals,
+  };
+};
+
+/**
+ * Decrypt and verify the reveal of the latest executed committee proposal for a round
+ * The committee requests the reveal, so the result is stored under the committee's address
+ * @param committee - RevealCommittee contract, connected to the user's wallet
+ * @param poolId - Pool of the proposal
+ * @param roundId - Round of the proposal
+ * @param reveal - What the proposal reveals (a `RevealCommittee.Reveal` value)
+ * @returns Whether an executed proposal was found and verified
+ */
+const verifyCommitteeReveal = async (
+  committee: Contract,
+  poolId: number,
+  roundId: number,
+  reveal: number
+): Promise<boolean> => {
+  const proposalCount = Number(await committee.proposalCount());
+  for (let id = proposalCount - 1; id >= Math.max(proposalCount - PROPOSAL_SCAN_SIZE, 0); id--) {
+    const proposal = await committee.getProposal(id);
+    if (
+      !proposal.executed ||
+      Number(proposal.poolId) !== poolId ||
+      Number(proposal.roundId) !== roundId ||
+      Number(proposal.reveal) !== reveal
+    ) {
+      continue;
+    }
+    const handles: string[] = [...(await committee.getRevealedHandles(id))];
+    const decryptResult = await publicDecrypt(handles);
+    const tx = await committee.verify(id, decryptResult.abiEncodedClearValues, decryptResult.decryptionProof);
+    await tx.wait();
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Read what the app shows first for an instance: its pools, its access-control state, and the
+ * latest round, average history and submission status of its first pool
+ * @param contract - SalaryLens contract instance
+ * @param account - Connected address
+ */
+const loadInstanceState = async (contract: Contract, account: string) => {
+  const pools = await loadPools(contract);
+  const minSubmissions = Number(await contract.minSubmissions());
+  const adminStatus = await loadAdminStatus(contract, account);
+  const committee = await loadCommitteeStatus(contract, account);
+  let rounds: RoundInfo[] = [];
+  let averageHistory: AverageRecord[] = [];
+  let selectedRoundId = 0;
+  let count = 0;
+  let hasSubmitted = false;
+  let nullifierScope: string | null = null;
+  let lastAverage = 0;
+  let lastAverageCount = 0;
+
+  if (pools.length > 0) {
+    const poolId = pools[0].id;
+    rounds = await loadRounds(contract, poolId);
+    averageHistory = await loadAverageHistory(contract, poolId);
+    if (rounds.length > 0) {
+      selectedRoundId = rounds.length - 1;
+      count = rounds[selectedRoundId].count;
+      ({ hasSubmitted, nullifierScope } = await loadSubmissionStatus(contract, pools[0], rounds.length, account, ''));
+      lastAverage = rounds[selectedRoundId].verifiedAverage;
+      lastAverageCount = rounds[selectedRoundId].averageCount;
+    }
+  }
+
+  return {
+    pools,
+    minSubmissions,
+    adminStatus,
+    committee,
+    rounds,
+    averageHistory,
+    selectedRoundId,
+    count,
+    hasSubmitted,
+    nullifierScope,
+    lastAverage,
+    lastAverageCount,
+  };
+};
+
+/**
+ * Extract the connected user's Merkle proof from an eligibility file
+ * @param file - Parsed JSON distributed by the pool admin
+ * @param address - Connected address
+ * @returns The proof, or null if the file has no proof for this address
+ */
+const findEligibilityProof = (file: EligibilityFile, address: string): string[] | null => {
+  const account = getAddress(address);
+  if (file.proof && file.address && getAddress(file.address) === account) {
+    return file.proof;
+  }
+  if (file.proofs) {
+    const entry = Object.entries(file.proofs).find(([key]) => getAddress(key) === account);
+    if (entry) return entry[1];
+  }
+  return null;
+};
+
+/**
+ * Read whether the connected user has a salary in a pool's current round
+ * Anonymous pools track submissions by nullifier, so the user's nullifier is checked instead of
+ * their address, and the scope they derive it from is loaded as well
+ * @param contract - SalaryLens contract instance
+ * @param pool - Pool to check
+ * @param roundCount - Number of rounds of the pool (the latest is the current round)
+ * @param user - Connected address
+ * @param nullifier - The user's nullifier for the current round, if entered
+ */
+const loadSubmissionStatus = async (
+  contract: Contract,
+  pool: PoolInfo,
+  roundCount: number,
+  user: string,
+  nullifier: string
+): Promise<{ hasSubmitted: boolean; nullifierScope: string | null }> => {
+  if (!pool.anonymous) {
+    return { hasSubmitted: await contract.hasUserSubmitted(pool.id, user), nullifierScope: null };
+  }
+  if (roundCount === 0) {
+    return { hasSubmitted: false, nullifierScope: null };
+  }
+  const nullifierScope: string = await contract.getNullifierScope(pool.id, roundCount - 1);
+  const hasSubmitted = isHexString(nullifier, 32) ? await contract.isNullifierUsed(pool.id, nullifier) : false;
+  return { hasSubmitted, nullifierScope };
+};
+
+/**
+ * Copy of `rounds` with the submission count of one round replaced
+ */
+const withRoundCount = (rounds: RoundInfo[], roundId: number, count: number): RoundInfo[] =>
+  rounds.map((round) => (round.id === roundId ? { ...round, count } : round));
+
+/**
+ * Read the connected user's verified results and the range status of a round
+ * @param contract - SalaryLens contract instance
+ * @param poolId - Pool the round belongs to
+ * @param roundId - Round to read
+ * @param user - Connected address
+ */
+const loadRoundResults = async (
+  contract: Contract,
+  poolId: number,
+  roundId: number,
+  user: string
+): Promise<{
+  lastAverage: number | null;
+  lastAverageCount: number | null;
+  lastRange: SalaryRange | null;
+  lastStats: SalaryStats | null;
+  lastPercentiles: SalaryPercentiles;
+  rangeOutdated: boolean;
+  submittedToRound: boolean;
+}> => {
+  // The average is shared by all users, unlike the other statistics which are stored per requester
+  const [verifiedAverage, averageCount] = await contract.getLatestVerifiedAverage(poolId, roundId);
+  const lastAverage = Number(verifiedAverage);
+  const [min, max] = await contract.getLastRange(poolId, roundId, user);
+  // With a reveal committee, the mean and variance are requested by the committee and stored under its address
+  const committee: string = await contract.revealCommittee();
+  const [mean, variance] = await contract.getLastStats(poolId, roundId, committee === ZeroAddress ? user : committee);
+  const lastPercentiles: SalaryPercentiles = { ...NO_PERCENTILES };
+  for (const { key, statistic } of PERCENTILES) {
+    // 0 is also a valid estimate (below the first edge), but cannot be told apart from "not revealed"
+    const estimate = Number(await contract.getLastPercentile(poolId, roundId, user, statistic));
+    lastPercentiles[key] = estimate > 0 ? estimate : null;
+  }
+  const [rangeOutdated] = await contract.getRangeStatus(poolId, roundId);
+  // Only address-mode salaries have a submission handle
+  const submissionHandle: string = await contract.getSubmissionHandle(poolId, roundId, user);
+  return {
+    lastAverage: lastAverage > 0 ? lastAverage : null,
+    lastAverageCount: lastAverage > 0 ? Number(averageCount) : null,
+    lastRange: Number(max) > 0 ? { min: Number(min), max: Number(max) } : null,
+    lastStats: Number(mean) > 0 ? { mean: Number(mean), variance: Number(variance) } : null,
+    lastPercentiles,
+    rangeOutdated,
+    submittedToRound: submissionHandle !== ZeroHash,
+  };
+};
+
+/**
+ * Find the first event with the given name in a transaction receipt
+ * @param contract - Contract whose interface is used to parse the logs
+ * @param receipt - Mined transaction receipt
+ * @param eventName - Name of the event to look for
+ * @returns The parsed event arguments, or null if not found
+ */
+const findEventArgs = (
+  contract: Contract,
+  receipt: ContractTransactionReceipt,
+  eventName: string
+): Result | null => {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog({
+        topics: log.topics as string[],
+        data: log.data,
+      });
+      if (parsed?.name === eventName) {
+        return parsed.args;
+      }
+    } catch {
+      // Not our event
+    }
+  }
+  return null;
+};
+
+/**
+ * Format a salary amount in the pool's currency
+ * Falls back to a plain number when the currency is not an ISO 4217 code
+ */
+const formatSalary = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+};
+
 /**
  * Application state interface
  */
 interface AppState {
   isConnected: boolean;
   address: string | null;
+  /** SalaryLens instances the user can pick from */
+  instances: InstanceInfo[];
+  /** Owner, pause state and the user's roles on the selected instance (null in demo mode) */
+  adminStatus: AdminStatus | null;
+  /** Reveal committee of the selected instance (null if anyone may request average reveals) */
+  committee: CommitteeStatus | null;
+  pools: PoolInfo[];
+  selectedPoolId: number;
+  rounds: RoundInfo[];
+  selectedRoundId: number;
+  minSubmissions: number;
   count: number;
   hasSubmitted: boolean;
   lastAverage: number | null;
+  /** Number of salaries lastAverage was computed from */
+  lastAverageCount: number | null;
+  lastRange: SalaryRange | null;
+  lastStats: SalaryStats | null;
+  lastPercentiles: SalaryPercentiles;
+  lastCompensation: CompensationAverages;
+  lastHistogram: number[] | null;
+  /** Every verified average of the selected pool, oldest first */
+  averageHistory: AverageRecord[];
+  rangeOutdated: boolean;
+  /** Whether the connected address has a salary in the selected round, which it may withdraw even once the round is closed */
+  submittedToRound: boolean;
+  mySubmission: SubmissionReceipt | null;
+  /** The selected round's aggregates, once decrypted by an auditor */
+  audit: AuditSnapshot | null;
+  /** Where the user's salary stands relative to the selected round's average, once decrypted */
+  myComparison: AverageComparison | null;
+  /** Gap between the selected round's cohort averages, once decrypted */
+  lastPayGap: PayGap | null;
+  /** Merkle proof loaded from the admin's eligibility file, if the pool has an allowlist */
+  eligibilityProof: string[] | null;
+  /** The user's nullifier for the current round of an anonymous pool, as entered */
+  nullifier: string;
+  /** Scope the nullifier is derived from (anonymous pools only) */
+  nullifierScope: string | null;
+  anonymousDraft: AnonymousDraft | null;
   isLoading: boolean;
   error: string | null;
   txStatus: string | null;
@@ -104,9 +861,34 @@ function App() {
   const [state, setState] = useState<AppState>({
     isConnected: false,
     address: null,
+    instances: [],
+    adminStatus: null,
+    committee: null,
+    pools: [],
+    selectedPoolId: 0,
+    rounds: [],
+    selectedRoundId: 0,
+    minSubmissions: 1,
     count: 0,
     hasSubmitted: false,
     lastAverage: null,
+    lastAverageCount: null,
+    lastRange: null,
+    lastStats: null,
+    myComparison: null,
+    lastPayGap: null,
+    lastPercentiles: NO_PERCENTILES,
+    lastCompensation: NO_COMPENSATION,
+    lastHistogram: null,
+    averageHistory: [],
+    rangeOutdated: false,
+    submittedToRound: false,
+    mySubmission: null,
+    audit: null,
+    eligibilityProof: null,
+    nullifier: '',
+    nullifierScope: null,
+    anonymousDraft: null,
     isLoading: false,
     error: null,
     txStatus: null,
@@ -114,8 +896,17 @@ function App() {
   });
 
   const [salary, setSalary] = useState<string>('');
+  // Optional compensation components submitted together with the salary (empty = salary only)
+  const [bonus, setBonus] = useState<string>('');
+  const [equity, setEquity] = useState<string>('');
+  // Cohort the user submits to, in rounds that measure a pay gap
+  const [inCohortB, setInCohortB] = useState<boolean>(false);
+  // Submit through the relayer, so the user needs no ETH for gas
+  const [gasless, setGasless] = useState<boolean>(false);
   const [provider, setProvider] = useState<BrowserProvider | null>(null);
   const [contract, setContract] = useState<Contract | null>(null);
+  // The SalaryLens instance in use: the configured deployment or one created by the factory
+  const [contractAddress, setContractAddress] = useState<string>(loadSelectedInstance);
 
   /**
    * Connect to MetaMask wallet
@@ -191,7 +982,7 @@ function App() {
 
       const signer = await browserProvider.getSigner();
       const contractInstance = new Contract(
-        CONFIG.CONTRACT_ADDRESS,
+        contractAddress,
         SALARY_LENS_ABI,
         signer
       );
@@ -199,15 +990,29 @@ function App() {
 
       // Step 4: Get initial state
       console.log('Step 4: Reading state...');
+      let instances: InstanceInfo[] = [];
+      let adminStatus: AdminStatus | null = null;
+      let committee: CommitteeStatus | null = null;
+      let pools: PoolInfo[] = [];
+      let rounds: RoundInfo[] = [];
+      let selectedRoundId = 0;
+      let minSubmissions = 1;
       let count = 0;
       let hasSubmitted = false;
+      let nullifierScope: string | null = null;
       let lastAverage = 0;
+      let lastAverageCount = 0;
+      let averageHistory: AverageRecord[] = [];
       
       if (DEMO_MODE) {
         // Load from localStorage in demo mode
         count = demoData.getCount();
         hasSubmitted = demoData.hasSubmitted(accounts[0]);
         lastAverage = demoData.getAverage();
+        lastAverageCount = count;
+        pools = [DEMO_POOL];
+        rounds = [{ ...DEMO_ROUND, count }];
+        minSubmissions = DEMO_MIN_SUBMISSIONS;
         console.log('Demo state loaded from localStorage:', { count, hasSubmitted, lastAverage });
       } else {
         // Production mode: Initialize FHEVM and read from contract
@@ -216,10 +1021,22 @@ function App() {
           await initializeFhevm(browserProvider);
           console.log('FHEVM initialized successfully!');
           
-          count = Number(await contractInstance.getCount());
-          hasSubmitted = await contractInstance.hasUserSubmitted(accounts[0]);
-          lastAverage = Number(await contractInstance.getLastAverage(accounts[0]));
-          console.log('Contract state:', { count, hasSubmitted, lastAverage });
+          instances = await loadInstances(browserProvider);
+          ({
+            pools,
+            minSubmissions,
+            adminStatus,
+            committee,
+            rounds,
+            averageHistory,
+            selectedRoundId,
+            count,
+            hasSubmitted,
+            nullifierScope,
+            lastAverage,
+            lastAverageCount,
+          } = await loadInstanceState(contractInstance, accounts[0]));
+          console.log('Contract state:', { pools, rounds, count, hasSubmitted, lastAverage });
         } catch (contractErr) {
           console.warn('Could not initialize FHEVM or read contract state:', contractErr);
         }
@@ -229,9 +1046,23 @@ function App() {
         ...prev,
         isConnected: true,
         address: accounts[0],
+        instances: instances,
+        adminStatus: adminStatus,
+        committee: committee,
+        pools: pools,
+        selectedPoolId: pools.length > 0 ? pools[0].id : 0,
+        rounds: rounds,
+        selectedRoundId: selectedRoundId,
+        minSubmissions: minSubmissions,
         count: count,
         hasSubmitted: hasSubmitted,
         lastAverage: lastAverage > 0 ? lastAverage : null,
+        lastAverageCount: lastAverage > 0 ? lastAverageCount : null,
+        averageHistory: averageHistory,
+        eligibilityProof: null,
+        nullifier: '',
+        nullifierScope: nullifierScope,
+        anonymousDraft: null,
         isLoading: false,
       }));
       
@@ -257,7 +1088,7 @@ function App() {
         error: errorMessage,
       }));
     }
-  }, []);
+  }, [contractAddress]);
 
   /**
    * Submit encrypted salary
@@ -274,6 +1105,19 @@ function App() {
       return;
     }
 
+    // Bonus and equity are only submitted if either was entered (never in cohort rounds)
+    const withComponents = !selectedRound?.tracksCohorts && (bonus !== '' || equity !== '');
+    const bonusValue = bonus === '' ? 0 : parseInt(bonus, 10);
+    const equityValue = equity === '' ? 0 : parseInt(equity, 10);
+    if (withComponents && (isNaN(bonusValue) || bonusValue < 0 || isNaN(equityValue) || equityValue < 0)) {
+      setState((prev) => ({ ...prev, error: 'Please enter a valid bonus and equity' }));
+      return;
+    }
+    if (gasless && withComponents) {
+      setState((prev) => ({ ...prev, error: 'Gasless submissions carry the salary only, without bonus or equity' }));
+      return;
+    }
+
     setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔐 Encrypting salary with FHE...' }));
 
     try {
@@ -288,18 +1132,28 @@ function App() {
         await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate confirmation
         
         // Store in demo data (persisted to localStorage)
-        demoData.addSalary(salaryValue, state.address || '');
+        demoData.addSalary(
+          salaryValue,
+          state.address || '',
+          inCohortB,
+          withComponents ? bonusValue : 0,
+          withComponents ? equityValue : 0
+        );
         
         setState((prev) => ({
           ...prev,
           count: demoData.getCount(),
+          rounds: withRoundCount(prev.rounds, prev.selectedRoundId, demoData.getCount()),
           hasSubmitted: true,
+          submittedToRound: true,
           isLoading: false,
           txStatus: null,
           error: null,
         }));
         
         setSalary('');
+        setBonus('');
+        setEquity('');
         console.log('Demo: Salary submitted (simulated)', { salary: salaryValue, totalCount: demoData.salaries.length });
       } else {
         // Production mode with real FHE on Sepolia
@@ -309,31 +1163,99 @@ function App() {
         await initializeFhevm(provider!);
         
         console.log('Encrypting salary with real FHE...');
-        const { encryptedSalary, inputProof } = await encryptSalary(
-          salaryValue, 
-          CONFIG.CONTRACT_ADDRESS,
-          state.address!
-        );
-        
-        setState((prev) => ({ ...prev, txStatus: '📤 Submitting encrypted salary to blockchain...' }));
-        const tx = await contract!.addSalary(encryptedSalary, inputProof);
+        let tx;
+        if (selectedRound?.tracksCohorts) {
+          // The cohort flag is encrypted in the same input as the salary
+          const { encryptedSalary, encryptedInCohortB, inputProof } = await encryptSalaryWithCohort(
+            salaryValue,
+            inCohortB,
+            contractAddress,
+            state.address!
+          );
+
+          setState((prev) => ({ ...prev, txStatus: '📤 Submitting encrypted salary to blockchain...' }));
+          tx = await contract!.addSalaryWithCohort(
+            state.selectedPoolId,
+            encryptedSalary,
+            encryptedInCohortB,
+            inputProof,
+            state.eligibilityProof ?? []
+          );
+        } else if (withComponents) {
+          // Salary, bonus and equity share a single input proof
+          const { encryptedSalary, encryptedBonus, encryptedEquity, inputProof } = await encryptCompensation(
+            salaryValue,
+            bonusValue,
+            equityValue,
+            contractAddress,
+            state.address!
+          );
+
+          setState((prev) => ({ ...prev, txStatus: '📤 Submitting encrypted compensation to blockchain...' }));
+          tx = await contract!.addCompensation(
+            state.selectedPoolId,
+            encryptedSalary,
+            encryptedBonus,
+            encryptedEquity,
+            inputProof,
+            state.eligibilityProof ?? []
+          );
+        } else if (gasless) {
+          // The relay contract is the sender SalaryLens sees, so the input is bound to it
+          const { encryptedSalary, inputProof } = await encryptSalary(
+            salaryValue,
+            contractAddress,
+            CONFIG.SALARY_RELAY_ADDRESS
+          );
+
+          setState((prev) => ({ ...prev, txStatus: '✍️ Sign the salary intent in your wallet (no gas needed)...' }));
+          const txHash = await submitSalaryIntent(
+            provider!,
+            state.selectedPoolId,
+            encryptedSalary,
+            inputProof,
+            state.eligibilityProof ?? []
+          );
+          console.log('Salary relayed in transaction', txHash);
+        } else {
+          const { encryptedSalary, inputProof } = await encryptSalary(
+            salaryValue, 
+            contractAddress,
+            state.address!
+          );
+
+          setState((prev) => ({ ...prev, txStatus: '📤 Submitting encrypted salary to blockchain...' }));
+          tx = await contract!.addSalary(
+            state.selectedPoolId,
+            encryptedSalary,
+            inputProof,
+            state.eligibilityProof ?? []
+          );
+        }
         
-        setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for confirmation...' }));
-        await tx.wait();
+        // The relayer only answers once its transaction is confirmed
+        if (tx) {
+          setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for confirmation...' }));
+          await tx.wait();
+        }
         
         // Get updated count from contract
-        const newCount = await contract!.getCount();
+        const newCount = await contract!.getCount(state.selectedPoolId);
         
         setState((prev) => ({
           ...prev,
           count: Number(newCount),
+          rounds: withRoundCount(prev.rounds, prev.selectedRoundId, Number(newCount)),
           hasSubmitted: true,
+          submittedToRound: true,
           isLoading: false,
           txStatus: null,
           error: null,
         }));
         
         setSalary('');
+        setBonus('');
+        setEquity('');
         console.log('Real FHE: Salary submitted successfully!', { count: Number(newCount) });
       }
     } catch (err: unknown) {
@@ -351,147 +1273,1204 @@ function App() {
   };
 
   /**
-   * Request average decryption via Gateway
-   * In demo mode: calculates and reveals simulated average
-   * In production: would use Zama Gateway for decryption
+   * Replace the connected user's encrypted salary in the selected pool
+   * The old value is subtracted and the new one added to the encrypted total on-chain
    */
-  const handleRequestAverage = async () => {
-    if (!DEMO_MODE && !contract) return;
+  const handleUpdateSalary = async () => {
+    if (!salary) return;
+    if (!DEMO_MODE && (!contract || !provider)) return;
 
-    setState((prev) => ({
-      ...prev,
-      isLoading: true,
-      error: null,
-      txStatus: '🔓 Requesting decryption from Gateway...',
-    }));
+    const salaryValue = parseInt(salary, 10);
+    if (isNaN(salaryValue) || salaryValue < 0) {
+      setState((prev) => ({ ...prev, error: 'Please enter a valid salary' }));
+      return;
+    }
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔐 Encrypting new salary with FHE...' }));
 
     try {
       if (DEMO_MODE) {
-        // Demo mode: simulate Gateway decryption
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        setState((prev) => ({ ...prev, txStatus: '🔑 Gateway processing encrypted data...' }));
         await new Promise(resolve => setTimeout(resolve, 1500));
-        
-        setState((prev) => ({ ...prev, txStatus: '📊 Decrypting average...' }));
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Calculate average from demo data (persisted in localStorage)
-        const average = demoData.getAverage();
-        
-        setState((prev) => ({
-          ...prev,
-          lastAverage: average,
-          isLoading: false,
-          txStatus: null,
-        }));
-        
-        console.log('Demo: Average decrypted (simulated)', { average, salaries: demoData.salaries });
-        return;
-      }
+        demoData.updateSalary(salaryValue, state.address || '');
+      } else {
+        await initializeFhevm(provider!);
+        const { encryptedSalary, inputProof } = await encryptSalary(
+          salaryValue,
+          contractAddress,
+          state.address!
+        );
 
-      // Production mode with real FHE decryption
-      // First check if there are any salaries submitted
-      const currentCount = await contract!.getCount();
-      console.log('Current salary count:', Number(currentCount));
-      
-      if (Number(currentCount) === 0) {
-        throw new Error('No salaries have been submitted yet. Submit a salary first.');
-      }
-      
-      console.log('Requesting average decryption...');
-      const tx = await contract!.requestAverageDecryption();
-      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
-      const receipt = await tx.wait();
-      
-      // Get the handle from the event
-      let handle: string | null = null;
-      for (const log of receipt.logs) {
-        try {
-          const parsed = contract!.interface.parseLog({
-            topics: log.topics as string[],
-            data: log.data,
-          });
-          if (parsed?.name === 'AverageRequested') {
-            handle = parsed.args[1]; // handle is second arg
-            break;
-          }
-        } catch {
-          // Not our event
-        }
-      }
-      
-      if (!handle) {
-        throw new Error('Could not find AverageRequested event');
+        setState((prev) => ({ ...prev, txStatus: '📤 Submitting updated salary to blockchain...' }));
+        const tx = await contract!.updateSalary(state.selectedPoolId, encryptedSalary, inputProof);
+
+        setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for confirmation...' }));
+        await tx.wait();
       }
-      
-      // Ensure handle is properly formatted as hex string
-      const handleHex = typeof handle === 'string' ? handle : `0x${(handle as bigint).toString(16).padStart(64, '0')}`;
-      console.log('Got handle:', handle);
-      console.log('Handle as hex:', handleHex);
-      console.log('Handle type:', typeof handle);
-      console.log('Handle length:', handleHex.length);
-      
-      // Check ACL permissions before attempting decryption
-      setState((prev) => ({ ...prev, txStatus: '🔍 Checking ACL permissions...' }));
-      const aclStatus = await checkACLPermission(handleHex, provider!);
-      console.log('ACL Status:', aclStatus);
-      
-      let average: bigint | number;
-      
-      // Try user decryption if user has permission (alternative to public decryption)
-      if (aclStatus.isAllowedForUser) {
-        console.log('User has ACL permission, trying user decryption...');
-        setState((prev) => ({ ...prev, txStatus: '🔑 Requesting user decryption (EIP712 signature required)...' }));
-        
+
+      setState((prev) => ({
+        ...prev,
+        lastAverage: null,
+        lastAverageCount: null,
+        lastRange: null,
+        lastStats: null,
+        myComparison: null,
+        lastPayGap: null,
+        lastPercentiles: NO_PERCENTILES,
+        lastCompensation: NO_COMPENSATION,
+        lastHistogram: null,
+        rangeOutdated: !DEMO_MODE,
+        mySubmission: null,
+        audit: null,
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      setSalary('');
+      console.log('Salary updated successfully!');
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Update error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to update salary: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Remove the connected user's salary from the selected round (data-deletion request)
+   * Also possible once the round is closed; its revealed results then have to be requested again
+   */
+  const handleWithdrawSalary = async () => {
+    if (!DEMO_MODE && !contract) return;
+    const message = canSubmit
+      ? 'Remove your salary from this pool? You can submit again later.'
+      : 'Remove your salary from this closed round? Its results will have to be revealed again.';
+    if (!window.confirm(message)) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🗑️ Withdrawing your salary...' }));
+
+    try {
+      let count: number;
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        demoData.withdrawSalary(state.address || '');
+        count = demoData.getCount();
+      } else {
+        const tx = await contract!.withdrawSalary(state.selectedPoolId, state.selectedRoundId);
+        setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for confirmation...' }));
+        await tx.wait();
+        const [, , , roundCount] = await contract!.getRound(state.selectedPoolId, state.selectedRoundId);
+        count = Number(roundCount);
+      }
+
+      setState((prev) => ({
+        ...prev,
+        count,
+        rounds: withRoundCount(prev.rounds, prev.selectedRoundId, count),
+        // hasSubmitted is about the latest round
+        hasSubmitted: prev.selectedRoundId === prev.rounds.length - 1 ? false : prev.hasSubmitted,
+        submittedToRound: false,
+        lastAverage: null,
+        lastAverageCount: null,
+        lastRange: null,
+        lastStats: null,
+        myComparison: null,
+        lastPayGap: null,
+        lastPercentiles: NO_PERCENTILES,
+        lastCompensation: NO_COMPENSATION,
+        lastHistogram: null,
+        rangeOutdated: !DEMO_MODE && count > 0,
+        mySubmission: null,
+        audit: null,
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log('Salary withdrawn successfully!', { count });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Withdrawal error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to withdraw salary: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Load the connected user's Merkle proof from the eligibility file distributed by the admin
+   * The proof is checked against the selected pool's root before it is used for submission
+   */
+  const handleLoadEligibilityProof = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    const pool = state.pools.find((p) => p.id === state.selectedPoolId);
+    if (!file || !contract || !state.address || !pool) return;
+
+    try {
+      const eligibilityFile = JSON.parse(await file.text()) as EligibilityFile;
+      if (eligibilityFile.root?.toLowerCase() !== pool.eligibilityRoot.toLowerCase()) {
+        throw new Error('This file belongs to a different allowlist than the selected pool');
+      }
+
+      const proof = findEligibilityProof(eligibilityFile, state.address);
+      if (!proof) {
+        throw new Error('The file has no proof for the connected wallet');
+      }
+      if (!(await contract.isEligible(pool.id, state.address, proof))) {
+        throw new Error('The proof was rejected by the contract');
+      }
+
+      setState((prev) => ({ ...prev, eligibilityProof: proof, error: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Eligibility proof error:', error);
+      setState((prev) => ({
+        ...prev,
+        eligibilityProof: null,
+        error: `Failed to load eligibility proof: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Set the user's nullifier for an anonymous pool and check whether a salary is recorded under it
+   */
+  const handleNullifierChange = async (nullifier: string) => {
+    setState((prev) => ({ ...prev, nullifier, hasSubmitted: false }));
+    if (!contract || !isHexString(nullifier, 32)) return;
+
+    try {
+      const hasSubmitted: boolean = await contract.isNullifierUsed(state.selectedPoolId, nullifier);
+      setState((prev) => (prev.nullifier === nullifier ? { ...prev, hasSubmitted } : prev));
+    } catch (err) {
+      console.error('Failed to check nullifier:', err);
+    }
+  };
+
+  /**
+   * Encrypt the salary for an anonymous pool and derive the signal the membership proof must endorse
+   * The signal binds the proof to this exact ciphertext, so a relayer cannot swap it
+   */
+  const handlePrepareAnonymous = async () => {
+    if (!salary || !contract || !provider || !state.address) return;
+
+    const salaryValue = parseInt(salary, 10);
+    if (isNaN(salaryValue) || salaryValue < 0) {
+      setState((prev) => ({ ...prev, error: 'Please enter a valid salary' }));
+      return;
+    }
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔐 Encrypting salary with FHE...' }));
+
+    try {
+      await initializeFhevm(provider);
+      // The input proof is bound to the wallet that sends the transaction
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryValue, contractAddress, state.address);
+      const signal = keccak256(AbiCoder.defaultAbiCoder().encode(['string', 'bytes32'], ['add', encryptedSalary]));
+
+      setState((prev) => ({
+        ...prev,
+        anonymousDraft: { encryptedSalary, inputProof, signal },
+        isLoading: false,
+        txStatus: null,
+      }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Encryption error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to encrypt salary: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Submit the prepared salary to an anonymous pool with the member's membership proof
+   */
+  const handleSubmitAnonymous = async (membershipProof: string) => {
+    const draft = state.anonymousDraft;
+    if (!contract || !draft) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '📤 Submitting encrypted salary to blockchain...' }));
+
+    try {
+      const tx = await contract.addSalaryAnonymous(
+        state.selectedPoolId,
+        draft.encryptedSalary,
+        draft.inputProof,
+        state.nullifier,
+        membershipProof
+      );
+
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for confirmation...' }));
+      await tx.wait();
+
+      const newCount = Number(await contract.getCount(state.selectedPoolId));
+      setState((prev) => ({
+        ...prev,
+        count: newCount,
+        rounds: withRoundCount(prev.rounds, prev.selectedRoundId, newCount),
+        hasSubmitted: true,
+        anonymousDraft: null,
+        isLoading: false,
+        txStatus: null,
+      }));
+      setSalary('');
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Anonymous submission error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to submit salary: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Show the connected user the salary that was recorded for them (private receipt)
+   * Uses user decryption, so the value is only ever revealed to this wallet
+   */
+  const handleViewSubmission = async () => {
+    if (!DEMO_MODE && (!contract || !provider)) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔑 Decrypting your submission (EIP712 signature required)...' }));
+
+    try {
+      let mySubmission: SubmissionReceipt | null;
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        const salary = demoData.getSalary(state.address || '');
+        mySubmission = salary === null ? null : { salary, accepted: null };
+      } else {
+        const handle: string = await contract!.getSubmissionHandle(state.selectedPoolId, state.selectedRoundId, state.address);
+        if (BigInt(handle) === 0n) {
+          throw new Error('You have no salary recorded in this pool');
+        }
+        // Only pools with salary bounds record an accepted flag
+        const acceptedHandle: string = await contract!.getAcceptedHandle(state.selectedPoolId, state.selectedRoundId, state.address);
+        const handles = BigInt(acceptedHandle) === 0n ? [handle] : [handle, acceptedHandle];
+
+        await initializeFhevm(provider!);
         const signer = await provider!.getSigner();
-        const decryptedValue = await userDecrypt(handleHex, CONFIG.CONTRACT_ADDRESS, signer);
-        console.log('User decryption result:', decryptedValue);
+        const decrypted = await userDecryptAll(handles, contractAddress, signer);
+        mySubmission = {
+          salary: Number(decrypted[handle]),
+          accepted: handles.length > 1 ? Boolean(decrypted[acceptedHandle]) : null,
+        };
+      }
+
+      setState((prev) => ({ ...prev, mySubmission, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Receipt decryption error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to decrypt your submission: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Decrypt the selected round's running total, sum of squares, range, band counts and component
+   * totals for an auditor. Requests access first if the round has not changed since the auditor was appointed
+   */
+  const handleAudit = async () => {
+    const pool = state.pools.find((p) => p.id === state.selectedPoolId);
+    if (!contract || !provider || !state.address || !pool) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔍 Loading the round aggregates...' }));
+
+    try {
+      const poolId = state.selectedPoolId;
+      const roundId = state.selectedRoundId;
+      const [, , , count] = await contract.getRound(poolId, roundId);
+      const [total, sumOfSquares, min, max]: string[] = await contract.getAuditHandles(poolId, roundId);
+      // One handle per band, one per percentile edge, then cohort B's total and count, bonus and equity totals
+      const breakdown: string[] = [...(await contract.getAuditBreakdownHandles(poolId, roundId))];
+      const bandHandles = breakdown.slice(0, pool.bandEdges.length + 1);
+      const componentHandles = breakdown.slice(-2);
+      const hasComponents = componentHandles[0] !== ZeroHash;
+      if (Number(count) === 0) {
+        throw new Error('No salaries have been submitted to this round yet');
+      }
+
+      if (!(await checkACLPermission(total, provider)).isAllowedForUser) {
+        setState((prev) => ({ ...prev, txStatus: '🔑 Requesting audit access...' }));
+        const tx = await contract.requestAuditAccess(poolId, roundId);
+        await tx.wait();
+      }
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Decrypting the aggregates (EIP712 signature required)...' }));
+      await initializeFhevm(provider);
+      const signer = await provider.getSigner();
+      // The minimum and maximum share a handle while the round has a single salary
+      const decrypted = await userDecryptAll(
+        [...new Set([total, sumOfSquares, min, max, ...bandHandles, ...(hasComponents ? componentHandles : [])])],
+        contractAddress,
+        signer
+      );
+      const [rangeOutdated] = await contract.getRangeStatus(poolId, roundId);
+
+      const audit: AuditSnapshot = {
+        count: Number(count),
+        total: BigInt(decrypted[total]),
+        sumOfSquares: BigInt(decrypted[sumOfSquares]),
+        min: Number(decrypted[min]),
+        max: Number(decrypted[max]),
+        rangeOutdated,
+        bandCounts: bandHandles.map((handle) => Number(decrypted[handle])),
+        componentTotals: hasComponents
+          ? [BigInt(decrypted[componentHandles[0]]), BigInt(decrypted[componentHandles[1]])]
+          : null,
+      };
+      setState((prev) => ({ ...prev, audit, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Audit decryption error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to decrypt the aggregates: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Privately compare the user's salary in the selected round with the round's average
+   * The contract returns an encrypted position that only the user can decrypt; the average stays hidden
+   */
+  const handleCompareToAverage = async () => {
+    if (!DEMO_MODE && (!contract || !provider)) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🧭 Comparing your salary with the average...' }));
+
+    try {
+      let myComparison: AverageComparison | null;
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        myComparison = demoData.getComparison(state.address || '');
+        if (myComparison === null) {
+          throw new Error('You have no salary recorded in this pool');
+        }
+      } else {
+        const tx = await contract!.compareToAverage(state.selectedPoolId, state.selectedRoundId);
+        setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+        const receipt = await tx.wait();
+
+        const comparedArgs = findEventArgs(contract!, receipt, 'AverageCompared');
+        if (!comparedArgs) {
+          throw new Error('Could not find AverageCompared event');
+        }
+
+        setState((prev) => ({ ...prev, txStatus: '🔑 Decrypting your result (EIP712 signature required)...' }));
+        await initializeFhevm(provider!);
+        const signer = await provider!.getSigner();
+        myComparison = Number(await userDecrypt(comparedArgs.handle, contractAddress, signer)) as AverageComparison;
+      }
+
+      setState((prev) => ({ ...prev, myComparison, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Average comparison error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to compare with the average: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Recompute the encrypted lowest/highest salary after an update or withdrawal
+   * Sends chunked rebuildRange transactions until the contract reports completion
+   */
+  const handleRebuildRange = async () => {
+    if (!contract) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '🔁 Rebuilding encrypted salary range...' }));
+
+    try {
+      let [outdated, processed, total] = await contract.getRangeStatus(state.selectedPoolId, state.selectedRoundId);
+      while (outdated) {
+        setState((prev) => ({
+          ...prev,
+          txStatus: `🔁 Rebuilding encrypted salary range (${processed}/${total})...`,
+        }));
+        const tx = await contract.rebuildRange(state.selectedPoolId, state.selectedRoundId, RANGE_REBUILD_CHUNK);
+        await tx.wait();
+        [outdated, processed, total] = await contract.getRangeStatus(state.selectedPoolId, state.selectedRoundId);
+      }
+
+      setState((prev) => ({ ...prev, rangeOutdated: false, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Range rebuild error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to rebuild salary range: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request average decryption via Gateway
+   * In demo mode: calculates and reveals simulated average
+   * In production: reads the shared average if the current data version is already verified,
+   * otherwise requests (or reuses the pending) handle and verifies its public decryption
+   */
+  const handleRequestAverage = async () => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: '🔓 Requesting decryption from Gateway...',
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        // Demo mode: simulate Gateway decryption
+        await new Promise(resolve => setTimeout(resolve, 1000));
         
-        average = typeof decryptedValue === 'bigint' ? decryptedValue : BigInt(decryptedValue as string);
+        setState((prev) => ({ ...prev, txStatus: '🔑 Gateway processing encrypted data...' }));
+        await new Promise(resolve => setTimeout(resolve, 1500));
         
-      } else if (aclStatus.isPubliclyDecryptable) {
-        console.log('Using public decryption...');
-        setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+        setState((prev) => ({ ...prev, txStatus: '📊 Decrypting average...' }));
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        
+        // Calculate average from demo data (persisted in localStorage)
+        const average = demoData.getAverage();
+        const record: AverageRecord = {
+          roundId: 0,
+          value: average,
+          count: demoData.getCount(),
+          blockNumber: 0,
+          timestamp: Math.floor(Date.now() / 1000),
+        };
         
+        setState((prev) => ({
+          ...prev,
+          lastAverage: average,
+          lastAverageCount: record.count,
+          averageHistory: [...prev.averageHistory, record],
+          isLoading: false,
+          txStatus: null,
+        }));
+        
+        console.log('Demo: Average decrypted (simulated)', { average, salaries: demoData.salaries });
+        return;
+      }
+
+      // Production mode with real FHE decryption
+      // First check if there are any salaries submitted
+      const [, , , currentCount] = await contract!.getRound(state.selectedPoolId, state.selectedRoundId);
+      console.log('Round salary count:', Number(currentCount));
+      
+      if (Number(currentCount) === 0) {
+        throw new Error('No salaries have been submitted yet. Submit a salary first.');
+      }
+      
+      if (Number(currentCount) < state.minSubmissions) {
+        const needed = state.minSubmissions - Number(currentCount);
+        throw new Error(`The average can only be revealed after ${state.minSubmissions} submissions. ${needed} more needed.`);
+      }
+      
+      // Another visitor may already have revealed the average of the current data version
+      const [verifiedAverage, averageCount, averageVersion, averageBlock, dataVersion] =
+        await contract!.getLatestVerifiedAverage(state.selectedPoolId, state.selectedRoundId);
+      if (Number(averageBlock) > 0 && averageVersion === dataVersion) {
+        console.log('Average already verified for data version', Number(dataVersion));
+        setState((prev) => ({
+          ...prev,
+          lastAverage: Number(verifiedAverage),
+          lastAverageCount: Number(averageCount),
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      // Reuse a requested but unverified average instead of sending another request
+      let [handle, sampleSize]: [string, bigint] = await contract!.getPendingHandle(
+        state.selectedPoolId,
+        state.selectedRoundId
+      );
+      if (handle === ZeroHash) {
+        if (state.committee) {
+          throw new Error(
+            `Revealing the average needs the approval of ${state.committee.threshold} committee members. A member can propose it below.`
+          );
+        }
+        console.log('Requesting average decryption...');
+        const tx = await contract!.requestAverageDecryption(state.selectedPoolId, state.selectedRoundId);
+        setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+        const receipt = await tx.wait();
+
+        // Get the handle from the event
+        const requestedArgs = findEventArgs(contract!, receipt, 'AverageRequested');
+        if (!requestedArgs) {
+          throw new Error('Could not find AverageRequested event');
+        }
+        handle = requestedArgs.handle;
+        // The request snapshots the count the average is computed from
+        [, sampleSize] = await contract!.getPendingHandle(state.selectedPoolId, state.selectedRoundId);
+      } else {
+        console.log('Average already requested, verifying the pending handle');
+      }
+
+      // Ensure handle is properly formatted as hex string
+      const handleHex = typeof handle === 'string' ? handle : `0x${(handle as bigint).toString(16).padStart(64, '0')}`;
+      console.log('Got handle:', handleHex);
+
+      // Check ACL permissions before attempting decryption
+      setState((prev) => ({ ...prev, txStatus: '🔍 Checking ACL permissions...' }));
+      const aclStatus = await checkACLPermission(handleHex, provider!);
+      console.log('ACL Status:', aclStatus);
+
+      let average: bigint | number;
+
+      // Prefer public decryption: verifying the proof on-chain shares the average with every visitor
+      if (aclStatus.isPubliclyDecryptable) {
+        console.log('Using public decryption...');
+        setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+
         // Request public decryption via relayer-sdk
         const decryptResult = await publicDecrypt([handleHex]);
         console.log('Decryption result:', decryptResult);
-        
+
         setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
-        
+
         // Submit proof to contract for verification
         const verifyTx = await contract!.verifyDecryption(
+          state.selectedPoolId,
+          state.selectedRoundId,
           decryptResult.abiEncodedClearValues,
           decryptResult.decryptionProof
         );
         await verifyTx.wait();
-        
-        // Get the verified average
-        average = await contract!.getLastAverage(state.address);
-        
+
+        // Get the verified average, show its block and data version in the round and add it to the chart
+        [average, sampleSize] = await contract!.getLatestVerifiedAverage(state.selectedPoolId, state.selectedRoundId);
+        const rounds = await loadRounds(contract!, state.selectedPoolId);
+        const averageHistory = await loadAverageHistory(contract!, state.selectedPoolId);
+        setState((prev) => ({ ...prev, rounds, averageHistory }));
+
+      } else if (aclStatus.isAllowedForUser) {
+        // Fall back to user decryption (the result is only shown to this user)
+        console.log('User has ACL permission, trying user decryption...');
+        setState((prev) => ({ ...prev, txStatus: '🔑 Requesting user decryption (EIP712 signature required)...' }));
+
+        const signer = await provider!.getSigner();
+        const decryptedValue = await userDecrypt(handleHex, contractAddress, signer);
+        console.log('User decryption result:', decryptedValue);
+
+        average = typeof decryptedValue === 'bigint' ? decryptedValue : BigInt(decryptedValue as string);
+
       } else {
         throw new Error(`No decryption permission. ACL: isPubliclyDecryptable=${aclStatus.isPubliclyDecryptable}, isAllowedForUser=${aclStatus.isAllowedForUser}, isAllowedForContract=${aclStatus.isAllowedForContract}`);
       }
-      
+      
+      setState((prev) => ({
+        ...prev,
+        lastAverage: Number(average),
+        lastAverageCount: Number(sampleSize),
+        isLoading: false,
+        txStatus: null,
+      }));
+      
+      console.log('Real FHE: Average decrypted and verified!', { average: Number(average) });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Request error:', error);
+      console.error('Request error message:', error?.message);
+      console.error('Request error stack:', error?.stack);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to request average: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request the lowest and highest salary of the selected pool
+   * Uses the same request → relayer → on-chain proof verification flow as the average
+   */
+  const handleRequestRange = async () => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: '🔓 Requesting salary range decryption...',
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        setState((prev) => ({
+          ...prev,
+          lastRange: demoData.getRange(),
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      const tx = await contract!.requestRangeDecryption(state.selectedPoolId, state.selectedRoundId);
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'RangeRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find RangeRequested event');
+      }
+      const handles: string[] = [requestedArgs.minHandle, requestedArgs.maxHandle];
+      console.log('Got range handles:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyRangeDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const [min, max] = await contract!.getLastRange(state.selectedPoolId, state.selectedRoundId, state.address);
+
+      setState((prev) => ({
+        ...prev,
+        lastRange: { min: Number(min), max: Number(max) },
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log('Real FHE: Salary range decrypted and verified!', { min: Number(min), max: Number(max) });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Range request error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to request salary range: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request the mean and variance of the selected pool, to show the standard deviation
+   * Both values are decrypted together and verified on-chain with a single proof
+   */
+  const handleRequestStats = async () => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: '🔓 Requesting salary spread decryption...',
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        setState((prev) => ({
+          ...prev,
+          lastStats: demoData.getStats(),
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      if (state.committee) {
+        // Only the committee can request the mean and variance, once a proposal is approved
+        const committeeAddress = state.committee.address;
+        let [mean, variance] = await contract!.getLastStats(state.selectedPoolId, state.selectedRoundId, committeeAddress);
+        if (Number(mean) === 0) {
+          setState((prev) => ({ ...prev, txStatus: '🔑 Decrypting and verifying the committee reveal...' }));
+          const committee = new Contract(committeeAddress, REVEAL_COMMITTEE_ABI, await provider!.getSigner());
+          if (!(await verifyCommitteeReveal(committee, state.selectedPoolId, state.selectedRoundId, STATS_REVEAL))) {
+            throw new Error(
+              `Revealing the mean and variance needs the approval of ${state.committee.threshold} committee members. A member can propose it below.`
+            );
+          }
+          [mean, variance] = await contract!.getLastStats(state.selectedPoolId, state.selectedRoundId, committeeAddress);
+        }
+        setState((prev) => ({
+          ...prev,
+          lastStats: { mean: Number(mean), variance: Number(variance) },
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      const tx = await contract!.requestStatsDecryption(state.selectedPoolId, state.selectedRoundId);
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'StatsRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find StatsRequested event');
+      }
+      const handles: string[] = [requestedArgs.meanHandle, requestedArgs.varianceHandle];
+      console.log('Got statistics handles:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyStatsDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const [mean, variance] = await contract!.getLastStats(state.selectedPoolId, state.selectedRoundId, state.address);
+
+      setState((prev) => ({
+        ...prev,
+        lastStats: { mean: Number(mean), variance: Number(variance) },
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log('Real FHE: Salary statistics decrypted and verified!', { mean: Number(mean), variance: Number(variance) });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Statistics request error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to request salary spread: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Reveal the gap between the two cohort averages of the selected round
+   * Sends chunked computePayGap transactions until the gap is final, then decrypts and verifies it
+   */
+  const handleRequestPayGap = async () => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: '⚖️ Computing encrypted pay gap...' }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        setState((prev) => ({
+          ...prev,
+          lastPayGap: demoData.getPayGap(DEMO_MIN_SUBMISSIONS),
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      let [, computed, bitsLeft] = await contract!.getPayGapStatus(state.selectedPoolId, state.selectedRoundId);
+      while (!computed) {
+        setState((prev) => ({
+          ...prev,
+          txStatus: `⚖️ Computing encrypted pay gap (${32 - Number(bitsLeft)}/32 bits)...`,
+        }));
+        const tx = await contract!.computePayGap(state.selectedPoolId, state.selectedRoundId, PAY_GAP_BITS_PER_TX);
+        await tx.wait();
+        [, computed, bitsLeft] = await contract!.getPayGapStatus(state.selectedPoolId, state.selectedRoundId);
+      }
+
+      setState((prev) => ({ ...prev, txStatus: '🔓 Requesting pay gap decryption...' }));
+      const tx = await contract!.requestPayGapDecryption(state.selectedPoolId, state.selectedRoundId);
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'PayGapRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find PayGapRequested event');
+      }
+      const handles: string[] = [...requestedArgs.handles];
+      console.log('Got pay gap handles:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyPayGapDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const [eligible, cohortBHigher, gap] = await contract!.getLastPayGap(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        state.address
+      );
+
+      setState((prev) => ({
+        ...prev,
+        lastPayGap: { eligible, cohortBHigher, gap: Number(gap) },
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log('Real FHE: Pay gap decrypted and verified!', { eligible, cohortBHigher, gap: Number(gap) });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Pay gap request error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to reveal the pay gap: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request one compensation average (bonus, equity or total) of the selected round
+   * Each average is requested and verified on its own
+   */
+  const handleRequestCompensation = async (component: CompensationOption) => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: `🔓 Requesting ${component.label.toLowerCase()} decryption...`,
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        const average = demoData.getCompensationAverage(component.key);
+        setState((prev) => ({
+          ...prev,
+          lastCompensation: { ...prev.lastCompensation, [component.key]: average },
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      if (state.committee) {
+        // Only the committee can request compensation averages, once a proposal is approved
+        const committeeAddress = state.committee.address;
+        const readAverage = async () =>
+          Number(
+            await contract!.getLastCompensation(state.selectedPoolId, state.selectedRoundId, committeeAddress, component.statistic)
+          );
+        let average = await readAverage();
+        if (average === 0) {
+          setState((prev) => ({ ...prev, txStatus: '🔑 Decrypting and verifying the committee reveal...' }));
+          const committee = new Contract(committeeAddress, REVEAL_COMMITTEE_ABI, await provider!.getSigner());
+          if (!(await verifyCommitteeReveal(committee, state.selectedPoolId, state.selectedRoundId, component.reveal))) {
+            throw new Error(
+              `Revealing the ${component.label.toLowerCase()} needs the approval of ${state.committee.threshold} committee members. A member can propose it below.`
+            );
+          }
+          average = await readAverage();
+        }
+        setState((prev) => ({
+          ...prev,
+          lastCompensation: { ...prev.lastCompensation, [component.key]: average },
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      const tx = await contract!.requestCompensationDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        component.statistic
+      );
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'CompensationRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find CompensationRequested event');
+      }
+      const handles: string[] = [requestedArgs.handle];
+      console.log('Got compensation handle:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyCompensationDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        component.statistic,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const average = Number(
+        await contract!.getLastCompensation(state.selectedPoolId, state.selectedRoundId, state.address, component.statistic)
+      );
+
+      setState((prev) => ({
+        ...prev,
+        lastCompensation: { ...prev.lastCompensation, [component.key]: average },
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log(`Real FHE: ${component.label} decrypted and verified!`, { average });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Compensation request error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to reveal the ${component.label.toLowerCase()}: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request one percentile estimate of the selected round, for the box-plot summary
+   * Each percentile is requested and verified on its own
+   */
+  const handleRequestPercentile = async (percentile: PercentileOption) => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: `🔓 Requesting ${percentile.label.toLowerCase()} decryption...`,
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        const estimate = demoData.getPercentile(DEMO_ROUND.percentileEdges, percentile.rank);
+        setState((prev) => ({
+          ...prev,
+          lastPercentiles: { ...prev.lastPercentiles, [percentile.key]: estimate },
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      const tx = await contract!.requestPercentileDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        percentile.statistic
+      );
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'PercentileRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find PercentileRequested event');
+      }
+      const handles: string[] = [requestedArgs.handle];
+      console.log('Got percentile handle:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyPercentileDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        percentile.statistic,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const estimate = Number(
+        await contract!.getLastPercentile(state.selectedPoolId, state.selectedRoundId, state.address, percentile.statistic)
+      );
+
+      setState((prev) => ({
+        ...prev,
+        lastPercentiles: { ...prev.lastPercentiles, [percentile.key]: estimate },
+        isLoading: false,
+        txStatus: null,
+      }));
+
+      console.log(`Real FHE: ${percentile.label} decrypted and verified!`, { estimate });
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Percentile request error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Failed to request ${percentile.label.toLowerCase()}: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Request the band counts of the selected pool
+   * All bands are decrypted together and verified on-chain with a single proof
+   */
+  const handleRequestHistogram = async () => {
+    if (!DEMO_MODE && !contract) return;
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      txStatus: '🔓 Requesting salary distribution decryption...',
+    }));
+
+    try {
+      if (DEMO_MODE) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        setState((prev) => ({
+          ...prev,
+          lastHistogram: demoData.getHistogram(DEMO_POOL.bandEdges),
+          isLoading: false,
+          txStatus: null,
+        }));
+        return;
+      }
+
+      const tx = await contract!.requestHistogramDecryption(state.selectedPoolId, state.selectedRoundId);
+      setState((prev) => ({ ...prev, txStatus: '⏳ Waiting for transaction confirmation...' }));
+      const receipt = await tx.wait();
+
+      const requestedArgs = findEventArgs(contract!, receipt, 'HistogramRequested');
+      if (!requestedArgs) {
+        throw new Error('Could not find HistogramRequested event');
+      }
+      const handles: string[] = [...requestedArgs.handles];
+      console.log('Got histogram handles:', handles);
+
+      setState((prev) => ({ ...prev, txStatus: '🔑 Requesting public decryption from Zama Relayer...' }));
+      const decryptResult = await publicDecrypt(handles);
+
+      setState((prev) => ({ ...prev, txStatus: '✅ Verifying decryption proof on-chain...' }));
+      const verifyTx = await contract!.verifyHistogramDecryption(
+        state.selectedPoolId,
+        state.selectedRoundId,
+        decryptResult.abiEncodedClearValues,
+        decryptResult.decryptionProof
+      );
+      await verifyTx.wait();
+
+      const counts: bigint[] = await contract!.getLastHistogram(state.selectedPoolId, state.selectedRoundId, state.address);
+
       setState((prev) => ({
         ...prev,
-        lastAverage: Number(average),
+        lastHistogram: counts.map(Number),
         isLoading: false,
         txStatus: null,
       }));
-      
-      console.log('Real FHE: Average decrypted and verified!', { average: Number(average) });
+
+      console.log('Real FHE: Histogram decrypted and verified!', { counts: counts.map(Number) });
     } catch (err: unknown) {
       const error = err as Error;
-      console.error('Request error:', error);
-      console.error('Request error message:', error?.message);
-      console.error('Request error stack:', error?.stack);
+      console.error('Histogram request error:', error);
       setState((prev) => ({
         ...prev,
         isLoading: false,
         txStatus: null,
-        error: `Failed to request average: ${error?.message || 'Unknown error'}`,
+        error: `Failed to request salary distribution: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Send an access-control transaction (pause, roles, ownership) and reload the admin status
+   * @param status - Progress message shown while the transaction is pending
+   * @param send - Sends the transaction with the connected contract
+   */
+  const handleAdminTransaction = async (
+    status: string,
+    send: (contract: Contract) => Promise<{ wait: () => Promise<ContractTransactionReceipt | null> }>
+  ) => {
+    if (!contract || !state.address) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: status }));
+
+    try {
+      const tx = await send(contract);
+      await tx.wait();
+      const adminStatus = await loadAdminStatus(contract, state.address);
+      setState((prev) => ({ ...prev, adminStatus, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Admin transaction error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Admin action failed: ${error?.message || 'Unknown error'}`,
+      }));
+    }
+  };
+
+  /**
+   * Send a reveal committee transaction (propose or approve) and reload the committee and rounds
+   * The approval that reaches the threshold requests the average, which can then be revealed
+   * @param status - Progress message shown while the transaction is pending
+   * @param send - Sends the transaction with the committee contract, connected to the user's wallet
+   */
+  const handleCommitteeTransaction = async (
+    status: string,
+    send: (committee: Contract) => Promise<{ wait: () => Promise<ContractTransactionReceipt | null> }>
+  ) => {
+    if (!contract || !provider || !state.address || !state.committee) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null, txStatus: status }));
+
+    try {
+      const committeeContract = new Contract(state.committee.address, REVEAL_COMMITTEE_ABI, await provider.getSigner());
+      const tx = await send(committeeContract);
+      await tx.wait();
+      const committee = await loadCommitteeStatus(contract, state.address);
+      setState((prev) => ({ ...prev, committee, isLoading: false, txStatus: null }));
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Committee transaction error:', error);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        txStatus: null,
+        error: `Committee action failed: ${error?.message || 'Unknown error'}`,
       }));
     }
   };
@@ -500,23 +2479,237 @@ function App() {
    * Refresh contract state
    */
   const refreshState = useCallback(async () => {
-    if (!contract || !state.address) return;
+    const pool = state.pools.find((p) => p.id === state.selectedPoolId);
+    if (!contract || !state.address || !pool) return;
 
     try {
-      const count = await contract.getCount();
-      const hasSubmitted = await contract.hasUserSubmitted(state.address);
-      const lastAverage = await contract.getLastAverage(state.address);
+      const poolId = pool.id;
+      const rounds = await loadRounds(contract, poolId);
+      const selectedRound = rounds.find((round) => round.id === state.selectedRoundId);
+      if (!selectedRound) return;
+      const { hasSubmitted, nullifierScope } = await loadSubmissionStatus(
+        contract,
+        pool,
+        rounds.length,
+        state.address,
+        state.nullifier
+      );
+      const results = await loadRoundResults(contract, poolId, selectedRound.id, state.address);
+      const averageHistory = await loadAverageHistory(contract, poolId);
+      const adminStatus = await loadAdminStatus(contract, state.address);
+      const committee = await loadCommitteeStatus(contract, state.address);
 
       setState((prev) => ({
         ...prev,
-        count: Number(count),
+        adminStatus,
+        committee,
+        rounds,
+        averageHistory,
+        count: selectedRound.count,
         hasSubmitted: hasSubmitted,
-        lastAverage: Number(lastAverage) > 0 ? Number(lastAverage) : prev.lastAverage,
+        nullifierScope: nullifierScope,
+        lastAverage: results.lastAverage ?? prev.lastAverage,
+        lastAverageCount: results.lastAverage !== null ? results.lastAverageCount : prev.lastAverageCount,
+        lastRange: results.lastRange ?? prev.lastRange,
+        lastStats: results.lastStats ?? prev.lastStats,
+        lastPercentiles: {
+          p25: results.lastPercentiles.p25 ?? prev.lastPercentiles.p25,
+          median: results.lastPercentiles.median ?? prev.lastPercentiles.median,
+          p75: results.lastPercentiles.p75 ?? prev.lastPercentiles.p75,
+        },
+        rangeOutdated: results.rangeOutdated,
+        submittedToRound: results.submittedToRound,
       }));
     } catch (err) {
       console.error('Refresh error:', err);
     }
-  }, [contract, state.address]);
+  }, [contract, state.address, state.pools, state.selectedPoolId, state.selectedRoundId, state.nullifier]);
+
+  /**
+   * Switch to another SalaryLens instance and reload its pools, remembering the choice
+   */
+  const handleSelectInstance = async (address: string) => {
+    if (DEMO_MODE || !provider || !state.address) return;
+
+    localStorage.setItem(INSTANCE_STORAGE_KEY, address);
+    setContractAddress(address);
+    // The relay only serves the configured deployment
+    setGasless(false);
+    setState((prev) => ({
+      ...prev,
+      adminStatus: null,
+      committee: null,
+      pools: [],
+      selectedPoolId: 0,
+      rounds: [],
+      selectedRoundId: 0,
+      count: 0,
+      hasSubmitted: false,
+      lastAverage: null,
+      lastAverageCount: null,
+      lastRange: null,
+      lastStats: null,
+      myComparison: null,
+      lastPayGap: null,
+      lastPercentiles: NO_PERCENTILES,
+      lastCompensation: NO_COMPENSATION,
+      lastHistogram: null,
+      averageHistory: [],
+      rangeOutdated: false,
+      submittedToRound: false,
+      mySubmission: null,
+      audit: null,
+      eligibilityProof: null,
+      nullifier: '',
+      nullifierScope: null,
+      anonymousDraft: null,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const contractInstance = new Contract(address, SALARY_LENS_ABI, await provider.getSigner());
+      setContract(contractInstance);
+      const { pools, lastAverage, lastAverageCount, ...instanceState } = await loadInstanceState(
+        contractInstance,
+        state.address
+      );
+
+      setState((prev) => ({
+        ...prev,
+        ...instanceState,
+        pools,
+        selectedPoolId: pools.length > 0 ? pools[0].id : 0,
+        lastAverage: lastAverage > 0 ? lastAverage : null,
+        lastAverageCount: lastAverage > 0 ? lastAverageCount : null,
+        isLoading: false,
+      }));
+    } catch (err) {
+      console.error('Instance switch error:', err);
+      setState((prev) => ({ ...prev, isLoading: false, error: 'Could not read the selected organisation\'s contract' }));
+    }
+  };
+
+  /**
+   * Switch to another pool and reload its state, selecting its latest round
+   */
+  const handleSelectPool = async (poolId: number) => {
+    setState((prev) => ({
+      ...prev,
+      selectedPoolId: poolId,
+      // Demo mode has a single pool with a single round, so there is nothing to reload
+      rounds: DEMO_MODE ? prev.rounds : [],
+      selectedRoundId: 0,
+      count: DEMO_MODE ? prev.count : 0,
+      lastAverage: null,
+      lastAverageCount: null,
+      lastRange: null,
+      lastStats: null,
+      myComparison: null,
+      lastPayGap: null,
+      lastPercentiles: NO_PERCENTILES,
+      lastCompensation: NO_COMPENSATION,
+      lastHistogram: null,
+      // Demo mode keeps the history of its single pool
+      averageHistory: DEMO_MODE ? prev.averageHistory : [],
+      rangeOutdated: false,
+      submittedToRound: false,
+      mySubmission: null,
+      audit: null,
+      eligibilityProof: null,
+      nullifier: '',
+      nullifierScope: null,
+      anonymousDraft: null,
+      error: null,
+    }));
+
+    const pool = state.pools.find((p) => p.id === poolId);
+    if (DEMO_MODE || !contract || !state.address || !pool) return;
+
+    try {
+      const averageHistory = await loadAverageHistory(contract, poolId);
+      setState((prev) => ({ ...prev, averageHistory }));
+
+      const rounds = await loadRounds(contract, poolId);
+      if (rounds.length === 0) return;
+      const roundId = rounds.length - 1;
+      const { hasSubmitted, nullifierScope } = await loadSubmissionStatus(
+        contract,
+        pool,
+        rounds.length,
+        state.address,
+        ''
+      );
+      const results = await loadRoundResults(contract, poolId, roundId, state.address);
+
+      setState((prev) => ({
+        ...prev,
+        rounds,
+        selectedRoundId: roundId,
+        count: rounds[roundId].count,
+        hasSubmitted: hasSubmitted,
+        nullifierScope: nullifierScope,
+        ...results,
+      }));
+    } catch (err) {
+      console.error('Pool switch error:', err);
+    }
+  };
+
+  /**
+   * Switch to another round of the selected pool and load its verified results
+   */
+  const handleSelectRound = async (roundId: number) => {
+    const round = state.rounds.find((r) => r.id === roundId);
+    setState((prev) => ({
+      ...prev,
+      selectedRoundId: roundId,
+      count: round ? round.count : 0,
+      lastAverage: null,
+      lastAverageCount: null,
+      lastRange: null,
+      lastStats: null,
+      myComparison: null,
+      lastPayGap: null,
+      lastPercentiles: NO_PERCENTILES,
+      lastCompensation: NO_COMPENSATION,
+      lastHistogram: null,
+      rangeOutdated: false,
+      submittedToRound: false,
+      error: null,
+    }));
+
+    if (DEMO_MODE || !contract || !state.address) return;
+
+    try {
+      const results = await loadRoundResults(contract, state.selectedPoolId, roundId, state.address);
+      setState((prev) => ({ ...prev, ...results }));
+    } catch (err) {
+      console.error('Round switch error:', err);
+    }
+  };
+
+  const selectedPool = state.pools.find((pool) => pool.id === state.selectedPoolId);
+  const selectedRound = state.rounds.find((round) => round.id === state.selectedRoundId);
+  // Submissions always go to the latest round, and only while it is open
+  const isCurrentRound = state.rounds.length > 0 && state.selectedRoundId === state.rounds.length - 1;
+  const isRoundOpen =
+    DEMO_MODE ||
+    (selectedRound !== undefined && !selectedRound.closed && Date.now() / 1000 >= selectedRound.startTime);
+  const canSubmit = isCurrentRound && isRoundOpen;
+  // Results are only revealed once a round is frozen
+  const canReveal = DEMO_MODE || (selectedRound?.closed ?? false);
+  const submissionsNeeded = Math.max(state.minSubmissions - state.count, 0);
+  // Pools with an allowlist need the user's Merkle proof before they can submit
+  const needsEligibilityProof =
+    selectedPool !== undefined && selectedPool.eligibilityRoot !== ZeroHash && state.eligibilityProof === null;
+  const percentileEdges = selectedRound?.percentileEdges ?? [];
+  const hasPercentiles = Object.values(state.lastPercentiles).some((estimate) => estimate !== null);
+  // Fall back to the round's shared verified average when this user has not decrypted it themselves
+  const displayedAverage = state.lastAverage || selectedRound?.verifiedAverage || null;
+  const displayedSampleSize = state.lastAverage ? state.lastAverageCount : selectedRound?.averageCount ?? null;
+  // A newer submission or withdrawal is not reflected in the displayed average yet
+  const averageIsStale = displayedAverage !== null && displayedSampleSize !== null && displayedSampleSize !== state.count;
 
   // Auto-refresh every 10 seconds when connected
   useEffect(() => {
@@ -608,6 +2801,73 @@ function App() {
                     </div>
                   </div>
 
+                  {/* Instance Selector */}
+                  {!DEMO_MODE && state.instances.length > 1 && (
+                    <div className="mb-6">
+                      <InstancePicker
+                        instances={state.instances}
+                        selectedAddress={contractAddress}
+                        onSelect={handleSelectInstance}
+                        disabled={state.isLoading}
+                      />
+                    </div>
+                  )}
+
+                  {/* Pause Notice */}
+                  {state.adminStatus?.paused && (
+                    <div className="mb-6 bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-3">
+                      <p className="text-yellow-300 text-center text-sm">
+                        ⏸️ This survey is paused: new salaries and reveal requests are on hold
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Pool Selector */}
+                  {state.pools.length > 0 ? (
+                    <div className="mb-6">
+                      <label className="block text-blue-200 text-sm mb-2">Salary Pool</label>
+                      <select
+                        value={state.selectedPoolId}
+                        onChange={(e) => handleSelectPool(Number(e.target.value))}
+                        disabled={state.isLoading}
+                        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        {state.pools.map((pool) => (
+                          <option key={pool.id} value={pool.id} className="text-black">
+                            {pool.label} ({pool.currency}, {pool.period})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-xl p-4 mb-6 text-center">
+                      <p className="text-yellow-300 text-sm">
+                        No salary pools have been created yet. Ask the contract owner to create one.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Round Selector */}
+                  {!DEMO_MODE && selectedPool && (
+                    state.rounds.length > 0 ? (
+                      <div className="mb-6">
+                        <RoundList
+                          rounds={state.rounds}
+                          selectedRoundId={state.selectedRoundId}
+                          onSelect={handleSelectRound}
+                          formatAmount={(amount) => formatSalary(amount, selectedPool.currency)}
+                          disabled={state.isLoading}
+                        />
+                      </div>
+                    ) : (
+                      <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-xl p-4 mb-6 text-center">
+                        <p className="text-yellow-300 text-sm">
+                          No survey round has been opened for this pool yet.
+                        </p>
+                      </div>
+                    )
+                  )}
+
                   {/* Stats */}
                   <div className="grid grid-cols-2 gap-4 mb-8">
                     <div className="bg-white/5 rounded-xl p-4 text-center">
@@ -616,12 +2876,151 @@ function App() {
                     </div>
                     <div className="bg-white/5 rounded-xl p-4 text-center">
                       <p className="text-4xl font-bold text-white mb-1">
-                        {state.lastAverage ? `$${state.lastAverage.toLocaleString()}` : '???'}
+                        {displayedAverage ? formatSalary(displayedAverage, selectedPool?.currency ?? 'USD') : '???'}
                       </p>
                       <p className="text-blue-300 text-sm">Average Salary</p>
+                      {displayedAverage && displayedSampleSize !== null && (
+                        <p className="text-blue-300 text-xs mt-1">
+                          Based on {displayedSampleSize} {displayedSampleSize === 1 ? 'salary' : 'salaries'}
+                        </p>
+                      )}
+                      {selectedRound && selectedRound.averageBlock > 0 && (
+                        <p className="text-blue-300 text-xs mt-1">
+                          Verified at block {selectedRound.averageBlock} · data version {selectedRound.averageVersion}
+                          {selectedRound.averageVersion !== selectedRound.dataVersion && ' (outdated)'}
+                        </p>
+                      )}
+                      {averageIsStale && (
+                        <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-2 mt-2">
+                          <p className="text-yellow-300 text-xs">
+                            The round now has {state.count} {state.count === 1 ? 'salary' : 'salaries'}, so this average may be out of date.
+                          </p>
+                          {canReveal && submissionsNeeded === 0 && (
+                            <button
+                              onClick={handleRequestAverage}
+                              disabled={state.isLoading}
+                              className="text-yellow-200 text-xs underline mt-1 disabled:opacity-50"
+                            >
+                              Refresh
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {submissionsNeeded > 0 && (
+                        <p className="text-yellow-300 text-xs mt-1">
+                          {submissionsNeeded} more {submissionsNeeded === 1 ? 'submission' : 'submissions'} needed to reveal
+                        </p>
+                      )}
                     </div>
+                    {state.lastRange && (
+                      <>
+                        <div className="bg-white/5 rounded-xl p-4 text-center">
+                          <p className="text-2xl font-bold text-white mb-1">
+                            {formatSalary(state.lastRange.min, selectedPool?.currency ?? 'USD')}
+                          </p>
+                          <p className="text-blue-300 text-sm">Lowest Salary</p>
+                        </div>
+                        <div className="bg-white/5 rounded-xl p-4 text-center">
+                          <p className="text-2xl font-bold text-white mb-1">
+                            {formatSalary(state.lastRange.max, selectedPool?.currency ?? 'USD')}
+                          </p>
+                          <p className="text-blue-300 text-sm">Highest Salary</p>
+                        </div>
+                      </>
+                    )}
+                    {state.lastStats && (
+                      <div className="bg-white/5 rounded-xl p-4 text-center col-span-2">
+                        <p className="text-2xl font-bold text-white mb-1">
+                          ± {formatSalary(Math.round(Math.sqrt(state.lastStats.variance)), selectedPool?.currency ?? 'USD')}
+                        </p>
+                        <p className="text-blue-300 text-sm">Standard Deviation</p>
+                      </div>
+                    )}
+                    {COMPENSATION_AVERAGES.filter(({ key }) => state.lastCompensation[key] !== null).map(
+                      ({ key, label }) => (
+                        <div
+                          key={key}
+                          className={`bg-white/5 rounded-xl p-4 text-center ${key === 'total' ? 'col-span-2' : ''}`}
+                        >
+                          <p className="text-2xl font-bold text-white mb-1">
+                            {formatSalary(state.lastCompensation[key]!, selectedPool?.currency ?? 'USD')}
+                          </p>
+                          <p className="text-blue-300 text-sm">{label}</p>
+                        </div>
+                      )
+                    )}
                   </div>
 
+                  {/* Average comparison (private to the user) */}
+                  {state.myComparison !== null && (
+                    <div className="bg-white/5 rounded-xl p-4 mb-8 text-center">
+                      <p className="text-xl font-bold text-white mb-1">{COMPARISON_LABELS[state.myComparison]}</p>
+                      <p className="text-blue-300 text-sm">Your salary (only visible to you)</p>
+                    </div>
+                  )}
+
+                  {/* Pay gap between the pool's cohorts */}
+                  {state.lastPayGap && selectedPool?.cohortLabels && (
+                    <div className="bg-white/5 rounded-xl p-4 mb-8 text-center">
+                      {!state.lastPayGap.eligible ? (
+                        <p className="text-yellow-300 text-sm">
+                          For privacy, the pay gap is only revealed once both groups have {state.minSubmissions} salaries
+                        </p>
+                      ) : state.lastPayGap.gap === 0 ? (
+                        <p className="text-xl font-bold text-white">
+                          {selectedPool.cohortLabels[0]} and {selectedPool.cohortLabels[1]} earn the same on average
+                        </p>
+                      ) : (
+                        <>
+                          <p className="text-2xl font-bold text-white mb-1">
+                            {formatSalary(state.lastPayGap.gap, selectedPool.currency)}
+                            {displayedAverage
+                              ? ` (${((state.lastPayGap.gap / displayedAverage) * 100).toFixed(1)}% of the average)`
+                              : ''}
+                          </p>
+                          <p className="text-blue-300 text-sm">
+                            {selectedPool.cohortLabels[state.lastPayGap.cohortBHigher ? 1 : 0]} earn more on average
+                            than {selectedPool.cohortLabels[state.lastPayGap.cohortBHigher ? 0 : 1]}
+                          </p>
+                        </>
+                      )}
+                      <p className="text-blue-300 text-xs mt-2">Pay gap (the group averages stay encrypted)</p>
+                    </div>
+                  )}
+
+                  {/* Quartiles */}
+                  {hasPercentiles && percentileEdges.length > 0 && selectedPool && (
+                    <div className="mb-8">
+                      <BoxPlot
+                        percentileEdges={percentileEdges}
+                        percentiles={state.lastPercentiles}
+                        range={state.lastRange}
+                        formatAmount={(amount) => formatSalary(amount, selectedPool.currency)}
+                      />
+                    </div>
+                  )}
+
+                  {/* Histogram */}
+                  {state.lastHistogram && selectedPool && (
+                    <div className="mb-8">
+                      <HistogramChart
+                        bandEdges={selectedPool.bandEdges}
+                        counts={state.lastHistogram}
+                        formatEdge={(edge) => formatSalary(edge, selectedPool.currency)}
+                      />
+                    </div>
+                  )}
+
+                  {/* Average History */}
+                  {state.averageHistory.length > 0 && selectedPool && (
+                    <div className="mb-8">
+                      <AverageHistoryChart
+                        records={state.averageHistory}
+                        formatAmount={(amount) => formatSalary(amount, selectedPool.currency)}
+                      />
+                    </div>
+                  )}
+
                   {/* Encrypted Total Indicator */}
                   <div className="bg-gradient-to-r from-purple-500/20 to-blue-500/20 rounded-xl p-4 mb-6 border border-purple-500/30">
                     <div className="flex items-center gap-3">
@@ -653,11 +3052,129 @@ function App() {
                 {/* Actions */}
                 <div className="space-y-6">
                   {/* Submit Salary */}
-                  {!state.hasSubmitted ? (
+                  {!canSubmit ? (
+                    <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+                      <p className="text-blue-200 text-center text-sm">
+                        {!isCurrentRound
+                          ? 'This is a past round. Select the latest round to submit your salary.'
+                          : selectedRound && !selectedRound.closed
+                            ? `This round opens on ${new Date(selectedRound.startTime * 1000).toLocaleString()}.`
+                            : 'This round is closed. Submissions open again with the next round.'}
+                      </p>
+                      {state.submittedToRound && (
+                        <div className="mt-3 flex items-center justify-between gap-3">
+                          <p className="text-blue-200 text-sm">Your salary is part of this round.</p>
+                          <button
+                            onClick={handleWithdrawSalary}
+                            disabled={state.isLoading}
+                            className="px-4 py-2 bg-red-500 hover:bg-red-600 disabled:bg-red-500/50 text-white font-semibold rounded-xl transition-all"
+                          >
+                            Withdraw
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ) : selectedPool?.anonymous ? (
+                    <AnonymousSubmission
+                      nullifierScope={state.nullifierScope}
+                      nullifier={state.nullifier}
+                      onNullifierChange={handleNullifierChange}
+                      hasSubmitted={state.hasSubmitted}
+                      salary={salary}
+                      onSalaryChange={setSalary}
+                      signal={state.anonymousDraft?.signal ?? null}
+                      onPrepare={handlePrepareAnonymous}
+                      onSubmit={handleSubmitAnonymous}
+                      onCancel={() => setState((prev) => ({ ...prev, anonymousDraft: null }))}
+                      disabled={state.isLoading}
+                    />
+                  ) : !state.hasSubmitted ? (
                     <div>
+                      {needsEligibilityProof ? (
+                        <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-xl p-4 mb-4">
+                          <p className="text-yellow-300 text-sm mb-3">
+                            This pool only accepts salaries from eligible employees. Load the proof file you received
+                            from your HR admin to submit.
+                          </p>
+                          <input
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleLoadEligibilityProof}
+                            disabled={state.isLoading}
+                            className="block w-full text-sm text-blue-200 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-white/10 file:text-white hover:file:bg-white/20"
+                          />
+                        </div>
+                      ) : state.eligibilityProof !== null && (
+                        <p className="text-green-300 text-sm mb-3">✓ Eligibility proof loaded</p>
+                      )}
                       <label className="block text-blue-200 text-sm mb-2">
                         Your Salary (will be encrypted)
                       </label>
+                      {selectedPool?.hasSalaryBounds && (
+                        <p className="text-blue-300 text-xs mb-2">
+                          This pool only accepts salaries within a confidential range. Values outside it are counted at
+                          the nearest bound; your receipt tells you whether yours was.
+                        </p>
+                      )}
+                      {selectedRound?.tracksCohorts && selectedPool?.cohortLabels && (
+                        <div className="mb-3">
+                          <p className="text-blue-300 text-xs mb-2">
+                            This pool measures the pay gap between two groups. Your group is encrypted together with your
+                            salary and never revealed.
+                          </p>
+                          <div className="grid grid-cols-2 gap-2">
+                            {selectedPool.cohortLabels.map((label, index) => (
+                              <button
+                                key={index}
+                                onClick={() => setInCohortB(index === 1)}
+                                disabled={state.isLoading}
+                                className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
+                                  inCohortB === (index === 1) ? 'bg-white text-purple-900' : 'bg-white/10 text-white hover:bg-white/20'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {!selectedRound?.tracksCohorts && (
+                        <div className="grid grid-cols-2 gap-3 mb-3">
+                          {[
+                            { label: 'Bonus (optional)', value: bonus, onChange: setBonus },
+                            { label: 'Equity (optional)', value: equity, onChange: setEquity },
+                          ].map(({ label, value, onChange }) => (
+                            <div key={label}>
+                              <label className="block text-blue-300 text-xs mb-1">{label}</label>
+                              <input
+                                type="number"
+                                value={value}
+                                onChange={(e) => onChange(e.target.value)}
+                                placeholder="0"
+                                disabled={state.isLoading}
+                                className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {!DEMO_MODE && isGaslessAvailable(contractAddress) && !selectedRound?.tracksCohorts && (
+                        <label className="flex items-start gap-2 text-blue-200 text-sm mb-3">
+                          <input
+                            type="checkbox"
+                            checked={gasless}
+                            onChange={(e) => setGasless(e.target.checked)}
+                            disabled={state.isLoading}
+                            className="mt-1"
+                          />
+                          <span>
+                            Submit without gas: sign the encrypted salary and let the relayer send it
+                            <span className="block text-blue-300 text-xs">
+                              Salary only, and without a private receipt of the recorded value
+                            </span>
+                          </span>
+                        </label>
+                      )}
                       <div className="flex gap-3">
                         <div className="relative flex-1">
                           <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400">
@@ -674,7 +3191,7 @@ function App() {
                         </div>
                         <button
                           onClick={handleSubmitSalary}
-                          disabled={state.isLoading || !salary}
+                          disabled={state.isLoading || !salary || !selectedPool || needsEligibilityProof}
                           className="px-6 py-3 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white font-semibold rounded-xl transition-all"
                         >
                           {state.isLoading ? 'Submitting...' : 'Submit'}
@@ -682,10 +3199,57 @@ function App() {
                       </div>
                     </div>
                   ) : (
-                    <div className="bg-green-500/20 border border-green-500/30 rounded-xl p-4 text-center">
-                      <p className="text-green-300">
-                        ✓ You have already submitted your salary
+                    <div className="bg-green-500/20 border border-green-500/30 rounded-xl p-4">
+                      <p className="text-green-300 text-center mb-3">
+                        ✓ You have already submitted your salary to this round
                       </p>
+                      <div className="text-center mb-3">
+                        {state.mySubmission !== null ? (
+                          <>
+                            <p className="text-white">
+                              Recorded salary (only visible to you):{' '}
+                              <strong>{formatSalary(state.mySubmission.salary, selectedPool?.currency ?? 'USD')}</strong>
+                            </p>
+                            {state.mySubmission.accepted === false && (
+                              <p className="text-yellow-300 text-sm mt-1">
+                                Your salary was outside the range this pool accepts and was counted at the nearest bound
+                              </p>
+                            )}
+                          </>
+                        ) : (
+                          <button
+                            onClick={handleViewSubmission}
+                            disabled={state.isLoading}
+                            className="text-green-200 hover:text-white text-sm underline disabled:opacity-50"
+                          >
+                            🧾 View my submission
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex gap-3">
+                        <input
+                          type="number"
+                          value={salary}
+                          onChange={(e) => setSalary(e.target.value)}
+                          placeholder="New salary"
+                          disabled={state.isLoading}
+                          className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                        />
+                        <button
+                          onClick={handleUpdateSalary}
+                          disabled={state.isLoading || !salary}
+                          className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white font-semibold rounded-xl transition-all"
+                        >
+                          Update
+                        </button>
+                        <button
+                          onClick={handleWithdrawSalary}
+                          disabled={state.isLoading}
+                          className="px-4 py-2 bg-red-500 hover:bg-red-600 disabled:bg-red-500/50 text-white font-semibold rounded-xl transition-all"
+                        >
+                          Withdraw
+                        </button>
+                      </div>
                     </div>
                   )}
 
@@ -693,19 +3257,160 @@ function App() {
                   <div>
                     <button
                       onClick={handleRequestAverage}
-                      disabled={state.isLoading || state.count === 0}
+                      disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
                       className="w-full px-6 py-4 bg-purple-500 hover:bg-purple-600 disabled:bg-purple-500/50 text-white font-semibold rounded-xl transition-all"
                     >
                       {state.isLoading ? 'Processing...' : '🔓 Reveal Average Salary'}
                     </button>
-                    {state.count === 0 && (
+                    {!DEMO_MODE && state.committee && selectedRound && (
+                      <div className="mt-3">
+                        <RevealCommitteePanel
+                          committee={state.committee}
+                          roundLabel={`Round ${selectedRound.id + 1}`}
+                          proposalLabel={(proposal) =>
+                            `${state.pools.find((pool) => pool.id === proposal.poolId)?.label ?? `Pool ${proposal.poolId}`} · Round ${proposal.roundId + 1}`
+                          }
+                          canPropose={canReveal && state.count > 0 && submissionsNeeded === 0}
+                          onPropose={(reveal) =>
+                            handleCommitteeTransaction('🗳️ Proposing the reveal...', (c) =>
+                              c.propose(state.selectedPoolId, state.selectedRoundId, reveal)
+                            )
+                          }
+                          onApprove={(proposalId) =>
+                            handleCommitteeTransaction('🗳️ Approving the reveal...', (c) => c.approve(proposalId))
+                          }
+                          disabled={state.isLoading}
+                        />
+                      </div>
+                    )}
+                    {state.rangeOutdated ? (
+                      <button
+                        onClick={handleRebuildRange}
+                        disabled={state.isLoading}
+                        className="w-full mt-3 px-6 py-3 bg-indigo-500 hover:bg-indigo-600 disabled:bg-indigo-500/50 text-white font-semibold rounded-xl transition-all"
+                      >
+                        {state.isLoading ? 'Processing...' : '🔁 Rebuild Lowest & Highest Salary'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleRequestRange}
+                        disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                        className="w-full mt-3 px-6 py-3 bg-indigo-500 hover:bg-indigo-600 disabled:bg-indigo-500/50 text-white font-semibold rounded-xl transition-all"
+                      >
+                        {state.isLoading ? 'Processing...' : '📏 Reveal Lowest & Highest Salary'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleRequestStats}
+                      disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                      className="w-full mt-3 px-6 py-3 bg-teal-500 hover:bg-teal-600 disabled:bg-teal-500/50 text-white font-semibold rounded-xl transition-all"
+                    >
+                      {state.isLoading ? 'Processing...' : '📐 Reveal Salary Spread'}
+                    </button>
+                    {percentileEdges.length > 0 && (
+                      <div className="grid grid-cols-3 gap-3 mt-3">
+                        {PERCENTILES.map((percentile) => (
+                          <button
+                            key={percentile.key}
+                            onClick={() => handleRequestPercentile(percentile)}
+                            disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                            className="px-3 py-3 bg-cyan-500 hover:bg-cyan-600 disabled:bg-cyan-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+                          >
+                            📦 {percentile.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-3 gap-3 mt-3">
+                      {COMPENSATION_AVERAGES.map((component) => (
+                        <button
+                          key={component.key}
+                          onClick={() => handleRequestCompensation(component)}
+                          disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                          className="px-3 py-3 bg-amber-500 hover:bg-amber-600 disabled:bg-amber-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+                        >
+                          💼 {component.label}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={handleRequestHistogram}
+                      disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                      className="w-full mt-3 px-6 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 text-white font-semibold rounded-xl transition-all"
+                    >
+                      {state.isLoading ? 'Processing...' : '📊 Reveal Salary Distribution'}
+                    </button>
+                    {selectedRound?.tracksCohorts && selectedPool?.cohortLabels && (
+                      <button
+                        onClick={handleRequestPayGap}
+                        disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                        className="w-full mt-3 px-6 py-3 bg-pink-500 hover:bg-pink-600 disabled:bg-pink-500/50 text-white font-semibold rounded-xl transition-all"
+                      >
+                        {state.isLoading
+                          ? 'Processing...'
+                          : `⚖️ Reveal Pay Gap (${selectedPool.cohortLabels[0]} vs ${selectedPool.cohortLabels[1]})`}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleCompareToAverage}
+                      disabled={state.isLoading || !canReveal || submissionsNeeded > 0}
+                      className="w-full mt-3 px-6 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white font-semibold rounded-xl transition-all"
+                    >
+                      {state.isLoading ? 'Processing...' : '🧭 How Does My Salary Compare?'}
+                    </button>
+                    {!canReveal ? (
+                      <p className="text-center text-yellow-300 text-sm mt-2">
+                        Results can be revealed once this round closes
+                      </p>
+                    ) : state.count === 0 ? (
                       <p className="text-center text-yellow-300 text-sm mt-2">
                         No salaries have been submitted yet
                       </p>
+                    ) : submissionsNeeded > 0 && (
+                      <p className="text-center text-yellow-300 text-sm mt-2">
+                        For privacy, the average is only revealed once {state.minSubmissions} salaries are in
+                      </p>
                     )}
                   </div>
                 </div>
 
+                {/* Administration (owner, role holders and a pending owner only) */}
+                {!DEMO_MODE && state.adminStatus && state.address && canAdminister(state.adminStatus, state.address) && (
+                  <div className="mt-6">
+                    <AdminPanel
+                      status={state.adminStatus}
+                      account={state.address}
+                      onPause={() => handleAdminTransaction('⏸️ Pausing...', (c) => c.pause())}
+                      onUnpause={() => handleAdminTransaction('▶️ Unpausing...', (c) => c.unpause())}
+                      onGrantRole={(role, account) =>
+                        handleAdminTransaction('🛡️ Granting role...', (c) => c.grantRole(role, account))
+                      }
+                      onRevokeRole={(role, account) =>
+                        handleAdminTransaction('🛡️ Revoking role...', (c) => c.revokeRole(role, account))
+                      }
+                      onTransferOwnership={(newOwner) =>
+                        handleAdminTransaction('🔑 Offering ownership...', (c) => c.transferOwnership(newOwner))
+                      }
+                      onAcceptOwnership={() => handleAdminTransaction('🔑 Accepting ownership...', (c) => c.acceptOwnership())}
+                      disabled={state.isLoading}
+                    />
+                  </div>
+                )}
+
+                {/* Audit (auditors only) */}
+                {!DEMO_MODE && state.adminStatus?.isAuditor && selectedPool && selectedRound && (
+                  <div className="mt-6">
+                    <AuditorView
+                      roundLabel={`Round ${selectedRound.id + 1}`}
+                      bandEdges={selectedPool.bandEdges}
+                      audit={state.audit}
+                      onAudit={handleAudit}
+                      formatAmount={(amount) => formatSalary(amount, selectedPool.currency)}
+                      disabled={state.isLoading}
+                    />
+                  </div>
+                )}
+
                 {/* Transaction Status */}
                 {state.txStatus && (
                   <div className="mt-6 bg-blue-500/20 border border-blue-500/30 rounded-xl p-4">
@@ -740,7 +3445,8 @@ function App() {
               </a>
             </p>
             <p>
-              Individual salaries remain encrypted on-chain. Only the average can be revealed.
+              Individual salaries remain encrypted on-chain. Only the average can be revealed, and only
+              once enough people have submitted.
             </p>
           </div>
         </div>
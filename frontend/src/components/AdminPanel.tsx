@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Admin panel for the owner and role holders of a SalaryLens instance
+ * @description Pauses and unpauses submissions and reveal requests, grants and revokes the
+ *              admin, operator and auditor roles, and transfers ownership in two steps
+ */
+
+import { useState } from 'react';
+import { ZeroAddress, isAddress } from 'ethers';
+
+/**
+ * Access-control state of an instance, as seen by the connected account
+ */
+export interface AdminStatus {
+  owner: string;
+  /** Address ownership is being transferred to (zero address if none) */
+  pendingOwner: string;
+  paused: boolean;
+  /** Whether the account may act as admin (the owner always may) */
+  isAdmin: boolean;
+  /** Whether the account may act as operator (admins and the owner always may) */
+  isOperator: boolean;
+  /** Whether the account was granted the auditor role (never implied by the others) */
+  isAuditor: boolean;
+}
+
+/**
+ * A role the owner can grant, with its `SalaryLens.Role` value
+ */
+export interface RoleOption {
+  role: number;
+  label: string;
+}
+
+export const ROLES: RoleOption[] = [
+  { role: 0, label: 'Admin' },
+  { role: 1, label: 'Operator' },
+  { role: 2, label: 'Auditor' },
+];
+
+interface AdminPanelProps {
+  status: AdminStatus;
+  /** The connected address */
+  account: string;
+  onPause: () => void;
+  onUnpause: () => void;
+  onGrantRole: (role: number, account: string) => void;
+  onRevokeRole: (role: number, account: string) => void;
+  onTransferOwnership: (newOwner: string) => void;
+  onAcceptOwnership: () => void;
+  disabled?: boolean;
+}
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Whether the admin panel has anything to offer an account
+ */
+export function canAdminister(status: AdminStatus, account: string): boolean {
+  return status.isOperator || sameAddress(status.pendingOwner, account);
+}
+
+/**
+ * Pause switch for operators, role management and ownership transfer for the owner,
+ * and the acceptance step for a pending owner
+ */
+function AdminPanel({
+  status,
+  account,
+  onPause,
+  onUnpause,
+  onGrantRole,
+  onRevokeRole,
+  onTransferOwnership,
+  onAcceptOwnership,
+  disabled,
+}: AdminPanelProps) {
+  const [roleAccount, setRoleAccount] = useState('');
+  const [role, setRole] = useState(ROLES[0].role);
+  const [newOwner, setNewOwner] = useState('');
+
+  const isOwner = sameAddress(status.owner, account);
+  const isPendingOwner = sameAddress(status.pendingOwner, account);
+  const hasPendingTransfer = status.pendingOwner !== ZeroAddress;
+  const roleLabel = isOwner ? 'Owner' : status.isAdmin ? 'Admin' : status.isOperator ? 'Operator' : 'Pending owner';
+
+  const inputClassName =
+    'flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+  const buttonClassName =
+    'px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white text-sm rounded-xl transition-all';
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-white font-medium">🛡️ Administration</p>
+        <span className="text-xs text-blue-200 bg-blue-500/20 rounded-full px-3 py-1">{roleLabel}</span>
+      </div>
+
+      {/* Pause switch */}
+      {status.isOperator && (
+        <div className="flex items-center justify-between gap-3">
+          <p className={status.paused ? 'text-yellow-300 text-sm' : 'text-green-300 text-sm'}>
+            {status.paused ? '⏸️ Submissions and reveal requests are paused' : '▶️ Accepting submissions and reveal requests'}
+          </p>
+          {status.paused ? (
+            <button onClick={onUnpause} disabled={disabled || !status.isAdmin} className={buttonClassName}>
+              Unpause
+            </button>
+          ) : (
+            <button
+              onClick={onPause}
+              disabled={disabled}
+              className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 disabled:bg-yellow-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+            >
+              Pause
+            </button>
+          )}
+        </div>
+      )}
+      {status.paused && status.isOperator && !status.isAdmin && (
+        <p className="text-blue-300 text-xs">Only an admin can lift the pause.</p>
+      )}
+
+      {/* Roles */}
+      {isOwner && (
+        <div>
+          <label className="block text-blue-200 text-sm mb-1">Roles</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={roleAccount}
+              onChange={(e) => setRoleAccount(e.target.value.trim())}
+              placeholder="0x… account"
+              disabled={disabled}
+              className={inputClassName}
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(Number(e.target.value))}
+              disabled={disabled}
+              className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm focus:outline-none disabled:opacity-50"
+            >
+              {ROLES.map((option) => (
+                <option key={option.role} value={option.role} className="text-black">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => onGrantRole(role, roleAccount)}
+              disabled={disabled || !isAddress(roleAccount)}
+              className={`flex-1 ${buttonClassName}`}
+            >
+              Grant
+            </button>
+            <button
+              onClick={() => onRevokeRole(role, roleAccount)}
+              disabled={disabled || !isAddress(roleAccount)}
+              className={`flex-1 ${buttonClassName}`}
+            >
+              Revoke
+            </button>
+          </div>
+          <p className="text-blue-300 text-xs mt-1">
+            Admins configure pools and import salaries; operators open and close rounds. Both can pause.
+            Auditors (at most 4) can decrypt the running aggregates.
+          </p>
+        </div>
+      )}
+
+      {/* Ownership */}
+      {isOwner && (
+        <div>
+          <label className="block text-blue-200 text-sm mb-1">Transfer ownership</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newOwner}
+              onChange={(e) => setNewOwner(e.target.value.trim())}
+              placeholder="0x… new owner"
+              disabled={disabled}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => onTransferOwnership(newOwner)}
+              disabled={disabled || !isAddress(newOwner)}
+              className={buttonClassName}
+            >
+              Offer
+            </button>
+          </div>
+          {hasPendingTransfer && (
+            <p className="text-blue-300 text-xs mt-1">
+              Waiting for {shortAddress(status.pendingOwner)} to accept ·{' '}
+              <button
+                onClick={() => onTransferOwnership(ZeroAddress)}
+                disabled={disabled}
+                className="underline hover:text-white disabled:opacity-50"
+              >
+                cancel
+              </button>
+            </p>
+          )}
+        </div>
+      )}
+      {isPendingOwner && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-blue-200 text-sm">{shortAddress(status.owner)} offered you ownership of this contract</p>
+          <button
+            onClick={onAcceptOwnership}
+            disabled={disabled}
+            className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+          >
+            Accept
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AdminPanel;
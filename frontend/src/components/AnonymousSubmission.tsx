@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Anonymous submission form for pools that track submissions by nullifier
+ * @description Walks a group member through encrypting their salary, proving membership
+ *              for the resulting signal with their identity app, and submitting the proof
+ */
+
+import { useState } from 'react';
+
+interface AnonymousSubmissionProps {
+  /** Scope the member derives their nullifier from (the pool's current round) */
+  nullifierScope: string | null;
+  /** The member's nullifier for the current round, as entered */
+  nullifier: string;
+  onNullifierChange: (nullifier: string) => void;
+  /** Whether a salary is recorded under the nullifier */
+  hasSubmitted: boolean;
+  salary: string;
+  onSalaryChange: (salary: string) => void;
+  /** Signal of the encrypted salary awaiting a membership proof, if prepared */
+  signal: string | null;
+  onPrepare: () => void;
+  onSubmit: (membershipProof: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const isBytes32 = (value: string): boolean => /^0x[0-9a-fA-F]{64}$/.test(value);
+
+/**
+ * Three-step anonymous submission: nullifier, encrypted salary, membership proof
+ */
+function AnonymousSubmission({
+  nullifierScope,
+  nullifier,
+  onNullifierChange,
+  hasSubmitted,
+  salary,
+  onSalaryChange,
+  signal,
+  onPrepare,
+  onSubmit,
+  onCancel,
+  disabled,
+}: AnonymousSubmissionProps) {
+  const [membershipProof, setMembershipProof] = useState('');
+
+  const inputClassName =
+    'w-full px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-4">
+      <div>
+        <p className="text-white font-medium">🕶️ Anonymous pool</p>
+        <p className="text-blue-300 text-xs mt-1">
+          Submissions are tracked by a per-round nullifier from your identity app, not by your wallet. Submit from a
+          wallet that is not linked to you.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-blue-200 text-sm mb-1">Your nullifier for this round</label>
+        {nullifierScope && <p className="text-blue-300 text-xs mb-2 break-all">Scope: {nullifierScope}</p>}
+        <input
+          type="text"
+          value={nullifier}
+          onChange={(e) => onNullifierChange(e.target.value.trim())}
+          placeholder="0x…"
+          disabled={disabled || signal !== null}
+          className={inputClassName}
+        />
+      </div>
+
+      {hasSubmitted ? (
+        <p className="text-green-300 text-center">✓ A salary is recorded under this nullifier for this round</p>
+      ) : signal === null ? (
+        <div className="flex gap-3">
+          <input
+            type="number"
+            value={salary}
+            onChange={(e) => onSalaryChange(e.target.value)}
+            placeholder="50000"
+            disabled={disabled}
+            className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <button
+            onClick={onPrepare}
+            disabled={disabled || !salary || !isBytes32(nullifier)}
+            className="px-6 py-3 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white font-semibold rounded-xl transition-all"
+          >
+            Encrypt
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <p className="text-blue-200 text-sm mb-1">Prove membership for this signal in your identity app:</p>
+            <p className="text-white font-mono text-xs break-all bg-black/20 rounded-lg p-2">{signal}</p>
+          </div>
+          <textarea
+            value={membershipProof}
+            onChange={(e) => setMembershipProof(e.target.value.trim())}
+            placeholder="Membership proof (0x…)"
+            rows={3}
+            disabled={disabled}
+            className={inputClassName}
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => onSubmit(membershipProof)}
+              disabled={disabled || !/^0x[0-9a-fA-F]*$/.test(membershipProof)}
+              className="flex-1 px-6 py-3 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white font-semibold rounded-xl transition-all"
+            >
+              Submit anonymously
+            </button>
+            <button
+              onClick={() => {
+                setMembershipProof('');
+                onCancel();
+              }}
+              disabled={disabled}
+              className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white rounded-xl transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AnonymousSubmission;
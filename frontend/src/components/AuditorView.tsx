@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Auditor view of a round's encrypted aggregates
+ * @description Shows auditors the running total, mean, standard deviation, range, band counts and
+ *              component totals of the selected round, user-decrypted with their own wallet before
+ *              anything is revealed publicly
+ */
+
+import HistogramChart from './HistogramChart';
+
+/**
+ * Decrypted aggregates of a round, as seen by an auditor
+ */
+export interface AuditSnapshot {
+  /** Number of salaries the aggregates cover */
+  count: number;
+  total: bigint;
+  sumOfSquares: bigint;
+  min: number;
+  max: number;
+  /** Whether the range still includes an updated or withdrawn salary */
+  rangeOutdated: boolean;
+  /** Number of salaries per band, lowest band first */
+  bandCounts: number[];
+  /** Bonus and equity totals, or null before the first compensation submission */
+  componentTotals: [bigint, bigint] | null;
+}
+
+interface AuditorViewProps {
+  /** Label of the selected round (e.g. "Round 3") */
+  roundLabel: string;
+  /** Ascending band edges of the pool */
+  bandEdges: number[];
+  audit: AuditSnapshot | null;
+  onAudit: () => void;
+  formatAmount: (amount: number) => string;
+  disabled?: boolean;
+}
+
+/**
+ * Mean and standard deviation of a snapshot, computed from the decrypted sums
+ */
+export function auditStats(audit: AuditSnapshot): { mean: number; stdDev: number } {
+  const count = BigInt(audit.count);
+  const mean = audit.total / count;
+  const variance = audit.sumOfSquares / count - mean * mean;
+  return { mean: Number(mean), stdDev: Math.sqrt(Number(variance > 0n ? variance : 0n)) };
+}
+
+/**
+ * Decrypt button and the aggregates of the last audit of the selected round
+ */
+function AuditorView({ roundLabel, bandEdges, audit, onAudit, formatAmount, disabled }: AuditorViewProps) {
+  const stats = audit && audit.count > 0 ? auditStats(audit) : null;
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-white font-medium">🔍 Audit</p>
+        <span className="text-xs text-purple-200 bg-purple-500/20 rounded-full px-3 py-1">Auditor</span>
+      </div>
+      <p className="text-blue-300 text-xs">
+        Decrypts the running aggregates of {roundLabel} for your wallet only. Nothing is revealed on-chain.
+      </p>
+
+      {audit && stats && (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <p className="text-blue-200 text-xs">Total ({audit.count} salaries)</p>
+            <p className="text-white font-mono">{formatAmount(Number(audit.total))}</p>
+          </div>
+          <div>
+            <p className="text-blue-200 text-xs">Mean ± std. dev.</p>
+            <p className="text-white font-mono">
+              {formatAmount(stats.mean)} ± {formatAmount(Math.round(stats.stdDev))}
+            </p>
+          </div>
+          <div className="col-span-2">
+            <p className="text-blue-200 text-xs">Range{audit.rangeOutdated && ' (outdated)'}</p>
+            <p className="text-white font-mono">
+              {formatAmount(audit.min)} – {formatAmount(audit.max)}
+            </p>
+          </div>
+          {audit.componentTotals && (
+            <>
+              <div>
+                <p className="text-blue-200 text-xs">Bonus total</p>
+                <p className="text-white font-mono">{formatAmount(Number(audit.componentTotals[0]))}</p>
+              </div>
+              <div>
+                <p className="text-blue-200 text-xs">Equity total</p>
+                <p className="text-white font-mono">{formatAmount(Number(audit.componentTotals[1]))}</p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      {audit && stats && <HistogramChart bandEdges={bandEdges} counts={audit.bandCounts} formatEdge={formatAmount} />}
+      {audit && audit.rangeOutdated && (
+        <p className="text-yellow-300 text-xs">
+          A salary was updated or withdrawn, so the range may still include it until it is rebuilt.
+        </p>
+      )}
+
+      <button
+        onClick={onAudit}
+        disabled={disabled}
+        className="w-full px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-purple-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+      >
+        {audit ? 'Decrypt Again' : 'Decrypt Aggregates'}
+      </button>
+    </div>
+  );
+}
+
+export default AuditorView;
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Time series of a pool's verified averages
+ * @description Plots every verified average of a pool as a line, with the number of salaries it
+ *              was computed from as bars underneath, so trends across rounds are visible
+ */
+
+/**
+ * A verified average from the pool's on-chain history
+ */
+export interface AverageRecord {
+  roundId: number;
+  /** The decrypted average */
+  value: number;
+  /** Number of salaries the average was computed from */
+  count: number;
+  /** Block in which the decryption was verified */
+  blockNumber: number;
+  /** Unix timestamp (seconds) of that block */
+  timestamp: number;
+}
+
+interface AverageHistoryChartProps {
+  /** Verified averages, oldest first */
+  records: AverageRecord[];
+  /** Formats an average for display (e.g. in the pool's currency) */
+  formatAmount: (amount: number) => string;
+}
+
+/** Drawing area of the chart in SVG units */
+const WIDTH = 300;
+const HEIGHT = 120;
+/** Share of the height the participant bars may use */
+const BAR_HEIGHT = 0.35;
+
+/**
+ * Line chart of the average over time, with participant counts as bars
+ */
+function AverageHistoryChart({ records, formatAmount }: AverageHistoryChartProps) {
+  const values = records.map((record) => record.value);
+  const lowest = Math.min(...values);
+  const highest = Math.max(...values);
+  // Pad a flat series so its line sits in the middle of the chart
+  const span = Math.max(highest - lowest, highest * 0.1, 1);
+  const maxCount = Math.max(...records.map((record) => record.count), 1);
+
+  const step = WIDTH / records.length;
+  const x = (index: number): number => step * (index + 0.5);
+  const y = (value: number): number => HEIGHT * 0.9 - ((value - lowest) / span) * HEIGHT * 0.8;
+  const points = records.map((record, index) => `${x(index)},${y(record.value)}`).join(' ');
+
+  const latest = records[records.length - 1];
+  const previous = records.length > 1 ? records[records.length - 2] : null;
+  const change = previous ? ((latest.value - previous.value) / previous.value) * 100 : null;
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <p className="text-white font-medium">Average Over Time</p>
+        {change !== null && (
+          <p className={`text-xs ${change >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+            {change >= 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}% since the previous reveal
+          </p>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+        {records.map((record, index) => {
+          const barHeight = (record.count / maxCount) * HEIGHT * BAR_HEIGHT;
+          return (
+            <rect
+              key={`bar-${index}`}
+              x={x(index) - step * 0.3}
+              y={HEIGHT - barHeight}
+              width={step * 0.6}
+              height={barHeight}
+              className="fill-blue-400/20"
+            />
+          );
+        })}
+        <polyline points={points} fill="none" className="stroke-purple-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {records.map((record, index) => (
+          <circle key={`point-${index}`} cx={x(index)} cy={y(record.value)} r={3} className="fill-white">
+            <title>
+              {`Round ${record.roundId + 1}: ${formatAmount(record.value)} from ${record.count} salaries`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-blue-300 text-xs mt-2">
+        <span>{new Date(records[0].timestamp * 1000).toLocaleDateString()}</span>
+        <span>{new Date(latest.timestamp * 1000).toLocaleDateString()}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center mt-3">
+        <div>
+          <p className="text-white font-semibold">{formatAmount(latest.value)}</p>
+          <p className="text-blue-300 text-xs">Latest average</p>
+        </div>
+        <div>
+          <p className="text-white font-semibold">{latest.count}</p>
+          <p className="text-blue-300 text-xs">Participants</p>
+        </div>
+        <div>
+          <p className="text-white font-semibold">{records.length}</p>
+          <p className="text-blue-300 text-xs">Verified reveals</p>
+        </div>
+      </div>
+      <p className="text-blue-300 text-xs mt-3">
+        Line: verified average · Bars: number of salaries it was computed from
+      </p>
+    </div>
+  );
+}
+
+export default AverageHistoryChart;
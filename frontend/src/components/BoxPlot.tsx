@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Box-plot summary of a round's verified quartiles
+ * @description Draws the lower quartile, median and upper quartile estimates (and the lowest and
+ *              highest salary, if revealed) on a scale spanning the round's percentile edges
+ */
+
+/**
+ * Decrypted percentile estimates of a round; null until revealed
+ * Each estimate is the highest percentile edge at or below the percentile (0 = below the first edge)
+ */
+export interface SalaryPercentiles {
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+}
+
+interface BoxPlotProps {
+  /** Ascending edges the estimates snap to */
+  percentileEdges: number[];
+  percentiles: SalaryPercentiles;
+  /** Revealed lowest and highest salary, drawn as whiskers */
+  range: { min: number; max: number } | null;
+  /** Formats a salary for display (e.g. in the pool's currency) */
+  formatAmount: (amount: number) => string;
+}
+
+/**
+ * Label of an estimate: an edge, or "below the first edge" for 0
+ */
+const estimateLabel = (
+  estimate: number | null,
+  percentileEdges: number[],
+  formatAmount: (amount: number) => string
+): string => {
+  if (estimate === null) return '???';
+  if (estimate === 0) return `< ${formatAmount(percentileEdges[0])}`;
+  return `≥ ${formatAmount(estimate)}`;
+};
+
+/**
+ * Horizontal box plot with a row of labelled estimates below it
+ */
+function BoxPlot({ percentileEdges, percentiles, range, formatAmount }: BoxPlotProps) {
+  const lowest = Math.min(range?.min ?? Infinity, percentileEdges[0]);
+  const highest = Math.max(range?.max ?? 0, percentileEdges[percentileEdges.length - 1]);
+  const span = Math.max(highest - lowest, 1);
+  // Estimates below the first edge are drawn at the left end of the scale
+  const position = (amount: number): number => ((Math.max(amount, lowest) - lowest) / span) * 100;
+
+  const { p25, median, p75 } = percentiles;
+  const rows: { label: string; estimate: number | null }[] = [
+    { label: 'Lower quartile', estimate: p25 },
+    { label: 'Median', estimate: median },
+    { label: 'Upper quartile', estimate: p75 },
+  ];
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4">
+      <p className="text-white font-medium mb-3">Salary Quartiles</p>
+      <div className="relative h-10 mb-2">
+        {/* Axis */}
+        <div className="absolute top-1/2 left-0 right-0 h-px bg-white/20" />
+        {range && (
+          <div
+            className="absolute top-1/2 h-0.5 bg-blue-300/60"
+            style={{ left: `${position(range.min)}%`, width: `${position(range.max) - position(range.min)}%` }}
+          />
+        )}
+        {p25 !== null && p75 !== null && (
+          <div
+            className="absolute top-1 bottom-1 bg-gradient-to-r from-purple-500/70 to-blue-500/70 border border-white/40 rounded"
+            style={{ left: `${position(p25)}%`, width: `${Math.max(position(p75) - position(p25), 1)}%` }}
+          />
+        )}
+        {median !== null && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white" style={{ left: `${position(median)}%` }} />
+        )}
+      </div>
+      <div className="flex justify-between text-blue-300 text-xs mb-3">
+        <span>{formatAmount(lowest)}</span>
+        <span>{formatAmount(highest)}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {rows.map(({ label, estimate }) => (
+          <div key={label}>
+            <p className="text-white font-semibold">{estimateLabel(estimate, percentileEdges, formatAmount)}</p>
+            <p className="text-blue-300 text-xs">{label}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-blue-300 text-xs mt-3">
+        Estimates are rounded down to the nearest of {percentileEdges.length} edges set by the pool admin.
+      </p>
+    </div>
+  );
+}
+
+export default BoxPlot;
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Bar chart of a pool's verified salary-band histogram
+ * @description Renders decrypted band counts with labels derived from the pool's band edges
+ */
+
+interface HistogramChartProps {
+  /** Ascending band edges of the pool (N edges define N + 1 bands) */
+  bandEdges: number[];
+  /** Decrypted number of salaries per band, lowest band first */
+  counts: number[];
+  /** Formats a band edge for display (e.g. in the pool's currency) */
+  formatEdge: (edge: number) => string;
+}
+
+/**
+ * Build the label of band `index` from the surrounding edges
+ */
+const bandLabel = (index: number, bandEdges: number[], formatEdge: (edge: number) => string): string => {
+  if (bandEdges.length === 0) return 'All';
+  if (index === 0) return `< ${formatEdge(bandEdges[0])}`;
+  if (index === bandEdges.length) return `≥ ${formatEdge(bandEdges[bandEdges.length - 1])}`;
+  return `${formatEdge(bandEdges[index - 1])} – ${formatEdge(bandEdges[index])}`;
+};
+
+/**
+ * Horizontal bar chart of salary bands
+ */
+function HistogramChart({ bandEdges, counts, formatEdge }: HistogramChartProps) {
+  const maxCount = Math.max(...counts, 1);
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4">
+      <p className="text-white font-medium mb-3">Salary Distribution</p>
+      <div className="space-y-2">
+        {counts.map((count, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <span className="w-40 shrink-0 text-right text-blue-200 text-xs">
+              {bandLabel(index, bandEdges, formatEdge)}
+            </span>
+            <div className="flex-1 h-5 bg-white/5 rounded">
+              <div
+                className="h-5 bg-gradient-to-r from-purple-500 to-blue-500 rounded"
+                style={{ width: `${(count / maxCount) * 100}%` }}
+              />
+            </div>
+            <span className="w-8 text-white text-sm">{count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default HistogramChart;
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Picker of the SalaryLens instance the app talks to
+ * @description Lists the configured deployment and every organisation instance registered in the
+ *              SalaryLensFactory, so users can switch organisations without rebuilding the app
+ */
+
+/**
+ * A SalaryLens instance the user can pick
+ */
+export interface InstanceInfo {
+  address: string;
+  /** Display name registered with the factory */
+  name: string;
+  /** Owner the instance was created with (empty for the configured deployment) */
+  owner: string;
+  /** The instance's k-anonymity threshold (0 if unknown) */
+  minSubmissions: number;
+}
+
+interface InstancePickerProps {
+  instances: InstanceInfo[];
+  selectedAddress: string;
+  onSelect: (address: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown of instances with the selected instance's owner and threshold
+ */
+function InstancePicker({ instances, selectedAddress, onSelect, disabled }: InstancePickerProps) {
+  const selected = instances.find((instance) => instance.address.toLowerCase() === selectedAddress.toLowerCase());
+
+  return (
+    <div>
+      <label className="block text-blue-200 text-sm mb-2">Organisation</label>
+      <select
+        value={selected?.address ?? selectedAddress}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {!selected && (
+          <option value={selectedAddress} className="text-black">
+            {selectedAddress}
+          </option>
+        )}
+        {instances.map((instance) => (
+          <option key={instance.address} value={instance.address} className="text-black">
+            {instance.name}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="text-blue-300 text-xs mt-1 font-mono">
+          {selected.address.slice(0, 6)}...{selected.address.slice(-4)}
+          {selected.owner && ` · owner ${selected.owner.slice(0, 6)}...${selected.owner.slice(-4)}`}
+          {selected.minSubmissions > 0 && ` · k = ${selected.minSubmissions}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default InstancePicker;
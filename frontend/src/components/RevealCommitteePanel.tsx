@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Reveal committee panel for instances whose average reveals need M-of-N approval
+ * @description Lists the committee's pending proposals with their approvals and expiry, lets members
+ *              approve them, and lets members propose revealing the average of the selected round or
+ *              a statistic derived from it
+ */
+
+import { useState } from 'react';
+
+/**
+ * What a proposal can reveal, with its `RevealCommittee.Reveal` value
+ */
+export interface RevealOption {
+  reveal: number;
+  label: string;
+}
+
+export const REVEALS: RevealOption[] = [
+  { reveal: 0, label: 'Average' },
+  { reveal: 1, label: 'Mean and Variance' },
+  { reveal: 2, label: 'Average Bonus' },
+  { reveal: 3, label: 'Average Equity' },
+  { reveal: 4, label: 'Average Total Compensation' },
+];
+
+/**
+ * A proposal that has neither been executed nor expired
+ */
+export interface RevealProposal {
+  id: number;
+  poolId: number;
+  roundId: number;
+  /** What the proposal reveals (a `REVEALS` value) */
+  reveal: number;
+  proposer: string;
+  /** Unix timestamp after which the proposal can no longer be approved */
+  expiresAt: number;
+  approvals: number;
+  /** Whether the connected account already approved it */
+  approvedByMe: boolean;
+}
+
+/**
+ * The reveal committee of an instance, as seen by the connected account
+ */
+export interface CommitteeStatus {
+  address: string;
+  /** Number of approvals a reveal needs (M) */
+  threshold: number;
+  /** Number of members (N) */
+  memberCount: number;
+  isMember: boolean;
+  /** Pending proposals, newest first */
+  proposals: RevealProposal[];
+}
+
+interface RevealCommitteePanelProps {
+  committee: CommitteeStatus;
+  /** Label of the selected round (e.g. "Round 3") */
+  roundLabel: string;
+  /** Label of a proposal's pool and round */
+  proposalLabel: (proposal: RevealProposal) => string;
+  /** Whether the selected round can be proposed (closed and above the threshold) */
+  canPropose: boolean;
+  onPropose: (reveal: number) => void;
+  onApprove: (proposalId: number) => void;
+  disabled?: boolean;
+}
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const revealLabel = (reveal: number): string =>
+  REVEALS.find((option) => option.reveal === reveal)?.label ?? `Reveal ${reveal}`;
+
+/**
+ * Time left before a proposal expires, in hours or minutes
+ */
+const timeLeft = (expiresAt: number): string => {
+  const seconds = Math.max(expiresAt - Math.floor(Date.now() / 1000), 0);
+  return seconds >= 3600 ? `${Math.floor(seconds / 3600)}h left` : `${Math.ceil(seconds / 60)}m left`;
+};
+
+/**
+ * Pending proposals with approve buttons for members, and a button to propose a reveal of the selected round
+ */
+function RevealCommitteePanel({
+  committee,
+  roundLabel,
+  proposalLabel,
+  canPropose,
+  onPropose,
+  onApprove,
+  disabled,
+}: RevealCommitteePanelProps) {
+  const [reveal, setReveal] = useState(REVEALS[0].reveal);
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-white font-medium">🗳️ Reveal Committee</p>
+        <span className="text-xs text-purple-200 bg-purple-500/20 rounded-full px-3 py-1">
+          {committee.threshold} of {committee.memberCount}
+          {committee.isMember && ' · member'}
+        </span>
+      </div>
+      <p className="text-blue-300 text-xs">
+        Averages, and the mean and compensation averages they follow from, are only revealed once{' '}
+        {committee.threshold} committee {committee.threshold === 1 ? 'member approves' : 'members approve'} a
+        proposal.
+      </p>
+
+      {committee.proposals.length === 0 ? (
+        <p className="text-blue-200 text-sm">No pending proposals</p>
+      ) : (
+        <ul className="space-y-2">
+          {committee.proposals.map((proposal) => (
+            <li key={proposal.id} className="flex items-center justify-between gap-3 text-sm">
+              <div>
+                <p className="text-white">
+                  #{proposal.id} · {revealLabel(proposal.reveal)} · {proposalLabel(proposal)}
+                </p>
+                <p className="text-blue-300 text-xs">
+                  {proposal.approvals}/{committee.threshold} approvals · by {shortAddress(proposal.proposer)} ·{' '}
+                  {timeLeft(proposal.expiresAt)}
+                </p>
+              </div>
+              {committee.isMember && (
+                <button
+                  onClick={() => onApprove(proposal.id)}
+                  disabled={disabled || proposal.approvedByMe}
+                  className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-green-500/50 text-white text-sm font-semibold rounded-xl transition-all"
+                >
+                  {proposal.approvedByMe ? 'Approved' : 'Approve'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {committee.isMember && (
+        <div className="flex gap-2">
+          <select
+            value={reveal}
+            onChange={(e) => setReveal(Number(e.target.value))}
+            disabled={disabled}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm focus:outline-none disabled:opacity-50"
+          >
+            {REVEALS.map((option) => (
+              <option key={option.reveal} value={option.reveal} className="text-black">
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onPropose(reveal)}
+            disabled={disabled || !canPropose}
+            className="flex-1 px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white text-sm rounded-xl transition-all"
+          >
+            Propose Revealing for {roundLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RevealCommitteePanel;
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview List of a pool's submission rounds
+ * @description Shows each round's window, status, sample size and verified average so rounds can be compared
+ */
+
+/**
+ * A submission round of a pool as read from the contract
+ */
+export interface RoundInfo {
+  id: number;
+  /** Unix timestamp (seconds) from which submissions are accepted */
+  startTime: number;
+  /** Unix timestamp (seconds) from which submissions are no longer accepted */
+  endTime: number;
+  /** True once the round is frozen (closed early or past its end time) */
+  closed: boolean;
+  count: number;
+  /** Verified average of the round, or 0 if it has not been revealed yet */
+  verifiedAverage: number;
+  /** Number of salaries the verified average was computed from */
+  averageCount: number;
+  /** Data version the verified average was computed from */
+  averageVersion: number;
+  /** Block in which the verified average was verified, or 0 if it has not been revealed yet */
+  averageBlock: number;
+  /** Current data version: incremented on every submission, update and withdrawal */
+  dataVersion: number;
+  /** Edges the round's percentile estimates snap to (empty if the pool had none when it opened) */
+  percentileEdges: number[];
+  /** True if submissions carry an encrypted cohort flag and the round's pay gap can be revealed */
+  tracksCohorts: boolean;
+}
+
+interface RoundListProps {
+  rounds: RoundInfo[];
+  selectedRoundId: number;
+  onSelect: (roundId: number) => void;
+  /** Formats an average for display (e.g. in the pool's currency) */
+  formatAmount: (amount: number) => string;
+  disabled?: boolean;
+}
+
+/**
+ * Human-readable status of a round at the current time
+ */
+const roundStatus = (round: RoundInfo): { label: string; className: string } => {
+  if (round.closed) return { label: 'Closed', className: 'bg-gray-500/30 text-gray-200' };
+  if (Date.now() / 1000 < round.startTime) return { label: 'Scheduled', className: 'bg-yellow-500/30 text-yellow-200' };
+  return { label: 'Open', className: 'bg-green-500/30 text-green-200' };
+};
+
+const formatDate = (timestamp: number): string => new Date(timestamp * 1000).toLocaleDateString();
+
+/**
+ * Selectable list of rounds, most recent first
+ */
+function RoundList({ rounds, selectedRoundId, onSelect, formatAmount, disabled }: RoundListProps) {
+  return (
+    <div className="bg-white/5 rounded-xl p-4">
+      <p className="text-white font-medium mb-3">Survey Rounds</p>
+      <div className="space-y-2">
+        {[...rounds].reverse().map((round) => {
+          const status = roundStatus(round);
+          return (
+            <button
+              key={round.id}
+              onClick={() => onSelect(round.id)}
+              disabled={disabled}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left transition-all disabled:opacity-50 ${
+                round.id === selectedRoundId ? 'bg-white/15 ring-1 ring-blue-400' : 'hover:bg-white/10'
+              }`}
+            >
+              <div>
+                <p className="text-white text-sm">
+                  Round {round.id + 1}{' '}
+                  <span className={`ml-1 px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                </p>
+                <p className="text-blue-300 text-xs">
+                  {formatDate(round.startTime)} – {formatDate(round.endTime)} · {round.count}{' '}
+                  {round.count === 1 ? 'submission' : 'submissions'}
+                </p>
+              </div>
+              <p className="text-white text-sm font-semibold">
+                {round.verifiedAverage > 0 ? formatAmount(round.verifiedAverage) : '—'}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default RoundList;
@@ -17,14 +17,177 @@ export const CONFIG = {
 
   // Zama Relayer URL for FHE operations on Sepolia
   RELAYER_URL: 'https://relayer.testnet.zama.org',
+
+  // SalaryRelay contract for gasless submissions (from scripts/deploy.ts); empty to disable them
+  SALARY_RELAY_ADDRESS: '',
+
+  // Relayer service that submits signed salary intents (scripts/relayer.ts)
+  GASLESS_RELAYER_URL: 'http://localhost:8787',
+
+  // SalaryLensFactory whose organisation instances users can pick (from scripts/deploy.ts); empty to only use CONTRACT_ADDRESS
+  FACTORY_ADDRESS: '',
 };
 
 // Contract ABI (V2 - matches @fhevm/solidity 0.9.x contract)
 export const SALARY_LENS_ABI = [
   {
     inputs: [
+      { internalType: 'address', name: '_owner', type: 'address' },
+      { internalType: 'uint32', name: '_minSubmissions', type: 'uint32' },
+    ],
+    name: 'initialize',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'newOwner', type: 'address' }],
+    name: 'transferOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'acceptOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'enum SalaryLens.Role', name: 'role', type: 'uint8' },
+      { internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'grantRole',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'enum SalaryLens.Role', name: 'role', type: 'uint8' },
+      { internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'revokeRole',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pause',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'unpause',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'requestAuditAccess',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'label', type: 'string' },
+      { internalType: 'string', name: 'currency', type: 'string' },
+      { internalType: 'string', name: 'period', type: 'string' },
+      { internalType: 'uint32[]', name: 'bandEdges', type: 'uint32[]' },
+    ],
+    name: 'createPool',
+    outputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'bytes32', name: 'root', type: 'bytes32' },
+    ],
+    name: 'setEligibilityRoot',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'contract IMembershipVerifier', name: 'verifier', type: 'address' },
+      { internalType: 'bytes32', name: 'root', type: 'bytes32' },
+    ],
+    name: 'setMembershipGroup',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedLowerBound', type: 'bytes32' },
+      { internalType: 'externalEuint32', name: 'encryptedUpperBound', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'setSalaryBounds',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint32[]', name: 'percentileEdges', type: 'uint32[]' },
+    ],
+    name: 'setPercentileEdges',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'string', name: 'labelA', type: 'string' },
+      { internalType: 'string', name: 'labelB', type: 'string' },
+    ],
+    name: 'setCohorts',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+      { internalType: 'uint64', name: 'endTime', type: 'uint64' },
+    ],
+    name: 'openRound',
+    outputs: [{ internalType: 'uint256', name: 'roundId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'closeRound',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
       { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
       { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes32[]', name: 'eligibilityProof', type: 'bytes32[]' },
     ],
     name: 'addSalary',
     outputs: [],
@@ -32,7 +195,146 @@ export const SALARY_LENS_ABI = [
     type: 'function',
   },
   {
-    inputs: [],
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'externalEbool', name: 'encryptedInCohortB', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes32[]', name: 'eligibilityProof', type: 'bytes32[]' },
+    ],
+    name: 'addSalaryWithCohort',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'externalEuint32', name: 'encryptedBonus', type: 'bytes32' },
+      { internalType: 'externalEuint32', name: 'encryptedEquity', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes32[]', name: 'eligibilityProof', type: 'bytes32[]' },
+    ],
+    name: 'addCompensation',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'bytes32[]', name: 'rowIds', type: 'bytes32[]' },
+      { internalType: 'externalEuint32[]', name: 'encryptedSalaries', type: 'bytes32[]' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'importSalaries',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'updateSalary',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'withdrawSalary',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+      { internalType: 'bytes', name: 'membershipProof', type: 'bytes' },
+    ],
+    name: 'addSalaryAnonymous',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes', name: 'membershipProof', type: 'bytes' },
+    ],
+    name: 'updateSalaryAnonymous',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+      { internalType: 'bytes', name: 'membershipProof', type: 'bytes' },
+    ],
+    name: 'withdrawSalaryAnonymous',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'newRelay', type: 'address' }],
+    name: 'setRelay',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'submitter', type: 'address' },
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encryptedSalary', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes32[]', name: 'eligibilityProof', type: 'bytes32[]' },
+    ],
+    name: 'addSalaryFor',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'committee', type: 'address' }],
+    name: 'setRevealCommittee',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'uint256', name: 'maxSubmitters', type: 'uint256' },
+    ],
+    name: 'rebuildRange',
+    outputs: [{ internalType: 'bool', name: 'done', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
     name: 'requestAverageDecryption',
     outputs: [{ internalType: 'bytes32', name: 'handle', type: 'bytes32' }],
     stateMutability: 'nonpayable',
@@ -40,6 +342,8 @@ export const SALARY_LENS_ABI = [
   },
   {
     inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
       { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
       { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
     ],
@@ -49,58 +353,1143 @@ export const SALARY_LENS_ABI = [
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'getCount',
-    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
-    stateMutability: 'view',
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'requestRangeDecryption',
+    outputs: [
+      { internalType: 'bytes32', name: 'minHandle', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'maxHandle', type: 'bytes32' },
+    ],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [{ internalType: 'address', name: 'user', type: 'address' }],
-    name: 'hasUserSubmitted',
-    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
-    stateMutability: 'view',
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verifyRangeDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [{ internalType: 'address', name: 'user', type: 'address' }],
-    name: 'getLastAverage',
-    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
-    stateMutability: 'view',
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'requestStatsDecryption',
+    outputs: [
+      { internalType: 'bytes32', name: 'meanHandle', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'varianceHandle', type: 'bytes32' },
+    ],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    inputs: [{ internalType: 'address', name: 'user', type: 'address' }],
-    name: 'getPendingHandle',
-    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
-    stateMutability: 'view',
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verifyStatsDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: 'address', name: 'submitter', type: 'address' },
-      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'percentile', type: 'uint8' },
     ],
-    name: 'SalarySubmitted',
-    type: 'event',
+    name: 'requestPercentileDecryption',
+    outputs: [{ internalType: 'bytes32', name: 'handle', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
-      { indexed: false, internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'percentile', type: 'uint8' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
     ],
-    name: 'AverageRequested',
-    type: 'event',
-  },
-  {
-    anonymous: false,
+    name: 'verifyPercentileDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },  {
     inputs: [
-      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
-      { indexed: false, internalType: 'uint32', name: 'average', type: 'uint32' },
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'component', type: 'uint8' },
     ],
-    name: 'AverageDecrypted',
+    name: 'requestCompensationDecryption',
+    outputs: [{ internalType: 'bytes32', name: 'handle', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'component', type: 'uint8' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verifyCompensationDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'requestHistogramDecryption',
+    outputs: [{ internalType: 'bytes32[]', name: 'handles', type: 'bytes32[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verifyHistogramDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'compareToAverage',
+    outputs: [{ internalType: 'bytes32', name: 'handle', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'uint256', name: 'maxBits', type: 'uint256' },
+    ],
+    name: 'computePayGap',
+    outputs: [{ internalType: 'bool', name: 'done', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'requestPayGapDecryption',
+    outputs: [{ internalType: 'bytes32[]', name: 'handles', type: 'bytes32[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verifyPayGapDecryption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pendingOwner',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'paused',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'enum SalaryLens.Role', name: 'role', type: 'uint8' },
+      { internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'hasRole',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getAuditHandles',
+    outputs: [
+      { internalType: 'bytes32', name: 'total', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'sumOfSquares', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'min', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'max', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getAuditBreakdownHandles',
+    outputs: [{ internalType: 'bytes32[]', name: '', type: 'bytes32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'relay',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'revealCommittee',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'minSubmissions',
+    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getSubmissionsNeeded',
+    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'poolCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getPool',
+    outputs: [
+      { internalType: 'string', name: 'label', type: 'string' },
+      { internalType: 'string', name: 'currency', type: 'string' },
+      { internalType: 'string', name: 'period', type: 'string' },
+      { internalType: 'uint256', name: 'roundCount', type: 'uint256' },
+      { internalType: 'uint32[]', name: 'bandEdges', type: 'uint32[]' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getEligibilityRoot',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'address', name: 'account', type: 'address' },
+      { internalType: 'bytes32[]', name: 'eligibilityProof', type: 'bytes32[]' },
+    ],
+    name: 'isEligible',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getMembershipGroup',
+    outputs: [
+      { internalType: 'address', name: 'verifier', type: 'address' },
+      { internalType: 'bytes32', name: 'root', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getNullifierScope',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+    ],
+    name: 'isNullifierUsed',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'hasSalaryBounds',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getRound',
+    outputs: [
+      { internalType: 'uint64', name: 'startTime', type: 'uint64' },
+      { internalType: 'uint64', name: 'endTime', type: 'uint64' },
+      { internalType: 'bool', name: 'closed', type: 'bool' },
+      { internalType: 'uint32', name: 'roundSubmissions', type: 'uint32' },
+      { internalType: 'uint64', name: 'verifiedAverage', type: 'uint64' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getCount',
+    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'hasUserSubmitted',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getLatestVerifiedAverage',
+    outputs: [
+      { internalType: 'uint64', name: 'average', type: 'uint64' },
+      { internalType: 'uint32', name: 'count', type: 'uint32' },
+      { internalType: 'uint32', name: 'version', type: 'uint32' },
+      { internalType: 'uint64', name: 'blockNumber', type: 'uint64' },
+      { internalType: 'uint32', name: 'currentVersion', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getAverageHistoryLength',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getAverageHistory',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint32', name: 'roundId', type: 'uint32' },
+          { internalType: 'uint64', name: 'value', type: 'uint64' },
+          { internalType: 'uint32', name: 'count', type: 'uint32' },
+          { internalType: 'uint64', name: 'blockNumber', type: 'uint64' },
+          { internalType: 'uint64', name: 'timestamp', type: 'uint64' },
+        ],
+        internalType: 'struct SalaryLens.AverageRecord[]',
+        name: 'records',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getLastRange',
+    outputs: [
+      { internalType: 'uint32', name: 'min', type: 'uint32' },
+      { internalType: 'uint32', name: 'max', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getLastStats',
+    outputs: [
+      { internalType: 'uint64', name: 'mean', type: 'uint64' },
+      { internalType: 'uint128', name: 'variance', type: 'uint128' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'percentile', type: 'uint8' },
+    ],
+    name: 'getLastPercentile',
+    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+      { internalType: 'enum SalaryLens.Statistic', name: 'component', type: 'uint8' },
+    ],
+    name: 'getLastCompensation',
+    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getPercentileEdges',
+    outputs: [{ internalType: 'uint32[]', name: '', type: 'uint32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getLastHistogram',
+    outputs: [{ internalType: 'uint32[]', name: '', type: 'uint32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getRangeStatus',
+    outputs: [
+      { internalType: 'bool', name: 'outdated', type: 'bool' },
+      { internalType: 'uint256', name: 'processed', type: 'uint256' },
+      { internalType: 'uint256', name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'getCohorts',
+    outputs: [
+      { internalType: 'string', name: 'labelA', type: 'string' },
+      { internalType: 'string', name: 'labelB', type: 'string' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getPayGapStatus',
+    outputs: [
+      { internalType: 'bool', name: 'tracksCohorts', type: 'bool' },
+      { internalType: 'bool', name: 'computed', type: 'bool' },
+      { internalType: 'uint8', name: 'bitsLeft', type: 'uint8' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getLastPayGap',
+    outputs: [
+      { internalType: 'bool', name: 'eligible', type: 'bool' },
+      { internalType: 'bool', name: 'cohortBHigher', type: 'bool' },
+      { internalType: 'uint32', name: 'gap', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getSubmissionHandle',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getComparisonHandle',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'getAcceptedHandle',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+    ],
+    name: 'getAnonymousSubmissionHandle',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'getPendingHandle',
+    outputs: [
+      { internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+      { internalType: 'uint32', name: 'count', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'label', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'currency', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'period', type: 'string' },
+      { indexed: false, internalType: 'uint32[]', name: 'bandEdges', type: 'uint32[]' },
+    ],
+    name: 'PoolCreated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: false, internalType: 'bytes32', name: 'root', type: 'bytes32' },
+    ],
+    name: 'EligibilityRootUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: false, internalType: 'address', name: 'verifier', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'root', type: 'bytes32' },
+    ],
+    name: 'MembershipGroupUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' }],
+    name: 'SalaryBoundsUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: false, internalType: 'uint32[]', name: 'percentileEdges', type: 'uint32[]' },
+    ],
+    name: 'PercentileEdgesUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'labelA', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'labelB', type: 'string' },
+    ],
+    name: 'CohortsUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: false, internalType: 'uint64', name: 'startTime', type: 'uint64' },
+      { indexed: false, internalType: 'uint64', name: 'endTime', type: 'uint64' },
+    ],
+    name: 'RoundOpened',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: false, internalType: 'uint32', name: 'finalCount', type: 'uint32' },
+    ],
+    name: 'RoundClosed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'submitter', type: 'address' },
+      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+    ],
+    name: 'SalarySubmitted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: false, internalType: 'uint32', name: 'imported', type: 'uint32' },
+      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+    ],
+    name: 'SalariesImported',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'submitter', type: 'address' },
+    ],
+    name: 'SalaryUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'submitter', type: 'address' },
+      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+    ],
+    name: 'SalaryWithdrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+    ],
+    name: 'AnonymousSalarySubmitted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+    ],
+    name: 'AnonymousSalaryUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'bytes32', name: 'nullifier', type: 'bytes32' },
+      { indexed: false, internalType: 'uint32', name: 'newCount', type: 'uint32' },
+    ],
+    name: 'AnonymousSalaryWithdrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: 'address', name: 'relay', type: 'address' }],
+    name: 'RelayUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: 'address', name: 'committee', type: 'address' }],
+    name: 'RevealCommitteeUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'RangeRebuilt',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+    ],
+    name: 'AverageRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'uint64', name: 'average', type: 'uint64' },
+      { indexed: false, internalType: 'uint32', name: 'count', type: 'uint32' },
+    ],
+    name: 'AverageDecrypted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'minHandle', type: 'bytes32' },
+      { indexed: false, internalType: 'bytes32', name: 'maxHandle', type: 'bytes32' },
+    ],
+    name: 'RangeRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'uint32', name: 'min', type: 'uint32' },
+      { indexed: false, internalType: 'uint32', name: 'max', type: 'uint32' },
+    ],
+    name: 'RangeDecrypted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'meanHandle', type: 'bytes32' },
+      { indexed: false, internalType: 'bytes32', name: 'varianceHandle', type: 'bytes32' },
+    ],
+    name: 'StatsRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'uint64', name: 'mean', type: 'uint64' },
+      { indexed: false, internalType: 'uint128', name: 'variance', type: 'uint128' },
+    ],
+    name: 'StatsDecrypted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'enum SalaryLens.Statistic', name: 'percentile', type: 'uint8' },
+      { indexed: false, internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+    ],
+    name: 'PercentileRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'enum SalaryLens.Statistic', name: 'percentile', type: 'uint8' },
+      { indexed: false, internalType: 'uint32', name: 'value', type: 'uint32' },
+    ],
+    name: 'PercentileDecrypted',
+    type: 'event',
+  },  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'enum SalaryLens.Statistic', name: 'component', type: 'uint8' },
+      { indexed: false, internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+    ],
+    name: 'CompensationRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'enum SalaryLens.Statistic', name: 'component', type: 'uint8' },
+      { indexed: false, internalType: 'uint64', name: 'average', type: 'uint64' },
+    ],
+    name: 'CompensationDecrypted',
+    type: 'event',
+  },
+
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bytes32[]', name: 'handles', type: 'bytes32[]' },
+    ],
+    name: 'HistogramRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'uint32[]', name: 'bandCounts', type: 'uint32[]' },
+    ],
+    name: 'HistogramDecrypted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'submitter', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'handle', type: 'bytes32' },
+    ],
+    name: 'AverageCompared',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+    ],
+    name: 'PayGapComputed',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bytes32[]', name: 'handles', type: 'bytes32[]' },
+    ],
+    name: 'PayGapRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { indexed: true, internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+      { indexed: false, internalType: 'bool', name: 'eligible', type: 'bool' },
+      { indexed: false, internalType: 'bool', name: 'cohortBHigher', type: 'bool' },
+      { indexed: false, internalType: 'uint32', name: 'gap', type: 'uint32' },
+    ],
+    name: 'PayGapDecrypted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'previousOwner', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'newOwner', type: 'address' },
+    ],
+    name: 'OwnershipTransferStarted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'previousOwner', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'newOwner', type: 'address' },
+    ],
+    name: 'OwnershipTransferred',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'enum SalaryLens.Role', name: 'role', type: 'uint8' },
+      { indexed: true, internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'RoleGranted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'enum SalaryLens.Role', name: 'role', type: 'uint8' },
+      { indexed: true, internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'RoleRevoked',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'Paused',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'Unpaused',
+    type: 'event',
+  },
+] as const;
+
+// SalaryRelay ABI (the parts the frontend needs to sign gasless salary intents)
+export const SALARY_RELAY_ABI = [
+  {
+    inputs: [{ internalType: 'address', name: '', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// RevealCommittee ABI (the parts the frontend needs to list, propose and approve reveals)
+export const REVEAL_COMMITTEE_ABI = [
+  {
+    inputs: [],
+    name: 'threshold',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getMembers',
+    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: '', type: 'address' }],
+    name: 'isMember',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'proposalCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'proposalId', type: 'uint256' }],
+    name: 'getProposal',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+          { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+          { internalType: 'address', name: 'proposer', type: 'address' },
+          { internalType: 'uint64', name: 'expiresAt', type: 'uint64' },
+          { internalType: 'uint32', name: 'approvals', type: 'uint32' },
+          { internalType: 'bool', name: 'executed', type: 'bool' },
+          { internalType: 'enum RevealCommittee.Reveal', name: 'reveal', type: 'uint8' },
+        ],
+        internalType: 'struct RevealCommittee.Proposal',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: '', type: 'uint256' },
+      { internalType: 'address', name: '', type: 'address' },
+    ],
+    name: 'hasApproved',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'poolId', type: 'uint256' },
+      { internalType: 'uint256', name: 'roundId', type: 'uint256' },
+      { internalType: 'enum RevealCommittee.Reveal', name: 'reveal', type: 'uint8' },
+    ],
+    name: 'propose',
+    outputs: [{ internalType: 'uint256', name: 'proposalId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'proposalId', type: 'uint256' }],
+    name: 'approve',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'proposalId', type: 'uint256' }],
+    name: 'getRevealedHandles',
+    outputs: [{ internalType: 'bytes32[]', name: '', type: 'bytes32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'proposalId', type: 'uint256' },
+      { internalType: 'bytes', name: 'abiEncodedCleartexts', type: 'bytes' },
+      { internalType: 'bytes', name: 'decryptionProof', type: 'bytes' },
+    ],
+    name: 'verify',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// SalaryLensFactory ABI (the parts the frontend needs to list organisation instances)
+export const SALARY_LENS_FACTORY_ABI = [
+  {
+    inputs: [],
+    name: 'getInstanceCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getInstances',
+    outputs: [
+      {
+        components: [
+          { internalType: 'contract SalaryLens', name: 'instance', type: 'address' },
+          { internalType: 'address', name: 'owner', type: 'address' },
+          { internalType: 'string', name: 'name', type: 'string' },
+          { internalType: 'uint32', name: 'minSubmissions', type: 'uint32' },
+          { internalType: 'uint64', name: 'createdAt', type: 'uint64' },
+        ],
+        internalType: 'struct SalaryLensFactory.Instance[]',
+        name: 'page',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const;
@@ -83,17 +83,85 @@ export async function encryptSalary(
   const encrypted = await input.encrypt();
 
   // Convert Uint8Array to hex strings for contract interaction
-  const handleHex = '0x' + Array.from(encrypted.handles[0] as Uint8Array)
-    .map((b: number) => b.toString(16).padStart(2, '0')).join('');
-  const proofHex = '0x' + Array.from(encrypted.inputProof as Uint8Array)
-    .map((b: number) => b.toString(16).padStart(2, '0')).join('');
+  return {
+    encryptedSalary: toHex(encrypted.handles[0]),
+    inputProof: toHex(encrypted.inputProof),
+  };
+}
+
+/**
+ * Encrypt a salary and a cohort flag in one input, for rounds that track cohorts
+ * @param salary - The plaintext salary value
+ * @param inCohortB - Whether the user belongs to the pool's second cohort
+ * @param contractAddress - The address of the SalaryLens contract
+ * @param userAddress - The address of the user submitting
+ * @returns Both encrypted input handles and their shared proof
+ */
+export async function encryptSalaryWithCohort(
+  salary: number,
+  inCohortB: boolean,
+  contractAddress: string,
+  userAddress: string
+): Promise<{ encryptedSalary: string; encryptedInCohortB: string; inputProof: string }> {
+  if (!fhevmInstance) {
+    throw new Error('FHEVM not initialized. Call initializeFhevm first.');
+  }
+
+  const input = fhevmInstance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(salary);
+  input.addBool(inCohortB);
+
+  const encrypted = await input.encrypt();
+
+  return {
+    encryptedSalary: toHex(encrypted.handles[0]),
+    encryptedInCohortB: toHex(encrypted.handles[1]),
+    inputProof: toHex(encrypted.inputProof),
+  };
+}
+
+/**
+ * Encrypt a base salary, bonus and equity in one input, for a single compensation submission
+ * @param salary - The plaintext base salary
+ * @param bonus - The plaintext bonus
+ * @param equity - The plaintext equity
+ * @param contractAddress - The address of the SalaryLens contract
+ * @param userAddress - The address of the user submitting
+ * @returns The three encrypted input handles and their shared proof
+ */
+export async function encryptCompensation(
+  salary: number,
+  bonus: number,
+  equity: number,
+  contractAddress: string,
+  userAddress: string
+): Promise<{ encryptedSalary: string; encryptedBonus: string; encryptedEquity: string; inputProof: string }> {
+  if (!fhevmInstance) {
+    throw new Error('FHEVM not initialized. Call initializeFhevm first.');
+  }
+
+  const input = fhevmInstance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(salary);
+  input.add32(bonus);
+  input.add32(equity);
+
+  const encrypted = await input.encrypt();
 
   return {
-    encryptedSalary: handleHex,
-    inputProof: proofHex,
+    encryptedSalary: toHex(encrypted.handles[0]),
+    encryptedBonus: toHex(encrypted.handles[1]),
+    encryptedEquity: toHex(encrypted.handles[2]),
+    inputProof: toHex(encrypted.inputProof),
   };
 }
 
+/**
+ * Convert bytes returned by the relayer SDK to a hex string
+ */
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Array.from(bytes).map((b: number) => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Request public decryption of ciphertext handles
  * Per docs: https://docs.zama.org/protocol/relayer-sdk-guides/fhevm-relayer/decryption/public-decryption
@@ -203,22 +271,38 @@ export async function userDecrypt(
   contractAddress: string,
   signer: any
 ): Promise<bigint | boolean | string> {
+  const result = await userDecryptAll([handle], contractAddress, signer);
+  return result[handle];
+}
+
+/**
+ * Perform user decryption of several ciphertexts of one contract with a single EIP712 signature
+ * Requires FHE.allow(ciphertext, userAddress) in contract for every handle
+ *
+ * @param handles - The ciphertext handles (hex strings)
+ * @param contractAddress - The contract address holding the ciphertexts
+ * @param signer - ethers Signer for signing EIP712
+ * @returns The decrypted values keyed by handle
+ */
+export async function userDecryptAll(
+  handles: string[],
+  contractAddress: string,
+  signer: any
+): Promise<Record<string, bigint | boolean | string>> {
   if (!fhevmInstance) {
     throw new Error('FHEVM not initialized. Call initializeFhevm first.');
   }
 
-  console.log('[userDecrypt] Starting user decryption for handle:', handle);
+  console.log('[userDecrypt] Starting user decryption for handles:', handles);
   
   // Generate keypair for user decryption
   const keypair = fhevmInstance.generateKeypair();
   console.log('[userDecrypt] Generated keypair');
   
-  const handleContractPairs = [
-    {
-      handle: handle,
-      contractAddress: contractAddress,
-    },
-  ];
+  const handleContractPairs = handles.map((handle) => ({
+    handle: handle,
+    contractAddress: contractAddress,
+  }));
   
   const startTimeStamp = Math.floor(Date.now() / 1000).toString();
   const durationDays = '10';
@@ -259,5 +343,5 @@ export async function userDecrypt(
   
   console.log('[userDecrypt] Result:', result);
   
-  return result[handle];
+  return result;
 }
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Gasless salary submissions through the SalaryRelay contract
+ * @description Signs an EIP-712 salary intent with the user's wallet and posts it to the relayer
+ *              service (scripts/relayer.ts), which submits it and pays the gas
+ */
+
+import { BrowserProvider, Contract } from 'ethers';
+import { CONFIG, SALARY_RELAY_ABI } from './config';
+
+/** How long a signed intent can be submitted for, in seconds */
+const INTENT_LIFETIME = 15 * 60;
+
+/**
+ * EIP-712 type of a salary intent, matching `SalaryRelay.SALARY_INTENT_TYPEHASH`
+ */
+const SALARY_INTENT_TYPES = {
+  SalaryIntent: [
+    { name: 'submitter', type: 'address' },
+    { name: 'poolId', type: 'uint256' },
+    { name: 'encryptedSalary', type: 'bytes32' },
+    { name: 'inputProof', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+/**
+ * Whether a relay is configured for gasless submissions to an instance
+ * @param contractAddress - The SalaryLens instance in use (the relay only serves CONTRACT_ADDRESS)
+ */
+export function isGaslessAvailable(contractAddress: string): boolean {
+  return CONFIG.SALARY_RELAY_ADDRESS !== '' && contractAddress.toLowerCase() === CONFIG.CONTRACT_ADDRESS.toLowerCase();
+}
+
+/**
+ * Sign a salary intent and have the relayer submit it
+ * @param provider - The user's wallet provider (signs the intent, pays nothing)
+ * @param poolId - The pool to submit the salary to
+ * @param encryptedSalary - Salary handle, encrypted for SalaryLens and the relay contract
+ * @param inputProof - Proof of the encrypted input
+ * @param eligibilityProof - Merkle proof of the user's address (empty if the pool has no allowlist)
+ * @returns Hash of the relayer's (confirmed) transaction
+ */
+export async function submitSalaryIntent(
+  provider: BrowserProvider,
+  poolId: number,
+  encryptedSalary: string,
+  inputProof: string,
+  eligibilityProof: string[]
+): Promise<string> {
+  const signer = await provider.getSigner();
+  const submitter = await signer.getAddress();
+  const relay = new Contract(CONFIG.SALARY_RELAY_ADDRESS, SALARY_RELAY_ABI, provider);
+  const { chainId } = await provider.getNetwork();
+
+  const intent = {
+    submitter,
+    poolId,
+    encryptedSalary,
+    inputProof,
+    nonce: Number(await relay.nonces(submitter)),
+    deadline: Math.floor(Date.now() / 1000) + INTENT_LIFETIME,
+  };
+  const signature = await signer.signTypedData(
+    { name: 'SalaryRelay', version: '1', chainId, verifyingContract: CONFIG.SALARY_RELAY_ADDRESS },
+    SALARY_INTENT_TYPES,
+    intent
+  );
+
+  const response = await fetch(`${CONFIG.GASLESS_RELAYER_URL}/intents`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...intent, eligibilityProof, signature }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`Relayer rejected the intent: ${result.error ?? response.status}`);
+  }
+  return result.txHash;
+}
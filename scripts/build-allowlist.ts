@@ -0,0 +1,151 @@
+#!/usr/bin/env ts-node
+/**
+ * @fileoverview CLI tool to build a SalaryLens eligibility allowlist
+ * @description Builds the Merkle tree of eligible employee addresses from a CSV and writes
+ *              the root (for `setEligibilityRoot`) and one proof file per employee
+ *
+ * The first column of each CSV row is read as an address; a header row is skipped.
+ * Leaves and pair hashing match `SalaryLens._isEligible()`.
+ *
+ * Usage:
+ *   npx ts-node scripts/build-allowlist.ts <addresses.csv> [output-dir]
+ *
+ * Output:
+ *   <output-dir>/allowlist.json          root and the proofs of every address
+ *   <output-dir>/proofs/<address>.json   { root, address, proof } to send to each employee
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AbiCoder, concat, getAddress, isAddress, keccak256 } from 'ethers';
+
+/**
+ * Merkle tree of eligible addresses with a proof for each of them
+ */
+export interface Allowlist {
+  root: string;
+  /** Proof of each (checksummed) address, from the leaf up to the root */
+  proofs: Record<string, string[]>;
+}
+
+/**
+ * Compute the leaf of an address: keccak256(bytes.concat(keccak256(abi.encode(account))))
+ */
+export function allowlistLeaf(account: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(['address'], [account])));
+}
+
+/**
+ * Hash two nodes in sorted order, so proofs need no left/right flags
+ */
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Build the allowlist tree of a set of addresses
+ * @param accounts - Eligible addresses (duplicates are ignored)
+ * @returns The root and a proof per checksummed address
+ */
+export function buildAllowlist(accounts: string[]): Allowlist {
+  const unique = [...new Set(accounts.map((account) => getAddress(account)))];
+  if (unique.length === 0) {
+    throw new Error('The allowlist needs at least one address');
+  }
+
+  // Sort leaves so the root does not depend on the CSV order
+  const leaves = unique
+    .map((account) => ({ account, leaf: allowlistLeaf(account) }))
+    .sort((a, b) => (BigInt(a.leaf) < BigInt(b.leaf) ? -1 : 1));
+
+  // layers[0] are the leaves, the last layer holds only the root
+  const layers: string[][] = [leaves.map(({ leaf }) => leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // An odd node out is promoted to the next level unchanged
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  leaves.forEach(({ account }, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (let depth = 0; depth < layers.length - 1; depth++) {
+      const sibling = index ^ 1;
+      if (sibling < layers[depth].length) {
+        proof.push(layers[depth][sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    proofs[account] = proof;
+  });
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+/**
+ * Read the addresses in the first column of a CSV file
+ * @param csvPath - Path to the CSV export (optionally with a header row)
+ */
+function readAddresses(csvPath: string): string[] {
+  const lines = fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/);
+  const addresses: string[] = [];
+
+  lines.forEach((line, index) => {
+    const cell = line.split(',')[0].trim().replace(/^"|"$/g, '');
+    if (cell === '') return;
+    if (!isAddress(cell)) {
+      // Tolerate a header row, reject anything else
+      if (addresses.length === 0 && index === 0) return;
+      throw new Error(`Invalid address on line ${index + 1}: ${cell}`);
+    }
+    addresses.push(cell);
+  });
+
+  return addresses;
+}
+
+/**
+ * Build the allowlist from a CSV and write the root and proof files
+ */
+function main(csvPath: string, outputDir: string): void {
+  console.log(`🌳 Building allowlist from: ${csvPath}`);
+
+  const allowlist = buildAllowlist(readAddresses(csvPath));
+  const accounts = Object.keys(allowlist.proofs);
+
+  const proofsDir = path.join(outputDir, 'proofs');
+  fs.mkdirSync(proofsDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, 'allowlist.json'), JSON.stringify(allowlist, null, 2));
+  for (const address of accounts) {
+    const file = { root: allowlist.root, address, proof: allowlist.proofs[address] };
+    fs.writeFileSync(path.join(proofsDir, `${address}.json`), JSON.stringify(file, null, 2));
+  }
+
+  console.log(`\n✅ ${accounts.length} eligible addresses`);
+  console.log(`   Root: ${allowlist.root}`);
+  console.log(`   Proofs written to: ${proofsDir}`);
+  console.log('\nNext steps:');
+  console.log('  1. Call setEligibilityRoot(poolId, root) while no round of the pool is open');
+  console.log('  2. Send each employee their proofs/<address>.json file to load in the frontend');
+}
+
+// CLI entry point (skipped when imported, e.g. by the tests)
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  if (args.length < 1) {
+    console.log('Usage: npx ts-node scripts/build-allowlist.ts <addresses.csv> [output-dir]');
+    process.exit(1);
+  }
+
+  try {
+    main(args[0], args[1] || './allowlist');
+  } catch (error) {
+    console.error('❌ Failed to build allowlist:', (error as Error).message);
+    process.exit(1);
+  }
+}
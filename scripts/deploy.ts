@@ -16,30 +16,176 @@ async function main() {
   const balance = await ethers.provider.getBalance(deployer.address);
   console.log("Account balance:", ethers.formatEther(balance), "ETH\n");
 
+  // Minimum pool size before an average can be revealed (k-anonymity)
+  const minSubmissions = Number(process.env.MIN_SUBMISSIONS || "5");
+
+  // Deploy the libraries SalaryLens links against (SalaryRounds itself links EncryptedStats)
+  const EncryptedStats = await ethers.getContractFactory("EncryptedStats");
+  const encryptedStats = await EncryptedStats.deploy();
+  await encryptedStats.waitForDeployment();
+  const libraryAddress = await encryptedStats.getAddress();
+  console.log("📚 EncryptedStats library deployed to:", libraryAddress);
+
+  const SalaryRounds = await ethers.getContractFactory("SalaryRounds", {
+    libraries: { EncryptedStats: libraryAddress },
+  });
+  const salaryRounds = await SalaryRounds.deploy();
+  await salaryRounds.waitForDeployment();
+  const roundsLibraryAddress = await salaryRounds.getAddress();
+  console.log("📚 SalaryRounds library deployed to:", roundsLibraryAddress);
+
   // Deploy the contract
-  const SalaryLens = await ethers.getContractFactory("SalaryLens");
-  const salaryLens = await SalaryLens.deploy();
+  const SalaryLens = await ethers.getContractFactory("SalaryLens", {
+    libraries: { EncryptedStats: libraryAddress, SalaryRounds: roundsLibraryAddress },
+  });
+  const salaryLens = await SalaryLens.deploy(minSubmissions);
 
   await salaryLens.waitForDeployment();
   const contractAddress = await salaryLens.getAddress();
 
   console.log("✅ SalaryLens deployed to:", contractAddress);
+
+  // Deploy the relay for gasless submissions (see scripts/relayer.ts) and allow it to submit
+  const SalaryRelay = await ethers.getContractFactory("SalaryRelay");
+  const salaryRelay = await SalaryRelay.deploy(contractAddress);
+  await salaryRelay.waitForDeployment();
+  const relayAddress = await salaryRelay.getAddress();
+  const relayTx = await salaryLens.setRelay(relayAddress);
+  await relayTx.wait();
+  console.log("⛽ SalaryRelay deployed to:", relayAddress);
+
+  // Require M-of-N committee approval for average reveals, if configured
+  const committeeMembers = (process.env.REVEAL_COMMITTEE || "")
+    .split(",")
+    .map((member) => member.trim())
+    .filter((member) => member !== "");
+  let committeeAddress = "";
+  if (committeeMembers.length > 0) {
+    const committeeThreshold = Number(process.env.REVEAL_THRESHOLD || String(committeeMembers.length));
+    const proposalHours = Number(process.env.REVEAL_PROPOSAL_HOURS || "72");
+    const RevealCommittee = await ethers.getContractFactory("RevealCommittee");
+    const revealCommittee = await RevealCommittee.deploy(
+      contractAddress,
+      committeeMembers,
+      committeeThreshold,
+      proposalHours * 60 * 60
+    );
+    await revealCommittee.waitForDeployment();
+    committeeAddress = await revealCommittee.getAddress();
+    const committeeTx = await salaryLens.setRevealCommittee(committeeAddress);
+    await committeeTx.wait();
+    console.log(
+      `🗳️  RevealCommittee deployed to: ${committeeAddress} (${committeeThreshold} of ${committeeMembers.length}, ${proposalHours}h proposals)`
+    );
+  }
+
+  // Deploy the factory other organisations get their own instance from; it clones this
+  // deployment's code (not its pools or owner)
+  const SalaryLensFactory = await ethers.getContractFactory("SalaryLensFactory");
+  const salaryLensFactory = await SalaryLensFactory.deploy(contractAddress);
+  await salaryLensFactory.waitForDeployment();
+  const factoryAddress = await salaryLensFactory.getAddress();
+  console.log("🏭 SalaryLensFactory deployed to:", factoryAddress);
   console.log("\n📋 Deployment Summary:");
   console.log("   Contract:", "SalaryLens");
   console.log("   Address:", contractAddress);
+  console.log("   EncryptedStats library:", libraryAddress);
+  console.log("   SalaryRounds library:", roundsLibraryAddress);
+  console.log("   SalaryRelay:", relayAddress);
+  if (committeeAddress) {
+    console.log("   RevealCommittee:", committeeAddress);
+  }
+  console.log("   SalaryLensFactory:", factoryAddress);
   console.log("   Deployer:", deployer.address);
+  console.log("   Min submissions (k):", minSubmissions);
   console.log("   Network:", (await ethers.provider.getNetwork()).name);
   console.log("   Chain ID:", (await ethers.provider.getNetwork()).chainId.toString());
 
+  // Create the default pool so the frontend has something to submit to
+  const poolLabel = process.env.POOL_LABEL || "All Employees";
+  const poolCurrency = process.env.POOL_CURRENCY || "USD";
+  const poolPeriod = process.env.POOL_PERIOD || "annual";
+  const bandEdges = (process.env.POOL_BAND_EDGES || "40000,60000,80000,100000,150000")
+    .split(",")
+    .map((edge) => Number(edge.trim()));
+  const createTx = await salaryLens.createPool(poolLabel, poolCurrency, poolPeriod, bandEdges);
+  await createTx.wait();
+  console.log(`\n🗂️  Created pool 0: ${poolLabel} (${poolCurrency}, ${poolPeriod})`);
+  console.log("   Band edges:", bandEdges.join(", "));
+
+  // Restrict submissions to an allowlist (root from scripts/build-allowlist.ts), if configured
+  const eligibilityRoot = process.env.ELIGIBILITY_ROOT;
+  if (eligibilityRoot) {
+    const rootTx = await salaryLens.setEligibilityRoot(0, eligibilityRoot);
+    await rootTx.wait();
+    console.log("   Eligibility root:", eligibilityRoot);
+  }
+
+  // Switch the pool to anonymous submissions (e.g. a Semaphore group), if configured
+  const membershipVerifier = process.env.MEMBERSHIP_VERIFIER;
+  if (membershipVerifier) {
+    const membershipRoot = process.env.MEMBERSHIP_ROOT || ethers.ZeroHash;
+    const groupTx = await salaryLens.setMembershipGroup(0, membershipVerifier, membershipRoot);
+    await groupTx.wait();
+    console.log("   Anonymous mode, membership verifier:", membershipVerifier);
+    console.log("   Membership root:", membershipRoot);
+  }
+
+  // Track percentile edges for median/quartile estimates, if configured
+  const percentileEdges = (process.env.POOL_PERCENTILE_EDGES || "")
+    .split(",")
+    .filter((edge) => edge.trim() !== "")
+    .map((edge) => Number(edge.trim()));
+  if (percentileEdges.length > 0) {
+    const edgesTx = await salaryLens.setPercentileEdges(0, percentileEdges);
+    await edgesTx.wait();
+    console.log("   Percentile edges:", percentileEdges.join(", "));
+  }
+
+  // Measure the pay gap between two named cohorts, if configured
+  const cohortLabels = (process.env.POOL_COHORTS || "")
+    .split(",")
+    .map((label) => label.trim())
+    .filter((label) => label !== "");
+  if (cohortLabels.length === 2) {
+    const cohortsTx = await salaryLens.setCohorts(0, cohortLabels[0], cohortLabels[1]);
+    await cohortsTx.wait();
+    console.log("   Cohorts:", cohortLabels.join(" vs "));
+  }
+
+  // Open the first submission round, starting now
+  const roundDays = Number(process.env.ROUND_DURATION_DAYS || "90");
+  const latestBlock = await ethers.provider.getBlock("latest");
+  const startTime = latestBlock!.timestamp;
+  const endTime = startTime + roundDays * 24 * 60 * 60;
+  const roundTx = await salaryLens.openRound(0, startTime, endTime);
+  await roundTx.wait();
+  console.log(`   Opened round 0 until ${new Date(endTime * 1000).toISOString()} (${roundDays} days)`);
+
   // Verify initial state
-  const count = await salaryLens.getCount();
+  const poolCount = await salaryLens.poolCount();
+  const count = await salaryLens.getCount(0);
   console.log("\n🔍 Initial State:");
-  console.log("   Count:", count.toString());
+  console.log("   Pools:", poolCount.toString());
+  console.log("   Count (pool 0, round 0):", count.toString());
 
   console.log("\n🎉 Deployment complete!");
   console.log("\n💡 Next steps:");
-  console.log("   1. Update frontend/src/config.ts with the contract address");
-  console.log("   2. Run the frontend: cd frontend && npm run dev");
+  console.log("   1. Update frontend/src/config.ts with the contract, relay and factory addresses");
+  console.log("   2. Create more pools with createPool(label, currency, period, bandEdges) as needed");
+  console.log("      and open a round for each with openRound(poolId, startTime, endTime)");
+  console.log("   3. To restrict who may submit, build an allowlist with scripts/build-allowlist.ts");
+  console.log("      and call setEligibilityRoot(poolId, root) between rounds");
+  console.log("   4. To hide who submitted, call setMembershipGroup(poolId, verifier, root) between rounds");
+  console.log("   5. To estimate medians and quartiles, call setPercentileEdges(poolId, edges) between rounds");
+  console.log("   6. For gasless submissions, run a relayer: RELAY_ADDRESS=<relay> npx hardhat run scripts/relayer.ts");
+  console.log("   7. Give each organisation its own instance with createInstance(name, owner, minSubmissions)");
+  console.log("      on the factory; the frontend lists them without a new build");
+  console.log("   8. Delegate with grantRole(role, account): admins (0) configure pools and import salaries,");
+  console.log("      operators (1) open and close rounds; both can pause() in an emergency");
+  console.log("   9. To require committee approval for average reveals, redeploy with REVEAL_COMMITTEE=<members>");
+  console.log("      (and REVEAL_THRESHOLD) or call setRevealCommittee(committee) with your own RevealCommittee");
+  console.log("  10. Run the frontend: cd frontend && npm run dev");
 
   return contractAddress;
 }
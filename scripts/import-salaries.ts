@@ -0,0 +1,238 @@
+#!/usr/bin/env ts-node
+/**
+ * @fileoverview CLI tool to import a payroll export into a SalaryLens round
+ * @description Encrypts the salaries of a CSV with the Zama relayer SDK and submits them with
+ *              `importSalaries` in gas-bounded chunks, saving progress after every transaction
+ *              so an interrupted import can be resumed by running the same command again
+ *
+ * Each CSV row is `employeeId,salary`; a header row is skipped. The row ID sent on-chain is
+ * keccak256 of the employee ID, and the contract skips rows it already imported into the round,
+ * so re-sending a chunk never counts a salary twice.
+ *
+ * Usage:
+ *   PRIVATE_KEY=0x... INFURA_API_KEY=... \
+ *     npx ts-node scripts/import-salaries.ts <salaries.csv> <contract-address> <pool-id> [chunk-size] [max-gas]
+ *
+ * RPC_URL overrides the Sepolia Infura endpoint. The key must be the owner's or an admin's.
+ *
+ * Output:
+ *   <salaries.csv>.progress.json   rows imported so far into the round and the transaction of each chunk
+ */
+
+import * as fs from 'fs';
+import 'dotenv/config';
+import { JsonRpcProvider, Wallet, hexlify, id, isAddress } from 'ethers';
+import { SalaryLens, SalaryLens__factory } from '../typechain-types';
+
+/** Most 32-bit values one encrypted input can hold (2048 bits) */
+const MAX_CHUNK_SIZE = 64;
+
+/** Largest value of a euint32 salary */
+const MAX_SALARY = 2 ** 32 - 1;
+
+/** `SalaryLens.Role.Admin`, the role `importSalaries` requires */
+const ADMIN_ROLE = 0;
+
+/**
+ * A salary row of the payroll export
+ */
+export interface ImportRow {
+  employeeId: string;
+  /** keccak256 of the employee ID, the row ID passed to `importSalaries` */
+  rowId: string;
+  salary: number;
+}
+
+/**
+ * Progress of an import, saved next to the CSV
+ */
+export interface ImportProgress {
+  contract: string;
+  poolId: number;
+  /** The round the rows were imported into; row IDs are only skipped within a round */
+  roundId: number;
+  /** Number of CSV rows (in file order) that have been imported */
+  imported: number;
+  /** Hash of every import transaction sent */
+  transactions: string[];
+}
+
+/**
+ * Compute the on-chain row ID of an employee
+ */
+export function importRowId(employeeId: string): string {
+  return id(employeeId);
+}
+
+/**
+ * Read the salary rows of a CSV file
+ * @param csvPath - Path to the payroll export (optionally with a header row)
+ */
+export function readImportRows(csvPath: string): ImportRow[] {
+  const lines = fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/);
+  const rows: ImportRow[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((line, index) => {
+    const [employeeId = '', salaryCell = ''] = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    if (employeeId === '' && salaryCell === '') return;
+
+    const salary = Number(salaryCell);
+    if (!/^\d+$/.test(salaryCell) || salary > MAX_SALARY) {
+      // Tolerate a header row, reject anything else
+      if (rows.length === 0 && index === 0) return;
+      throw new Error(`Invalid salary on line ${index + 1}: ${salaryCell}`);
+    }
+    if (employeeId === '' || seen.has(employeeId)) {
+      throw new Error(`Missing or duplicate employee ID on line ${index + 1}: ${employeeId}`);
+    }
+
+    seen.add(employeeId);
+    rows.push({ employeeId, rowId: importRowId(employeeId), salary });
+  });
+
+  return rows;
+}
+
+/**
+ * Load the progress of an earlier run into the same round, or start a new one
+ * @dev A progress file of another round is rejected: its rows were not imported into this one,
+ *      so resuming would skip them
+ */
+export function loadProgress(progressPath: string, contract: string, poolId: number, roundId: number): ImportProgress {
+  if (!fs.existsSync(progressPath)) {
+    return { contract, poolId, roundId, imported: 0, transactions: [] };
+  }
+
+  const progress = JSON.parse(fs.readFileSync(progressPath, 'utf-8')) as ImportProgress;
+  if (
+    progress.contract.toLowerCase() !== contract.toLowerCase() ||
+    progress.poolId !== poolId ||
+    progress.roundId !== roundId
+  ) {
+    throw new Error(
+      `${progressPath} belongs to round ${progress.roundId} of pool ${progress.poolId} of ${progress.contract}; ` +
+        'delete it to import elsewhere'
+    );
+  }
+  return progress;
+}
+
+/**
+ * Encrypt a chunk of rows and import it, halving the chunk while it exceeds the gas limit
+ * @param salaryLens - The SalaryLens contract, connected to the admin's wallet
+ * @param encrypt - Encrypts salaries for the contract and the admin
+ * @param poolId - The pool to import into
+ * @param rows - The rows of the chunk
+ * @param maxGas - Most gas a single import transaction may use
+ * @param onImported - Called after each confirmed transaction with its row count and hash
+ */
+async function importChunk(
+  salaryLens: SalaryLens,
+  encrypt: (salaries: number[]) => Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>,
+  poolId: number,
+  rows: ImportRow[],
+  maxGas: bigint,
+  onImported: (rowCount: number, txHash: string) => void
+): Promise<void> {
+  const splitAndImport = async () => {
+    const half = Math.ceil(rows.length / 2);
+    await importChunk(salaryLens, encrypt, poolId, rows.slice(0, half), maxGas, onImported);
+    await importChunk(salaryLens, encrypt, poolId, rows.slice(half), maxGas, onImported);
+  };
+
+  const { handles, inputProof } = await encrypt(rows.map((row) => row.salary));
+  const args = [poolId, rows.map((row) => row.rowId), handles.map((handle) => hexlify(handle)), hexlify(inputProof)] as const;
+
+  let gas: bigint;
+  try {
+    gas = await salaryLens.importSalaries.estimateGas(...args);
+  } catch (error) {
+    // A chunk above the coprocessor's per-transaction limit reverts as a whole
+    if (rows.length > 1) return splitAndImport();
+    throw error;
+  }
+  if (gas > maxGas) {
+    if (rows.length > 1) return splitAndImport();
+    throw new Error(`Importing a single salary needs ${gas} gas, above the limit of ${maxGas}`);
+  }
+
+  const tx = await salaryLens.importSalaries(...args, { gasLimit: gas });
+  await tx.wait();
+  onImported(rows.length, tx.hash);
+}
+
+/**
+ * Import the rows of a CSV into the current round of a pool, resuming an earlier run
+ */
+async function main(csvPath: string, contractAddress: string, poolId: number, chunkSize: number, maxGas: bigint) {
+  const rpcUrl = process.env.RPC_URL || `https://sepolia.infura.io/v3/${process.env.INFURA_API_KEY}`;
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('Set PRIVATE_KEY to the key of the contract owner or an admin');
+  }
+  if (!isAddress(contractAddress) || !Number.isInteger(poolId) || poolId < 0) {
+    throw new Error('Invalid contract address or pool ID');
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`The chunk size must be between 1 and ${MAX_CHUNK_SIZE}`);
+  }
+
+  const admin = new Wallet(process.env.PRIVATE_KEY, new JsonRpcProvider(rpcUrl));
+  const salaryLens = SalaryLens__factory.connect(contractAddress, admin);
+  if (!(await salaryLens.hasRole(ADMIN_ROLE, admin.address))) {
+    throw new Error(`${admin.address} is not an admin of ${contractAddress}`);
+  }
+
+  // importSalaries always targets the pool's current round
+  const [, , , roundCount] = await salaryLens.getPool(poolId);
+  const roundId = Number(roundCount) - 1;
+
+  const rows = readImportRows(csvPath);
+  const progressPath = `${csvPath}.progress.json`;
+  const progress = loadProgress(progressPath, contractAddress, poolId, roundId);
+
+  console.log(`📥 Importing ${rows.length} salaries from: ${csvPath}`);
+  console.log(`   Round ${roundId} of pool ${poolId} of ${contractAddress}`);
+  if (progress.imported > 0) {
+    console.log(`   Resuming after ${progress.imported} rows`);
+  }
+
+  // Loaded here so the CSV helpers can be imported without the SDK's WASM
+  const { createInstance, SepoliaConfig } = await import('@zama-fhe/relayer-sdk/node');
+  const fhevm = await createInstance({ ...SepoliaConfig, network: rpcUrl });
+  const encrypt = (salaries: number[]) => {
+    const input = fhevm.createEncryptedInput(contractAddress, admin.address);
+    salaries.forEach((salary) => input.add32(salary));
+    return input.encrypt();
+  };
+
+  for (let start = progress.imported; start < rows.length; start = progress.imported) {
+    const chunk = rows.slice(start, start + chunkSize);
+    await importChunk(salaryLens, encrypt, poolId, chunk, maxGas, (rowCount, txHash) => {
+      progress.imported += rowCount;
+      progress.transactions.push(txHash);
+      fs.writeFileSync(progressPath, JSON.stringify(progress, null, 2));
+      console.log(`   ${progress.imported}/${rows.length} rows (${txHash})`);
+    });
+  }
+
+  console.log(`\n✅ Imported ${rows.length} salaries`);
+  console.log(`   Round count: ${await salaryLens.getCount(poolId)}`);
+  console.log(`   Progress saved to: ${progressPath}`);
+}
+
+// CLI entry point (skipped when imported, e.g. by the tests)
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  if (args.length < 3) {
+    console.log(
+      'Usage: npx ts-node scripts/import-salaries.ts <salaries.csv> <contract-address> <pool-id> [chunk-size] [max-gas]'
+    );
+    process.exit(1);
+  }
+
+  main(args[0], args[1], Number(args[2]), Number(args[3] || '16'), BigInt(args[4] || '10000000')).catch((error) => {
+    console.error('❌ Import failed:', (error as Error).message);
+    process.exit(1);
+  });
+}
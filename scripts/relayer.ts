@@ -0,0 +1,245 @@
+import * as http from "http";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Provider, TypedDataDomain, verifyTypedData } from "ethers";
+import { SalaryRelay, SalaryLens__factory, SalaryRelay__factory } from "../typechain-types";
+
+/**
+ * @fileoverview Local relayer for gasless SalaryLens submissions
+ * @description Accepts EIP-712 signed salary intents over HTTP and submits them through the
+ *              SalaryRelay contract, paying the gas with the relayer's own account
+ *
+ * Usage:
+ *   npx hardhat node
+ *   npx hardhat run scripts/deploy.ts --network localhost        (deploys SalaryRelay too)
+ *   RELAY_ADDRESS=0x... npx hardhat run scripts/relayer.ts --network localhost
+ *
+ * Endpoints:
+ *   GET  /info      { relay, relayer, chainId } - the relay address to encrypt salaries for
+ *   POST /intents   SalaryIntentRequest as JSON -> { txHash, nonce }
+ */
+
+/** Largest request body accepted, in bytes (an intent with a proof is a few KB) */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * EIP-712 type of a salary intent, matching `SalaryRelay.SALARY_INTENT_TYPEHASH`
+ */
+export const SALARY_INTENT_TYPES = {
+  SalaryIntent: [
+    { name: "submitter", type: "address" },
+    { name: "poolId", type: "uint256" },
+    { name: "encryptedSalary", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * A signed intent as posted by the frontend
+ */
+export interface SalaryIntentRequest {
+  submitter: string;
+  poolId: number;
+  /** Ciphertext handle, encrypted for SalaryLens and the relay contract */
+  encryptedSalary: string;
+  inputProof: string;
+  /** Merkle proof of the submitter's address (empty if the pool has no allowlist) */
+  eligibilityProof: string[];
+  /** Unix timestamp (seconds) after which the intent expires */
+  deadline: number;
+  /** EIP-712 signature of the intent for the submitter's current nonce */
+  signature: string;
+}
+
+/**
+ * Error with the HTTP status to answer with
+ */
+class RelayerError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Get the EIP-712 domain of a relay contract
+ * @param relay - The SalaryRelay contract
+ * @param provider - A provider of the network the relay is deployed on
+ */
+export async function relayDomain(relay: SalaryRelay, provider: Provider): Promise<TypedDataDomain> {
+  const { chainId } = await provider.getNetwork();
+  return { name: "SalaryRelay", version: "1", chainId, verifyingContract: await relay.getAddress() };
+}
+
+/**
+ * Name the custom error of a failed call, whether raised by SalaryRelay or SalaryLens
+ */
+function revertReason(error: unknown): string {
+  const data = (error as { data?: string }).data;
+  for (const contractInterface of [SalaryRelay__factory.createInterface(), SalaryLens__factory.createInterface()]) {
+    const parsed = data ? contractInterface.parseError(data) : null;
+    if (parsed) return parsed.name;
+  }
+  return (error as Error).message;
+}
+
+/**
+ * Check a signed intent and submit it through the relay
+ * @param relay - The SalaryRelay contract
+ * @param relayer - The relayer's signer, which pays the gas
+ * @param intent - The intent posted by the submitter
+ * @returns The transaction hash and the nonce the intent consumed
+ */
+export async function relayIntent(
+  relay: SalaryRelay,
+  relayer: HardhatEthersSigner,
+  intent: SalaryIntentRequest
+): Promise<{ txHash: string; nonce: number }> {
+  if (!ethers.isAddress(intent.submitter) || !ethers.isHexString(intent.encryptedSalary, 32)) {
+    throw new RelayerError(400, "Malformed intent");
+  }
+  if (intent.deadline < Math.floor(Date.now() / 1000)) {
+    throw new RelayerError(400, "IntentExpired");
+  }
+
+  const relayed = relay.connect(relayer);
+
+  // Check the signature before spending gas on it
+  const nonce = await relayed.nonces(intent.submitter);
+  const message = {
+    submitter: intent.submitter,
+    poolId: intent.poolId,
+    encryptedSalary: intent.encryptedSalary,
+    inputProof: intent.inputProof,
+    nonce,
+    deadline: intent.deadline,
+  };
+  let signer: string;
+  try {
+    const domain = await relayDomain(relay, relayer.provider);
+    signer = verifyTypedData(domain, SALARY_INTENT_TYPES, message, intent.signature);
+  } catch {
+    throw new RelayerError(400, "InvalidSignature");
+  }
+  if (signer !== ethers.getAddress(intent.submitter)) {
+    throw new RelayerError(400, "InvalidSignature");
+  }
+
+  const args = [
+    intent.submitter,
+    intent.poolId,
+    intent.encryptedSalary,
+    intent.inputProof,
+    intent.eligibilityProof ?? [],
+    intent.deadline,
+    intent.signature,
+  ] as const;
+
+  // Simulate first, so intents SalaryLens would reject (e.g. AlreadySubmitted) cost nothing
+  try {
+    await relayed.submitSalary.staticCall(...args);
+  } catch (error) {
+    throw new RelayerError(400, revertReason(error));
+  }
+
+  const tx = await relayed.submitSalary(...args);
+  await tx.wait();
+  return { txHash: tx.hash, nonce: Number(nonce) };
+}
+
+/**
+ * Read a JSON request body
+ */
+function readJson(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new RelayerError(413, "Request too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new RelayerError(400, "Invalid JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Create the relayer's HTTP server (not yet listening)
+ * @param relay - The SalaryRelay contract
+ * @param relayer - The relayer's signer, which pays the gas
+ */
+export function createRelayerServer(relay: SalaryRelay, relayer: HardhatEthersSigner): http.Server {
+  return http.createServer(async (request, response) => {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        // The frontend is served from another origin
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    try {
+      if (request.method === "OPTIONS") {
+        reply(204, undefined);
+      } else if (request.method === "GET" && request.url === "/info") {
+        const { chainId } = await relayer.provider.getNetwork();
+        reply(200, { relay: await relay.getAddress(), relayer: relayer.address, chainId: Number(chainId) });
+      } else if (request.method === "POST" && request.url === "/intents") {
+        const intent = (await readJson(request)) as SalaryIntentRequest;
+        const result = await relayIntent(relay, relayer, intent);
+        console.log(`📨 Relayed salary of ${intent.submitter} to pool ${intent.poolId}: ${result.txHash}`);
+        reply(200, result);
+      } else {
+        reply(404, { error: "Not found" });
+      }
+    } catch (error) {
+      const status = error instanceof RelayerError ? error.status : 500;
+      console.error(`❌ ${request.method} ${request.url} failed:`, (error as Error).message);
+      reply(status, { error: (error as Error).message });
+    }
+  });
+}
+
+/**
+ * Start the relayer for the SalaryRelay at RELAY_ADDRESS, paying gas with the first account
+ */
+async function main() {
+  const relayAddress = process.env.RELAY_ADDRESS;
+  if (!relayAddress) {
+    throw new Error("Set RELAY_ADDRESS to the SalaryRelay contract address");
+  }
+  const port = Number(process.env.RELAYER_PORT || "8787");
+
+  const [relayer] = await ethers.getSigners();
+  const relay = SalaryRelay__factory.connect(relayAddress, relayer);
+  const balance = await ethers.provider.getBalance(relayer.address);
+
+  console.log("⛽ Starting SalaryLens relayer...\n");
+  console.log("   Relay contract:", relayAddress);
+  console.log("   Relayer account:", relayer.address);
+  console.log("   Balance:", ethers.formatEther(balance), "ETH");
+
+  createRelayerServer(relay, relayer).listen(port, () => {
+    console.log(`\n✅ Listening on http://localhost:${port}`);
+    console.log("   Set GASLESS_RELAYER_URL in frontend/src/config.ts to this URL");
+  });
+}
+
+// Entry point (skipped when imported, e.g. by the tests)
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("❌ Relayer failed:", error);
+    process.exit(1);
+  });
+}
@@ -1,8 +1,16 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
-import { SalaryLens } from "../typechain-types";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { RevealCommittee, SalaryLens, SalaryLensFactory, SalaryRelay } from "../typechain-types";
+import { buildAllowlist } from "../scripts/build-allowlist";
+import { SALARY_INTENT_TYPES, createRelayerServer, relayDomain } from "../scripts/relayer";
+import { importRowId, loadProgress, readImportRows } from "../scripts/import-salaries";
 
 /**
  * @fileoverview Comprehensive test suite for the SalaryLens contract
@@ -14,238 +22,4107 @@ import { SalaryLens } from "../typechain-types";
  *
  * ## Test Coverage
  * - Contract deployment and initialization
+ * - Instance factory: initialized minimal proxy clones, isolation between instances and the registry
+ * - Admin and operator roles, the pause switch and two-step ownership transfer
+ * - Auditors: a bounded auditor role and access to the encrypted aggregate handles
+ * - Pool creation and isolation between pools
  * - Encrypted salary submission
  * - Duplicate submission prevention
- * - Average calculation with division by zero protection
+ * - Average calculation with division by zero protection, over 64-bit totals above 2^32
+ * - One shared, cached average per data version instead of per-requester decryptions
+ * - Sample size recorded with each pending and verified average
+ * - Per-pool history of verified averages and its paginated getters
+ * - Committee-approved reveals: M-of-N approvals, proposal expiry and committee-only requests of the average and the statistics derived from it
+ * - Minimum-submission (k-anonymity) threshold before reveal
+ * - Encrypted lowest/highest salary tracking and range decryption requests
+ * - Encrypted sum of squares and mean/variance decryption requests
+ * - Percentile edges and median/quartile estimate requests
+ * - Encrypted salary-band histogram configuration and decryption requests
+ * - Updating and withdrawing a submitted salary, and rebuilding the outdated range
+ * - Private submission receipts (per-submitter ciphertext handles)
+ * - Private comparison of a submitter's salary with the round average
+ * - Cohort-flagged submissions and the chunked, thresholded pay-gap computation
+ * - Multi-component compensation (base, bonus, equity) and per-component average requests
+ * - Submission rounds: time windows, closing, fresh state per round and past-round queries
+ * - Merkle eligibility allowlist: root rotation between rounds and proof checks on submission
+ * - Anonymous submissions: nullifier uniqueness, relaying and proof binding to action and ciphertext
+ * - Gasless submissions: EIP-712 intents with nonces and deadlines, and the local relayer service
+ * - Admin bulk imports: batched rows keyed by row ID, skipped re-imports and the CSV parser
+ * - Encrypted salary bounds: oblivious clamping and per-submitter accepted flags
  * - Gateway callback handling
  */
 
 /**
- * @notice Helper function to create mock encrypted input for testing
- * @dev In production, this would use fhevmjs to create real encrypted values
- * @param value - The plaintext value to "encrypt" for testing
- * @returns Mock encrypted input and proof
+ * @notice Encrypt a salary with the mock FHEVM of the Hardhat network
+ * @dev The input passes FHE.fromExternal(), so the aggregates can be decrypted and checked
+ * @param contract - The contract the input is bound to
+ * @param submitter - The account the input is bound to (the sender of the submission)
+ * @param value - The plaintext salary
+ * @returns Encrypted input and proof
  */
-function createMockEncryptedInput(value: number): {
-  encryptedSalary: string;
-  inputProof: string;
-} {
-  // For local testing, we create mock data
-  // In real tests on Zama devnet, use fhevmjs encryption
-  const encryptedSalary = ethers.zeroPadValue(ethers.toBeHex(value), 32);
-  const inputProof = "0x";
-  return { encryptedSalary, inputProof };
+async function encryptSalary(
+  contract: SalaryLens,
+  submitter: HardhatEthersSigner,
+  value: number
+): Promise<{ encryptedSalary: string; inputProof: string }> {
+  const { handles, inputProof } = await fhevm
+    .createEncryptedInput(await contract.getAddress(), submitter.address)
+    .add32(value)
+    .encrypt();
+  return { encryptedSalary: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
 }
 
+/** Highest block a finished test reached; the mock coprocessor may have read FHE events up to it */
+let mockCoprocessorHead = 0;
+
+/**
+ * @notice Mine past every block a previous test reached, before submitting inputs the test decrypts
+ * @dev The mock coprocessor reads FHE events forward from the last block it saw and ignores the
+ *      snapshot reverts of loadFixture(), so events below that block would never be decrypted.
+ *      Fixtures that submit salaries call it too, as their first run starts wherever the
+ *      previous test left the chain.
+ */
+async function mineAboveMockCoprocessorHead(): Promise<void> {
+  const blockNumber = await ethers.provider.getBlockNumber();
+  if (blockNumber <= mockCoprocessorHead) {
+    await mine(mockCoprocessorHead - blockNumber + 1);
+  }
+}
+
+/** `SalaryLens.Role.Auditor` */
+const AUDITOR_ROLE = 2;
+
+/**
+ * @notice Decrypt a round's encrypted aggregates as an auditor
+ * @dev Grants the auditor role (as the contract's runner, i.e. its owner) and access to the current
+ *      handles first. Call mineAboveMockCoprocessorHead() before the submissions being decrypted.
+ * @param contract - The contract holding the round
+ * @param auditor - The account that decrypts the aggregates
+ * @param poolId - The pool of the round
+ * @param roundId - The round to decrypt (needs at least one submission)
+ * @returns The total, sum of squares, minimum and maximum
+ */
+async function decryptAggregates(
+  contract: SalaryLens,
+  auditor: HardhatEthersSigner,
+  poolId: number,
+  roundId: number
+): Promise<{ total: bigint; sumOfSquares: bigint; min: bigint; max: bigint }> {
+  if (!(await contract.hasRole(AUDITOR_ROLE, auditor.address))) {
+    await contract.grantRole(AUDITOR_ROLE, auditor.address);
+  }
+  await contract.connect(auditor).requestAuditAccess(poolId, roundId);
+
+  const contractAddress = await contract.getAddress();
+  const [total, sumOfSquares, min, max] = await contract.getAuditHandles(poolId, roundId);
+  return {
+    total: await fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, auditor),
+    sumOfSquares: await fhevm.userDecryptEuint(FhevmType.euint128, sumOfSquares, contractAddress, auditor),
+    min: await fhevm.userDecryptEuint(FhevmType.euint32, min, contractAddress, auditor),
+    max: await fhevm.userDecryptEuint(FhevmType.euint32, max, contractAddress, auditor),
+  };
+}
+
+/**
+ * @notice Publicly decrypt a round's pending average and verify it on-chain
+ * @dev Call mineAboveMockCoprocessorHead() before the submissions being decrypted
+ * @param contract - The contract holding the round
+ * @param poolId - The pool of the round
+ * @param roundId - The round whose average was requested
+ */
+async function verifyPendingAverage(contract: SalaryLens, poolId: number, roundId: number): Promise<void> {
+  const [handle] = await contract.getPendingHandle(poolId, roundId);
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  await contract.verifyDecryption(poolId, roundId, abiEncodedClearValues, decryptionProof);
+}
+
+/** ID of the pool created by the fixture */
+const POOL_ID = 0;
+
+/** Minimum submissions (k) the fixture deploys with */
+const MIN_SUBMISSIONS = 3;
+
+/** Band edges of the fixture pool: <40k, 40k-60k, 60k-80k, >=80k */
+const BAND_EDGES = [40000, 60000, 80000];
+
+/** ID of the round opened by the fixture */
+const ROUND_ID = 0;
+
+/** Length of the fixture round in seconds (one week) */
+const ROUND_DURATION = 7 * 24 * 60 * 60;
+
+/** How long a reveal committee proposal can be approved for, in seconds (one day) */
+const PROPOSAL_LIFETIME = 24 * 60 * 60;
+
 describe("SalaryLens", function () {
+  afterEach(async function () {
+    mockCoprocessorHead = Math.max(mockCoprocessorHead, await ethers.provider.getBlockNumber());
+  });
+
+  /**
+   * @notice Get the SalaryLens contract factory, linked to freshly deployed EncryptedStats and SalaryRounds libraries
+   */
+  async function getSalaryLensFactory() {
+    const EncryptedStatsFactory = await ethers.getContractFactory("EncryptedStats");
+    const encryptedStats = await EncryptedStatsFactory.deploy();
+    await encryptedStats.waitForDeployment();
+    const libraries = { EncryptedStats: await encryptedStats.getAddress() };
+
+    const SalaryRoundsFactory = await ethers.getContractFactory("SalaryRounds", { libraries });
+    const salaryRounds = await SalaryRoundsFactory.deploy();
+    await salaryRounds.waitForDeployment();
+
+    return ethers.getContractFactory("SalaryLens", {
+      libraries: { ...libraries, SalaryRounds: await salaryRounds.getAddress() },
+    });
+  }
+
   /**
    * @notice Fixture to deploy a fresh SalaryLens contract for each test
-   * @dev Uses Hardhat's loadFixture for efficient test isolation
+   * @dev Uses Hardhat's loadFixture for efficient test isolation.
+   *      Creates a single pool (ID 0) with an open round (ID 0) that most tests submit to.
    * @returns Contract instance and test signers
    */
   async function deploySalaryLensFixture() {
     const [owner, alice, bob, charlie, dave] = await ethers.getSigners();
 
-    const SalaryLensFactory = await ethers.getContractFactory("SalaryLens");
-    const salaryLens = await SalaryLensFactory.deploy();
-    await salaryLens.waitForDeployment();
+    const SalaryLensFactory = await getSalaryLensFactory();
+    const salaryLens = await SalaryLensFactory.deploy(MIN_SUBMISSIONS);
+    await salaryLens.waitForDeployment();
+
+    await salaryLens.createPool("Engineering", "USD", "annual", BAND_EDGES);
+
+    const now = await time.latest();
+    await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+    return { salaryLens, owner, alice, bob, charlie, dave };
+  }
+
+  // ============ Deployment Tests ============
+
+  describe("Deployment", function () {
+    /**
+     * @notice Verify contract deploys with correct initial state
+     * @dev Count should be 0 and no addresses should be marked as submitted
+     */
+    it("Should deploy with zero count", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+    });
+
+    /**
+     * @notice Verify no user has submitted initially
+     * @dev All hasSubmitted mappings should return false
+     */
+    it("Should have no submitted users initially", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.false;
+    });
+
+    /**
+     * @notice Verify no average has been verified initially
+     * @dev The shared latest verified average should be all zeros
+     */
+    it("Should have no verified average initially", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID)).to.deep.equal([0, 0, 0, 0, 0]);
+    });
+
+    /**
+     * @notice Verify the deployer becomes the owner
+     * @dev Only the owner and admins may create pools
+     */
+    it("Should set the deployer as owner", async function () {
+      const { salaryLens, owner } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.owner()).to.equal(owner.address);
+    });
+
+    /**
+     * @notice Verify the k-anonymity threshold is stored and validated
+     * @dev A threshold of 0 would allow revealing a single salary
+     */
+    it("Should store minSubmissions and reject a zero threshold", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.minSubmissions()).to.equal(MIN_SUBMISSIONS);
+
+      const SalaryLensFactory = await getSalaryLensFactory();
+      await expect(SalaryLensFactory.deploy(0)).to.be.revertedWithCustomError(
+        salaryLens,
+        "InvalidMinSubmissions"
+      );
+    });
+  });
+
+  // ============ Factory Tests ============
+
+  describe("Instance Factory", function () {
+    /**
+     * @notice Deploy a SalaryLensFactory that clones the fixture contract
+     * @dev The fixture contract only lends its code; its pools are not copied
+     */
+    async function deployInstanceFactoryFixture() {
+      const fixture = await deploySalaryLensFixture();
+
+      const Factory = await ethers.getContractFactory("SalaryLensFactory");
+      const factory = await Factory.deploy(await fixture.salaryLens.getAddress());
+      await factory.waitForDeployment();
+
+      return { ...fixture, factory };
+    }
+
+    /**
+     * @notice Create an instance and attach the SalaryLens interface to it
+     */
+    async function createInstance(factory: SalaryLensFactory, name: string, owner: string, minSubmissions: number) {
+      const instanceId = await factory.getInstanceCount();
+      await factory.createInstance(name, owner, minSubmissions);
+      const { instance } = await factory.getInstance(instanceId);
+      return ethers.getContractAt("SalaryLens", instance);
+    }
+
+    /**
+     * @notice Test that an instance is created, initialized and registered
+     * @dev The registry keeps the instance's owner, name and settings
+     */
+    it("Should create and register an initialized instance", async function () {
+      const { factory, alice, bob } = await loadFixture(deployInstanceFactoryFixture);
+
+      await expect(factory.connect(bob).createInstance("Acme Corp", alice.address, 5))
+        .to.emit(factory, "InstanceCreated")
+        .withArgs(0, anyValue, alice.address, "Acme Corp", 5);
+
+      const registered = await factory.getInstance(0);
+      expect(registered.owner).to.equal(alice.address);
+      expect(registered.name).to.equal("Acme Corp");
+      expect(registered.minSubmissions).to.equal(5);
+
+      const instance = await ethers.getContractAt("SalaryLens", registered.instance);
+      expect(await instance.owner()).to.equal(alice.address);
+      expect(await instance.minSubmissions()).to.equal(5);
+      expect(await instance.poolCount()).to.equal(0);
+    });
+
+    /**
+     * @notice Test that instances are isolated from each other and from the implementation
+     * @dev Pools, submissions and ownership belong to a single instance
+     */
+    it("Should keep instances isolated", async function () {
+      const { salaryLens, factory, alice, bob, charlie, dave } = await loadFixture(deployInstanceFactoryFixture);
+      await mineAboveMockCoprocessorHead();
+      const acme = await createInstance(factory, "Acme Corp", alice.address, 2);
+      const globex = await createInstance(factory, "Globex", bob.address, 2);
+
+      await expect(acme.connect(bob).createPool("Engineering", "USD", "annual", BAND_EDGES))
+        .to.be.revertedWithCustomError(acme, "MissingRole");
+      const now = await time.latest();
+      for (const [instance, owner] of [[acme, alice], [globex, bob]] as const) {
+        await instance.connect(owner).createPool("Engineering", "USD", "annual", BAND_EDGES);
+        await instance.connect(owner).openRound(POOL_ID, now, now + ROUND_DURATION);
+      }
+
+      // charlie submits to both instances, dave only to Globex
+      const acmeSalary = await encryptSalary(acme, charlie, 50000);
+      await expect(acme.connect(charlie).addSalary(POOL_ID, acmeSalary.encryptedSalary, acmeSalary.inputProof, []))
+        .to.emit(acme, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, charlie.address, 1);
+      for (const [user, value] of [[charlie, 70000], [dave, 90000]] as const) {
+        const { encryptedSalary, inputProof } = await encryptSalary(globex, user, value);
+        await globex.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      expect(await acme.getCount(POOL_ID)).to.equal(1);
+      expect(await globex.getCount(POOL_ID)).to.equal(2);
+      expect(await salaryLens.poolCount()).to.equal(1);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, charlie.address)).to.be.false;
+
+      // Each owner audits their own instance only
+      expect((await decryptAggregates(acme.connect(alice), alice, POOL_ID, ROUND_ID)).total).to.equal(50000);
+      expect((await decryptAggregates(globex.connect(bob), bob, POOL_ID, ROUND_ID)).total).to.equal(160000);
+      await expect(acme.connect(bob).requestAuditAccess(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(acme, "MissingRole");
+    });
+
+    /**
+     * @notice Test that instances cannot be re-initialized
+     * @dev Neither a clone nor a constructor-deployed contract can change owner through initialize()
+     */
+    it("Should only initialize a clone once", async function () {
+      const { salaryLens, factory, alice, bob } = await loadFixture(deployInstanceFactoryFixture);
+      const instance = await createInstance(factory, "Acme Corp", alice.address, 2);
+
+      await expect(instance.connect(bob).initialize(bob.address, 1))
+        .to.be.revertedWithCustomError(instance, "AlreadyInitialized");
+      await expect(salaryLens.connect(bob).initialize(bob.address, 1))
+        .to.be.revertedWithCustomError(salaryLens, "AlreadyInitialized");
+    });
+
+    /**
+     * @notice Test validation of new instances
+     * @dev Should revert with InvalidName, AlreadyInitialized (no owner) or InvalidMinSubmissions
+     */
+    it("Should reject instances without a name, owner or threshold", async function () {
+      const { salaryLens, factory, alice } = await loadFixture(deployInstanceFactoryFixture);
+
+      await expect(factory.createInstance("", alice.address, 2))
+        .to.be.revertedWithCustomError(factory, "InvalidName");
+      await expect(factory.createInstance("Acme Corp", ethers.ZeroAddress, 2))
+        .to.be.revertedWithCustomError(salaryLens, "AlreadyInitialized");
+      await expect(factory.createInstance("Acme Corp", alice.address, 0))
+        .to.be.revertedWithCustomError(salaryLens, "InvalidMinSubmissions");
+      await expect(factory.getInstance(0)).to.be.revertedWithCustomError(factory, "InstanceDoesNotExist");
+    });
+
+    /**
+     * @notice Test paging through the registry
+     * @dev Pages past the end are truncated or empty
+     */
+    it("Should page through registered instances", async function () {
+      const { factory, alice, bob } = await loadFixture(deployInstanceFactoryFixture);
+      await factory.createInstance("Acme Corp", alice.address, 2);
+      await factory.createInstance("Globex", bob.address, 3);
+      await factory.createInstance("Initech", alice.address, 4);
+
+      expect(await factory.getInstanceCount()).to.equal(3);
+      expect((await factory.getInstances(1, 10)).map((instance) => instance.name)).to.deep.equal([
+        "Globex",
+        "Initech",
+      ]);
+      expect(await factory.getInstances(3, 10)).to.have.lengthOf(0);
+    });
+  });
+
+  // ============ Access Control Tests ============
+
+  describe("Access Control", function () {
+    /** `SalaryLens.Role` values */
+    const ADMIN = 0;
+    const OPERATOR = 1;
+    const AUDITOR = 2;
+
+    /**
+     * @notice Test that only the owner grants and revokes roles
+     * @dev Should revert with NotOwner or InvalidAccount, and emit RoleGranted / RoleRevoked otherwise
+     */
+    it("Should let only the owner grant and revoke roles", async function () {
+      const { salaryLens, owner, alice, bob } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.hasRole(ADMIN, owner.address)).to.be.true;
+      expect(await salaryLens.hasRole(OPERATOR, alice.address)).to.be.false;
+
+      await expect(salaryLens.connect(alice).grantRole(ADMIN, alice.address))
+        .to.be.revertedWithCustomError(salaryLens, "NotOwner");
+      await expect(salaryLens.grantRole(OPERATOR, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(salaryLens, "InvalidAccount");
+
+      await expect(salaryLens.grantRole(ADMIN, alice.address))
+        .to.emit(salaryLens, "RoleGranted")
+        .withArgs(ADMIN, alice.address);
+      await salaryLens.grantRole(OPERATOR, bob.address);
+
+      // Admins also act as operators, operators are not admins
+      expect(await salaryLens.hasRole(OPERATOR, alice.address)).to.be.true;
+      expect(await salaryLens.hasRole(ADMIN, bob.address)).to.be.false;
+
+      await expect(salaryLens.connect(bob).revokeRole(ADMIN, alice.address))
+        .to.be.revertedWithCustomError(salaryLens, "NotOwner");
+      await expect(salaryLens.revokeRole(ADMIN, alice.address))
+        .to.emit(salaryLens, "RoleRevoked")
+        .withArgs(ADMIN, alice.address);
+      expect(await salaryLens.hasRole(OPERATOR, alice.address)).to.be.false;
+    });
+
+    /**
+     * @notice Test that pool settings need the admin role and round control the operator role
+     * @dev Should revert with MissingRole for accounts without the role
+     */
+    it("Should restrict pool settings to admins and rounds to operators", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deploySalaryLensFixture);
+      await salaryLens.grantRole(ADMIN, alice.address);
+      await salaryLens.grantRole(OPERATOR, bob.address);
+
+      await expect(salaryLens.connect(bob).createPool("Sales", "USD", "annual", BAND_EDGES))
+        .to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(salaryLens.connect(bob).closeRound(POOL_ID))
+        .to.emit(salaryLens, "RoundClosed")
+        .withArgs(POOL_ID, ROUND_ID, 0);
+
+      await expect(salaryLens.connect(alice).createPool("Sales", "USD", "annual", BAND_EDGES))
+        .to.emit(salaryLens, "PoolCreated");
+      const now = await time.latest();
+      await expect(salaryLens.connect(alice).openRound(1, now, now + ROUND_DURATION))
+        .to.emit(salaryLens, "RoundOpened");
+
+      // Only the owner sets the relay, whatever roles an account holds
+      await expect(salaryLens.connect(alice).setRelay(alice.address))
+        .to.be.revertedWithCustomError(salaryLens, "NotOwner");
+    });
+
+    /**
+     * @notice Test that a pause blocks submissions and reveal requests, but not withdrawals
+     * @dev Operators can pause; only admins can unpause. Submissions and reveals work again afterwards
+     */
+    it("Should pause submissions and reveal requests", async function () {
+      const { salaryLens, owner, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(OPERATOR, alice.address);
+
+      for (const user of [alice, bob, dave]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(salaryLens.connect(bob).pause()).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(salaryLens.connect(alice).pause())
+        .to.emit(salaryLens, "Paused")
+        .withArgs(alice.address);
+      expect(await salaryLens.paused()).to.be.true;
+      await expect(salaryLens.pause()).to.be.revertedWithCustomError(salaryLens, "ContractPaused");
+
+      const charlieSalary = await encryptSalary(salaryLens, charlie, 60000);
+      await expect(
+        salaryLens.connect(charlie).addSalary(POOL_ID, charlieSalary.encryptedSalary, charlieSalary.inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "ContractPaused");
+      const bobUpdate = await encryptSalary(salaryLens, bob, 55000);
+      await expect(salaryLens.connect(bob).updateSalary(POOL_ID, bobUpdate.encryptedSalary, bobUpdate.inputProof))
+        .to.be.revertedWithCustomError(salaryLens, "ContractPaused");
+
+      // Submitters can always remove their salary
+      await expect(salaryLens.connect(dave).withdrawSalary(POOL_ID, ROUND_ID))
+        .to.emit(salaryLens, "SalaryWithdrawn")
+        .withArgs(POOL_ID, ROUND_ID, dave.address, 2);
+
+      await expect(salaryLens.connect(alice).unpause()).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(salaryLens.unpause())
+        .to.emit(salaryLens, "Unpaused")
+        .withArgs(owner.address);
+      await expect(salaryLens.unpause()).to.be.revertedWithCustomError(salaryLens, "ContractNotPaused");
+
+      // The inputs rejected during the pause are accepted once it is lifted
+      await expect(
+        salaryLens.connect(charlie).addSalary(POOL_ID, charlieSalary.encryptedSalary, charlieSalary.inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, charlie.address, 3);
+      await salaryLens.connect(bob).updateSalary(POOL_ID, bobUpdate.encryptedSalary, bobUpdate.inputProof);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(3);
+
+      await salaryLens.connect(alice).closeRound(POOL_ID);
+      await salaryLens.connect(alice).pause();
+      await expect(salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(salaryLens, "ContractPaused");
+      await expect(salaryLens.connect(bob).compareToAverage(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(salaryLens, "ContractPaused");
+      await salaryLens.unpause();
+
+      // 50000 (alice) + 55000 (bob's update) + 60000 (charlie)
+      await expect(salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID)).to.emit(salaryLens, "AverageRequested");
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+      const [average, count] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(55000);
+      expect(count).to.equal(3);
+    });
+
+    /**
+     * @notice Test the two-step ownership transfer
+     * @dev Ownership only moves once the pending owner accepts; the offer can be replaced or cancelled
+     */
+    it("Should transfer ownership in two steps", async function () {
+      const { salaryLens, owner, alice, bob } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(salaryLens.connect(alice).transferOwnership(alice.address))
+        .to.be.revertedWithCustomError(salaryLens, "NotOwner");
+      await expect(salaryLens.transferOwnership(bob.address))
+        .to.emit(salaryLens, "OwnershipTransferStarted")
+        .withArgs(owner.address, bob.address);
+      await salaryLens.transferOwnership(ethers.ZeroAddress);
+      await expect(salaryLens.connect(bob).acceptOwnership())
+        .to.be.revertedWithCustomError(salaryLens, "NotPendingOwner");
+
+      await salaryLens.transferOwnership(alice.address);
+      expect(await salaryLens.owner()).to.equal(owner.address);
+      expect(await salaryLens.pendingOwner()).to.equal(alice.address);
+
+      await expect(salaryLens.connect(alice).acceptOwnership())
+        .to.emit(salaryLens, "OwnershipTransferred")
+        .withArgs(owner.address, alice.address);
+      expect(await salaryLens.owner()).to.equal(alice.address);
+      expect(await salaryLens.pendingOwner()).to.equal(ethers.ZeroAddress);
+
+      await expect(salaryLens.createPool("Sales", "USD", "annual", BAND_EDGES))
+        .to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(salaryLens.connect(alice).createPool("Sales", "USD", "annual", BAND_EDGES))
+        .to.emit(salaryLens, "PoolCreated");
+    });
+
+    /**
+     * @notice Test that the auditor role is explicit and held by at most MAX_AUDITORS accounts
+     * @dev Should revert with TooManyAuditors; re-granting an auditor does not use another slot
+     */
+    it("Should keep a bounded list of auditors", async function () {
+      const { salaryLens, owner, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      expect(await salaryLens.MAX_AUDITORS()).to.equal(4);
+
+      // Not implied by ownership or the admin role
+      expect(await salaryLens.hasRole(AUDITOR, owner.address)).to.be.false;
+
+      await expect(salaryLens.connect(alice).grantRole(AUDITOR, alice.address))
+        .to.be.revertedWithCustomError(salaryLens, "NotOwner");
+      for (const auditor of [alice, bob, charlie, dave]) {
+        await expect(salaryLens.grantRole(AUDITOR, auditor.address))
+          .to.emit(salaryLens, "RoleGranted")
+          .withArgs(AUDITOR, auditor.address);
+      }
+      await salaryLens.grantRole(AUDITOR, alice.address);
+      await expect(salaryLens.grantRole(AUDITOR, owner.address))
+        .to.be.revertedWithCustomError(salaryLens, "TooManyAuditors");
+
+      await salaryLens.revokeRole(AUDITOR, bob.address);
+      expect(await salaryLens.hasRole(AUDITOR, bob.address)).to.be.false;
+      await salaryLens.grantRole(AUDITOR, owner.address);
+      expect(await salaryLens.hasRole(AUDITOR, owner.address)).to.be.true;
+    });
+
+    /**
+     * @notice Test that auditors can get access to a round's aggregate handles
+     * @dev Only auditors may request access, even while paused, once the round has a salary. The
+     *      auditor decrypts the aggregates, band and below-edge counters, cohort B aggregates and
+     *      component totals; compensation and cohorts are tracked in separate rounds
+     */
+    it("Should give auditors access to the aggregate handles", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR, alice.address);
+      const contractAddress = await salaryLens.getAddress();
+      const decrypt = (type: FhevmType.euint32 | FhevmType.euint64 | FhevmType.euint128, handle: string) =>
+        fhevm.userDecryptEuint(type, handle, contractAddress, alice);
+      const bands = BAND_EDGES.length + 1;
+
+      let [total, sumOfSquares, min, max] = await salaryLens.getAuditHandles(POOL_ID, ROUND_ID);
+      expect(total).to.equal(ethers.ZeroHash);
+      await expect(salaryLens.connect(alice).requestAuditAccess(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(salaryLens, "NoSalariesSubmitted");
+
+      const compensation = await fhevm
+        .createEncryptedInput(contractAddress, bob.address)
+        .add32(50000)
+        .add32(5000)
+        .add32(2000)
+        .encrypt();
+      await salaryLens
+        .connect(bob)
+        .addCompensation(POOL_ID, compensation.handles[0], compensation.handles[1], compensation.handles[2], compensation.inputProof, []);
+
+      [total, sumOfSquares, min, max] = await salaryLens.getAuditHandles(POOL_ID, ROUND_ID);
+      for (const handle of [total, sumOfSquares, min, max]) {
+        expect(handle).to.not.equal(ethers.ZeroHash);
+      }
+
+      await expect(salaryLens.connect(bob).requestAuditAccess(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await salaryLens.pause();
+      await salaryLens.connect(alice).requestAuditAccess(POOL_ID, ROUND_ID);
+      await salaryLens.unpause();
+
+      expect(await decrypt(FhevmType.euint64, total)).to.equal(50000n);
+      expect(await decrypt(FhevmType.euint128, sumOfSquares)).to.equal(50000n * 50000n);
+      expect(await decrypt(FhevmType.euint32, min)).to.equal(50000n);
+      expect(await decrypt(FhevmType.euint32, max)).to.equal(50000n);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, bob)
+      ).to.be.rejectedWith("not authorized to user decrypt");
+
+      const compensationRound = await salaryLens.getAuditBreakdownHandles(POOL_ID, ROUND_ID);
+      expect(compensationRound.length).to.equal(bands + 4);
+      const bandCounts = [];
+      for (const handle of compensationRound.slice(0, bands)) {
+        bandCounts.push(await decrypt(FhevmType.euint32, handle));
+      }
+      expect(bandCounts).to.deep.equal([0n, 1n, 0n, 0n]);
+      const [bonusTotal, equityTotal] = compensationRound.slice(bands + 2);
+      expect(await decrypt(FhevmType.euint64, bonusTotal)).to.equal(5000n);
+      expect(await decrypt(FhevmType.euint64, equityTotal)).to.equal(2000n);
+
+      // The next round counts salaries below percentile edges and tracks cohorts
+      const percentileEdges = [45000, 65000];
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setPercentileEdges(POOL_ID, percentileEdges);
+      await salaryLens.setCohorts(POOL_ID, "Women", "Men");
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+      const cohortRoundId = 1;
+
+      for (const [user, salary, inCohortB] of [[bob, 50000, false], [charlie, 70000, true]] as const) {
+        const { handles, inputProof } = await fhevm
+          .createEncryptedInput(contractAddress, user.address)
+          .add32(salary)
+          .addBool(inCohortB)
+          .encrypt();
+        await salaryLens.connect(user).addSalaryWithCohort(POOL_ID, handles[0], handles[1], inputProof, []);
+      }
+      await salaryLens.connect(alice).requestAuditAccess(POOL_ID, cohortRoundId);
+
+      const cohortRound = await salaryLens.getAuditBreakdownHandles(POOL_ID, cohortRoundId);
+      expect(cohortRound.length).to.equal(bands + percentileEdges.length + 4);
+      const counters = [];
+      for (const handle of cohortRound.slice(0, bands + percentileEdges.length)) {
+        counters.push(await decrypt(FhevmType.euint32, handle));
+      }
+      // Band counts, then the counts below 45000 and 65000
+      expect(counters).to.deep.equal([0n, 1n, 1n, 0n, 0n, 1n]);
+      const [cohortTotal, cohortCount] = cohortRound.slice(bands + percentileEdges.length);
+      expect(await decrypt(FhevmType.euint64, cohortTotal)).to.equal(70000n);
+      expect(await decrypt(FhevmType.euint32, cohortCount)).to.equal(1n);
+
+      await expect(salaryLens.getAuditHandles(POOL_ID, 2))
+        .to.be.revertedWithCustomError(salaryLens, "RoundDoesNotExist");
+    });
+
+    /**
+     * @notice Test that auditors can decrypt the band counts and component totals too
+     * @dev Cohort B handles stay zero in a round without cohorts
+     */
+    it("Should give auditors access to the counters and component totals", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR, dave.address);
+      const contractAddress = await salaryLens.getAddress();
+
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(contractAddress, alice.address)
+        .add32(50000)
+        .add32(5000)
+        .add32(2000)
+        .encrypt();
+      await salaryLens.connect(alice).addCompensation(POOL_ID, handles[0], handles[1], handles[2], inputProof, []);
+      const { encryptedSalary, inputProof: salaryProof } = await encryptSalary(salaryLens, bob, 70000);
+      await salaryLens.connect(bob).addSalary(POOL_ID, encryptedSalary, salaryProof, []);
+
+      const breakdown = await salaryLens.getAuditBreakdownHandles(POOL_ID, ROUND_ID);
+      const bands = BAND_EDGES.length + 1;
+      const [cohortTotal, cohortCount, bonusTotal, equityTotal] = breakdown.slice(breakdown.length - 4);
+      expect(breakdown.length).to.equal(bands + 4);
+      expect(cohortTotal).to.equal(ethers.ZeroHash);
+      expect(cohortCount).to.equal(ethers.ZeroHash);
+
+      const bandCounts = [];
+      for (const handle of breakdown.slice(0, bands)) {
+        bandCounts.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, dave));
+      }
+      expect(bandCounts).to.deep.equal([0n, 1n, 1n, 0n]);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bonusTotal, contractAddress, dave)).to.equal(5000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, equityTotal, contractAddress, dave)).to.equal(2000n);
+
+      await expect(salaryLens.getAuditBreakdownHandles(POOL_ID, 1))
+        .to.be.revertedWithCustomError(salaryLens, "RoundDoesNotExist");
+    });
+  });
+
+  // ============ Pool Tests ============
+
+  describe("Pools", function () {
+    /**
+     * @notice Test pool creation stores metadata and emits PoolCreated
+     * @dev Pool IDs are assigned sequentially
+     */
+    it("Should create a pool with metadata", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(salaryLens.createPool("Design", "EUR", "monthly", [3000, 5000]))
+        .to.emit(salaryLens, "PoolCreated")
+        .withArgs(1, "Design", "EUR", "monthly", [3000, 5000]);
+
+      expect(await salaryLens.poolCount()).to.equal(2);
+
+      const [label, currency, period, roundCount, bandEdges] =
+        await salaryLens.getPool(1);
+      expect(label).to.equal("Design");
+      expect(currency).to.equal("EUR");
+      expect(period).to.equal("monthly");
+      expect(roundCount).to.equal(0);
+      expect(bandEdges).to.deep.equal([3000n, 5000n]);
+    });
+
+    /**
+     * @notice Test that band edges must be strictly ascending and bounded
+     * @dev Should revert with InvalidBandEdges error
+     */
+    it("Should reject invalid band edges", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.createPool("Sales", "USD", "annual", [60000, 40000])
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidBandEdges");
+      await expect(
+        salaryLens.createPool("Sales", "USD", "annual", [40000, 40000])
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidBandEdges");
+
+      const maxEdges = Number(await salaryLens.MAX_BAND_EDGES());
+      const tooManyEdges = Array.from({ length: maxEdges + 1 }, (_, i) => (i + 1) * 10000);
+      await expect(
+        salaryLens.createPool("Sales", "USD", "annual", tooManyEdges)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidBandEdges");
+    });
+
+    /**
+     * @notice Test that only admins can create pools
+     * @dev Should revert with MissingRole error
+     */
+    it("Should prevent non-admins from creating pools", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).createPool("Sales", "USD", "annual", BAND_EDGES)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+    });
+
+    /**
+     * @notice Test that unknown pool IDs are rejected
+     * @dev Should revert with PoolDoesNotExist error
+     */
+    it("Should reject submissions to a pool that does not exist", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+
+      await expect(
+        salaryLens.connect(alice).addSalary(7, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "PoolDoesNotExist");
+      await expect(
+        salaryLens.connect(alice).requestAverageDecryption(7, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "PoolDoesNotExist");
+    });
+
+    /**
+     * @notice Test that pools keep independent totals, counts and submission status
+     * @dev Submitting to one pool must not affect another; an auditor decrypts both totals
+     */
+    it("Should keep pools isolated from each other", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      await salaryLens.createPool("Design", "EUR", "annual", BAND_EDGES);
+      const now = await time.latest();
+      await salaryLens.openRound(1, now, now + ROUND_DURATION);
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens
+        .connect(alice)
+        .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await salaryLens.getCount(1)).to.equal(0);
+      expect(await salaryLens.hasUserSubmitted(1, alice.address)).to.be.false;
+
+      // The same user may submit once per pool
+      const salary2 = await encryptSalary(salaryLens, alice, 45000);
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalary(1, salary2.encryptedSalary, salary2.inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(1, ROUND_ID, alice.address, 1);
+      const salary3 = await encryptSalary(salaryLens, bob, 55000);
+      await salaryLens.connect(bob).addSalary(1, salary3.encryptedSalary, salary3.inputProof, []);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await salaryLens.getCount(1)).to.equal(2);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(50000n);
+      expect((await decryptAggregates(salaryLens, dave, 1, ROUND_ID)).total).to.equal(100000n);
+    });
+  });
+
+  // ============ Round Tests ============
+
+  describe("Rounds", function () {
+    /**
+     * @notice Test round opening stores the window and emits RoundOpened
+     * @dev Only operators may open a round, with a valid window, once the previous one is closed
+     */
+    it("Should open a round with a valid window", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await salaryLens.createPool("Design", "EUR", "annual", BAND_EDGES);
+      const now = await time.latest();
+
+      await expect(
+        salaryLens.connect(alice).openRound(1, now, now + ROUND_DURATION)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(
+        salaryLens.openRound(1, now + ROUND_DURATION, now)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidRoundWindow");
+      await expect(
+        salaryLens.openRound(1, now - ROUND_DURATION, now - 1)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidRoundWindow");
+
+      await expect(salaryLens.openRound(1, now, now + ROUND_DURATION))
+        .to.emit(salaryLens, "RoundOpened")
+        .withArgs(1, 0, now, now + ROUND_DURATION);
+
+      const [startTime, endTime, closed, roundSubmissions] = await salaryLens.getRound(1, 0);
+      expect(startTime).to.equal(now);
+      expect(endTime).to.equal(now + ROUND_DURATION);
+      expect(closed).to.be.false;
+      expect(roundSubmissions).to.equal(0);
+
+      // The current round has to be closed first
+      await expect(
+        salaryLens.openRound(1, now, now + 2 * ROUND_DURATION)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+    });
+
+    /**
+     * @notice Test that submissions are only accepted inside the round window
+     * @dev Should revert with RoundNotOpen before the start, after the end and without a round;
+     *      a submitter can still withdraw from the ended round
+     */
+    it("Should only accept submissions while the round is open", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deploySalaryLensFixture);
+
+      await salaryLens.createPool("Design", "EUR", "annual", BAND_EDGES);
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+
+      await expect(
+        salaryLens.connect(alice).addSalary(1, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotOpen");
+
+      const start = (await time.latest()) + 3600;
+      await salaryLens.openRound(1, start, start + ROUND_DURATION);
+
+      await expect(
+        salaryLens.connect(alice).addSalary(1, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotOpen");
+
+      await time.increaseTo(start);
+      await salaryLens.connect(alice).addSalary(1, encryptedSalary, inputProof, []);
+
+      await time.increaseTo(start + ROUND_DURATION);
+      const bobSalary = await encryptSalary(salaryLens, bob, 60000);
+      await expect(
+        salaryLens.connect(bob).addSalary(1, bobSalary.encryptedSalary, bobSalary.inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotOpen");
+      await expect(salaryLens.connect(alice).withdrawSalary(1, 0))
+        .to.emit(salaryLens, "SalaryWithdrawn")
+        .withArgs(1, 0, alice.address, 0);
+    });
+
+    /**
+     * @notice Test that closing a round freezes it and enables reveals
+     * @dev Aggregates of an open round cannot be revealed (RoundNotClosed)
+     */
+    it("Should freeze a closed round and only then allow reveals", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
+        deploySalaryLensFixture
+      );
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(
+        salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await expect(salaryLens.connect(alice).closeRound(POOL_ID)).to.be.revertedWithCustomError(
+        salaryLens,
+        "MissingRole"
+      );
+      await expect(salaryLens.closeRound(POOL_ID))
+        .to.emit(salaryLens, "RoundClosed")
+        .withArgs(POOL_ID, ROUND_ID, 3);
+      await expect(salaryLens.closeRound(POOL_ID)).to.be.revertedWithCustomError(
+        salaryLens,
+        "RoundNotOpen"
+      );
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, dave, 90000);
+      await expect(
+        salaryLens.connect(dave).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotOpen");
+
+      await expect(salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID)).to.emit(
+        salaryLens,
+        "AverageRequested"
+      );
+    });
+
+    /**
+     * @notice Test that a round past its end time counts as closed
+     * @dev No explicit closeRound call is needed to reveal it
+     */
+    it("Should treat a round past its end time as closed", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await time.increase(ROUND_DURATION);
+
+      const [, , closed] = await salaryLens.getRound(POOL_ID, ROUND_ID);
+      expect(closed).to.be.true;
+      await expect(salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID)).to.emit(
+        salaryLens,
+        "AverageRequested"
+      );
+    });
+
+    /**
+     * @notice Test that a new round starts fresh while past rounds stay queryable
+     * @dev Count, hasSubmitted and the encrypted total are per round; the same user may submit again
+     */
+    it("Should start each round with a fresh count and submission set", async function () {
+      const { salaryLens, alice, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+      await salaryLens.closeRound(POOL_ID);
+
+      const now = await time.latest();
+      await expect(salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION))
+        .to.emit(salaryLens, "RoundOpened")
+        .withArgs(POOL_ID, 1, now, now + ROUND_DURATION);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.false;
+
+      const salary2 = await encryptSalary(salaryLens, alice, 55000);
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, 1, alice.address, 1);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(50000n);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(55000n);
+
+      const [, , closed, roundSubmissions, verifiedAverage] = await salaryLens.getRound(
+        POOL_ID,
+        ROUND_ID
+      );
+      expect(closed).to.be.true;
+      expect(roundSubmissions).to.equal(1);
+      expect(verifiedAverage).to.equal(0);
+
+      const [, , , roundCount] = await salaryLens.getPool(POOL_ID);
+      expect(roundCount).to.equal(2);
+    });
+
+    /**
+     * @notice Test that unknown round IDs are rejected
+     * @dev Should revert with RoundDoesNotExist error
+     */
+    it("Should reject rounds that do not exist", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(salaryLens.getRound(POOL_ID, 5)).to.be.revertedWithCustomError(
+        salaryLens,
+        "RoundDoesNotExist"
+      );
+      await expect(
+        salaryLens.connect(alice).requestAverageDecryption(POOL_ID, 5)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundDoesNotExist");
+    });
+  });
+
+  // ============ Salary Submission Tests ============
+
+  describe("Adding Salaries", function () {
+    /**
+     * @notice Test successful salary submission by a single user
+     * @dev Should increment count and mark user as submitted
+     */
+    it("Should allow a user to submit an encrypted salary", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, alice.address, 1);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+    });
+
+    /**
+     * @notice Test multiple users can submit salaries
+     * @dev Count should increment for each unique submitter, and the encrypted total hold every salary
+     */
+    it("Should allow multiple users to submit salaries", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
+        deploySalaryLensFixture
+      );
+      await mineAboveMockCoprocessorHead();
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
+      const salary3 = await encryptSalary(salaryLens, charlie, 70000);
+
+      await salaryLens
+        .connect(alice)
+        .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+      await salaryLens
+        .connect(bob)
+        .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, []);
+      await salaryLens
+        .connect(charlie)
+        .addSalary(POOL_ID, salary3.encryptedSalary, salary3.inputProof, []);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(3);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, bob.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, charlie.address)).to.be.true;
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(180000n);
+    });
+
+    /**
+     * @notice Test that duplicate submissions are rejected
+     * @dev Should revert with AlreadySubmitted error
+     */
+    it("Should prevent duplicate submissions from same user", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+
+      // First submission should succeed
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      // Second submission should fail
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+
+      // Count should still be 1
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+    });
+
+    /**
+     * @notice Test that SalarySubmitted event is emitted correctly
+     * @dev Event should contain correct submitter address and new count
+     */
+    it("Should emit SalarySubmitted event with correct parameters", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(
+        deploySalaryLensFixture
+      );
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, alice.address, 1);
+
+      await expect(
+        salaryLens
+          .connect(bob)
+          .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, bob.address, 2);
+    });
+  });
+
+  // ============ Eligibility Tests ============
+
+  describe("Eligibility Allowlist", function () {
+    /**
+     * @notice Restrict pool 0 to alice and bob from round 1 onwards
+     * @dev The root can only be set between rounds, so round 0 is closed first
+     */
+    async function deployWithAllowlistFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens, alice, bob } = fixture;
+
+      const allowlist = buildAllowlist([alice.address, bob.address]);
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setEligibilityRoot(POOL_ID, allowlist.root);
+
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      return { ...fixture, allowlist };
+    }
+
+    /**
+     * @notice Test that the root is admin-only and can only change between rounds
+     * @dev Should revert with MissingRole or RoundNotClosed, and emit EligibilityRootUpdated otherwise
+     */
+    it("Should only rotate the root between rounds", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deploySalaryLensFixture);
+      const allowlist = buildAllowlist([alice.address, bob.address]);
+
+      await expect(
+        salaryLens.setEligibilityRoot(POOL_ID, allowlist.root)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).setEligibilityRoot(POOL_ID, allowlist.root)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+
+      await expect(salaryLens.setEligibilityRoot(POOL_ID, allowlist.root))
+        .to.emit(salaryLens, "EligibilityRootUpdated")
+        .withArgs(POOL_ID, allowlist.root);
+      expect(await salaryLens.getEligibilityRoot(POOL_ID)).to.equal(allowlist.root);
+    });
+
+    /**
+     * @notice Test that listed addresses can submit with their proof
+     * @dev Proofs from scripts/build-allowlist.ts must verify on-chain, and both salaries are counted
+     */
+    it("Should accept eligible submitters with a valid proof", async function () {
+      const { salaryLens, alice, bob, dave, allowlist } = await loadFixture(deployWithAllowlistFixture);
+      await mineAboveMockCoprocessorHead();
+
+      expect(
+        await salaryLens.isEligible(POOL_ID, alice.address, allowlist.proofs[alice.address])
+      ).to.be.true;
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, allowlist.proofs[alice.address])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, 1, alice.address, 1);
+      await salaryLens
+        .connect(bob)
+        .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, allowlist.proofs[bob.address]);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(110000n);
+    });
+
+    /**
+     * @notice Test that unlisted addresses and invalid proofs are rejected
+     * @dev Should revert with NotEligible error
+     */
+    it("Should reject ineligible submitters and invalid proofs", async function () {
+      const { salaryLens, alice, charlie, allowlist } = await loadFixture(deployWithAllowlistFixture);
+
+      // Someone else's proof does not work for an unlisted address
+      const charlieSalary = await encryptSalary(salaryLens, charlie, 50000);
+      expect(
+        await salaryLens.isEligible(POOL_ID, charlie.address, allowlist.proofs[alice.address])
+      ).to.be.false;
+      await expect(
+        salaryLens
+          .connect(charlie)
+          .addSalary(POOL_ID, charlieSalary.encryptedSalary, charlieSalary.inputProof, allowlist.proofs[alice.address])
+      ).to.be.revertedWithCustomError(salaryLens, "NotEligible");
+
+      // A listed address still needs its proof
+      const aliceSalary = await encryptSalary(salaryLens, alice, 50000);
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, aliceSalary.encryptedSalary, aliceSalary.inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "NotEligible");
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+    });
+
+    /**
+     * @notice Test that clearing the root opens the pool to everyone again
+     * @dev bytes32(0) disables the allowlist for the next round
+     */
+    it("Should let anyone submit once the root is cleared", async function () {
+      const { salaryLens, charlie, dave } = await loadFixture(deployWithAllowlistFixture);
+      await mineAboveMockCoprocessorHead();
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setEligibilityRoot(POOL_ID, ethers.ZeroHash);
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, charlie, 50000);
+      await expect(
+        salaryLens.connect(charlie).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, 2, charlie.address, 1);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 2)).total).to.equal(50000n);
+    });
+  });
+
+  // ============ Anonymous Submission Tests ============
+
+  describe("Anonymous Submissions", function () {
+    /** Merkle root of the fixture membership group */
+    const GROUP_ROOT = ethers.id("salary-lens-test-group");
+
+    /** Nullifiers of two group members for the fixture round */
+    const NULLIFIER_1 = ethers.id("member-1");
+    const NULLIFIER_2 = ethers.id("member-2");
+
+    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+    /**
+     * @notice Build a proof accepted by MockMembershipVerifier
+     * @dev The mock "proof" is the hash of every verified input, so any mismatch is rejected
+     */
+    function mockMembershipProof(root: string, nullifier: string, scope: string, signal: string): string {
+      const digest = ethers.keccak256(
+        abiCoder.encode(["bytes32", "bytes32", "bytes32", "bytes32"], [root, nullifier, scope, signal])
+      );
+      return abiCoder.encode(["bytes32"], [digest]);
+    }
+
+    /** Signal a member endorses to submit a ciphertext */
+    function addSignal(handle: string): string {
+      return ethers.keccak256(abiCoder.encode(["string", "bytes32"], ["add", handle]));
+    }
+
+    /** Signal a member endorses to replace their stored ciphertext with a new one */
+    function updateSignal(oldHandle: string, newHandle: string): string {
+      return ethers.keccak256(abiCoder.encode(["string", "bytes32", "bytes32"], ["update", oldHandle, newHandle]));
+    }
+
+    /** Signal a member endorses to withdraw their stored ciphertext */
+    function withdrawSignal(oldHandle: string): string {
+      return ethers.keccak256(abiCoder.encode(["string", "bytes32"], ["withdraw", oldHandle]));
+    }
+
+    /**
+     * @notice Switch pool 0 to anonymous mode from round 1 onwards
+     * @dev The membership group can only be set between rounds, so round 0 is closed first
+     */
+    async function deployAnonymousFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens } = fixture;
+
+      const VerifierFactory = await ethers.getContractFactory("MockMembershipVerifier");
+      const verifier = await VerifierFactory.deploy();
+      await verifier.waitForDeployment();
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setMembershipGroup(POOL_ID, await verifier.getAddress(), GROUP_ROOT);
+
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+      const scope = await salaryLens.getNullifierScope(POOL_ID, 1);
+
+      return { ...fixture, verifier, scope };
+    }
+
+    /**
+     * @notice Test that the membership group is admin-only and can only change between rounds
+     * @dev Should revert with MissingRole or RoundNotClosed, and emit MembershipGroupUpdated otherwise
+     */
+    it("Should only change the membership group between rounds", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+      const verifierAddress = alice.address;
+
+      await expect(
+        salaryLens.setMembershipGroup(POOL_ID, verifierAddress, GROUP_ROOT)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).setMembershipGroup(POOL_ID, verifierAddress, GROUP_ROOT)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+
+      await expect(salaryLens.setMembershipGroup(POOL_ID, verifierAddress, GROUP_ROOT))
+        .to.emit(salaryLens, "MembershipGroupUpdated")
+        .withArgs(POOL_ID, verifierAddress, GROUP_ROOT);
+
+      const [verifier, root] = await salaryLens.getMembershipGroup(POOL_ID);
+      expect(verifier).to.equal(verifierAddress);
+      expect(root).to.equal(GROUP_ROOT);
+    });
+
+    /**
+     * @notice Test that members can submit through any sender, tracked by nullifier only
+     * @dev The relaying address is not marked as submitted; both salaries are counted
+     */
+    it("Should accept relayed submissions tracked by nullifier", async function () {
+      const { salaryLens, alice, bob, dave, scope } = await loadFixture(deployAnonymousFixture);
+      await mineAboveMockCoprocessorHead();
+
+      // Input proofs are bound to the relayer, which sends the transaction
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const salary2 = await encryptSalary(salaryLens, alice, 60000);
+
+      // The same relayer submits for two different members
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalaryAnonymous(
+            POOL_ID,
+            salary1.encryptedSalary,
+            salary1.inputProof,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, scope, addSignal(salary1.encryptedSalary))
+          )
+      )
+        .to.emit(salaryLens, "AnonymousSalarySubmitted")
+        .withArgs(POOL_ID, 1, NULLIFIER_1, 1);
+      await salaryLens
+        .connect(alice)
+        .addSalaryAnonymous(
+          POOL_ID,
+          salary2.encryptedSalary,
+          salary2.inputProof,
+          NULLIFIER_2,
+          mockMembershipProof(GROUP_ROOT, NULLIFIER_2, scope, addSignal(salary2.encryptedSalary))
+        );
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      expect(await salaryLens.isNullifierUsed(POOL_ID, NULLIFIER_1)).to.be.true;
+      expect(await salaryLens.isNullifierUsed(POOL_ID, NULLIFIER_2)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.false;
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(110000n);
+
+      // A nullifier can only be used once per round, whoever relays it
+      const salary3 = await encryptSalary(salaryLens, bob, 70000);
+      await expect(
+        salaryLens
+          .connect(bob)
+          .addSalaryAnonymous(
+            POOL_ID,
+            salary3.encryptedSalary,
+            salary3.inputProof,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, scope, addSignal(salary3.encryptedSalary))
+          )
+      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+    });
+
+    /**
+     * @notice Test that a proof only authorises the ciphertext and round it was made for
+     * @dev Should revert with InvalidMembershipProof
+     */
+    it("Should reject proofs bound to another ciphertext or round", async function () {
+      const { salaryLens, alice, scope } = await loadFixture(deployAnonymousFixture);
+
+      const salary = await encryptSalary(salaryLens, alice, 50000);
+      const other = await encryptSalary(salaryLens, alice, 1);
+      const roundZeroScope = await salaryLens.getNullifierScope(POOL_ID, ROUND_ID);
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalaryAnonymous(
+            POOL_ID,
+            other.encryptedSalary,
+            other.inputProof,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, scope, addSignal(salary.encryptedSalary))
+          )
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidMembershipProof");
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalaryAnonymous(
+            POOL_ID,
+            salary.encryptedSalary,
+            salary.inputProof,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, roundZeroScope, addSignal(salary.encryptedSalary))
+          )
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidMembershipProof");
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+    });
+
+    /**
+     * @notice Test anonymous update and withdrawal, and that proofs cannot be replayed across actions
+     * @dev The submission proof must not authorise a withdrawal; the total follows every change,
+     *      including a withdrawal from the closed round
+     */
+    it("Should allow members to update and withdraw with a fresh proof", async function () {
+      const { salaryLens, alice, dave, scope } = await loadFixture(deployAnonymousFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const otherMember = await encryptSalary(salaryLens, alice, 60000);
+      for (const [nullifier, salary] of [[NULLIFIER_1, salary1], [NULLIFIER_2, otherMember]] as const) {
+        await salaryLens
+          .connect(alice)
+          .addSalaryAnonymous(
+            POOL_ID,
+            salary.encryptedSalary,
+            salary.inputProof,
+            nullifier,
+            mockMembershipProof(GROUP_ROOT, nullifier, scope, addSignal(salary.encryptedSalary))
+          );
+      }
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(110000n);
+
+      // The stored handle is the handle of the submitted input
+      expect(await salaryLens.getAnonymousSubmissionHandle(POOL_ID, 1, NULLIFIER_1)).to.equal(salary1.encryptedSalary);
+      const salary2 = await encryptSalary(salaryLens, alice, 55000);
+      await expect(
+        salaryLens
+          .connect(alice)
+          .updateSalaryAnonymous(
+            POOL_ID,
+            NULLIFIER_1,
+            salary2.encryptedSalary,
+            salary2.inputProof,
+            mockMembershipProof(
+              GROUP_ROOT,
+              NULLIFIER_1,
+              scope,
+              updateSignal(salary1.encryptedSalary, salary2.encryptedSalary)
+            )
+          )
+      )
+        .to.emit(salaryLens, "AnonymousSalaryUpdated")
+        .withArgs(POOL_ID, 1, NULLIFIER_1);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(115000n);
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .withdrawSalaryAnonymous(
+            POOL_ID,
+            1,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, scope, addSignal(salary2.encryptedSalary))
+          )
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidMembershipProof");
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .withdrawSalaryAnonymous(
+            POOL_ID,
+            1,
+            NULLIFIER_1,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_1, scope, withdrawSignal(salary2.encryptedSalary))
+          )
+      )
+        .to.emit(salaryLens, "AnonymousSalaryWithdrawn")
+        .withArgs(POOL_ID, 1, NULLIFIER_1, 1);
+
+      expect(await salaryLens.isNullifierUsed(POOL_ID, NULLIFIER_1)).to.be.false;
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, 1)).total).to.equal(60000n);
+
+      // The other member can still withdraw once the round is closed, with a proof for its scope
+      await salaryLens.closeRound(POOL_ID);
+      await expect(
+        salaryLens
+          .connect(alice)
+          .withdrawSalaryAnonymous(
+            POOL_ID,
+            1,
+            NULLIFIER_2,
+            mockMembershipProof(GROUP_ROOT, NULLIFIER_2, scope, withdrawSignal(otherMember.encryptedSalary))
+          )
+      )
+        .to.emit(salaryLens, "AnonymousSalaryWithdrawn")
+        .withArgs(POOL_ID, 1, NULLIFIER_2, 0);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
+    });
+
+    /**
+     * @notice Test that address-based and anonymous functions are not mixed within a pool
+     * @dev Should revert with WrongSubmissionMode
+     */
+    it("Should enforce the pool's submission mode", async function () {
+      const { salaryLens, alice } = await loadFixture(deployAnonymousFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "WrongSubmissionMode");
+      // No address can have a salary in an anonymous round
+      await expect(
+        salaryLens.connect(alice).withdrawSalary(POOL_ID, 1)
+      ).to.be.revertedWithCustomError(salaryLens, "NotSubmitted");
+
+      // Back in address mode, anonymous submissions are rejected
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setMembershipGroup(POOL_ID, ethers.ZeroAddress, ethers.ZeroHash);
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      await expect(
+        salaryLens
+          .connect(alice)
+          .addSalaryAnonymous(POOL_ID, encryptedSalary, inputProof, NULLIFIER_1, "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "WrongSubmissionMode");
+    });
+  });
+
+  // ============ Gasless Submission Tests ============
+
+  describe("Gasless Submissions", function () {
+    /**
+     * @notice Deploy a SalaryRelay for the fixture contract and set it as the relay
+     * @dev dave acts as the relayer paying the gas
+     */
+    async function deployRelayFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens } = fixture;
+
+      const SalaryRelayFactory = await ethers.getContractFactory("SalaryRelay");
+      const salaryRelay = await SalaryRelayFactory.deploy(await salaryLens.getAddress());
+      await salaryRelay.waitForDeployment();
+      await salaryLens.setRelay(await salaryRelay.getAddress());
+
+      return { ...fixture, salaryRelay };
+    }
+
+    /**
+     * @notice Sign a salary intent for the submitter's current nonce
+     * @dev The salary is encrypted for SalaryLens and the relay contract, the sender SalaryLens sees
+     * @returns The intent arguments of `submitSalary()` (without the eligibility proof) and the signature
+     */
+    async function signIntent(
+      salaryRelay: SalaryRelay,
+      submitter: HardhatEthersSigner,
+      value: number,
+      deadline?: number
+    ) {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(await salaryRelay.salaryLens(), await salaryRelay.getAddress())
+        .add32(value)
+        .encrypt();
+      const intent = {
+        submitter: submitter.address,
+        poolId: POOL_ID,
+        encryptedSalary: ethers.hexlify(handles[0]),
+        inputProof: ethers.hexlify(inputProof),
+        nonce: await salaryRelay.nonces(submitter.address),
+        deadline: deadline ?? (await time.latest()) + 3600,
+      };
+      const domain = await relayDomain(salaryRelay, ethers.provider);
+      const signature = await submitter.signTypedData(domain, SALARY_INTENT_TYPES, intent);
+      return { ...intent, signature };
+    }
+
+    /**
+     * @notice Test that only the owner can set the relay
+     * @dev Should revert with NotOwner, and emit RelayUpdated otherwise
+     */
+    it("Should let only the owner set the relay", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).setRelay(alice.address)
+      ).to.be.revertedWithCustomError(salaryLens, "NotOwner");
+
+      await expect(salaryLens.setRelay(alice.address))
+        .to.emit(salaryLens, "RelayUpdated")
+        .withArgs(alice.address);
+      expect(await salaryLens.relay()).to.equal(alice.address);
+    });
+
+    /**
+     * @notice Test that the on-chain digest matches the EIP-712 digest signed off-chain
+     * @dev Wallets and the relayer service hash the intent with SALARY_INTENT_TYPES
+     */
+    it("Should hash intents like EIP-712 wallets", async function () {
+      const { salaryRelay, alice } = await loadFixture(deployRelayFixture);
+
+      const intent = await signIntent(salaryRelay, alice, 50000);
+      const { signature, ...message } = intent;
+      const domain = await relayDomain(salaryRelay, ethers.provider);
+      const digest = ethers.TypedDataEncoder.hash(domain, SALARY_INTENT_TYPES, message);
+
+      expect(
+        await salaryRelay.hashIntent(
+          intent.submitter,
+          intent.poolId,
+          intent.encryptedSalary,
+          intent.inputProof,
+          intent.nonce,
+          intent.deadline
+        )
+      ).to.equal(digest);
+      expect(ethers.recoverAddress(digest, signature)).to.equal(alice.address);
+    });
+
+    /**
+     * @notice Test that a relayed intent is recorded for its signer, not the relayer
+     * @dev The nonce is consumed and the relayer pays the gas
+     */
+    it("Should record a relayed salary for the signer", async function () {
+      const { salaryLens, salaryRelay, alice, charlie, dave } = await loadFixture(deployRelayFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const intent = await signIntent(salaryRelay, alice, 50000);
+      await expect(
+        salaryRelay
+          .connect(dave)
+          .submitSalary(
+            intent.submitter,
+            intent.poolId,
+            intent.encryptedSalary,
+            intent.inputProof,
+            [],
+            intent.deadline,
+            intent.signature
+          )
+      )
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, alice.address, 1)
+        .and.to.emit(salaryRelay, "SalaryRelayed")
+        .withArgs(alice.address, POOL_ID, 0, dave.address);
+
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, dave.address)).to.be.false;
+      expect(await salaryRelay.nonces(alice.address)).to.equal(1);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect((await decryptAggregates(salaryLens, charlie, POOL_ID, ROUND_ID)).total).to.equal(50000);
+    });
+
+    /**
+     * @notice Test that a signer can submit only once, relayed or not
+     * @dev Should revert with AlreadySubmitted, exactly like addSalary
+     */
+    it("Should enforce one submission per signer", async function () {
+      const { salaryLens, salaryRelay, alice, dave } = await loadFixture(deployRelayFixture);
+
+      const first = await signIntent(salaryRelay, alice, 50000);
+      await salaryRelay
+        .connect(dave)
+        .submitSalary(first.submitter, first.poolId, first.encryptedSalary, first.inputProof, [], first.deadline, first.signature);
+
+      const second = await signIntent(salaryRelay, alice, 60000);
+      await expect(
+        salaryRelay
+          .connect(dave)
+          .submitSalary(second.submitter, second.poolId, second.encryptedSalary, second.inputProof, [], second.deadline, second.signature)
+      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 60000);
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+    });
+
+    /**
+     * @notice Test that intents cannot be replayed, altered, forged or used after their deadline
+     * @dev Should revert with InvalidSignature or IntentExpired
+     */
+    it("Should reject replayed, altered, forged and expired intents", async function () {
+      const { salaryLens, salaryRelay, alice, bob, dave } = await loadFixture(deployRelayFixture);
+
+      const intent = await signIntent(salaryRelay, alice, 50000);
+      const submit = (overrides: Partial<typeof intent>) => {
+        const { submitter, poolId, encryptedSalary, inputProof, deadline, signature } = { ...intent, ...overrides };
+        return salaryRelay
+          .connect(dave)
+          .submitSalary(submitter, poolId, encryptedSalary, inputProof, [], deadline, signature);
+      };
+
+      // The relayer cannot swap the ciphertext or claim the salary for someone else
+      await expect(
+        submit({ encryptedSalary: (await signIntent(salaryRelay, alice, 1)).encryptedSalary })
+      ).to.be.revertedWithCustomError(salaryRelay, "InvalidSignature");
+      await expect(submit({ submitter: bob.address })).to.be.revertedWithCustomError(salaryRelay, "InvalidSignature");
+      await expect(submit({ signature: "0x1234" })).to.be.revertedWithCustomError(salaryRelay, "InvalidSignature");
+
+      await submit({});
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+
+      // The nonce has been consumed, so the same signature no longer verifies
+      await expect(submit({})).to.be.revertedWithCustomError(salaryRelay, "InvalidSignature");
+
+      const expired = await signIntent(salaryRelay, bob, 60000, (await time.latest()) + 60);
+      await time.increase(120);
+      await expect(
+        salaryRelay
+          .connect(dave)
+          .submitSalary(expired.submitter, expired.poolId, expired.encryptedSalary, expired.inputProof, [], expired.deadline, expired.signature)
+      ).to.be.revertedWithCustomError(salaryRelay, "IntentExpired");
+    });
+
+    /**
+     * @notice Test that only the relay can submit on behalf of others
+     * @dev Should revert with NotRelay, also before a relay is set
+     */
+    it("Should only accept addSalaryFor from the relay", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, bob, 50000);
+      await expect(
+        salaryLens.connect(bob).addSalaryFor(alice.address, POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "NotRelay");
+
+      await salaryLens.setRelay(ethers.ZeroAddress);
+      await expect(
+        salaryLens.connect(bob).addSalaryFor(alice.address, POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "NotRelay");
+    });
+
+    /**
+     * @notice Test the relayer service end to end against the local Hardhat network
+     * @dev The intent is posted over HTTP like the frontend does; rejected intents cost no gas
+     */
+    it("Should relay signed intents posted to the relayer service", async function () {
+      const { salaryLens, salaryRelay, alice, charlie, dave } = await loadFixture(deployRelayFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const server = createRelayerServer(salaryRelay, dave);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as { port: number };
+      const post = (body: unknown) =>
+        fetch(`http://localhost:${port}/intents`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+
+      try {
+        const info = await (await fetch(`http://localhost:${port}/info`)).json();
+        expect(info.relay).to.equal(await salaryRelay.getAddress());
+        expect(info.relayer).to.equal(dave.address);
+
+        const intent = await signIntent(salaryRelay, alice, 50000);
+        const response = await post({ ...intent, nonce: Number(intent.nonce), eligibilityProof: [] });
+        expect(response.status).to.equal(200);
+        expect((await response.json()).nonce).to.equal(0);
+        expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+        expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+        expect((await decryptAggregates(salaryLens, charlie, POOL_ID, ROUND_ID)).total).to.equal(50000);
+
+        // A second intent of the same signer is rejected by the simulation, before any gas is spent
+        const second = await signIntent(salaryRelay, alice, 60000);
+        const rejected = await post({ ...second, nonce: Number(second.nonce), eligibilityProof: [] });
+        expect(rejected.status).to.equal(400);
+        expect((await rejected.json()).error).to.equal("AlreadySubmitted");
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  // ============ Bulk Import Tests ============
+
+  describe("Bulk Import", function () {
+    /**
+     * Encrypt a batch of salaries in one input and derive each row's ID like the import CLI
+     * @param admin - The account the input is bound to (the sender of the import)
+     */
+    async function createImportBatch(salaryLens: SalaryLens, admin: HardhatEthersSigner, rows: [string, number][]) {
+      const input = fhevm.createEncryptedInput(await salaryLens.getAddress(), admin.address);
+      rows.forEach(([, salary]) => input.add32(salary));
+      const { handles, inputProof } = await input.encrypt();
+      return {
+        rowIds: rows.map(([employeeId]) => importRowId(employeeId)),
+        encryptedSalaries: handles.map((handle) => ethers.hexlify(handle)),
+        inputProof: ethers.hexlify(inputProof),
+      };
+    }
+
+    /**
+     * @notice Test that the owner can import a batch of salaries in one transaction
+     * @dev Imported salaries count towards the round like submissions
+     */
+    it("Should import a batch of salaries into the current round", async function () {
+      const { salaryLens, owner, alice, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      const batch = await createImportBatch(salaryLens, owner, [["E-001", 60000], ["E-002", 70000], ["E-003", 80000]]);
+      await expect(salaryLens.importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries, batch.inputProof))
+        .to.emit(salaryLens, "SalariesImported")
+        .withArgs(POOL_ID, ROUND_ID, 3, 4);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(4);
+      expect(await salaryLens.getSubmissionsNeeded(POOL_ID)).to.equal(0);
+
+      const { total, min, max } = await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID);
+      expect(total).to.equal(260000);
+      expect([min, max]).to.deep.equal([50000n, 80000n]);
+    });
+
+    /**
+     * @notice Test that re-sending a batch does not count its rows twice
+     * @dev Resuming an interrupted import may re-send rows that were already imported
+     */
+    it("Should skip rows that were already imported into the round", async function () {
+      const { salaryLens, owner, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const first = await createImportBatch(salaryLens, owner, [["E-001", 60000], ["E-002", 70000]]);
+      await salaryLens.importSalaries(POOL_ID, first.rowIds, first.encryptedSalaries, first.inputProof);
+
+      const resent = await createImportBatch(salaryLens, owner, [["E-001", 60000], ["E-002", 70000], ["E-003", 80000]]);
+      await expect(salaryLens.importSalaries(POOL_ID, resent.rowIds, resent.encryptedSalaries, resent.inputProof))
+        .to.emit(salaryLens, "SalariesImported")
+        .withArgs(POOL_ID, ROUND_ID, 1, 3);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(3);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(210000);
+    });
+
+    /**
+     * @notice Test resuming an import of the CLI after a new round was opened
+     * @dev The progress file of the previous round is rejected, since its rows are not in the new
+     *      round, and re-importing them counts them again
+     */
+    it("Should not resume an import of a previous round", async function () {
+      const { salaryLens, owner, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const contractAddress = await salaryLens.getAddress();
+      const rows: [string, number][] = [["E-001", 60000], ["E-002", 70000]];
+
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), "salary-import-"));
+      const progressPath = path.join(directory, "salaries.csv.progress.json");
+
+      try {
+        const batch = await createImportBatch(salaryLens, owner, rows);
+        const tx = await salaryLens.importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries, batch.inputProof);
+        const progress = loadProgress(progressPath, contractAddress, POOL_ID, ROUND_ID);
+        progress.imported = rows.length;
+        progress.transactions.push(tx.hash);
+        fs.writeFileSync(progressPath, JSON.stringify(progress, null, 2));
+
+        // Within the round, the run resumes after the imported rows
+        expect(loadProgress(progressPath, contractAddress, POOL_ID, ROUND_ID).imported).to.equal(2);
+
+        await salaryLens.closeRound(POOL_ID);
+        const now = await time.latest();
+        await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+        const [, , , roundCount] = await salaryLens.getPool(POOL_ID);
+        const roundId = Number(roundCount) - 1;
+        expect(roundId).to.equal(1);
+
+        expect(() => loadProgress(progressPath, contractAddress, POOL_ID, roundId)).to.throw(
+          "belongs to round 0 of pool 0"
+        );
+
+        fs.rmSync(progressPath);
+        expect(loadProgress(progressPath, contractAddress, POOL_ID, roundId).imported).to.equal(0);
+
+        const again = await createImportBatch(salaryLens, owner, rows);
+        await expect(salaryLens.importSalaries(POOL_ID, again.rowIds, again.encryptedSalaries, again.inputProof))
+          .to.emit(salaryLens, "SalariesImported")
+          .withArgs(POOL_ID, roundId, 2, 2);
+        expect((await decryptAggregates(salaryLens, dave, POOL_ID, roundId)).total).to.equal(130000);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    /**
+     * @notice Test access control and batch validation of imports
+     * @dev Should revert with MissingRole, InvalidImport, WrongCohortMode or RoundNotOpen
+     */
+    it("Should only accept valid imports from admins into an open round", async function () {
+      const { salaryLens, owner, alice } = await loadFixture(deploySalaryLensFixture);
+      const batch = await createImportBatch(salaryLens, owner, [["E-001", 60000], ["E-002", 70000]]);
+
+      await expect(
+        salaryLens.connect(alice).importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries, batch.inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+      await expect(
+        salaryLens.importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries.slice(1), batch.inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidImport");
+
+      await salaryLens.closeRound(POOL_ID);
+      await expect(
+        salaryLens.importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries, batch.inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotOpen");
+
+      await salaryLens.setCohorts(POOL_ID, "Women", "Men");
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+      await expect(
+        salaryLens.importSalaries(POOL_ID, batch.rowIds, batch.encryptedSalaries, batch.inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "WrongCohortMode");
+    });
+
+    /**
+     * @notice Test the CSV parsing of the import CLI
+     * @dev A header row is skipped; duplicate employees and invalid salaries are rejected
+     */
+    it("Should read payroll rows from a CSV export", async function () {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), "salary-import-"));
+      const csvPath = path.join(directory, "salaries.csv");
+
+      try {
+        fs.writeFileSync(csvPath, "employeeId,salary\nE-001,60000\n\"E-002\",70000\n");
+        const rows = readImportRows(csvPath);
+        expect(rows.map((row) => row.salary)).to.deep.equal([60000, 70000]);
+        expect(rows[1].rowId).to.equal(importRowId("E-002"));
+
+        fs.writeFileSync(csvPath, "E-001,60000\nE-001,70000\n");
+        expect(() => readImportRows(csvPath)).to.throw("duplicate employee ID on line 2");
+
+        fs.writeFileSync(csvPath, "E-001,60000\nE-002,sixty\n");
+        expect(() => readImportRows(csvPath)).to.throw("Invalid salary on line 2");
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  // ============ Average Calculation Tests ============
+
+  describe("Average Calculation", function () {
+    /**
+     * @notice Test that requesting average fails with zero submissions
+     * @dev Should revert with NoSalariesSubmitted error
+     */
+    it("Should fail if count is 0 (division by zero protection)", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NoSalariesSubmitted");
+    });
+
+    /**
+     * @notice Test that a single submission cannot be revealed as "the average"
+     * @dev Should revert with BelowMinimumSubmissions until k salaries are in
+     */
+    it("Should fail below the minimum submission threshold", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deploySalaryLensFixture);
+
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens
+        .connect(alice)
+        .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
+      await salaryLens
+        .connect(bob)
+        .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(bob).requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([ethers.ZeroHash, 0]);
+    });
+
+    /**
+     * @notice Test that the average is revealed with exactly the threshold number of salaries
+     * @dev Should emit AverageRequested, and the publicly decrypted average should verify on-chain
+     */
+    it("Should allow requesting average once the threshold is reached", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(
+        deploySalaryLensFixture
+      );
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [50000, 60000, 70000];
+      const users = [alice, bob, charlie];
+      expect(users.length).to.equal(MIN_SUBMISSIONS);
+      for (let i = 0; i < users.length; i++) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, users[i], salaries[i]);
+        await salaryLens.connect(users[i]).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      expect(await salaryLens.getSubmissionsNeeded(POOL_ID)).to.equal(0);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID)).to.emit(
+        salaryLens,
+        "AverageRequested"
+      );
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+
+      const [average, count] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(60000);
+      expect(count).to.equal(MIN_SUBMISSIONS);
+    });
+
+    /**
+     * @notice Test getSubmissionsNeeded counts down to zero
+     * @dev Used by the frontend to tell users how many more submissions are needed
+     */
+    it("Should report how many more submissions are needed", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
+        deploySalaryLensFixture
+      );
+
+      expect(await salaryLens.getSubmissionsNeeded(POOL_ID)).to.equal(MIN_SUBMISSIONS);
+
+      const users = [alice, bob, charlie, dave];
+      for (let i = 0; i < users.length; i++) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, users[i], 50000);
+        await salaryLens.connect(users[i]).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+        expect(await salaryLens.getSubmissionsNeeded(POOL_ID)).to.equal(
+          Math.max(MIN_SUBMISSIONS - (i + 1), 0)
+        );
+      }
+    });
+
+    /**
+     * @notice Test that any user can request the average (not just submitters)
+     * @dev Average is public information once computed
+     */
+    it("Should allow any user to request average", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
+        deploySalaryLensFixture
+      );
+
+      // Alice, Bob and Charlie submit salaries
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
+      const salary3 = await encryptSalary(salaryLens, charlie, 70000);
+
+      await salaryLens
+        .connect(alice)
+        .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+      await salaryLens
+        .connect(bob)
+        .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, []);
+      await salaryLens
+        .connect(charlie)
+        .addSalary(POOL_ID, salary3.encryptedSalary, salary3.inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      // Dave (non-submitter) can still request the average
+      await expect(
+        salaryLens.connect(dave).requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.emit(salaryLens, "AverageRequested");
+    });
+
+    /**
+     * @notice Test that requesters of the same data version share one average
+     * @dev The second request reuses the first handle instead of computing a new FHE.div,
+     *      and one verification publishes the average to both requesters
+     */
+    it("Should share one average handle between requesters", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [50000, 60000, 70000];
+      const users = [alice, bob, charlie];
+      for (let i = 0; i < users.length; i++) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, users[i], salaries[i]);
+        await salaryLens.connect(users[i]).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([ethers.ZeroHash, 0]);
+
+      const handles = [];
+      for (const user of [alice, dave]) {
+        const tx = await salaryLens.connect(user).requestAverageDecryption(POOL_ID, ROUND_ID);
+        const receipt = await tx.wait();
+        const event = receipt!.logs
+          .map((log) => salaryLens.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "AverageRequested");
+        expect(event!.args.requester).to.equal(user.address);
+        handles.push(event!.args.handle);
+      }
+
+      expect(handles[1]).to.equal(handles[0]);
+      // The pending average records the sample size it was computed from
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([handles[0], 3]);
+
+      // One verification of the shared handle reveals the average to both requesters
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+      for (const user of [alice, dave]) {
+        const [average, count] = await salaryLens.connect(user).getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+        expect(average).to.equal(60000);
+        expect(count).to.equal(3);
+      }
+    });
+
+    /**
+     * @notice Test that every submission, update and withdrawal bumps the data version
+     * @dev The current version is reported next to the latest verified average. A request
+     *      reuses the cached average while the version is unchanged and computes a new one
+     *      once it moves
+     */
+    it("Should bump the data version on every change", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const currentVersion = async () => (await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID)).currentVersion;
+      const requestHandle = async () => {
+        const tx = await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+        const receipt = await tx.wait();
+        const event = receipt!.logs
+          .map((log) => salaryLens.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "AverageRequested");
+        return event!.args.handle as string;
+      };
+
+      const users = [alice, bob, charlie, dave];
+      for (const user of users) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      expect(await currentVersion()).to.equal(4);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 70000);
+      await salaryLens.connect(alice).updateSalary(POOL_ID, encryptedSalary, inputProof);
+      expect(await currentVersion()).to.equal(5);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      // Same version: the second request returns the cached handle
+      const firstHandle = await requestHandle();
+      expect(await requestHandle()).to.equal(firstHandle);
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([firstHandle, 4]);
+
+      // A withdrawal from the closed round moves the version and drops the cached average
+      await salaryLens.connect(bob).withdrawSalary(POOL_ID, ROUND_ID);
+      expect(await currentVersion()).to.equal(6);
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([ethers.ZeroHash, 0]);
+
+      const secondHandle = await requestHandle();
+      expect(secondHandle).to.not.equal(firstHandle);
+      expect(await salaryLens.getPendingHandle(POOL_ID, ROUND_ID)).to.deep.equal([secondHandle, 3]);
+
+      // The new handle holds the average of the remaining salaries (70000 + 50000 + 50000)
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+      const [average, count, verifiedVersion] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(56666);
+      expect(count).to.equal(3);
+      expect(verifiedVersion).to.equal(6);
+    });
+
+    /**
+     * @notice Test that a verified average is labelled with the sample size it was computed from
+     * @dev AverageDecrypted and getLatestVerifiedAverage carry the count of the pending handle;
+     *      a request outdated by a withdrawal can no longer be verified and is requested again
+     */
+    it("Should record the sample size of the verified average", async function () {
+      const { salaryLens, owner, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [40000, 50000, 60000, 70000];
+      const users = [alice, bob, charlie, dave];
+      for (let i = 0; i < users.length; i++) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, users[i], salaries[i]);
+        await salaryLens.connect(users[i]).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+      const [staleHandle, pendingCount] = await salaryLens.getPendingHandle(POOL_ID, ROUND_ID);
+      expect(pendingCount).to.equal(4);
+
+      // Dave withdraws before the request is verified, so its sample size is out of date
+      await salaryLens.connect(dave).withdrawSalary(POOL_ID, ROUND_ID);
+      const stale = await fhevm.publicDecrypt([staleHandle]);
+      await expect(
+        salaryLens.verifyDecryption(POOL_ID, ROUND_ID, stale.abiEncodedClearValues, stale.decryptionProof)
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+
+      await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+      const [handle] = await salaryLens.getPendingHandle(POOL_ID, ROUND_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      await expect(
+        salaryLens.connect(bob).verifyDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof)
+      )
+        .to.emit(salaryLens, "AverageDecrypted")
+        .withArgs(POOL_ID, ROUND_ID, bob.address, 50000, 3);
+
+      const [average, count, version, blockNumber, currentVersion] = await salaryLens
+        .connect(owner)
+        .getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(50000);
+      expect(count).to.equal(3);
+      expect(count).to.equal(await salaryLens.getCount(POOL_ID));
+      expect(version).to.equal(currentVersion);
+      expect(blockNumber).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    /**
+     * @notice Test that verifying without a requested average fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify an average that was never requested", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyDecryption(POOL_ID, ROUND_ID, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+  });
+
+  // ============ Average History Tests ============
+
+  describe("Average History", function () {
+    /**
+     * @notice Verify a new pool has an empty average history
+     * @dev Pages of an empty history are empty, whatever the offset and limit
+     */
+    it("Should start with an empty history", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.getAverageHistoryLength(POOL_ID)).to.equal(0);
+      expect(await salaryLens.getAverageHistory(POOL_ID, 0, 10)).to.deep.equal([]);
+      expect(await salaryLens.getAverageHistory(POOL_ID, 5, 0)).to.deep.equal([]);
+    });
+
+    /**
+     * @notice Test that requesting an average does not append to the history
+     * @dev Only verified averages are recorded, with the round, value, sample size and block
+     *      of their verification
+     */
+    it("Should not record unverified averages", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [45000, 50000, 61000];
+      const users = [alice, bob, charlie];
+      for (let i = 0; i < users.length; i++) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, users[i], salaries[i]);
+        await salaryLens.connect(users[i]).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID);
+
+      expect(await salaryLens.getAverageHistoryLength(POOL_ID)).to.equal(0);
+
+      // Verifying the reveal appends it to the history
+      const [handle] = await salaryLens.getPendingHandle(POOL_ID, ROUND_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      const tx = await salaryLens.verifyDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof);
+      const receipt = await tx.wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+
+      expect(await salaryLens.getAverageHistoryLength(POOL_ID)).to.equal(1);
+      const [record] = await salaryLens.getAverageHistory(POOL_ID, 0, 10);
+      expect(record.roundId).to.equal(ROUND_ID);
+      expect(record.value).to.equal(52000);
+      expect(record.count).to.equal(3);
+      expect(record.blockNumber).to.equal(receipt!.blockNumber);
+      expect(record.timestamp).to.equal(block!.timestamp);
+    });
+
+    /**
+     * @notice Test that the history getters reject unknown pools
+     * @dev Should revert with PoolDoesNotExist error
+     */
+    it("Should fail to read the history of a non-existent pool", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.getAverageHistoryLength(99)
+      ).to.be.revertedWithCustomError(salaryLens, "PoolDoesNotExist");
+      await expect(
+        salaryLens.getAverageHistory(99, 0, 10)
+      ).to.be.revertedWithCustomError(salaryLens, "PoolDoesNotExist");
+    });
+  });
+
+  // ============ Reveal Committee Tests ============
+
+  describe("Reveal Committee", function () {
+    /** RevealCommittee.Reveal enum values */
+    const REVEAL_AVERAGE = 0;
+    const REVEAL_STATS = 1;
+
+    /**
+     * @notice Deploy a 2-of-3 RevealCommittee (alice, bob, charlie) and set it on the fixture contract
+     * @dev The fixture round is left open and empty; see fillRound()
+     */
+    async function deployCommitteeFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens, alice, bob, charlie } = fixture;
+
+      const RevealCommitteeFactory = await ethers.getContractFactory("RevealCommittee");
+      const revealCommittee = await RevealCommitteeFactory.deploy(
+        await salaryLens.getAddress(),
+        [alice.address, bob.address, charlie.address],
+        2,
+        PROPOSAL_LIFETIME
+      );
+      await revealCommittee.waitForDeployment();
+      await salaryLens.setRevealCommittee(await revealCommittee.getAddress());
+
+      return { ...fixture, revealCommittee };
+    }
+
+    /**
+     * @notice Submit a salary for each user to the fixture round and close it
+     */
+    async function fillRound(salaryLens: SalaryLens, users: HardhatEthersSigner[]) {
+      for (const user of users) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      await salaryLens.closeRound(POOL_ID);
+    }
+
+    /**
+     * @notice Get the ID of the latest proposal
+     */
+    async function proposalIdOf(revealCommittee: RevealCommittee): Promise<bigint> {
+      return (await revealCommittee.proposalCount()) - 1n;
+    }
+
+    /**
+     * @notice Test that only the owner can set the reveal committee
+     * @dev Should revert with NotOwner, and emit RevealCommitteeUpdated otherwise
+     */
+    it("Should let only the owner set the reveal committee", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.revealCommittee()).to.equal(ethers.ZeroAddress);
+      await expect(
+        salaryLens.connect(alice).setRevealCommittee(alice.address)
+      ).to.be.revertedWithCustomError(salaryLens, "NotOwner");
+
+      await expect(salaryLens.setRevealCommittee(alice.address))
+        .to.emit(salaryLens, "RevealCommitteeUpdated")
+        .withArgs(alice.address);
+      expect(await salaryLens.revealCommittee()).to.equal(alice.address);
+    });
+
+    /**
+     * @notice Test that average reveals can only be requested through the committee while it is set
+     * @dev Should revert with NotRevealCommittee, for the owner too, until the committee is removed
+     */
+    it("Should reject direct average requests while a committee is set", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deployCommitteeFixture);
+
+      await fillRound(salaryLens, [alice, bob, charlie]);
+
+      await expect(
+        salaryLens.connect(dave).requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotRevealCommittee");
+      await expect(
+        salaryLens.requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotRevealCommittee");
+
+      await salaryLens.setRevealCommittee(ethers.ZeroAddress);
+      await expect(salaryLens.connect(dave).requestAverageDecryption(POOL_ID, ROUND_ID)).to.emit(
+        salaryLens,
+        "AverageRequested"
+      );
+    });
+
+    /**
+     * @notice Test that the mean and the compensation averages, from which the average follows, are gated too
+     * @dev Direct requests revert with NotRevealCommittee; an approved Stats proposal reveals the
+     *      mean and variance, which anyone can verify through the committee
+     */
+    it("Should only reveal statistics derived from the average through the committee", async function () {
+      const { salaryLens, revealCommittee, alice, bob, charlie, dave } = await loadFixture(deployCommitteeFixture);
+      await mineAboveMockCoprocessorHead();
+
+      for (const [user, salary] of [
+        [alice, 40000],
+        [bob, 50000],
+        [charlie, 60000],
+      ] as const) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, salary);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(dave).requestStatsDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotRevealCommittee");
+      // Statistic.BonusAverage, Statistic.EquityAverage, Statistic.CompensationAverage
+      for (const component of [7, 8, 9]) {
+        await expect(
+          salaryLens.connect(dave).requestCompensationDecryption(POOL_ID, ROUND_ID, component)
+        ).to.be.revertedWithCustomError(salaryLens, "NotRevealCommittee");
+      }
+
+      await revealCommittee.connect(alice).propose(POOL_ID, ROUND_ID, REVEAL_STATS);
+      const proposalId = await proposalIdOf(revealCommittee);
+      await expect(
+        revealCommittee.verify(proposalId, "0x", "0x")
+      ).to.be.revertedWithCustomError(revealCommittee, "ProposalNotExecuted");
+      await expect(revealCommittee.connect(bob).approve(proposalId))
+        .to.emit(salaryLens, "StatsRequested")
+        .withArgs(POOL_ID, ROUND_ID, await revealCommittee.getAddress(), anyValue, anyValue);
+
+      const handles = await revealCommittee.getRevealedHandles(proposalId);
+      expect(handles.length).to.equal(2);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...handles]);
+      await revealCommittee.connect(dave).verify(proposalId, abiEncodedClearValues, decryptionProof);
+
+      const [mean, variance] = await salaryLens.getLastStats(POOL_ID, ROUND_ID, await revealCommittee.getAddress());
+      expect(mean).to.equal(50000);
+      expect(variance).to.equal(66666666);
+    });
+
+    /**
+     * @notice Test that the reveal is requested by the approval that reaches the threshold
+     * @dev The proposal counts as the proposer's approval; later approvals are rejected
+     */
+    it("Should request the average once M of N members approved", async function () {
+      const { salaryLens, revealCommittee, alice, bob, charlie } = await loadFixture(deployCommitteeFixture);
+
+      await fillRound(salaryLens, [alice, bob, charlie]);
+
+      const proposeTx = await revealCommittee.connect(alice).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE);
+      await expect(proposeTx)
+        .to.emit(revealCommittee, "RevealProposed")
+        .withArgs(0, POOL_ID, ROUND_ID, REVEAL_AVERAGE, alice.address, anyValue)
+        .and.to.emit(revealCommittee, "RevealApproved")
+        .withArgs(0, alice.address, 1);
+      await expect(proposeTx).not.to.emit(salaryLens, "AverageRequested");
+
+      const proposalId = await proposalIdOf(revealCommittee);
+      let proposal = await revealCommittee.getProposal(proposalId);
+      expect(proposal.proposer).to.equal(alice.address);
+      expect(proposal.expiresAt).to.equal((await time.latest()) + PROPOSAL_LIFETIME);
+      expect(proposal.approvals).to.equal(1);
+      expect(proposal.executed).to.be.false;
+      expect(proposal.reveal).to.equal(REVEAL_AVERAGE);
+
+      await expect(revealCommittee.connect(bob).approve(proposalId))
+        .to.emit(revealCommittee, "RevealExecuted")
+        .withArgs(proposalId, anyValue)
+        .and.to.emit(salaryLens, "AverageRequested")
+        .withArgs(POOL_ID, ROUND_ID, await revealCommittee.getAddress(), anyValue);
+
+      proposal = await revealCommittee.getProposal(proposalId);
+      expect(proposal.approvals).to.equal(2);
+      expect(proposal.executed).to.be.true;
+      expect(await revealCommittee.hasApproved(proposalId, bob.address)).to.be.true;
+
+      await expect(
+        revealCommittee.connect(charlie).approve(proposalId)
+      ).to.be.revertedWithCustomError(revealCommittee, "ProposalAlreadyExecuted");
+    });
+
+    /**
+     * @notice Test that only members can propose and approve, once each
+     * @dev Should revert with NotMember, AlreadyApproved or ProposalDoesNotExist
+     */
+    it("Should only accept one approval per member", async function () {
+      const { revealCommittee, alice, dave } = await loadFixture(deployCommitteeFixture);
+
+      await expect(
+        revealCommittee.connect(dave).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE)
+      ).to.be.revertedWithCustomError(revealCommittee, "NotMember");
+
+      await revealCommittee.connect(alice).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE);
+      const proposalId = await proposalIdOf(revealCommittee);
+
+      await expect(
+        revealCommittee.connect(dave).approve(proposalId)
+      ).to.be.revertedWithCustomError(revealCommittee, "NotMember");
+      await expect(
+        revealCommittee.connect(alice).approve(proposalId)
+      ).to.be.revertedWithCustomError(revealCommittee, "AlreadyApproved");
+      await expect(
+        revealCommittee.connect(alice).approve(5)
+      ).to.be.revertedWithCustomError(revealCommittee, "ProposalDoesNotExist");
+      await expect(revealCommittee.getProposal(5)).to.be.revertedWithCustomError(
+        revealCommittee,
+        "ProposalDoesNotExist"
+      );
+    });
+
+    /**
+     * @notice Test that a proposal can no longer be approved after its lifetime
+     * @dev Should revert with ProposalExpired; a new proposal can be made instead
+     */
+    it("Should expire proposals that did not reach the threshold", async function () {
+      const { salaryLens, revealCommittee, alice, bob, charlie } = await loadFixture(deployCommitteeFixture);
+
+      await fillRound(salaryLens, [alice, bob, charlie]);
+      await revealCommittee.connect(alice).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE);
+      const expiredId = await proposalIdOf(revealCommittee);
+
+      await time.increase(PROPOSAL_LIFETIME + 1);
+      await expect(
+        revealCommittee.connect(bob).approve(expiredId)
+      ).to.be.revertedWithCustomError(revealCommittee, "ProposalExpired");
+
+      await revealCommittee.connect(bob).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE);
+      await expect(revealCommittee.connect(charlie).approve(await proposalIdOf(revealCommittee))).to.emit(
+        revealCommittee,
+        "RevealExecuted"
+      );
+    });
+
+    /**
+     * @notice Test that the final approval fails, and the proposal stays pending, while the round cannot be revealed
+     * @dev SalaryLens' own checks (closed round, minSubmissions) still apply to the committee
+     */
+    it("Should keep a proposal pending until the round can be revealed", async function () {
+      const { salaryLens, revealCommittee, alice, bob, charlie } = await loadFixture(deployCommitteeFixture);
+
+      await revealCommittee.connect(alice).propose(POOL_ID, ROUND_ID, REVEAL_AVERAGE);
+      const proposalId = await proposalIdOf(revealCommittee);
+
+      await expect(
+        revealCommittee.connect(bob).approve(proposalId)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+      expect((await revealCommittee.getProposal(proposalId)).approvals).to.equal(1);
+
+      await fillRound(salaryLens, [alice, bob, charlie]);
+      await expect(revealCommittee.connect(bob).approve(proposalId)).to.emit(revealCommittee, "RevealExecuted");
+    });
+
+    /**
+     * @notice Test that the committee configuration is validated at deployment
+     * @dev Should revert with InvalidMembers, InvalidThreshold or InvalidLifetime
+     */
+    it("Should reject invalid committee configurations", async function () {
+      const { salaryLens, revealCommittee, alice, bob } = await loadFixture(deployCommitteeFixture);
+
+      const RevealCommitteeFactory = await ethers.getContractFactory("RevealCommittee");
+      const salaryLensAddress = await salaryLens.getAddress();
+      const members = [alice.address, bob.address];
+
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, [], 1, PROPOSAL_LIFETIME)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidMembers");
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, [alice.address, alice.address], 1, PROPOSAL_LIFETIME)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidMembers");
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, [alice.address, ethers.ZeroAddress], 1, PROPOSAL_LIFETIME)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidMembers");
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, members, 0, PROPOSAL_LIFETIME)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidThreshold");
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, members, 3, PROPOSAL_LIFETIME)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidThreshold");
+      await expect(
+        RevealCommitteeFactory.deploy(salaryLensAddress, members, 2, 0)
+      ).to.be.revertedWithCustomError(RevealCommitteeFactory, "InvalidLifetime");
+
+      expect(await revealCommittee.getMembers()).to.have.lengthOf(3);
+      expect(await revealCommittee.threshold()).to.equal(2);
+      expect(await revealCommittee.isMember(bob.address)).to.be.true;
+    });
+  });
+
+  // ============ Salary Range Tests ============
+
+  describe("Salary Range", function () {
+    /**
+     * @notice Test that the range is subject to the same threshold as the average
+     * @dev The minimum and maximum are individual salaries, so k-anonymity matters even more
+     */
+    it("Should fail to request the range below the minimum submission threshold", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestRangeDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+
+    /**
+     * @notice Publicly decrypt a requested range and verify it for the requester
+     * @dev The handles are taken from the RangeRequested event of the request
+     */
+    async function revealRange(salaryLens: SalaryLens, requester: HardhatEthersSigner) {
+      const tx = await salaryLens.connect(requester).requestRangeDecryption(POOL_ID, ROUND_ID);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "RangeRequested");
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+        event!.args.minHandle,
+        event!.args.maxHandle,
+      ]);
+      await expect(
+        salaryLens.connect(requester).verifyRangeDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof)
+      ).to.emit(salaryLens, "RangeDecrypted");
+
+      return salaryLens.getLastRange(POOL_ID, ROUND_ID, requester.address);
+    }
+
+    /**
+     * @notice Test range request once the threshold is reached
+     * @dev Should emit RangeRequested with both handles, which decrypt to the lowest and highest salary
+     */
+    it("Should allow requesting the range once the threshold is reached", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
+        deploySalaryLensFixture
+      );
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [
+        { user: alice, amount: 50000 },
+        { user: bob, amount: 90000 },
+        { user: charlie, amount: 40000 },
+      ];
+
+      for (const { user, amount } of salaries) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      const [min, max] = await revealRange(salaryLens, dave);
+      expect(min).to.equal(40000);
+      expect(max).to.equal(90000);
+
+      // The range is stored for the requester only
+      expect(await salaryLens.getLastRange(POOL_ID, ROUND_ID, alice.address)).to.deep.equal([0, 0]);
+    });
+
+    /**
+     * @notice Test that a withdrawn maximum is gone from the rebuilt range
+     * @dev The range cannot be requested while outdated; rebuildRange() recomputes it in chunks
+     */
+    it("Should reveal the rebuilt range after a withdrawal", async function () {
+      const { salaryLens, owner, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [
+        { user: alice, amount: 50000 },
+        { user: bob, amount: 90000 },
+        { user: charlie, amount: 40000 },
+        { user: dave, amount: 60000 },
+      ];
+      for (const { user, amount } of salaries) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.connect(bob).withdrawSalary(POOL_ID, ROUND_ID);
+      await salaryLens.closeRound(POOL_ID);
+      await expect(salaryLens.requestRangeDecryption(POOL_ID, ROUND_ID))
+        .to.be.revertedWithCustomError(salaryLens, "RangeOutdated");
+
+      await salaryLens.rebuildRange(POOL_ID, ROUND_ID, 2);
+      await expect(salaryLens.rebuildRange(POOL_ID, ROUND_ID, 2))
+        .to.emit(salaryLens, "RangeRebuilt")
+        .withArgs(POOL_ID, ROUND_ID);
+
+      const { min, max } = await decryptAggregates(salaryLens, owner, POOL_ID, ROUND_ID);
+      expect([min, max]).to.deep.equal([40000n, 60000n]);
+
+      expect(await revealRange(salaryLens, alice)).to.deep.equal([40000, 60000]);
+    });
+
+    /**
+     * @notice Test that verifying without a pending request fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify a range without a pending request", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyRangeDecryption(POOL_ID, ROUND_ID, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+
+    /**
+     * @notice Verify the last range is zero before any decryption
+     * @dev getLastRange should return (0, 0) for any address
+     */
+    it("Should have zero last range for all users", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const [min, max] = await salaryLens.getLastRange(POOL_ID, ROUND_ID, alice.address);
+      expect(min).to.equal(0);
+      expect(max).to.equal(0);
+    });
+  });
+
+  // ============ Mean and Variance Tests ============
+
+  describe("Mean and Variance", function () {
+    /**
+     * @notice Test that the statistics are subject to the same threshold as the average
+     */
+    it("Should fail to request the statistics below the minimum submission threshold", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestStatsDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+
+    /**
+     * @notice Test that the statistics can only be requested once the round is closed
+     */
+    it("Should fail to request the statistics of an open round", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(
+        salaryLens.connect(alice).requestStatsDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+    });
+
+    /**
+     * @notice Test statistics request once the threshold is reached
+     * @dev Should emit StatsRequested with a 64-bit mean and a 128-bit variance handle, both
+     *      verified with a single proof. The salaries do not divide evenly, so the decrypted
+     *      values must match the contract's rounding: mean = total / count and
+     *      variance = sumOfSquares / count - mean², both divisions rounding down
+     */
+    it("Should request the mean and variance together", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salaries = [40000n, 50001n, 90002n];
+      for (const [index, user] of [alice, bob, charlie].entries()) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, Number(salaries[index]));
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      const tx = await salaryLens.connect(dave).requestStatsDecryption(POOL_ID, ROUND_ID);
+      const receipt = await tx.wait();
+      await expect(tx).to.emit(salaryLens, "StatsRequested");
+
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "StatsRequested");
+      const EUINT64_TYPE = 5;
+      const EUINT128_TYPE = 6;
+      expect(ethers.getBytes(event!.args.meanHandle)[30]).to.equal(EUINT64_TYPE);
+      expect(ethers.getBytes(event!.args.varianceHandle)[30]).to.equal(EUINT128_TYPE);
+
+      const count = BigInt(salaries.length);
+      const mean = salaries.reduce((sum, salary) => sum + salary, 0n) / count;
+      const variance = salaries.reduce((sum, salary) => sum + salary * salary, 0n) / count - mean * mean;
+      expect([mean, variance]).to.deep.equal([60001n, 466700000n]);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+        event!.args.meanHandle,
+        event!.args.varianceHandle,
+      ]);
+      await expect(
+        salaryLens.connect(dave).verifyStatsDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof)
+      )
+        .to.emit(salaryLens, "StatsDecrypted")
+        .withArgs(POOL_ID, ROUND_ID, dave.address, mean, variance);
+      expect(await salaryLens.getLastStats(POOL_ID, ROUND_ID, dave.address)).to.deep.equal([mean, variance]);
+    });
+
+    /**
+     * @notice Test that verifying without a pending request fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify statistics without a pending request", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyStatsDecryption(POOL_ID, ROUND_ID, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+
+    /**
+     * @notice Verify the last statistics are zero before any decryption
+     */
+    it("Should have zero last statistics for all users", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const [mean, variance] = await salaryLens.getLastStats(POOL_ID, ROUND_ID, alice.address);
+      expect(mean).to.equal(0);
+      expect(variance).to.equal(0);
+    });
+  });
+
+  // ============ Percentile Tests ============
+
+  describe("Percentiles", function () {
+    /** `SalaryLens.Statistic` values of the percentiles */
+    const PERCENTILE_25 = 3;
+    const MEDIAN = 4;
+    const PERCENTILE_75 = 5;
+
+    /** Percentile edges the fixture sets on pool 0 */
+    const PERCENTILE_EDGES = [30000, 50000, 70000, 90000];
+
+    /**
+     * @notice Set percentile edges on pool 0 and open round 1 with them
+     * @dev Edges can only be set between rounds, so round 0 is closed first
+     */
+    async function deployWithPercentilesFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens } = fixture;
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setPercentileEdges(POOL_ID, PERCENTILE_EDGES);
+
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      return fixture;
+    }
+
+    /**
+     * @notice Test that percentile edges are admin-only, validated and only change between rounds
+     * @dev Should revert with RoundNotClosed, MissingRole or InvalidPercentileEdges, and emit
+     *      PercentileEdgesUpdated otherwise
+     */
+    it("Should only set valid percentile edges between rounds", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.setPercentileEdges(POOL_ID, PERCENTILE_EDGES)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).setPercentileEdges(POOL_ID, PERCENTILE_EDGES)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+
+      await expect(
+        salaryLens.setPercentileEdges(POOL_ID, [50000, 50000])
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidPercentileEdges");
+
+      const tooMany = Array.from({ length: 17 }, (_, i) => (i + 1) * 10000);
+      await expect(
+        salaryLens.setPercentileEdges(POOL_ID, tooMany)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidPercentileEdges");
+
+      await expect(salaryLens.setPercentileEdges(POOL_ID, PERCENTILE_EDGES))
+        .to.emit(salaryLens, "PercentileEdgesUpdated")
+        .withArgs(POOL_ID, PERCENTILE_EDGES);
+    });
+
+    /**
+     * @notice Test that each round keeps the edges it was opened with
+     * @dev Changing the pool's edges only affects rounds opened afterwards
+     */
+    it("Should snapshot the percentile edges when a round opens", async function () {
+      const { salaryLens } = await loadFixture(deployWithPercentilesFixture);
+
+      expect(await salaryLens.getPercentileEdges(POOL_ID, 0)).to.deep.equal([]);
+      expect(await salaryLens.getPercentileEdges(POOL_ID, 1)).to.deep.equal(PERCENTILE_EDGES);
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setPercentileEdges(POOL_ID, [60000]);
+
+      expect(await salaryLens.getPercentileEdges(POOL_ID, 1)).to.deep.equal(PERCENTILE_EDGES);
+    });
+
+    /**
+     * @notice Test that percentiles are subject to the same threshold as the average
+     */
+    it("Should fail to request a percentile below the minimum submission threshold", async function () {
+      const { salaryLens, alice } = await loadFixture(deployWithPercentilesFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestPercentileDecryption(POOL_ID, 1, MEDIAN)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+
+    /**
+     * @notice Test that only percentiles of rounds with edges can be requested
+     * @dev Should revert with InvalidPercentile for another statistic or a round without edges
+     */
+    it("Should reject non-percentile statistics and rounds without edges", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestPercentileDecryption(POOL_ID, ROUND_ID, MEDIAN)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidPercentile");
+
+      await salaryLens.setPercentileEdges(POOL_ID, PERCENTILE_EDGES);
+      await expect(
+        salaryLens.connect(alice).requestPercentileDecryption(POOL_ID, ROUND_ID, MEDIAN)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidPercentile");
+
+      // Statistic.Stats
+      await expect(
+        salaryLens.connect(alice).verifyPercentileDecryption(POOL_ID, ROUND_ID, 2, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidPercentile");
+    });
+
+    /**
+     * @notice Test percentile requests once the threshold is reached
+     * @dev Each percentile emits PercentileRequested with a single 32-bit handle. The auditor's
+     *      below-edge counters count salaries strictly below each edge (bob's sits on one), and
+     *      each decrypted estimate is the highest edge with at most count * rank / 100 salaries below it
+     */
+    it("Should request the quartiles and the median separately", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deployWithPercentilesFixture);
+      await mineAboveMockCoprocessorHead();
+      const roundId = 1;
+      await salaryLens.grantRole(AUDITOR_ROLE, dave.address);
+
+      const salaries = [40000, 70000, 95000];
+      for (const [index, user] of [alice, bob, charlie].entries()) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, salaries[index]);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      const countsBelow = PERCENTILE_EDGES.map((edge) => salaries.filter((salary) => salary < edge).length);
+      expect(countsBelow).to.deep.equal([0, 1, 1, 2]);
+      const contractAddress = await salaryLens.getAddress();
+      const breakdown = await salaryLens.getAuditBreakdownHandles(POOL_ID, roundId);
+      const countBelowHandles = breakdown.slice(BAND_EDGES.length + 1, BAND_EDGES.length + 1 + PERCENTILE_EDGES.length);
+      for (const [index, handle] of countBelowHandles.entries()) {
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, dave)).to.equal(
+          BigInt(countsBelow[index])
+        );
+      }
+
+      const EUINT32_TYPE = 4;
+      const ranks = [
+        { percentile: PERCENTILE_25, rank: 25, expected: 30000 },
+        { percentile: MEDIAN, rank: 50, expected: 70000 },
+        { percentile: PERCENTILE_75, rank: 75, expected: 90000 },
+      ];
+      for (const { percentile, rank, expected } of ranks) {
+        const target = Math.floor((salaries.length * rank) / 100);
+        const estimate = PERCENTILE_EDGES.filter((_, i) => countsBelow[i] <= target).pop() ?? 0;
+        expect(estimate).to.equal(expected);
+
+        const tx = await salaryLens.connect(dave).requestPercentileDecryption(POOL_ID, roundId, percentile);
+        const receipt = await tx.wait();
+        const event = receipt!.logs
+          .map((log) => salaryLens.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "PercentileRequested");
+
+        expect(event!.args.percentile).to.equal(percentile);
+        expect(ethers.getBytes(event!.args.handle)[30]).to.equal(EUINT32_TYPE);
+
+        const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([event!.args.handle]);
+        await salaryLens
+          .connect(dave)
+          .verifyPercentileDecryption(POOL_ID, roundId, percentile, abiEncodedClearValues, decryptionProof);
+        expect(await salaryLens.getLastPercentile(POOL_ID, roundId, dave.address, percentile)).to.equal(estimate);
+      }
+    });
+
+    /**
+     * @notice Test that verifying without a pending request fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify a percentile without a pending request", async function () {
+      const { salaryLens, alice } = await loadFixture(deployWithPercentilesFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyPercentileDecryption(POOL_ID, 1, MEDIAN, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+
+    /**
+     * @notice Verify the last percentiles are zero before any decryption
+     */
+    it("Should have zero last percentiles for all users", async function () {
+      const { salaryLens, alice } = await loadFixture(deployWithPercentilesFixture);
+
+      for (const percentile of [PERCENTILE_25, MEDIAN, PERCENTILE_75]) {
+        expect(await salaryLens.getLastPercentile(POOL_ID, 1, alice.address, percentile)).to.equal(0);
+      }
+    });
+  });
+
+  // ============ Histogram Tests ============
+
+  describe("Histogram", function () {
+    /**
+     * @notice Test that band counts are subject to the minimum submission threshold
+     * @dev Should revert with BelowMinimumSubmissions error
+     */
+    it("Should fail to request the histogram below the minimum submission threshold", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestHistogramDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+
+    /**
+     * @notice Test histogram request once the threshold is reached
+     * @dev Should emit HistogramRequested with one handle per band. Salaries on both sides of
+     *      every edge show that an edge itself belongs to the band above it.
+     */
+    it("Should request one handle per band", async function () {
+      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const [, alice, bob, charlie, dave, eve, frank, grace] = await ethers.getSigners();
+
+      // Bands: <40k, 40k-60k, 60k-80k, >=80k
+      const salaries = [
+        { user: alice, amount: 39999 },
+        { user: bob, amount: 40000 },
+        { user: charlie, amount: 59999 },
+        { user: dave, amount: 60000 },
+        { user: eve, amount: 80000 },
+        { user: frank, amount: 95000 },
+      ];
+
+      for (const { user, amount } of salaries) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+
+      const tx = await salaryLens.connect(grace).requestHistogramDecryption(POOL_ID, ROUND_ID);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "HistogramRequested");
+
+      expect(event).to.not.be.undefined;
+      expect(event!.args.handles).to.have.length(BAND_EDGES.length + 1);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...event!.args.handles]);
+      await expect(
+        salaryLens.connect(grace).verifyHistogramDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof)
+      )
+        .to.emit(salaryLens, "HistogramDecrypted")
+        .withArgs(POOL_ID, ROUND_ID, grace.address, [1, 2, 1, 2]);
+
+      expect(await salaryLens.getLastHistogram(POOL_ID, ROUND_ID, grace.address)).to.deep.equal([1, 2, 1, 2]);
+    });
+
+    /**
+     * @notice Test that verifying without a pending request fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify a histogram without a pending request", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyHistogramDecryption(POOL_ID, ROUND_ID, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+
+    /**
+     * @notice Verify the last histogram is empty before any decryption
+     * @dev getLastHistogram should return an empty array
+     */
+    it("Should have an empty last histogram for all users", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      expect(await salaryLens.getLastHistogram(POOL_ID, ROUND_ID, alice.address)).to.deep.equal([]);
+    });
+  });
+
+  // ============ Update & Withdrawal Tests ============
+
+  describe("Updating and Withdrawing", function () {
+    /**
+     * @notice Test that a submitter can replace their salary
+     * @dev Count stays the same, SalaryUpdated is emitted and the total swaps the old salary for the new one
+     */
+    it("Should allow a submitter to update their salary", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salary = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, salary.encryptedSalary, salary.inputProof, []);
+      const other = await encryptSalary(salaryLens, bob, 40000);
+      await salaryLens.connect(bob).addSalary(POOL_ID, other.encryptedSalary, other.inputProof, []);
+
+      const raise = await encryptSalary(salaryLens, alice, 65000);
+      await expect(
+        salaryLens.connect(alice).updateSalary(POOL_ID, raise.encryptedSalary, raise.inputProof)
+      )
+        .to.emit(salaryLens, "SalaryUpdated")
+        .withArgs(POOL_ID, ROUND_ID, alice.address);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+
+      const { total, sumOfSquares } = await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID);
+      expect(total).to.equal(105000n);
+      expect(sumOfSquares).to.equal(65000n ** 2n + 40000n ** 2n);
+    });
+
+    /**
+     * @notice Test that a submitter can withdraw and later submit again
+     * @dev Count is decremented, hasSubmitted is cleared and the salary leaves the total
+     */
+    it("Should allow a submitter to withdraw and resubmit", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      for (const [user, amount] of [[alice, 50000], [bob, 45000]] as const) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID))
+        .to.emit(salaryLens, "SalaryWithdrawn")
+        .withArgs(POOL_ID, ROUND_ID, alice.address, 1);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.false;
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(45000n);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 55000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(100000n);
+    });
+
+    /**
+     * @notice Test that only current submitters can update or withdraw
+     * @dev Should revert with NotSubmitted, including after a withdrawal
+     */
+    it("Should reject updates and withdrawals without a submission", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+
+      await expect(
+        salaryLens.connect(alice).updateSalary(POOL_ID, encryptedSalary, inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "NotSubmitted");
+      await expect(
+        salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotSubmitted");
+
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID);
+
+      await expect(
+        salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotSubmitted");
+    });
+
+    /**
+     * @notice Test that a withdrawal can drop a pool back below the threshold
+     * @dev The average must not be revealable with fewer than k salaries left
+     */
+    it("Should re-apply the minimum submission threshold after a withdrawal", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await salaryLens.connect(charlie).withdrawSalary(POOL_ID, ROUND_ID);
+      expect(await salaryLens.getSubmissionsNeeded(POOL_ID)).to.equal(1);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+
+    /**
+     * @notice Test that a submitter can still be deleted from a closed round
+     * @dev The withdrawal updates the frozen aggregates and discards the verified and pending
+     *      average; the history keeps the average published before it
+     */
+    it("Should withdraw from a closed round and discard its revealed average", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const [, , , , , erin] = await ethers.getSigners();
+
+      for (const [user, amount] of [[alice, 40000], [bob, 50000], [charlie, 60000], [erin, 90000]] as const) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      await salaryLens.closeRound(POOL_ID);
+
+      await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+      const [average, count] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect([average, count]).to.deep.equal([60000n, 4n]);
+
+      await expect(salaryLens.connect(erin).withdrawSalary(POOL_ID, ROUND_ID))
+        .to.emit(salaryLens, "SalaryWithdrawn")
+        .withArgs(POOL_ID, ROUND_ID, erin.address, 3);
+
+      const [, , closed, roundSubmissions, verifiedAverage] = await salaryLens.getRound(POOL_ID, ROUND_ID);
+      expect([closed, roundSubmissions, verifiedAverage]).to.deep.equal([true, 3n, 0n]);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(150000n);
+      expect((await salaryLens.getPendingHandle(POOL_ID, ROUND_ID))[0]).to.equal(ethers.ZeroHash);
+      await expect(
+        salaryLens.verifyDecryption(POOL_ID, ROUND_ID, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+
+      await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
+      const [newAverage, newCount] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect([newAverage, newCount]).to.deep.equal([50000n, 3n]);
+
+      const history = await salaryLens.getAverageHistory(POOL_ID, 0, 10);
+      expect(history.map((record) => [record.value, record.count])).to.deep.equal([
+        [60000n, 4n],
+        [50000n, 3n],
+      ]);
+    });
+
+    /**
+     * @notice Test that the min/max must be rebuilt after an update
+     * @dev RangeOutdated until rebuildRange has processed every stored salary, even once closed
+     */
+    it("Should require rebuilding the range after an update", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(salaryLens.rebuildRange(POOL_ID, ROUND_ID, 10)).to.be.revertedWithCustomError(
+        salaryLens,
+        "RangeNotOutdated"
+      );
+
+      const raise = await encryptSalary(salaryLens, bob, 70000);
+      await salaryLens.connect(bob).updateSalary(POOL_ID, raise.encryptedSalary, raise.inputProof);
+      await salaryLens.closeRound(POOL_ID);
+
+      expect(await salaryLens.getRangeStatus(POOL_ID, ROUND_ID)).to.deep.equal([true, 0n, 3n]);
+      await expect(
+        salaryLens.connect(alice).requestRangeDecryption(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "RangeOutdated");
+
+      await expect(salaryLens.rebuildRange(POOL_ID, ROUND_ID, 2)).to.not.emit(salaryLens, "RangeRebuilt");
+      expect(await salaryLens.getRangeStatus(POOL_ID, ROUND_ID)).to.deep.equal([true, 2n, 3n]);
+
+      await expect(salaryLens.rebuildRange(POOL_ID, ROUND_ID, 2))
+        .to.emit(salaryLens, "RangeRebuilt")
+        .withArgs(POOL_ID, ROUND_ID);
+      expect(await salaryLens.getRangeStatus(POOL_ID, ROUND_ID)).to.deep.equal([false, 0n, 3n]);
+
+      await expect(salaryLens.connect(alice).requestRangeDecryption(POOL_ID, ROUND_ID)).to.emit(
+        salaryLens,
+        "RangeRequested"
+      );
+    });
+  });
+
+  // ============ Private Receipt Tests ============
+
+  describe("Private Receipt", function () {
+    /**
+     * @notice Test that a submitter's ciphertext handle is exposed for user decryption
+     * @dev The handle is empty before submitting and after withdrawing. Only the submitter can
+     *      decrypt it, not other users and not the contract owner.
+     */
+    it("Should expose the submitter's handle until it is withdrawn", async function () {
+      const { salaryLens, owner, alice, bob } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const contractAddress = await salaryLens.getAddress();
+
+      expect(await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(ethers.ZeroHash);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      const handle = await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address);
+      expect(handle).to.not.equal(ethers.ZeroHash);
+      expect(await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, bob.address)).to.equal(ethers.ZeroHash);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, alice)).to.equal(50000n);
+      for (const other of [bob, owner]) {
+        await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, other)).to.be.rejectedWith(
+          "not authorized to user decrypt"
+        );
+      }
+
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID);
+
+      expect(await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(ethers.ZeroHash);
+    });
+
+    /**
+     * @notice Test that updating a salary replaces the receipt
+     * @dev The new ciphertext gets a new handle, which decrypts to the new salary
+     */
+    it("Should point the receipt at the new ciphertext after an update", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const salary = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, salary.encryptedSalary, salary.inputProof, []);
+      const before = await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address);
+
+      const raise = await encryptSalary(salaryLens, alice, 65000);
+      await salaryLens.connect(alice).updateSalary(POOL_ID, raise.encryptedSalary, raise.inputProof);
+
+      const after = await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address);
+      expect(after).to.not.equal(before);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, after, await salaryLens.getAddress(), alice)
+      ).to.equal(65000n);
+    });
+  });
+
+  // ============ Average Comparison Tests ============
+
+  describe("Average Comparison", function () {
+    /** Salaries of alice, bob, charlie and dave: an average of 60000, with bob and charlie exactly 10% off */
+    const SALARIES = [40000, 54000, 66000, 80000];
+
+    /**
+     * @notice Submit four salaries to the fixture round and close it
+     */
+    async function deployClosedRoundFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens, alice, bob, charlie, dave } = fixture;
+      await mineAboveMockCoprocessorHead();
+
+      for (const [index, user] of [alice, bob, charlie, dave].entries()) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, SALARIES[index]);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+      await salaryLens.closeRound(POOL_ID);
+
+      return fixture;
+    }
+
+    /**
+     * @notice Expected position of a salary: 0 more than 10% below the (rounded down) average,
+     *         2 more than 10% above it, 1 otherwise
+     */
+    function expectedPosition(salary: number, salaries: number[]): bigint {
+      const mean = Math.floor(salaries.reduce((sum, value) => sum + value, 0) / salaries.length);
+      if (10 * salary < 9 * mean) return 0n;
+      return 10 * salary > 11 * mean ? 2n : 1n;
+    }
+
+    /**
+     * @notice Compare the submitter's salary to the round's average and decrypt the position as them
+     */
+    async function decryptPosition(contract: SalaryLens, submitter: HardhatEthersSigner): Promise<bigint> {
+      await contract.connect(submitter).compareToAverage(POOL_ID, ROUND_ID);
+      const handle = await contract.getComparisonHandle(POOL_ID, ROUND_ID, submitter.address);
+      return fhevm.userDecryptEuint(FhevmType.euint8, handle, await contract.getAddress(), submitter);
+    }
+
+    /**
+     * @notice Test that a submitter gets an encrypted position they can decrypt
+     * @dev Should emit AverageCompared with an euint8 handle, exposed by getComparisonHandle
+     */
+    it("Should give a submitter their encrypted position", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deployClosedRoundFixture);
+      await mineAboveMockCoprocessorHead();
+
+      expect(await salaryLens.getComparisonHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(ethers.ZeroHash);
+
+      const tx = await salaryLens.connect(alice).compareToAverage(POOL_ID, ROUND_ID);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "AverageCompared");
+
+      expect(event!.args.submitter).to.equal(alice.address);
+      const EUINT8_TYPE = 2;
+      expect(ethers.getBytes(event!.args.handle)[30]).to.equal(EUINT8_TYPE);
+      expect(await salaryLens.getComparisonHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(event!.args.handle);
+
+      // 40000 against an average of 60000: more than 10% below
+      const contractAddress = await salaryLens.getAddress();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, event!.args.handle, contractAddress, alice)).to.equal(0n);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint8, event!.args.handle, contractAddress, bob)
+      ).to.be.rejectedWith("not authorized to user decrypt");
+    });
+
+    /**
+     * @notice Test positions on both sides of the average, including exactly 10% off
+     * @dev The bounds are inclusive, so 54000 and 66000 are still within 10% of 60000
+     */
+    it("Should place salaries on both sides of the average", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deployClosedRoundFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const positions = [];
+      for (const user of [alice, bob, charlie, dave]) {
+        positions.push(await decryptPosition(salaryLens, user));
+      }
+      expect(positions).to.deep.equal(SALARIES.map((salary) => expectedPosition(salary, SALARIES)));
+      expect(positions).to.deep.equal([0n, 1n, 1n, 2n]);
+    });
+
+    /**
+     * @notice Test that a withdrawal from the closed round discards the positions
+     * @dev They are compared against the new average on the next request
+     */
+    it("Should compare against the new average after a withdrawal", async function () {
+      const { salaryLens, charlie, dave } = await loadFixture(deployClosedRoundFixture);
+      await mineAboveMockCoprocessorHead();
+
+      expect(await decryptPosition(salaryLens, charlie)).to.equal(1n);
+
+      await salaryLens.connect(dave).withdrawSalary(POOL_ID, ROUND_ID);
+      expect(await salaryLens.getComparisonHandle(POOL_ID, ROUND_ID, charlie.address)).to.equal(ethers.ZeroHash);
+
+      const remaining = SALARIES.slice(0, 3);
+      expect(expectedPosition(SALARIES[2], remaining)).to.equal(2n);
+      expect(await decryptPosition(salaryLens, charlie)).to.equal(2n);
+    });
+
+    /**
+     * @notice Test that comparing again returns the same ciphertext
+     * @dev The round is frozen, so the position is only computed once
+     */
+    it("Should reuse the position on later comparisons", async function () {
+      const { salaryLens, bob } = await loadFixture(deployClosedRoundFixture);
+
+      await salaryLens.connect(bob).compareToAverage(POOL_ID, ROUND_ID);
+      const first = await salaryLens.getComparisonHandle(POOL_ID, ROUND_ID, bob.address);
+
+      await expect(salaryLens.connect(bob).compareToAverage(POOL_ID, ROUND_ID))
+        .to.emit(salaryLens, "AverageCompared")
+        .withArgs(POOL_ID, ROUND_ID, bob.address, first);
+    });
+
+    /**
+     * @notice Test that only submitters can compare
+     * @dev Should revert with NotSubmitted error
+     */
+    it("Should fail to compare without a salary in the round", async function () {
+      const { salaryLens, owner } = await loadFixture(deployClosedRoundFixture);
+
+      await expect(
+        salaryLens.connect(owner).compareToAverage(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "NotSubmitted");
+    });
+
+    /**
+     * @notice Test that open rounds cannot be compared against
+     * @dev Otherwise updating and comparing again would binary-search the average
+     */
+    it("Should fail to compare in an open round", async function () {
+      const { salaryLens, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, 50000);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      await expect(
+        salaryLens.connect(alice).compareToAverage(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+    });
+
+    /**
+     * @notice Test that comparisons respect the minimum submission threshold
+     * @dev With a single salary, the average would be the submitter's own salary
+     */
+    it("Should fail to compare below the minimum submission threshold", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).compareToAverage(POOL_ID, ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+    });
+  });
+
+  // ============ Pay Gap Tests ============
 
-    return { salaryLens, owner, alice, bob, charlie, dave };
-  }
+  describe("Pay Gap", function () {
+    /** ID of the cohort round opened by the fixture */
+    const COHORT_ROUND_ID = 1;
 
-  // ============ Deployment Tests ============
+    /** Salaries of each cohort in the closed cohort round; neither total divides evenly */
+    const COHORT_A = [40000, 50000, 60002];
+    const COHORT_B = [46000, 56000, 66001];
 
-  describe("Deployment", function () {
     /**
-     * @notice Verify contract deploys with correct initial state
-     * @dev Count should be 0 and no addresses should be marked as submitted
+     * @notice Encrypt a salary and its cohort flag in one input, as addSalaryWithCohort() takes a single proof
      */
-    it("Should deploy with zero count", async function () {
-      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+    async function encryptWithCohort(
+      contract: SalaryLens,
+      submitter: HardhatEthersSigner,
+      amount: number,
+      inCohortB: boolean
+    ): Promise<{ encryptedSalary: string; encryptedFlag: string; inputProof: string }> {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(await contract.getAddress(), submitter.address)
+        .add32(amount)
+        .addBool(inCohortB)
+        .encrypt();
+      return {
+        encryptedSalary: ethers.hexlify(handles[0]),
+        encryptedFlag: ethers.hexlify(handles[1]),
+        inputProof: ethers.hexlify(inputProof),
+      };
+    }
 
-      expect(await salaryLens.getCount()).to.equal(0);
-    });
+    /**
+     * @notice Close the fixture round, name two cohorts and open a round that tracks them
+     */
+    async function deployWithCohortsFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens } = fixture;
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setCohorts(POOL_ID, "Women", "Men");
+
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      return fixture;
+    }
 
     /**
-     * @notice Verify no user has submitted initially
-     * @dev All hasSubmitted mappings should return false
+     * @notice Submit three salaries per cohort to the cohort round and close it
+     * @dev Cohort A averages 50000 (rounded down), cohort B 56000; signers 1-3 are in cohort A
      */
-    it("Should have no submitted users initially", async function () {
-      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+    async function deployClosedCohortRoundFixture() {
+      const fixture = await deployWithCohortsFixture();
+      const { salaryLens } = fixture;
+      await mineAboveMockCoprocessorHead();
+      const signers = await ethers.getSigners();
 
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.false;
-    });
+      const submissions: [number, boolean][] = [
+        ...COHORT_A.map((amount): [number, boolean] => [amount, false]),
+        ...COHORT_B.map((amount): [number, boolean] => [amount, true]),
+      ];
+      for (const [i, [amount, inCohortB]] of submissions.entries()) {
+        const submitter = signers[i + 1];
+        const { encryptedSalary, encryptedFlag, inputProof } = await encryptWithCohort(
+          salaryLens,
+          submitter,
+          amount,
+          inCohortB
+        );
+        await salaryLens
+          .connect(submitter)
+          .addSalaryWithCohort(POOL_ID, encryptedSalary, encryptedFlag, inputProof, []);
+      }
+      await salaryLens.closeRound(POOL_ID);
+
+      return fixture;
+    }
+
+    /**
+     * @notice Run computePayGap() until the gap is final
+     * @dev 16 quotient bits per transaction stay within the HCU limit of a transaction
+     */
+    async function computePayGapInChunks(contract: SalaryLens): Promise<void> {
+      while (!(await contract.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).computed) {
+        await contract.computePayGap(POOL_ID, COHORT_ROUND_ID, 16);
+      }
+    }
 
     /**
-     * @notice Verify last average is zero for all users initially
-     * @dev lastDecryptedAverage should be 0 for any address
+     * @notice Test that cohorts are admin-only and can only change between rounds
+     * @dev Should revert with RoundNotClosed or MissingRole, and emit CohortsUpdated otherwise
      */
-    it("Should have zero last average for all users", async function () {
+    it("Should only name cohorts between rounds", async function () {
       const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
 
-      expect(await salaryLens.getLastAverage(alice.address)).to.equal(0);
-    });
-  });
+      await expect(
+        salaryLens.setCohorts(POOL_ID, "Women", "Men")
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
 
-  // ============ Salary Submission Tests ============
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).setCohorts(POOL_ID, "Women", "Men")
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+
+      await expect(salaryLens.setCohorts(POOL_ID, "Women", "Men"))
+        .to.emit(salaryLens, "CohortsUpdated")
+        .withArgs(POOL_ID, "Women", "Men");
+      expect(await salaryLens.getCohorts(POOL_ID)).to.deep.equal(["Women", "Men"]);
+    });
 
-  describe("Adding Salaries", function () {
     /**
-     * @notice Test successful salary submission by a single user
-     * @dev Should increment count and mark user as submitted
+     * @notice Test that the submission function must match whether the round tracks cohorts
+     * @dev The fixture round (opened without cohorts) rejects cohort flags, and vice versa
      */
-    it("Should allow a user to submit an encrypted salary", async function () {
+    it("Should require a cohort flag exactly in cohort rounds", async function () {
       const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+      const { encryptedSalary, encryptedFlag, inputProof } = await encryptWithCohort(salaryLens, alice, 50000, true);
+
+      expect((await salaryLens.getPayGapStatus(POOL_ID, ROUND_ID)).tracksCohorts).to.equal(false);
+      await expect(
+        salaryLens.connect(alice).addSalaryWithCohort(POOL_ID, encryptedSalary, encryptedFlag, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "WrongCohortMode");
 
-      const { encryptedSalary, inputProof } = createMockEncryptedInput(50000);
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setCohorts(POOL_ID, "Women", "Men");
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
 
-      // Note: This will fail on local hardhat network without fhevm mock
-      // On Zama devnet, this would work with proper encryption
+      expect((await salaryLens.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).tracksCohorts).to.equal(true);
+      await expect(
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "WrongCohortMode");
       await expect(
-        salaryLens.connect(alice).addSalary(encryptedSalary, inputProof)
+        salaryLens.connect(alice).addSalaryWithCohort(POOL_ID, encryptedSalary, encryptedFlag, inputProof, [])
       )
         .to.emit(salaryLens, "SalarySubmitted")
-        .withArgs(alice.address, 1);
+        .withArgs(POOL_ID, COHORT_ROUND_ID, alice.address, 1);
+    });
+
+    /**
+     * @notice Test that cohort submitters can update and withdraw their salary
+     * @dev The cohort aggregates follow the stored flag; the count must stay exact
+     */
+    it("Should update and withdraw salaries in cohort rounds", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deployWithCohortsFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR_ROLE, dave.address);
+
+      for (const [user, inCohortB] of [
+        [alice, false],
+        [bob, true],
+      ] as const) {
+        const { encryptedSalary, encryptedFlag, inputProof } = await encryptWithCohort(salaryLens, user, 50000, inCohortB);
+        await salaryLens.connect(user).addSalaryWithCohort(POOL_ID, encryptedSalary, encryptedFlag, inputProof, []);
+      }
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, bob, 55000);
+      await salaryLens.connect(bob).updateSalary(POOL_ID, encryptedSalary, inputProof);
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, COHORT_ROUND_ID);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
 
-      expect(await salaryLens.getCount()).to.equal(1);
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.true;
+      // Cohort B's total and count follow bob's update; alice's cohort A salary is gone
+      const breakdown = await salaryLens.getAuditBreakdownHandles(POOL_ID, COHORT_ROUND_ID);
+      const [totalB, countB] = breakdown.slice(BAND_EDGES.length + 1, BAND_EDGES.length + 3);
+      const contractAddress = await salaryLens.getAddress();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, totalB, contractAddress, dave)).to.equal(55000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, countB, contractAddress, dave)).to.equal(1n);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, COHORT_ROUND_ID)).total).to.equal(55000n);
     });
 
     /**
-     * @notice Test multiple users can submit salaries
-     * @dev Count should increment for each unique submitter
+     * @notice Test that the gap is computed over several transactions
+     * @dev 32 quotient bits in chunks of 16; PayGapComputed is emitted once, on the last chunk
      */
-    it("Should allow multiple users to submit salaries", async function () {
-      const { salaryLens, alice, bob, charlie } = await loadFixture(
-        deploySalaryLensFixture
-      );
+    it("Should compute the pay gap in chunks", async function () {
+      const { salaryLens } = await loadFixture(deployClosedCohortRoundFixture);
 
-      const salary1 = createMockEncryptedInput(50000);
-      const salary2 = createMockEncryptedInput(60000);
-      const salary3 = createMockEncryptedInput(70000);
+      expect(await salaryLens.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).to.deep.equal([true, false, 32]);
+      expect(await salaryLens.computePayGap.staticCall(POOL_ID, COHORT_ROUND_ID, 16)).to.equal(false);
 
-      await salaryLens
-        .connect(alice)
-        .addSalary(salary1.encryptedSalary, salary1.inputProof);
-      await salaryLens
-        .connect(bob)
-        .addSalary(salary2.encryptedSalary, salary2.inputProof);
-      await salaryLens
-        .connect(charlie)
-        .addSalary(salary3.encryptedSalary, salary3.inputProof);
+      await expect(salaryLens.computePayGap(POOL_ID, COHORT_ROUND_ID, 16)).to.not.emit(salaryLens, "PayGapComputed");
+      expect(await salaryLens.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).to.deep.equal([true, false, 16]);
+
+      await expect(salaryLens.computePayGap(POOL_ID, COHORT_ROUND_ID, 16))
+        .to.emit(salaryLens, "PayGapComputed")
+        .withArgs(POOL_ID, COHORT_ROUND_ID);
+      expect(await salaryLens.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).to.deep.equal([true, true, 0]);
 
-      expect(await salaryLens.getCount()).to.equal(3);
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(bob.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(charlie.address)).to.be.true;
+      expect(await salaryLens.computePayGap.staticCall(POOL_ID, COHORT_ROUND_ID, 16)).to.equal(true);
     });
 
     /**
-     * @notice Test that duplicate submissions are rejected
-     * @dev Should revert with AlreadySubmitted error
+     * @notice Test that the gap can only be requested once it is computed
+     * @dev Should revert with PayGapNotComputed, then reveal two ebool flags and an euint32 gap.
+     *      The gap is the difference of the rounded-down cohort averages, which is 6000 here,
+     *      not the rounded-down difference of the exact averages (5999)
      */
-    it("Should prevent duplicate submissions from same user", async function () {
-      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+    it("Should request the pay gap once computed", async function () {
+      const { salaryLens, dave } = await loadFixture(deployClosedCohortRoundFixture);
+      await mineAboveMockCoprocessorHead();
 
-      const { encryptedSalary, inputProof } = createMockEncryptedInput(50000);
+      await expect(
+        salaryLens.connect(dave).requestPayGapDecryption(POOL_ID, COHORT_ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "PayGapNotComputed");
 
-      // First submission should succeed
-      await salaryLens.connect(alice).addSalary(encryptedSalary, inputProof);
+      await computePayGapInChunks(salaryLens);
 
-      // Second submission should fail
+      const tx = await salaryLens.connect(dave).requestPayGapDecryption(POOL_ID, COHORT_ROUND_ID);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "PayGapRequested");
+
+      const EBOOL_TYPE = 0;
+      const EUINT32_TYPE = 4;
+      expect(event!.args.handles.map((handle: string) => ethers.getBytes(handle)[30])).to.deep.equal([
+        EBOOL_TYPE,
+        EBOOL_TYPE,
+        EUINT32_TYPE,
+      ]);
+      expect(await salaryLens.getLastPayGap(POOL_ID, COHORT_ROUND_ID, dave.address)).to.deep.equal([false, false, 0]);
+
+      const average = (salaries: number[]) => Math.floor(salaries.reduce((sum, value) => sum + value, 0) / salaries.length);
+      const gap = average(COHORT_B) - average(COHORT_A);
+      expect(gap).to.equal(6000);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...event!.args.handles]);
       await expect(
-        salaryLens.connect(alice).addSalary(encryptedSalary, inputProof)
-      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+        salaryLens.connect(dave).verifyPayGapDecryption(POOL_ID, COHORT_ROUND_ID, abiEncodedClearValues, decryptionProof)
+      )
+        .to.emit(salaryLens, "PayGapDecrypted")
+        .withArgs(POOL_ID, COHORT_ROUND_ID, dave.address, true, true, gap);
+      expect(await salaryLens.getLastPayGap(POOL_ID, COHORT_ROUND_ID, dave.address)).to.deep.equal([true, true, gap]);
+    });
 
-      // Count should still be 1
-      expect(await salaryLens.getCount()).to.equal(1);
+    /**
+     * @notice Test that a withdrawal from the closed round discards the computed gap
+     * @dev Cohort A drops below minSubmissions, so the recomputed gap is zeroed and not eligible
+     */
+    it("Should recompute the pay gap after a withdrawal", async function () {
+      const { salaryLens, alice, dave } = await loadFixture(deployClosedCohortRoundFixture);
+      await mineAboveMockCoprocessorHead();
+
+      await computePayGapInChunks(salaryLens);
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, COHORT_ROUND_ID);
+
+      expect(await salaryLens.getPayGapStatus(POOL_ID, COHORT_ROUND_ID)).to.deep.equal([true, false, 32]);
+      await expect(
+        salaryLens.connect(dave).requestPayGapDecryption(POOL_ID, COHORT_ROUND_ID)
+      ).to.be.revertedWithCustomError(salaryLens, "PayGapNotComputed");
+
+      await computePayGapInChunks(salaryLens);
+      const receipt = await (await salaryLens.connect(dave).requestPayGapDecryption(POOL_ID, COHORT_ROUND_ID)).wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "PayGapRequested");
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...event!.args.handles]);
+      await salaryLens
+        .connect(dave)
+        .verifyPayGapDecryption(POOL_ID, COHORT_ROUND_ID, abiEncodedClearValues, decryptionProof);
+      expect(await salaryLens.getLastPayGap(POOL_ID, COHORT_ROUND_ID, dave.address)).to.deep.equal([false, false, 0]);
     });
 
     /**
-     * @notice Test that SalarySubmitted event is emitted correctly
-     * @dev Event should contain correct submitter address and new count
+     * @notice Test that the pay gap is restricted to closed cohort rounds with enough salaries
+     * @dev Should revert with WrongCohortMode, RoundNotClosed or BelowMinimumSubmissions
      */
-    it("Should emit SalarySubmitted event with correct parameters", async function () {
-      const { salaryLens, alice, bob } = await loadFixture(
-        deploySalaryLensFixture
-      );
+    it("Should fail to compute the pay gap of an unsuitable round", async function () {
+      const { salaryLens, alice } = await loadFixture(deployWithCohortsFixture);
+
+      await expect(
+        salaryLens.computePayGap(POOL_ID, ROUND_ID, 32)
+      ).to.be.revertedWithCustomError(salaryLens, "WrongCohortMode");
 
-      const salary1 = createMockEncryptedInput(50000);
-      const salary2 = createMockEncryptedInput(60000);
+      const { encryptedSalary, encryptedFlag, inputProof } = await encryptWithCohort(salaryLens, alice, 50000, true);
+      await salaryLens.connect(alice).addSalaryWithCohort(POOL_ID, encryptedSalary, encryptedFlag, inputProof, []);
 
       await expect(
-        salaryLens
-          .connect(alice)
-          .addSalary(salary1.encryptedSalary, salary1.inputProof)
-      )
-        .to.emit(salaryLens, "SalarySubmitted")
-        .withArgs(alice.address, 1);
+        salaryLens.computePayGap(POOL_ID, COHORT_ROUND_ID, 32)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
 
+      await salaryLens.closeRound(POOL_ID);
       await expect(
-        salaryLens
-          .connect(bob)
-          .addSalary(salary2.encryptedSalary, salary2.inputProof)
-      )
-        .to.emit(salaryLens, "SalarySubmitted")
-        .withArgs(bob.address, 2);
+        salaryLens.computePayGap(POOL_ID, COHORT_ROUND_ID, 32)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
     });
   });
 
-  // ============ Average Calculation Tests ============
+  // ============ Compensation Tests ============
+
+  describe("Compensation", function () {
+    /** Statistic enum values of the compensation averages */
+    const BONUS_AVERAGE = 7;
+    const EQUITY_AVERAGE = 8;
+    const COMPENSATION_AVERAGE = 9;
+
+    /** Compensations of the closed round fixture: [base, bonus, equity], charlie submits a plain salary */
+    const COMPENSATIONS = [
+      [40000, 10000, 6000],
+      [50000, 5000, 0],
+      [60000, 0, 0],
+    ];
 
-  describe("Average Calculation", function () {
     /**
-     * @notice Test that requesting average fails with zero submissions
-     * @dev Should revert with NoSalariesSubmitted error
+     * @notice Submit a base salary, bonus and equity as one compensation
+     * @dev All three values come from one encrypted input, as addCompensation() takes a single proof
      */
-    it("Should fail if count is 0 (division by zero protection)", async function () {
-      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+    async function addCompensation(
+      salaryLens: SalaryLens,
+      user: HardhatEthersSigner,
+      base: number,
+      bonus: number,
+      equity: number
+    ) {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(await salaryLens.getAddress(), user.address)
+        .add32(base)
+        .add32(bonus)
+        .add32(equity)
+        .encrypt();
+      return salaryLens.connect(user).addCompensation(POOL_ID, handles[0], handles[1], handles[2], inputProof, []);
+    }
+
+    /**
+     * @notice Decrypt a round's bonus and equity totals as an auditor
+     * @dev The auditor must have been appointed before the submissions
+     */
+    async function decryptComponentTotals(
+      salaryLens: SalaryLens,
+      auditor: HardhatEthersSigner,
+      roundId: number
+    ): Promise<bigint[]> {
+      const [bonusTotal, equityTotal] = (await salaryLens.getAuditBreakdownHandles(POOL_ID, roundId)).slice(-2);
+      const contractAddress = await salaryLens.getAddress();
+      return [
+        await fhevm.userDecryptEuint(FhevmType.euint64, bonusTotal, contractAddress, auditor),
+        await fhevm.userDecryptEuint(FhevmType.euint64, equityTotal, contractAddress, auditor),
+      ];
+    }
+
+    /**
+     * @notice Submit two compensations and one plain salary to the fixture round and close it
+     * @dev Bonuses average 5000, equity averages 2000, total compensation averages 57000.
+     *      dave audits the round.
+     */
+    async function deployClosedCompensationRoundFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens, alice, bob, charlie, dave } = fixture;
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR_ROLE, dave.address);
+
+      await addCompensation(salaryLens, alice, ...(COMPENSATIONS[0] as [number, number, number]));
+      await addCompensation(salaryLens, bob, ...(COMPENSATIONS[1] as [number, number, number]));
+
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, charlie, COMPENSATIONS[2][0]);
+      await salaryLens.connect(charlie).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      await salaryLens.closeRound(POOL_ID);
+
+      return fixture;
+    }
+
+    /**
+     * @notice Test that a compensation counts as a single salary submission
+     * @dev Should emit SalarySubmitted once and reject a second submission of any kind
+     */
+    it("Should submit a compensation as one salary", async function () {
+      const { salaryLens, alice, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR_ROLE, dave.address);
+
+      await expect(addCompensation(salaryLens, alice, 50000, 5000, 2000))
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, ROUND_ID, alice.address, 1);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(50000n);
+      expect(await decryptComponentTotals(salaryLens, dave, ROUND_ID)).to.deep.equal([5000n, 2000n]);
+
+      await expect(addCompensation(salaryLens, alice, 50000, 5000, 2000)).to.be.revertedWithCustomError(
+        salaryLens,
+        "AlreadySubmitted"
+      );
 
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 50000);
       await expect(
-        salaryLens.connect(alice).requestAverageDecryption()
-      ).to.be.revertedWithCustomError(salaryLens, "NoSalariesSubmitted");
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
+      ).to.be.revertedWithCustomError(salaryLens, "AlreadySubmitted");
+    });
+
+    /**
+     * @notice Test that compensations can be withdrawn and resubmitted
+     * @dev Withdrawing removes the bonus and equity together with the base salary
+     */
+    it("Should withdraw all components of a compensation", async function () {
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      await salaryLens.grantRole(AUDITOR_ROLE, dave.address);
+
+      await addCompensation(salaryLens, alice, 50000, 5000, 2000);
+      await addCompensation(salaryLens, bob, 45000, 1000, 500);
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, ROUND_ID);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      expect(await decryptComponentTotals(salaryLens, dave, ROUND_ID)).to.deep.equal([1000n, 500n]);
+
+      await addCompensation(salaryLens, alice, 55000, 6000, 0);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      expect(await decryptComponentTotals(salaryLens, dave, ROUND_ID)).to.deep.equal([7000n, 500n]);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(100000n);
     });
 
     /**
-     * @notice Test average request after single submission
-     * @dev Should emit AverageRequested event
+     * @notice Test that cohort rounds need a cohort flag, which compensations do not carry
+     * @dev Should revert with WrongCohortMode
      */
-    it("Should allow requesting average after one submission", async function () {
+    it("Should reject compensations in cohort rounds", async function () {
       const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
 
-      const { encryptedSalary, inputProof } = createMockEncryptedInput(50000);
-      await salaryLens.connect(alice).addSalary(encryptedSalary, inputProof);
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.setCohorts(POOL_ID, "Women", "Men");
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
 
-      await expect(salaryLens.connect(alice).requestAverageDecryption()).to.emit(
+      await expect(addCompensation(salaryLens, alice, 50000, 5000, 2000)).to.be.revertedWithCustomError(
         salaryLens,
-        "AverageRequested"
+        "WrongCohortMode"
       );
     });
 
     /**
-     * @notice Test that any user can request the average (not just submitters)
-     * @dev Average is public information once computed
+     * @notice Test requesting each compensation average of a closed round
+     * @dev Each average emits CompensationRequested with a single 64-bit handle and divides by
+     *      every salary of the round, including the one submitted without components
      */
-    it("Should allow any user to request average", async function () {
-      const { salaryLens, alice, bob, dave } = await loadFixture(
-        deploySalaryLensFixture
-      );
+    it("Should request each compensation average separately", async function () {
+      const { salaryLens, dave } = await loadFixture(deployClosedCompensationRoundFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const sum = (index: number) => COMPENSATIONS.reduce((total, values) => total + values[index], 0);
+      const [baseTotal, bonusTotal, equityTotal] = [0, 1, 2].map(sum);
+      expect(await decryptComponentTotals(salaryLens, dave, ROUND_ID)).to.deep.equal([
+        BigInt(bonusTotal),
+        BigInt(equityTotal),
+      ]);
+      const count = COMPENSATIONS.length;
+      const expected = new Map([
+        [BONUS_AVERAGE, Math.floor(bonusTotal / count)],
+        [EQUITY_AVERAGE, Math.floor(equityTotal / count)],
+        [COMPENSATION_AVERAGE, Math.floor((baseTotal + bonusTotal + equityTotal) / count)],
+      ]);
+      expect([...expected.values()]).to.deep.equal([5000, 2000, 57000]);
+
+      const EUINT64_TYPE = 5;
+      for (const [component, average] of expected) {
+        const tx = await salaryLens.connect(dave).requestCompensationDecryption(POOL_ID, ROUND_ID, component);
+        const receipt = await tx.wait();
+        const event = receipt!.logs
+          .map((log) => salaryLens.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "CompensationRequested");
+
+        expect(event!.args.component).to.equal(component);
+        expect(ethers.getBytes(event!.args.handle)[30]).to.equal(EUINT64_TYPE);
+        expect(await salaryLens.getLastCompensation(POOL_ID, ROUND_ID, dave.address, component)).to.equal(0);
+
+        const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([event!.args.handle]);
+        await salaryLens
+          .connect(dave)
+          .verifyCompensationDecryption(POOL_ID, ROUND_ID, component, abiEncodedClearValues, decryptionProof);
+        expect(await salaryLens.getLastCompensation(POOL_ID, ROUND_ID, dave.address, component)).to.equal(average);
+      }
+    });
+
+    /**
+     * @notice Test that compensation averages follow the same rules as the average
+     * @dev Should revert with RoundNotClosed, BelowMinimumSubmissions or InvalidComponent
+     */
+    it("Should fail to request a compensation average of an unsuitable round", async function () {
+      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+
+      await addCompensation(salaryLens, alice, 50000, 5000, 2000);
 
-      // Alice and Bob submit salaries
-      const salary1 = createMockEncryptedInput(50000);
-      const salary2 = createMockEncryptedInput(60000);
+      await expect(
+        salaryLens.connect(alice).requestCompensationDecryption(POOL_ID, ROUND_ID, BONUS_AVERAGE)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await salaryLens.closeRound(POOL_ID);
+      await expect(
+        salaryLens.connect(alice).requestCompensationDecryption(POOL_ID, ROUND_ID, BONUS_AVERAGE)
+      ).to.be.revertedWithCustomError(salaryLens, "BelowMinimumSubmissions");
+
+      // Statistic.Median
+      await expect(
+        salaryLens.connect(alice).requestCompensationDecryption(POOL_ID, ROUND_ID, 4)
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidComponent");
+      await expect(
+        salaryLens.connect(alice).verifyCompensationDecryption(POOL_ID, ROUND_ID, 4, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "InvalidComponent");
+    });
+
+    /**
+     * @notice Test that verifying without a pending request fails
+     * @dev Should revert with NoPendingDecryption error
+     */
+    it("Should fail to verify a compensation average without a pending request", async function () {
+      const { salaryLens, alice } = await loadFixture(deployClosedCompensationRoundFixture);
+
+      await expect(
+        salaryLens.connect(alice).verifyCompensationDecryption(POOL_ID, ROUND_ID, EQUITY_AVERAGE, "0x", "0x")
+      ).to.be.revertedWithCustomError(salaryLens, "NoPendingDecryption");
+    });
+
+    /**
+     * @notice Test that bonus and equity are capped at the pool's upper bound
+     * @dev An absurd bonus counts as the upper bound in the revealed average bonus
+     */
+    it("Should cap bonus and equity at the upper salary bound", async function () {
+      const { salaryLens, owner, alice, bob, charlie } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+      const contractAddress = await salaryLens.getAddress();
+      const BOUNDED_ROUND_ID = ROUND_ID + 1;
 
+      await salaryLens.closeRound(POOL_ID);
+      const bounds = await fhevm
+        .createEncryptedInput(contractAddress, owner.address)
+        .add32(10000)
+        .add32(100000)
+        .encrypt();
+      await salaryLens.setSalaryBounds(POOL_ID, bounds.handles[0], bounds.handles[1], bounds.inputProof);
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      const compensations: [HardhatEthersSigner, number][] = [
+        [alice, 1000000],
+        [bob, 3000],
+        [charlie, 6000],
+      ];
+      for (const [user, bonus] of compensations) {
+        const { handles, inputProof } = await fhevm
+          .createEncryptedInput(contractAddress, user.address)
+          .add32(50000)
+          .add32(bonus)
+          .add32(0)
+          .encrypt();
+        await salaryLens.connect(user).addCompensation(POOL_ID, handles[0], handles[1], handles[2], inputProof, []);
+      }
+
+      await salaryLens.closeRound(POOL_ID);
+      const tx = await salaryLens.connect(alice).requestCompensationDecryption(POOL_ID, BOUNDED_ROUND_ID, BONUS_AVERAGE);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => salaryLens.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "CompensationRequested");
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([event!.args.handle]);
       await salaryLens
         .connect(alice)
-        .addSalary(salary1.encryptedSalary, salary1.inputProof);
-      await salaryLens
-        .connect(bob)
-        .addSalary(salary2.encryptedSalary, salary2.inputProof);
+        .verifyCompensationDecryption(POOL_ID, BOUNDED_ROUND_ID, BONUS_AVERAGE, abiEncodedClearValues, decryptionProof);
 
-      // Dave (non-submitter) can still request the average
-      await expect(
-        salaryLens.connect(dave).requestAverageDecryption()
-      ).to.emit(salaryLens, "AverageRequested");
+      // (100000 + 3000 + 6000) / 3, not (1000000 + 3000 + 6000) / 3
+      expect(await salaryLens.getLastCompensation(POOL_ID, BOUNDED_ROUND_ID, alice.address, BONUS_AVERAGE)).to.equal(
+        36333
+      );
     });
   });
 
@@ -256,24 +4133,24 @@ describe("SalaryLens", function () {
      * @notice Test getCount returns correct value
      * @dev Should accurately reflect number of submissions
      */
-    it("Should return correct count via getCount()", async function () {
+    it("Should return correct count via getCount(POOL_ID)", async function () {
       const { salaryLens, alice, bob } = await loadFixture(
         deploySalaryLensFixture
       );
 
-      expect(await salaryLens.getCount()).to.equal(0);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(0);
 
-      const salary1 = createMockEncryptedInput(50000);
+      const salary1 = await encryptSalary(salaryLens, alice, 50000);
       await salaryLens
         .connect(alice)
-        .addSalary(salary1.encryptedSalary, salary1.inputProof);
-      expect(await salaryLens.getCount()).to.equal(1);
+        .addSalary(POOL_ID, salary1.encryptedSalary, salary1.inputProof, []);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
 
-      const salary2 = createMockEncryptedInput(60000);
+      const salary2 = await encryptSalary(salaryLens, bob, 60000);
       await salaryLens
         .connect(bob)
-        .addSalary(salary2.encryptedSalary, salary2.inputProof);
-      expect(await salaryLens.getCount()).to.equal(2);
+        .addSalary(POOL_ID, salary2.encryptedSalary, salary2.inputProof, []);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
     });
 
     /**
@@ -285,16 +4162,16 @@ describe("SalaryLens", function () {
         deploySalaryLensFixture
       );
 
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.false;
-      expect(await salaryLens.hasUserSubmitted(bob.address)).to.be.false;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.false;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, bob.address)).to.be.false;
 
-      const salary = createMockEncryptedInput(50000);
+      const salary = await encryptSalary(salaryLens, alice, 50000);
       await salaryLens
         .connect(alice)
-        .addSalary(salary.encryptedSalary, salary.inputProof);
+        .addSalary(POOL_ID, salary.encryptedSalary, salary.inputProof, []);
 
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(bob.address)).to.be.false;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, bob.address)).to.be.false;
     });
   });
 
@@ -303,7 +4180,8 @@ describe("SalaryLens", function () {
   describe("Integration: Full Flow", function () {
     /**
      * @notice Test complete workflow: 3 users submit salaries and calculate average
-     * @dev This is the main use case demonstrating encrypted aggregation
+     * @dev This is the main use case demonstrating encrypted aggregation: the average is
+     *      publicly decrypted and verified, then readable by everyone
      *
      * Scenario:
      * - Alice submits $50,000
@@ -315,6 +4193,7 @@ describe("SalaryLens", function () {
       const { salaryLens, alice, bob, charlie, dave } = await loadFixture(
         deploySalaryLensFixture
       );
+      await mineAboveMockCoprocessorHead();
 
       // Submit three salaries
       const salaries = [
@@ -324,28 +4203,31 @@ describe("SalaryLens", function () {
       ];
 
       for (const { user, amount } of salaries) {
-        const { encryptedSalary, inputProof } = createMockEncryptedInput(amount);
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, amount);
         await salaryLens
           .connect(user)
-          .addSalary(encryptedSalary, inputProof);
+          .addSalary(POOL_ID, encryptedSalary, inputProof, []);
       }
 
       // Verify count
-      expect(await salaryLens.getCount()).to.equal(3);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(3);
 
       // Verify all users are marked as submitted
-      expect(await salaryLens.hasUserSubmitted(alice.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(bob.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(charlie.address)).to.be.true;
-      expect(await salaryLens.hasUserSubmitted(dave.address)).to.be.false;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, alice.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, bob.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, charlie.address)).to.be.true;
+      expect(await salaryLens.hasUserSubmitted(POOL_ID, dave.address)).to.be.false;
 
-      // Request average (would trigger Gateway decryption on real network)
+      // Close the round, request the average and verify its public decryption
+      await salaryLens.closeRound(POOL_ID);
       await expect(
-        salaryLens.connect(dave).requestAverageDecryption()
+        salaryLens.connect(dave).requestAverageDecryption(POOL_ID, ROUND_ID)
       ).to.emit(salaryLens, "AverageRequested");
+      await verifyPendingAverage(salaryLens, POOL_ID, ROUND_ID);
 
-      // Note: On local network without Gateway, we can't verify the actual average
-      // On Zama devnet, the Gateway callback would set lastDecryptedAverage to 60000
+      const [average, count] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(60000);
+      expect(count).to.equal(3);
     });
 
     /**
@@ -353,20 +4235,177 @@ describe("SalaryLens", function () {
      * @dev Stress test with multiple users
      */
     it("Should handle multiple sequential submissions correctly", async function () {
-      const { salaryLens } = await loadFixture(deploySalaryLensFixture);
+      const { salaryLens, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
       const signers = await ethers.getSigners();
 
       // Submit salaries from first 5 signers
       for (let i = 0; i < 5; i++) {
-        const { encryptedSalary, inputProof } = createMockEncryptedInput(
+        const { encryptedSalary, inputProof } = await encryptSalary(
+          salaryLens,
+          signers[i],
           40000 + i * 10000
         );
         await salaryLens
           .connect(signers[i])
-          .addSalary(encryptedSalary, inputProof);
+          .addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(5);
+      const { total, min, max } = await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID);
+      expect([total, min, max]).to.deep.equal([300000n, 40000n, 80000n]);
+    });
+  });
+
+  // ============ Salary Bounds Tests ============
+
+  describe("Salary Bounds", function () {
+    /** Encrypted bounds the fixture sets on pool 0 */
+    const LOWER_BOUND = 10000;
+    const UPPER_BOUND = 1000000;
+
+    /**
+     * @notice Encrypt both bounds in one input, as setSalaryBounds() takes a single proof
+     */
+    async function encryptBounds(contract: SalaryLens, admin: HardhatEthersSigner) {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(await contract.getAddress(), admin.address)
+        .add32(LOWER_BOUND)
+        .add32(UPPER_BOUND)
+        .encrypt();
+      return { lower: ethers.hexlify(handles[0]), upper: ethers.hexlify(handles[1]), inputProof: ethers.hexlify(inputProof) };
+    }
+
+    /**
+     * @notice Set salary bounds on pool 0 from round 1 onwards
+     * @dev Bounds can only be set between rounds, so round 0 is closed first
+     */
+    async function deployWithBoundsFixture() {
+      const fixture = await deploySalaryLensFixture();
+      const { salaryLens, owner } = fixture;
+
+      await salaryLens.closeRound(POOL_ID);
+      const { lower, upper, inputProof } = await encryptBounds(salaryLens, owner);
+      await salaryLens.setSalaryBounds(POOL_ID, lower, upper, inputProof);
+
+      const now = await time.latest();
+      await salaryLens.openRound(POOL_ID, now, now + ROUND_DURATION);
+
+      return fixture;
+    }
+
+    /**
+     * @notice Test that bounds are admin-only and can only change between rounds
+     * @dev Should revert with MissingRole or RoundNotClosed, and emit SalaryBoundsUpdated otherwise
+     */
+    it("Should only set bounds between rounds", async function () {
+      const { salaryLens, owner, alice } = await loadFixture(deploySalaryLensFixture);
+      const { lower, upper, inputProof } = await encryptBounds(salaryLens, owner);
+
+      expect(await salaryLens.hasSalaryBounds(POOL_ID)).to.equal(false);
+
+      await expect(
+        salaryLens.setSalaryBounds(POOL_ID, lower, upper, inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "RoundNotClosed");
+
+      await salaryLens.closeRound(POOL_ID);
+
+      await expect(
+        salaryLens.connect(alice).setSalaryBounds(POOL_ID, lower, upper, inputProof)
+      ).to.be.revertedWithCustomError(salaryLens, "MissingRole");
+
+      await expect(salaryLens.setSalaryBounds(POOL_ID, lower, upper, inputProof))
+        .to.emit(salaryLens, "SalaryBoundsUpdated")
+        .withArgs(POOL_ID);
+
+      expect(await salaryLens.hasSalaryBounds(POOL_ID)).to.equal(true);
+    });
+
+    /**
+     * @notice Test that out-of-range salaries are neutralised without being rejected
+     * @dev Every submission is counted and emits the same event; the recorded value is the
+     *      clamped ciphertext, not the submitted one, and only its submitter can decrypt whether
+     *      it was accepted
+     */
+    it("Should clamp every submission without revealing whether it was in range", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deployWithBoundsFixture);
+      await mineAboveMockCoprocessorHead();
+      const roundId = 1;
+
+      const tooLow = await encryptSalary(salaryLens, alice, 0);
+      const inRange = await encryptSalary(salaryLens, bob, 50000);
+      const tooHigh = await encryptSalary(salaryLens, charlie, 2 ** 32 - 1);
+
+      await expect(salaryLens.connect(alice).addSalary(POOL_ID, tooLow.encryptedSalary, tooLow.inputProof, []))
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, roundId, alice.address, 1);
+      await expect(salaryLens.connect(bob).addSalary(POOL_ID, inRange.encryptedSalary, inRange.inputProof, []))
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, roundId, bob.address, 2);
+      await expect(salaryLens.connect(charlie).addSalary(POOL_ID, tooHigh.encryptedSalary, tooHigh.inputProof, []))
+        .to.emit(salaryLens, "SalarySubmitted")
+        .withArgs(POOL_ID, roundId, charlie.address, 3);
+
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(3);
+      expect(await salaryLens.getSubmissionHandle(POOL_ID, roundId, alice.address)).to.not.equal(tooLow.encryptedSalary);
+
+      const contractAddress = await salaryLens.getAddress();
+      const expected = [
+        { user: alice, accepted: false, recorded: BigInt(LOWER_BOUND) },
+        { user: bob, accepted: true, recorded: 50000n },
+        { user: charlie, accepted: false, recorded: BigInt(UPPER_BOUND) },
+      ];
+      for (const { user, accepted, recorded } of expected) {
+        const flag = await salaryLens.getAcceptedHandle(POOL_ID, roundId, user.address);
+        expect(await fhevm.userDecryptEbool(flag, contractAddress, user)).to.equal(accepted);
+        const handle = await salaryLens.getSubmissionHandle(POOL_ID, roundId, user.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, user)).to.equal(recorded);
       }
+      await expect(
+        fhevm.userDecryptEbool(await salaryLens.getAcceptedHandle(POOL_ID, roundId, alice.address), contractAddress, bob)
+      ).to.be.rejectedWith("not authorized to user decrypt");
+
+      const { total } = await decryptAggregates(salaryLens, dave, POOL_ID, roundId);
+      expect(total).to.equal(BigInt(LOWER_BOUND) + 50000n + BigInt(UPPER_BOUND));
+    });
+
+    /**
+     * @notice Test that each submitter gets an accepted flag handle, and only in pools with bounds
+     * @dev The flag is replaced on update and cleared on withdrawal
+     */
+    it("Should record an accepted flag per submission", async function () {
+      const { salaryLens, alice, bob } = await loadFixture(deployWithBoundsFixture);
+      const roundId = 1;
+
+      expect(await salaryLens.getAcceptedHandle(POOL_ID, roundId, alice.address)).to.equal(ethers.ZeroHash);
+
+      const salary = await encryptSalary(salaryLens, alice, 50000);
+      await salaryLens.connect(alice).addSalary(POOL_ID, salary.encryptedSalary, salary.inputProof, []);
+      const flag = await salaryLens.getAcceptedHandle(POOL_ID, roundId, alice.address);
+      expect(flag).to.not.equal(ethers.ZeroHash);
+      expect(await salaryLens.getAcceptedHandle(POOL_ID, roundId, bob.address)).to.equal(ethers.ZeroHash);
+
+      const raise = await encryptSalary(salaryLens, alice, 65000);
+      await salaryLens.connect(alice).updateSalary(POOL_ID, raise.encryptedSalary, raise.inputProof);
+      expect(await salaryLens.getAcceptedHandle(POOL_ID, roundId, alice.address)).to.not.equal(flag);
+
+      await salaryLens.connect(alice).withdrawSalary(POOL_ID, roundId);
+      expect(await salaryLens.getAcceptedHandle(POOL_ID, roundId, alice.address)).to.equal(ethers.ZeroHash);
+    });
+
+    /**
+     * @notice Test that pools without bounds record salaries unchanged and no flag
+     */
+    it("Should not validate salaries in pools without bounds", async function () {
+      const { salaryLens, alice, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
 
-      expect(await salaryLens.getCount()).to.equal(5);
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 0);
+      await salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+
+      expect(await salaryLens.getAcceptedHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(ethers.ZeroHash);
+      expect(await salaryLens.getSubmissionHandle(POOL_ID, ROUND_ID, alice.address)).to.equal(encryptedSalary);
+      expect((await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID)).total).to.equal(0n);
     });
   });
 
@@ -375,18 +4414,23 @@ describe("SalaryLens", function () {
   describe("Edge Cases", function () {
     /**
      * @notice Test with minimum salary value (0)
-     * @dev Contract should accept zero salaries
+     * @dev Contract should accept zero salaries and count them in the range
      */
     it("Should accept zero salary value", async function () {
-      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+      const { salaryLens, alice, bob, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
 
-      const { encryptedSalary, inputProof } = createMockEncryptedInput(0);
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, 0);
 
       await expect(
-        salaryLens.connect(alice).addSalary(encryptedSalary, inputProof)
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
       ).to.emit(salaryLens, "SalarySubmitted");
+      const other = await encryptSalary(salaryLens, bob, 50000);
+      await salaryLens.connect(bob).addSalary(POOL_ID, other.encryptedSalary, other.inputProof, []);
 
-      expect(await salaryLens.getCount()).to.equal(1);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(2);
+      const { total, min, max } = await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID);
+      expect([total, min, max]).to.deep.equal([50000n, 0n, 50000n]);
     });
 
     /**
@@ -394,16 +4438,59 @@ describe("SalaryLens", function () {
      * @dev Contract should handle large values without overflow
      */
     it("Should accept maximum uint32 salary value", async function () {
-      const { salaryLens, alice } = await loadFixture(deploySalaryLensFixture);
+      const { salaryLens, alice, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
 
       const maxUint32 = 2 ** 32 - 1;
-      const { encryptedSalary, inputProof } = createMockEncryptedInput(maxUint32);
+      const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, alice, maxUint32);
 
       await expect(
-        salaryLens.connect(alice).addSalary(encryptedSalary, inputProof)
+        salaryLens.connect(alice).addSalary(POOL_ID, encryptedSalary, inputProof, [])
       ).to.emit(salaryLens, "SalarySubmitted");
 
-      expect(await salaryLens.getCount()).to.equal(1);
+      expect(await salaryLens.getCount(POOL_ID)).to.equal(1);
+      const { total, sumOfSquares, max } = await decryptAggregates(salaryLens, dave, POOL_ID, ROUND_ID);
+      expect([total, sumOfSquares, max]).to.deep.equal([BigInt(maxUint32), BigInt(maxUint32) ** 2n, BigInt(maxUint32)]);
+    });
+
+    /**
+     * @notice Test that totals above 2^32 are aggregated without wrapping
+     * @dev Three maximal salaries sum to 3 * (2^32 - 1). An auditor decrypts the exact 64-bit
+     *      total, and the average is publicly decrypted and verified through verifyDecryption()
+     */
+    it("Should average totals above 2^32 in 64 bits", async function () {
+      const { salaryLens, alice, bob, charlie, dave } = await loadFixture(deploySalaryLensFixture);
+      await mineAboveMockCoprocessorHead();
+
+      const AUDITOR = 2;
+      await salaryLens.grantRole(AUDITOR, dave.address);
+
+      const maxUint32 = 2 ** 32 - 1;
+      for (const user of [alice, bob, charlie]) {
+        const { encryptedSalary, inputProof } = await encryptSalary(salaryLens, user, maxUint32);
+        await salaryLens.connect(user).addSalary(POOL_ID, encryptedSalary, inputProof, []);
+      }
+
+      const [totalHandle] = await salaryLens.getAuditHandles(POOL_ID, ROUND_ID);
+      const total = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        totalHandle,
+        await salaryLens.getAddress(),
+        dave
+      );
+      expect(total).to.equal(3n * BigInt(maxUint32));
+      expect(total).to.be.greaterThan(2n ** 32n);
+
+      await salaryLens.closeRound(POOL_ID);
+      await salaryLens.connect(alice).requestAverageDecryption(POOL_ID, ROUND_ID);
+
+      const [handle] = await salaryLens.getPendingHandle(POOL_ID, ROUND_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      await salaryLens.verifyDecryption(POOL_ID, ROUND_ID, abiEncodedClearValues, decryptionProof);
+
+      const [average, count] = await salaryLens.getLatestVerifiedAverage(POOL_ID, ROUND_ID);
+      expect(average).to.equal(maxUint32);
+      expect(count).to.equal(3);
     });
   });
 });